@@ -0,0 +1,13 @@
+namespace RecipeCollection.DTOs;
+
+// manifest.json at the root of a backup archive
+public class BackupManifestDto
+{
+    public required string Format { get; set; }
+    public int Version { get; set; }
+    public DateTime ExportedAt { get; set; }
+    public int RecipeCount { get; set; }
+    public int ImageCount { get; set; }
+    // Images a recipe referred to that could not be read from storage at export time
+    public List<string> MissingImages { get; set; } = new();
+}
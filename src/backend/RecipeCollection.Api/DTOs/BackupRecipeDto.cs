@@ -0,0 +1,23 @@
+namespace RecipeCollection.DTOs;
+
+// One recipes/{id}.json file in a backup archive. ImageRefs are the refs at export time;
+// each one's bytes are stored under images/{imageRef}.
+public class BackupRecipeDto
+{
+    public required string Id { get; set; }
+    public required string Title { get; set; }
+    public required string RawText { get; set; }
+    public List<string> ImageRefs { get; set; } = new();
+    public int? Servings { get; set; }
+    public string? OcrLanguage { get; set; }
+    public List<string> Steps { get; set; } = new();
+    public int? PrepTimeMinutes { get; set; }
+    public int? CookTimeMinutes { get; set; }
+    public string? Yield { get; set; }
+    public string? SourceBook { get; set; }
+    public string? SourcePage { get; set; }
+    public List<string> Tags { get; set; } = new();
+    public List<IngredientDto> Ingredients { get; set; } = new();
+    public DateTime CreatedAt { get; set; }
+    public DateTime UpdatedAt { get; set; }
+}
@@ -0,0 +1,8 @@
+namespace RecipeCollection.DTOs;
+
+public class DraftPageDto
+{
+    public required string ImageRef { get; set; }
+    // Extracted text of this page
+    public string Text { get; set; } = string.Empty;
+}
@@ -0,0 +1,14 @@
+namespace RecipeCollection.DTOs;
+
+// The section fields as typed in the form: one ingredient or step per line, numbers as text
+public class DraftSectionsDto
+{
+    public string Ingredients { get; set; } = string.Empty;
+    public string Steps { get; set; } = string.Empty;
+    public string Servings { get; set; } = string.Empty;
+    public string PrepTime { get; set; } = string.Empty;
+    public string CookTime { get; set; } = string.Empty;
+    public string Yield { get; set; } = string.Empty;
+    public string SourceBook { get; set; } = string.Empty;
+    public string SourcePage { get; set; } = string.Empty;
+}
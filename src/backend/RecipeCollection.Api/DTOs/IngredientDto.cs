@@ -4,5 +4,9 @@ public class IngredientDto
 {
     public required string FreeText { get; set; }
     public string? CanonicalName { get; set; }
+    public double? Quantity { get; set; }
+    public double? QuantityMax { get; set; }
+    public string? Unit { get; set; }
+    public string? Name { get; set; }
     public int Position { get; set; }
 }
\ No newline at end of file
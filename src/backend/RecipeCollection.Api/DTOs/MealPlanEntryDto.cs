@@ -0,0 +1,12 @@
+namespace RecipeCollection.DTOs;
+
+public class MealPlanEntryDto
+{
+    // Date within the planned week, yyyy-MM-dd
+    public required string Date { get; set; }
+    // "breakfast", "lunch" or "dinner"
+    public required string Meal { get; set; }
+    public required string RecipeId { get; set; }
+    // Filled in by the API from the recipe; ignored when saving
+    public string RecipeTitle { get; set; } = string.Empty;
+}
@@ -0,0 +1,13 @@
+namespace RecipeCollection.DTOs;
+
+public class OcrWordDto
+{
+    public required string Text { get; set; }
+    // 0-1, where low values mark words the OCR engine was unsure about
+    public double Confidence { get; set; }
+    // Bounding box as fractions of the uploaded image's width and height
+    public double X { get; set; }
+    public double Y { get; set; }
+    public double Width { get; set; }
+    public double Height { get; set; }
+}
@@ -0,0 +1,10 @@
+namespace RecipeCollection.DTOs;
+
+public class OwnerDto
+{
+    // "user:{userId}" or "household:{householdId}"
+    public required string Id { get; set; }
+    // "user" or "household"
+    public required string Kind { get; set; }
+    public required string Name { get; set; }
+}
@@ -0,0 +1,6 @@
+namespace RecipeCollection.DTOs.RequestModels;
+
+public class CreateHouseholdRequest
+{
+    public required string Name { get; set; }
+}
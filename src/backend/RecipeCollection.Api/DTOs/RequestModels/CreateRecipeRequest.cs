@@ -4,6 +4,19 @@ public class CreateRecipeRequest
 {
     public required string Title { get; set; }
     public required string RawText { get; set; }
-    public required string ImageRef { get; set; }
+    // Single-page recipes may send ImageRef alone; multi-page recipes send ImageRefs in page order.
+    // Both are omitted for imported recipes, which have no photo.
+    public string? ImageRef { get; set; }
+    public List<string>? ImageRefs { get; set; }
+    public int? Servings { get; set; }
+    public string? OcrLanguage { get; set; }
+    // One ingredient per line; when omitted, ingredients are parsed from RawText
+    public List<string>? IngredientLines { get; set; }
+    public List<string>? Steps { get; set; }
+    public int? PrepTimeMinutes { get; set; }
+    public int? CookTimeMinutes { get; set; }
+    public string? Yield { get; set; }
+    public string? SourceBook { get; set; }
+    public string? SourcePage { get; set; }
     public List<string>? Tags { get; set; }
 }
\ No newline at end of file
@@ -0,0 +1,11 @@
+namespace RecipeCollection.DTOs.RequestModels;
+
+// Sharing again with the same user replaces the permission
+public class CreateShareRequest
+{
+    // The recipe to share; null shares the whole collection the user adds recipes to
+    public string? RecipeId { get; set; }
+    public required string UserId { get; set; }
+    // "read" or "edit"
+    public required string Permission { get; set; }
+}
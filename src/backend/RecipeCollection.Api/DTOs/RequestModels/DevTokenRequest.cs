@@ -0,0 +1,9 @@
+namespace RecipeCollection.DTOs.RequestModels;
+
+public class DevTokenRequest
+{
+    // Becomes the user id, so signing in with the same name again reaches the same recipes
+    public required string UserName { get; set; }
+    // Defaults to the user name
+    public string? DisplayName { get; set; }
+}
@@ -0,0 +1,7 @@
+namespace RecipeCollection.DTOs.RequestModels;
+
+public class InviteHouseholdMemberRequest
+{
+    // Someone who has signed in at least once
+    public required string UserId { get; set; }
+}
@@ -3,4 +3,6 @@ namespace RecipeCollection.DTOs.RequestModels;
 public class OcrRequest
 {
     public required IFormFile Image { get; set; }
+    // Omitted means the configured Tesseract:Language
+    public string? Language { get; set; }
 }
\ No newline at end of file
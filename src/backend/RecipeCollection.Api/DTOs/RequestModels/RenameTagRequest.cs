@@ -0,0 +1,6 @@
+namespace RecipeCollection.DTOs.RequestModels;
+
+public class RenameTagRequest
+{
+    public required string NewTag { get; set; }
+}
\ No newline at end of file
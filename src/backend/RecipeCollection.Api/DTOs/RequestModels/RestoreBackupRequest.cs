@@ -0,0 +1,10 @@
+namespace RecipeCollection.DTOs.RequestModels;
+
+public class RestoreBackupRequest
+{
+    public required IFormFile File { get; set; }
+    // What to do with a recipe whose id already exists: "skip" (default), "overwrite" or "duplicate"
+    public string? Mode { get; set; }
+    // Reports what would happen without changing anything
+    public bool DryRun { get; set; }
+}
@@ -0,0 +1,14 @@
+namespace RecipeCollection.DTOs.RequestModels;
+
+// Replaces the whole draft; a draft is saved often and never validated as a recipe until it is finished
+public class SaveDraftRequest
+{
+    public string Title { get; set; } = string.Empty;
+    // Null while the text still follows the extracted pages
+    public string? RawText { get; set; }
+    public string TagsInput { get; set; } = string.Empty;
+    public string? OcrLanguage { get; set; }
+    public List<DraftPageDto> Pages { get; set; } = new();
+    // Null while the sections are still split from the text
+    public DraftSectionsDto? Sections { get; set; }
+}
@@ -0,0 +1,7 @@
+namespace RecipeCollection.DTOs.RequestModels;
+
+// Replaces every entry of the week
+public class SaveMealPlanRequest
+{
+    public List<MealPlanEntryDto> Entries { get; set; } = new();
+}
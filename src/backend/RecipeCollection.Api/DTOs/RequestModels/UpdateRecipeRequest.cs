@@ -0,0 +1,18 @@
+namespace RecipeCollection.DTOs.RequestModels;
+
+public class UpdateRecipeRequest
+{
+    public required string Title { get; set; }
+    public required string RawText { get; set; }
+    public int? Servings { get; set; }
+    // Replaces the ingredients when given, an empty list removing them all; otherwise they are re-parsed from RawText if it changed
+    public List<string>? IngredientLines { get; set; }
+    // Omitted keeps the current steps. The other metadata, like Servings, is cleared when omitted.
+    public List<string>? Steps { get; set; }
+    public int? PrepTimeMinutes { get; set; }
+    public int? CookTimeMinutes { get; set; }
+    public string? Yield { get; set; }
+    public string? SourceBook { get; set; }
+    public string? SourcePage { get; set; }
+    public List<string>? Tags { get; set; }
+}
\ No newline at end of file
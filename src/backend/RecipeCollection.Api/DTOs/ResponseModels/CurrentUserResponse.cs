@@ -0,0 +1,11 @@
+namespace RecipeCollection.DTOs.ResponseModels;
+
+public class CurrentUserResponse
+{
+    public required string Id { get; set; }
+    public required string Name { get; set; }
+    // Null when the user isn't in a household
+    public HouseholdResponse? Household { get; set; }
+    // Households that have invited the user
+    public List<HouseholdInvitationResponse> Invitations { get; set; } = new();
+}
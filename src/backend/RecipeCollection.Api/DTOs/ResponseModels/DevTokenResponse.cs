@@ -0,0 +1,8 @@
+namespace RecipeCollection.DTOs.ResponseModels;
+
+public class DevTokenResponse
+{
+    public required string AccessToken { get; set; }
+    public DateTime ExpiresAt { get; set; }
+    public required CurrentUserResponse User { get; set; }
+}
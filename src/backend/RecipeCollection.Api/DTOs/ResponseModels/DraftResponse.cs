@@ -0,0 +1,14 @@
+namespace RecipeCollection.DTOs.ResponseModels;
+
+public class DraftResponse
+{
+    public required string Id { get; set; }
+    public required string Title { get; set; }
+    public string? RawText { get; set; }
+    public required string TagsInput { get; set; }
+    public string? OcrLanguage { get; set; }
+    public List<DraftPageDto> Pages { get; set; } = new();
+    public DraftSectionsDto? Sections { get; set; }
+    public DateTime CreatedAt { get; set; }
+    public DateTime UpdatedAt { get; set; }
+}
@@ -0,0 +1,8 @@
+namespace RecipeCollection.DTOs.ResponseModels;
+
+public class HouseholdInvitationResponse
+{
+    // The household's id and name
+    public required string Id { get; set; }
+    public required string Name { get; set; }
+}
@@ -0,0 +1,11 @@
+namespace RecipeCollection.DTOs.ResponseModels;
+
+public class HouseholdResponse
+{
+    public required string Id { get; set; }
+    public required string Name { get; set; }
+    // In the order they joined
+    public List<UserDto> Members { get; set; } = new();
+    // Invited users who haven't accepted yet
+    public List<UserDto> Invited { get; set; } = new();
+}
@@ -0,0 +1,10 @@
+namespace RecipeCollection.DTOs.ResponseModels;
+
+public class MealPlanResponse
+{
+    // The Monday the week starts on, yyyy-MM-dd
+    public required string WeekStart { get; set; }
+    public List<MealPlanEntryDto> Entries { get; set; } = new();
+    // Null for a week that has never been planned
+    public DateTime? UpdatedAt { get; set; }
+}
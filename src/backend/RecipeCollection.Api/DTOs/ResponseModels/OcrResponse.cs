@@ -4,4 +4,7 @@ public class OcrResponse
 {
     public required string ImageRef { get; set; }
     public required string ExtractedText { get; set; }
+    public required string Language { get; set; }
+    // In reading order; empty when the OCR engine does not report word positions
+    public List<OcrWordDto> Words { get; set; } = new();
 }
\ No newline at end of file
@@ -6,7 +6,19 @@ public class RecipeDetailResponse
     public required string Title { get; set; }
     public required string RawText { get; set; }
     public required string ImageRef { get; set; }
+    public List<string> ImageRefs { get; set; } = new();
+    public int? Servings { get; set; }
+    public string? OcrLanguage { get; set; }
+    public List<string> Steps { get; set; } = new();
+    public int? PrepTimeMinutes { get; set; }
+    public int? CookTimeMinutes { get; set; }
+    public string? Yield { get; set; }
+    public string? SourceBook { get; set; }
+    public string? SourcePage { get; set; }
     public List<string> Tags { get; set; } = new();
     public List<IngredientDto> Ingredients { get; set; } = new();
     public DateTime CreatedAt { get; set; }
+    public required OwnerDto Owner { get; set; }
+    // What the signed-in user may do: "owner" (everything), "edit" (change it and its tags) or "read"
+    public required string Access { get; set; }
 }
\ No newline at end of file
@@ -0,0 +1,9 @@
+namespace RecipeCollection.DTOs.ResponseModels;
+
+public class RenameTagResponse
+{
+    public required string Tag { get; set; }
+    public int RecipeCount { get; set; }
+    public int UpdatedRecipeCount { get; set; }
+    public bool Merged { get; set; }
+}
@@ -0,0 +1,16 @@
+namespace RecipeCollection.DTOs.ResponseModels;
+
+public class RestoreReportResponse
+{
+    public bool DryRun { get; set; }
+    public required string Mode { get; set; }
+    public int Created { get; set; }
+    public int Overwritten { get; set; }
+    public int Skipped { get; set; }
+    public int Duplicated { get; set; }
+    // Images uploaded, or that would be on a dry run
+    public int ImageCount { get; set; }
+    public List<RestoredRecipeResponse> Recipes { get; set; } = new();
+    // Problems that did not stop the restore, such as an unreadable recipe file or a missing image
+    public List<string> Warnings { get; set; } = new();
+}
@@ -0,0 +1,12 @@
+namespace RecipeCollection.DTOs.ResponseModels;
+
+public class RestoredRecipeResponse
+{
+    // The id in the archive
+    public required string Id { get; set; }
+    public required string Title { get; set; }
+    // "created", "overwritten", "skipped" or "duplicated"
+    public required string Action { get; set; }
+    // The id the recipe was saved under; differs from Id when duplicated, or when Id is used in another collection
+    public string? NewId { get; set; }
+}
@@ -3,4 +3,8 @@ namespace RecipeCollection.DTOs.ResponseModels;
 public class SearchRecipesResponse
 {
     public List<RecipeSummaryResponse> Recipes { get; set; } = new();
+    public int Page { get; set; }
+    public int PageSize { get; set; }
+    public int TotalCount { get; set; }
+    public int TotalPages { get; set; }
 }
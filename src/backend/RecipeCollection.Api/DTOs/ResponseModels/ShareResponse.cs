@@ -0,0 +1,14 @@
+namespace RecipeCollection.DTOs.ResponseModels;
+
+public class ShareResponse
+{
+    public required string Id { get; set; }
+    public required OwnerDto Owner { get; set; }
+    // Null when the whole collection is shared
+    public string? RecipeId { get; set; }
+    public string? RecipeTitle { get; set; }
+    public required UserDto Grantee { get; set; }
+    // "read" or "edit"
+    public required string Permission { get; set; }
+    public DateTime CreatedAt { get; set; }
+}
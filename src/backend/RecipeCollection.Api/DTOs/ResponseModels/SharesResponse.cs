@@ -0,0 +1,9 @@
+namespace RecipeCollection.DTOs.ResponseModels;
+
+public class SharesResponse
+{
+    // Shares of the user's own and household's recipes
+    public List<ShareResponse> Given { get; set; } = new();
+    // Recipes and collections others have shared with the user
+    public List<ShareResponse> Received { get; set; } = new();
+}
@@ -0,0 +1,7 @@
+namespace RecipeCollection.DTOs.ResponseModels;
+
+public class TagCountResponse
+{
+    public required string Tag { get; set; }
+    public int RecipeCount { get; set; }
+}
@@ -0,0 +1,7 @@
+namespace RecipeCollection.DTOs;
+
+public class UserDto
+{
+    public required string Id { get; set; }
+    public required string Name { get; set; }
+}
@@ -0,0 +1,125 @@
+using FluentValidation;
+using Microsoft.EntityFrameworkCore;
+using RecipeCollection.Data;
+using RecipeCollection.Domain;
+using RecipeCollection.DTOs.RequestModels;
+using RecipeCollection.DTOs.ResponseModels;
+using RecipeCollection.Services;
+
+namespace RecipeCollection.Endpoints;
+
+public static class AuthEndpoints
+{
+    public static void MapAuthEndpoints(this WebApplication app)
+    {
+        // Only when the development token issuer is configured; with an identity provider, tokens come from it
+        if (app.Services.GetService<DevTokenIssuer>() != null)
+        {
+            app.MapPost("/auth/dev-token", async (
+                DevTokenRequest request,
+                IValidator<DevTokenRequest> validator,
+                DevTokenIssuer tokenIssuer,
+                RecipeDbContext dbContext,
+                LegacyRecipeMigration legacyRecipes,
+                ILogger<Program> logger) =>
+            {
+                var validationResult = await validator.ValidateAsync(request);
+                if (!validationResult.IsValid)
+                {
+                    var errors = string.Join("; ", validationResult.Errors.Select(e => e.ErrorMessage));
+                    return Results.BadRequest(new ErrorResponse
+                    {
+                        Code = "VALIDATION_ERROR",
+                        Message = errors
+                    });
+                }
+
+                var userId = request.UserName.Trim().ToLowerInvariant();
+                var name = string.IsNullOrWhiteSpace(request.DisplayName) ? request.UserName.Trim() : request.DisplayName.Trim();
+
+                try
+                {
+                    var (accessToken, expiresAt) = tokenIssuer.Issue(userId, name);
+                    var user = await SaveProfileAsync(dbContext, userId, name);
+                    await legacyRecipes.ClaimAsync(userId);
+
+                    logger.LogInformation("Issued development token for user: {UserId}", userId);
+
+                    return Results.Ok(new DevTokenResponse
+                    {
+                        AccessToken = accessToken,
+                        ExpiresAt = expiresAt,
+                        User = user
+                    });
+                }
+                catch (Exception ex)
+                {
+                    logger.LogError(ex, "Failed to issue development token for user: {UserId}", userId);
+                    return Results.Problem("Failed to sign in. Please try again.");
+                }
+            })
+            .WithName("CreateDevToken")
+            .Produces<DevTokenResponse>(StatusCodes.Status200OK)
+            .Produces<ErrorResponse>(StatusCodes.Status400BadRequest)
+            .AllowAnonymous();
+        }
+
+        // Called after signing in, so others can find the user to add them to a household or share with them.
+        // Recipes from before sign-in was added are moved into a collection on the way.
+        app.MapGet("/auth/me", async (
+            HttpContext context,
+            RecipeDbContext dbContext,
+            LegacyRecipeMigration legacyRecipes,
+            ILogger<Program> logger) =>
+        {
+            var userId = CurrentUser.GetId(context.User)!;
+
+            try
+            {
+                var user = await SaveProfileAsync(dbContext, userId, CurrentUser.GetName(context.User));
+                await legacyRecipes.ClaimAsync(userId);
+                return Results.Ok(user);
+            }
+            catch (Exception ex)
+            {
+                logger.LogError(ex, "Failed to load user: {UserId}", userId);
+                return Results.Problem("Failed to load your account. Please try again.");
+            }
+        })
+        .WithName("GetCurrentUser")
+        .Produces<CurrentUserResponse>(StatusCodes.Status200OK);
+    }
+
+    private static async Task<CurrentUserResponse> SaveProfileAsync(RecipeDbContext dbContext, string userId, string name)
+    {
+        var profile = await dbContext.UserProfiles
+            .FirstOrDefaultAsync(entity => entity.Id == userId && entity.Pk == "user");
+
+        if (profile == null)
+        {
+            profile = new UserProfile { Id = userId, Name = name };
+            dbContext.UserProfiles.Add(profile);
+            await dbContext.SaveChangesAsync();
+        }
+        else if (profile.Name != name)
+        {
+            profile.Name = name;
+            await dbContext.SaveChangesAsync();
+        }
+
+        var household = await AccessScope.FindHouseholdAsync(dbContext, userId);
+        var invitations = await dbContext.Households
+            .AsNoTracking()
+            .Where(entity => entity.Pk == "household" && entity.InvitedIds.Contains(userId))
+            .Select(entity => new HouseholdInvitationResponse { Id = entity.Id, Name = entity.Name })
+            .ToListAsync();
+
+        return new CurrentUserResponse
+        {
+            Id = profile.Id,
+            Name = profile.Name,
+            Household = household == null ? null : await HouseholdEndpoints.ToResponseAsync(dbContext, household),
+            Invitations = invitations
+        };
+    }
+}
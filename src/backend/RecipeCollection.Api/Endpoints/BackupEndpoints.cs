@@ -0,0 +1,102 @@
+using Microsoft.AspNetCore.Mvc;
+using RecipeCollection.DTOs.RequestModels;
+using RecipeCollection.DTOs.ResponseModels;
+using RecipeCollection.Services;
+
+namespace RecipeCollection.Endpoints;
+
+public static class BackupEndpoints
+{
+    public static void MapBackupEndpoints(this WebApplication app)
+    {
+        // A collection with many photographed pages adds up; each photo is at most 10 MB
+        const long MaxBackupSizeBytes = 500L * 1024 * 1024;
+
+        // The user's own and household's recipes; recipes shared with them are backed up by their owners.
+        // The archive is streamed as it is written, so a large collection is never held in memory.
+        app.MapGet("/backup", (
+            AccessScope scope,
+            IBackupService backupService,
+            ILogger<Program> logger) =>
+        {
+            return Results.Stream(async body =>
+            {
+                try
+                {
+                    await backupService.WriteBackupAsync(body, scope);
+                }
+                catch (Exception ex)
+                {
+                    // The response has already started, so the download is aborted rather than answered with an error
+                    logger.LogError(ex, "Failed to export backup");
+                    throw;
+                }
+            }, "application/zip", $"recipe-collection-{DateTime.UtcNow:yyyy-MM-dd}.zip");
+        })
+        .WithName("DownloadBackup")
+        .Produces(StatusCodes.Status200OK, null, "application/zip");
+
+        app.MapPost("/backup/restore", async (
+            [FromForm] RestoreBackupRequest request,
+            AccessScope scope,
+            IBackupService backupService,
+            ILogger<Program> logger) =>
+        {
+            var file = request.File;
+            if (file == null || file.Length == 0)
+            {
+                return Results.BadRequest(new ErrorResponse
+                {
+                    Code = "INVALID_REQUEST",
+                    Message = "Backup file is required"
+                });
+            }
+
+            if (file.Length > MaxBackupSizeBytes)
+            {
+                return Results.BadRequest(new ErrorResponse
+                {
+                    Code = "FILE_TOO_LARGE",
+                    Message = $"Backup size exceeds maximum allowed size of {MaxBackupSizeBytes / 1024 / 1024} MB"
+                });
+            }
+
+            var mode = string.IsNullOrWhiteSpace(request.Mode) ? "skip" : request.Mode.Trim().ToLowerInvariant();
+            if (!BackupService.Modes.Contains(mode))
+            {
+                return Results.BadRequest(new ErrorResponse
+                {
+                    Code = "VALIDATION_ERROR",
+                    Message = $"Invalid restore mode. Allowed values: {string.Join(", ", BackupService.Modes)}"
+                });
+            }
+
+            try
+            {
+                using var stream = file.OpenReadStream();
+                var report = await backupService.RestoreBackupAsync(stream, mode, request.DryRun, scope);
+                return Results.Ok(report);
+            }
+            catch (InvalidBackupException ex)
+            {
+                return Results.BadRequest(new ErrorResponse
+                {
+                    Code = "INVALID_BACKUP",
+                    Message = ex.Message
+                });
+            }
+            catch (Exception ex)
+            {
+                logger.LogError(ex, "Failed to restore backup");
+                return Results.Problem("Failed to restore backup. Recipes restored before the failure were kept.");
+            }
+        })
+        .WithName("RestoreBackup")
+        .Accepts<RestoreBackupRequest>("multipart/form-data")
+        .Produces<RestoreReportResponse>(StatusCodes.Status200OK)
+        .Produces<ErrorResponse>(StatusCodes.Status400BadRequest)
+        .WithMetadata(new RequestSizeLimitAttribute(MaxBackupSizeBytes))
+        .WithFormOptions(multipartBodyLengthLimit: MaxBackupSizeBytes)
+        .DisableAntiforgery();
+    }
+}
@@ -0,0 +1,220 @@
+using System.Text.RegularExpressions;
+using FluentValidation;
+using Microsoft.EntityFrameworkCore;
+using RecipeCollection.Data;
+using RecipeCollection.Domain;
+using RecipeCollection.DTOs;
+using RecipeCollection.DTOs.RequestModels;
+using RecipeCollection.DTOs.ResponseModels;
+using RecipeCollection.Services;
+
+namespace RecipeCollection.Endpoints;
+
+public static class DraftEndpoints
+{
+    // Drafts are created on the client, which keeps a local copy under the same id before the first save
+    private static readonly Regex DraftIdPattern = new("^[A-Za-z0-9_-]{1,100}$", RegexOptions.Compiled);
+
+    // Drafts are private to whoever is importing the recipe, even within a household
+    public static void MapDraftEndpoints(this WebApplication app)
+    {
+        app.MapGet("/drafts", async (
+            AccessScope scope,
+            RecipeDbContext dbContext,
+            ILogger<Program> logger) =>
+        {
+            try
+            {
+                var drafts = await dbContext.RecipeDrafts
+                    .AsNoTracking()
+                    .Where(draft => draft.Pk == scope.UserOwnerId)
+                    .ToListAsync();
+
+                return Results.Ok(drafts
+                    .OrderByDescending(draft => draft.UpdatedAt)
+                    .Select(ToResponse)
+                    .ToList());
+            }
+            catch (Exception ex)
+            {
+                logger.LogError(ex, "Failed to list drafts");
+                return Results.Problem("Failed to load drafts. Please try again.");
+            }
+        })
+        .WithName("GetDrafts")
+        .Produces<List<DraftResponse>>(StatusCodes.Status200OK);
+
+        app.MapGet("/drafts/{id}", async (
+            string id,
+            AccessScope scope,
+            RecipeDbContext dbContext,
+            ILogger<Program> logger) =>
+        {
+            try
+            {
+                var draft = await dbContext.RecipeDrafts
+                    .AsNoTracking()
+                    .FirstOrDefaultAsync(entity => entity.Id == id && entity.Pk == scope.UserOwnerId);
+
+                if (draft == null)
+                {
+                    return Results.NotFound(new ErrorResponse
+                    {
+                        Code = "NOT_FOUND",
+                        Message = "Draft not found"
+                    });
+                }
+
+                return Results.Ok(ToResponse(draft));
+            }
+            catch (Exception ex)
+            {
+                logger.LogError(ex, "Failed to get draft: {DraftId}", id);
+                return Results.Problem("Failed to load draft. Please try again.");
+            }
+        })
+        .WithName("GetDraft")
+        .Produces<DraftResponse>(StatusCodes.Status200OK)
+        .Produces<ErrorResponse>(StatusCodes.Status404NotFound);
+
+        // Creates the draft on its first save and replaces it after that
+        app.MapPut("/drafts/{id}", async (
+            string id,
+            SaveDraftRequest request,
+            IValidator<SaveDraftRequest> validator,
+            AccessScope scope,
+            RecipeDbContext dbContext,
+            ILogger<Program> logger) =>
+        {
+            if (!DraftIdPattern.IsMatch(id))
+            {
+                return Results.BadRequest(new ErrorResponse
+                {
+                    Code = "INVALID_REQUEST",
+                    Message = "Draft id must be 1-100 letters, digits, dashes or underscores"
+                });
+            }
+
+            var validationResult = await validator.ValidateAsync(request);
+            if (!validationResult.IsValid)
+            {
+                var errors = string.Join("; ", validationResult.Errors.Select(e => e.ErrorMessage));
+                return Results.BadRequest(new ErrorResponse
+                {
+                    Code = "VALIDATION_ERROR",
+                    Message = errors
+                });
+            }
+
+            try
+            {
+                var draft = await dbContext.RecipeDrafts
+                    .FirstOrDefaultAsync(entity => entity.Id == id && entity.Pk == scope.UserOwnerId);
+
+                if (draft == null)
+                {
+                    draft = new RecipeDraft { Id = id, Pk = scope.UserOwnerId };
+                    dbContext.RecipeDrafts.Add(draft);
+                }
+
+                draft.Title = request.Title;
+                draft.RawText = request.RawText;
+                draft.TagsInput = request.TagsInput;
+                draft.OcrLanguage = request.OcrLanguage;
+                draft.Pages = request.Pages
+                    .Select(page => new RecipeDraftPage { ImageRef = page.ImageRef, Text = page.Text })
+                    .ToList();
+                draft.Sections = request.Sections == null ? null : new RecipeDraftSections
+                {
+                    Ingredients = request.Sections.Ingredients,
+                    Steps = request.Sections.Steps,
+                    Servings = request.Sections.Servings,
+                    PrepTime = request.Sections.PrepTime,
+                    CookTime = request.Sections.CookTime,
+                    Yield = request.Sections.Yield,
+                    SourceBook = request.Sections.SourceBook,
+                    SourcePage = request.Sections.SourcePage
+                };
+                draft.UpdatedAt = DateTime.UtcNow;
+
+                await dbContext.SaveChangesAsync();
+
+                return Results.Ok(ToResponse(draft));
+            }
+            catch (Exception ex)
+            {
+                logger.LogError(ex, "Failed to save draft: {DraftId}", id);
+                return Results.Problem("Failed to save draft. Please try again.");
+            }
+        })
+        .WithName("SaveDraft")
+        .Produces<DraftResponse>(StatusCodes.Status200OK)
+        .Produces<ErrorResponse>(StatusCodes.Status400BadRequest);
+
+        // Photos are left in storage: uploads from /ocr belong to no draft, just like uploads for a recipe never saved
+        app.MapDelete("/drafts/{id}", async (
+            string id,
+            AccessScope scope,
+            RecipeDbContext dbContext,
+            ILogger<Program> logger) =>
+        {
+            try
+            {
+                var draft = await dbContext.RecipeDrafts
+                    .FirstOrDefaultAsync(entity => entity.Id == id && entity.Pk == scope.UserOwnerId);
+
+                if (draft == null)
+                {
+                    return Results.NotFound(new ErrorResponse
+                    {
+                        Code = "NOT_FOUND",
+                        Message = "Draft not found"
+                    });
+                }
+
+                dbContext.RecipeDrafts.Remove(draft);
+                await dbContext.SaveChangesAsync();
+
+                logger.LogInformation("Deleted draft: {DraftId}", id);
+
+                return Results.NoContent();
+            }
+            catch (Exception ex)
+            {
+                logger.LogError(ex, "Failed to delete draft: {DraftId}", id);
+                return Results.Problem("Failed to delete draft. Please try again.");
+            }
+        })
+        .WithName("DeleteDraft")
+        .Produces(StatusCodes.Status204NoContent)
+        .Produces<ErrorResponse>(StatusCodes.Status404NotFound);
+    }
+
+    private static DraftResponse ToResponse(RecipeDraft draft)
+    {
+        return new DraftResponse
+        {
+            Id = draft.Id,
+            Title = draft.Title,
+            RawText = draft.RawText,
+            TagsInput = draft.TagsInput,
+            OcrLanguage = draft.OcrLanguage,
+            Pages = draft.Pages
+                .Select(page => new DraftPageDto { ImageRef = page.ImageRef, Text = page.Text })
+                .ToList(),
+            Sections = draft.Sections == null ? null : new DraftSectionsDto
+            {
+                Ingredients = draft.Sections.Ingredients,
+                Steps = draft.Sections.Steps,
+                Servings = draft.Sections.Servings,
+                PrepTime = draft.Sections.PrepTime,
+                CookTime = draft.Sections.CookTime,
+                Yield = draft.Sections.Yield,
+                SourceBook = draft.Sections.SourceBook,
+                SourcePage = draft.Sections.SourcePage
+            },
+            CreatedAt = draft.CreatedAt,
+            UpdatedAt = draft.UpdatedAt
+        };
+    }
+}
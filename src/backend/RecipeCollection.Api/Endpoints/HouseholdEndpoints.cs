@@ -0,0 +1,311 @@
+using FluentValidation;
+using Microsoft.EntityFrameworkCore;
+using RecipeCollection.Data;
+using RecipeCollection.Domain;
+using RecipeCollection.DTOs.RequestModels;
+using RecipeCollection.DTOs.ResponseModels;
+using RecipeCollection.Services;
+
+namespace RecipeCollection.Endpoints;
+
+public static class HouseholdEndpoints
+{
+    public static void MapHouseholdEndpoints(this WebApplication app)
+    {
+        // The creator is the first member; recipes they add from now on go to the household's collection
+        app.MapPost("/households", async (
+            CreateHouseholdRequest request,
+            IValidator<CreateHouseholdRequest> validator,
+            AccessScope scope,
+            RecipeDbContext dbContext,
+            ILogger<Program> logger) =>
+        {
+            var validationResult = await validator.ValidateAsync(request);
+            if (!validationResult.IsValid)
+            {
+                var errors = string.Join("; ", validationResult.Errors.Select(e => e.ErrorMessage));
+                return Results.BadRequest(new ErrorResponse
+                {
+                    Code = "VALIDATION_ERROR",
+                    Message = errors
+                });
+            }
+
+            if (scope.Household != null)
+            {
+                return AlreadyInHousehold("You are already in a household");
+            }
+
+            try
+            {
+                var household = new Household
+                {
+                    Id = $"household_{Guid.NewGuid()}",
+                    Name = request.Name.Trim(),
+                    MemberIds = [scope.UserId]
+                };
+                dbContext.Households.Add(household);
+                await dbContext.SaveChangesAsync();
+
+                logger.LogInformation("Created household: {HouseholdId}", household.Id);
+
+                return Results.Created($"/households/{household.Id}", await ToResponseAsync(dbContext, household));
+            }
+            catch (Exception ex)
+            {
+                logger.LogError(ex, "Failed to create household");
+                return Results.Problem("Failed to create the household. Please try again.");
+            }
+        })
+        .WithName("CreateHousehold")
+        .Produces<HouseholdResponse>(StatusCodes.Status201Created)
+        .Produces<ErrorResponse>(StatusCodes.Status400BadRequest)
+        .Produces<ErrorResponse>(StatusCodes.Status409Conflict);
+
+        // Any member can invite someone who has signed in at least once and isn't in another household. They
+        // only join once they accept, so no one ends up sharing a collection they didn't ask for.
+        app.MapPost("/households/{id}/invitations", async (
+            string id,
+            InviteHouseholdMemberRequest request,
+            IValidator<InviteHouseholdMemberRequest> validator,
+            AccessScope scope,
+            RecipeDbContext dbContext,
+            ILogger<Program> logger) =>
+        {
+            var validationResult = await validator.ValidateAsync(request);
+            if (!validationResult.IsValid)
+            {
+                var errors = string.Join("; ", validationResult.Errors.Select(e => e.ErrorMessage));
+                return Results.BadRequest(new ErrorResponse
+                {
+                    Code = "VALIDATION_ERROR",
+                    Message = errors
+                });
+            }
+
+            var userId = request.UserId.Trim();
+
+            try
+            {
+                var household = await FindMemberHouseholdAsync(dbContext, id, scope);
+                if (household == null)
+                {
+                    return HouseholdNotFound();
+                }
+
+                if (!household.MemberIds.Contains(userId) && !household.InvitedIds.Contains(userId))
+                {
+                    var userExists = await dbContext.UserProfiles
+                        .AnyAsync(user => user.Id == userId && user.Pk == "user");
+                    if (!userExists)
+                    {
+                        return Results.NotFound(new ErrorResponse
+                        {
+                            Code = "NOT_FOUND",
+                            Message = $"No one has signed in as {userId} yet"
+                        });
+                    }
+
+                    if (await AccessScope.FindHouseholdAsync(dbContext, userId) != null)
+                    {
+                        return AlreadyInHousehold($"{userId} is already in a household");
+                    }
+
+                    household.InvitedIds.Add(userId);
+                    await dbContext.SaveChangesAsync();
+
+                    logger.LogInformation("Invited {UserId} to household: {HouseholdId}", userId, id);
+                }
+
+                return Results.Ok(await ToResponseAsync(dbContext, household));
+            }
+            catch (Exception ex)
+            {
+                logger.LogError(ex, "Failed to invite member to household: {HouseholdId}", id);
+                return Results.Problem("Failed to invite the member. Please try again.");
+            }
+        })
+        .WithName("InviteHouseholdMember")
+        .Produces<HouseholdResponse>(StatusCodes.Status200OK)
+        .Produces<ErrorResponse>(StatusCodes.Status400BadRequest)
+        .Produces<ErrorResponse>(StatusCodes.Status404NotFound)
+        .Produces<ErrorResponse>(StatusCodes.Status409Conflict);
+
+        // Accepting an invitation; from now on the recipes the user adds belong to the household
+        app.MapPost("/households/{id}/join", async (
+            string id,
+            AccessScope scope,
+            RecipeDbContext dbContext,
+            ILogger<Program> logger) =>
+        {
+            try
+            {
+                var household = await dbContext.Households
+                    .FirstOrDefaultAsync(entity => entity.Id == id && entity.Pk == "household" && entity.InvitedIds.Contains(scope.UserId));
+                if (household == null)
+                {
+                    return HouseholdNotFound();
+                }
+
+                if (scope.Household != null)
+                {
+                    return AlreadyInHousehold("Leave your household before joining another one");
+                }
+
+                household.InvitedIds.Remove(scope.UserId);
+                household.MemberIds.Add(scope.UserId);
+                await dbContext.SaveChangesAsync();
+
+                logger.LogInformation("{UserId} joined household: {HouseholdId}", scope.UserId, id);
+
+                return Results.Ok(await ToResponseAsync(dbContext, household));
+            }
+            catch (Exception ex)
+            {
+                logger.LogError(ex, "Failed to join household: {HouseholdId}", id);
+                return Results.Problem("Failed to join the household. Please try again.");
+            }
+        })
+        .WithName("JoinHousehold")
+        .Produces<HouseholdResponse>(StatusCodes.Status200OK)
+        .Produces<ErrorResponse>(StatusCodes.Status404NotFound)
+        .Produces<ErrorResponse>(StatusCodes.Status409Conflict);
+
+        // Members can take back an invitation, and the invited user can decline it
+        app.MapDelete("/households/{id}/invitations/{userId}", async (
+            string id,
+            string userId,
+            AccessScope scope,
+            RecipeDbContext dbContext,
+            ILogger<Program> logger) =>
+        {
+            try
+            {
+                var household = await dbContext.Households
+                    .FirstOrDefaultAsync(entity => entity.Id == id && entity.Pk == "household"
+                        && (entity.MemberIds.Contains(scope.UserId) || entity.InvitedIds.Contains(scope.UserId)));
+                if (household == null)
+                {
+                    return HouseholdNotFound();
+                }
+
+                if (!household.MemberIds.Contains(scope.UserId) && userId != scope.UserId)
+                {
+                    return Results.Json(new ErrorResponse
+                    {
+                        Code = "FORBIDDEN",
+                        Message = "You can only decline your own invitation"
+                    }, statusCode: StatusCodes.Status403Forbidden);
+                }
+
+                if (household.InvitedIds.Remove(userId))
+                {
+                    await dbContext.SaveChangesAsync();
+
+                    logger.LogInformation("Removed invitation for {UserId} to household: {HouseholdId}", userId, id);
+                }
+
+                return Results.NoContent();
+            }
+            catch (Exception ex)
+            {
+                logger.LogError(ex, "Failed to remove invitation to household: {HouseholdId}", id);
+                return Results.Problem("Failed to remove the invitation. Please try again.");
+            }
+        })
+        .WithName("DeleteHouseholdInvitation")
+        .Produces(StatusCodes.Status204NoContent)
+        .Produces<ErrorResponse>(StatusCodes.Status403Forbidden)
+        .Produces<ErrorResponse>(StatusCodes.Status404NotFound);
+
+        // Leaving the household: members can only remove themselves, as no member manages the others.
+        // Its recipes stay with it, so the last member can't leave.
+        app.MapDelete("/households/{id}/members/{userId}", async (
+            string id,
+            string userId,
+            AccessScope scope,
+            RecipeDbContext dbContext,
+            ILogger<Program> logger) =>
+        {
+            try
+            {
+                var household = await FindMemberHouseholdAsync(dbContext, id, scope);
+                if (household == null || !household.MemberIds.Contains(userId))
+                {
+                    return HouseholdNotFound();
+                }
+
+                if (userId != scope.UserId)
+                {
+                    return Results.Json(new ErrorResponse
+                    {
+                        Code = "FORBIDDEN",
+                        Message = "Members can only remove themselves from a household"
+                    }, statusCode: StatusCodes.Status403Forbidden);
+                }
+
+                if (household.MemberIds.Count == 1)
+                {
+                    return Results.Conflict(new ErrorResponse
+                    {
+                        Code = "CONFLICT",
+                        Message = "The last member can't leave the household, or its recipes would have no one to look after them"
+                    });
+                }
+
+                household.MemberIds.Remove(userId);
+                await dbContext.SaveChangesAsync();
+
+                logger.LogInformation("{UserId} left household: {HouseholdId}", userId, id);
+
+                return Results.NoContent();
+            }
+            catch (Exception ex)
+            {
+                logger.LogError(ex, "Failed to leave household: {HouseholdId}", id);
+                return Results.Problem("Failed to leave the household. Please try again.");
+            }
+        })
+        .WithName("RemoveHouseholdMember")
+        .Produces(StatusCodes.Status204NoContent)
+        .Produces<ErrorResponse>(StatusCodes.Status403Forbidden)
+        .Produces<ErrorResponse>(StatusCodes.Status404NotFound)
+        .Produces<ErrorResponse>(StatusCodes.Status409Conflict);
+    }
+
+    internal static async Task<HouseholdResponse> ToResponseAsync(RecipeDbContext dbContext, Household household)
+    {
+        return new HouseholdResponse
+        {
+            Id = household.Id,
+            Name = household.Name,
+            Members = await OwnerDirectory.DescribeUsersAsync(dbContext, household.MemberIds),
+            Invited = await OwnerDirectory.DescribeUsersAsync(dbContext, household.InvitedIds)
+        };
+    }
+
+    // Tracked for changes; a household the user isn't in is reported as missing
+    private static Task<Household?> FindMemberHouseholdAsync(RecipeDbContext dbContext, string id, AccessScope scope)
+    {
+        return dbContext.Households
+            .FirstOrDefaultAsync(entity => entity.Id == id && entity.Pk == "household" && entity.MemberIds.Contains(scope.UserId));
+    }
+
+    private static IResult HouseholdNotFound()
+    {
+        return Results.NotFound(new ErrorResponse
+        {
+            Code = "NOT_FOUND",
+            Message = "Household not found"
+        });
+    }
+
+    private static IResult AlreadyInHousehold(string message)
+    {
+        return Results.Conflict(new ErrorResponse
+        {
+            Code = "CONFLICT",
+            Message = message
+        });
+    }
+}
@@ -0,0 +1,66 @@
+using Azure;
+using Microsoft.AspNetCore.StaticFiles;
+using RecipeCollection.DTOs.ResponseModels;
+using RecipeCollection.Services;
+
+namespace RecipeCollection.Endpoints;
+
+public static class ImageEndpoints
+{
+    public static void MapImageEndpoints(this WebApplication app)
+    {
+        var contentTypeProvider = new FileExtensionContentTypeProvider();
+
+        // imageRef is a blob path such as "recipes/2026-02-10/{guid}_photo.jpg", so the route
+        // uses a catch-all parameter to keep the slashes.
+        // Anonymous, because <img> tags can't send a token; blob names include a GUID, so they can't be guessed.
+        app.MapGet("/images/{*imageRef}", async (
+            string imageRef,
+            HttpContext context,
+            IBlobStorageService blobService,
+            ILogger<Program> logger) =>
+        {
+            if (string.IsNullOrWhiteSpace(imageRef))
+            {
+                return Results.BadRequest(new ErrorResponse
+                {
+                    Code = "INVALID_REQUEST",
+                    Message = "Image reference is required"
+                });
+            }
+
+            try
+            {
+                var stream = await blobService.DownloadImageAsync(imageRef);
+
+                if (!contentTypeProvider.TryGetContentType(imageRef, out var contentType))
+                {
+                    contentType = "application/octet-stream";
+                }
+
+                // Only the browser may keep a copy: photos of private recipes must not end up in shared or proxy
+                // caches, and a day is as long as someone keeps seeing a photo after a share is taken back
+                context.Response.Headers.CacheControl = "private, max-age=86400";
+
+                return Results.Stream(stream, contentType);
+            }
+            catch (Exception ex) when (ex is FileNotFoundException || ex is RequestFailedException { Status: 404 })
+            {
+                return Results.NotFound(new ErrorResponse
+                {
+                    Code = "NOT_FOUND",
+                    Message = "Image not found"
+                });
+            }
+            catch (Exception ex)
+            {
+                logger.LogError(ex, "Failed to load image: {ImageRef}", imageRef);
+                return Results.Problem("Failed to load image.");
+            }
+        })
+        .WithName("GetImage")
+        .Produces(StatusCodes.Status200OK, null, "image/jpeg", "image/png", "image/webp")
+        .Produces<ErrorResponse>(StatusCodes.Status404NotFound)
+        .AllowAnonymous();
+    }
+}
@@ -0,0 +1,214 @@
+using System.Text;
+using FluentValidation;
+using Microsoft.EntityFrameworkCore;
+using RecipeCollection.Data;
+using RecipeCollection.Domain;
+using RecipeCollection.DTOs;
+using RecipeCollection.DTOs.RequestModels;
+using RecipeCollection.DTOs.ResponseModels;
+using RecipeCollection.Services;
+using RecipeCollection.Utilities;
+
+namespace RecipeCollection.Endpoints;
+
+public static class MealPlanEndpoints
+{
+    // A household plans its weeks together; anyone else plans their own
+    public static void MapMealPlanEndpoints(this WebApplication app)
+    {
+        // A week that has never been planned is returned empty, so the planner can show any week
+        app.MapGet("/meal-plans/{weekStart}", async (
+            string weekStart,
+            AccessScope scope,
+            RecipeDbContext dbContext,
+            ILogger<Program> logger) =>
+        {
+            if (!MealPlanWeek.TryParseWeekStart(weekStart, out _))
+            {
+                return InvalidWeekStart();
+            }
+
+            try
+            {
+                var plan = await FindPlan(dbContext, scope, weekStart);
+                return Results.Ok(plan == null ? new MealPlanResponse { WeekStart = weekStart } : ToResponse(plan));
+            }
+            catch (Exception ex)
+            {
+                logger.LogError(ex, "Failed to get meal plan: {WeekStart}", weekStart);
+                return Results.Problem("Failed to load the meal plan. Please try again.");
+            }
+        })
+        .WithName("GetMealPlan")
+        .Produces<MealPlanResponse>(StatusCodes.Status200OK)
+        .Produces<ErrorResponse>(StatusCodes.Status400BadRequest);
+
+        // Creates the week's plan on its first save and replaces it after that
+        app.MapPut("/meal-plans/{weekStart}", async (
+            string weekStart,
+            SaveMealPlanRequest request,
+            IValidator<SaveMealPlanRequest> validator,
+            AccessScope scope,
+            RecipeDbContext dbContext,
+            ILogger<Program> logger) =>
+        {
+            if (!MealPlanWeek.TryParseWeekStart(weekStart, out var monday))
+            {
+                return InvalidWeekStart();
+            }
+
+            var validationResult = await validator.ValidateAsync(request);
+            if (!validationResult.IsValid)
+            {
+                var errors = string.Join("; ", validationResult.Errors.Select(e => e.ErrorMessage));
+                return Results.BadRequest(new ErrorResponse
+                {
+                    Code = "VALIDATION_ERROR",
+                    Message = errors
+                });
+            }
+
+            var outsideWeek = request.Entries
+                .Where(entry => MealPlanWeek.TryParseDate(entry.Date, out var date) && !MealPlanWeek.Contains(monday, date))
+                .Select(entry => entry.Date)
+                .Distinct()
+                .ToList();
+            if (outsideWeek.Count > 0)
+            {
+                return Results.BadRequest(new ErrorResponse
+                {
+                    Code = "VALIDATION_ERROR",
+                    Message = $"Dates must fall within the week starting {weekStart}: {string.Join(", ", outsideWeek)}"
+                });
+            }
+
+            try
+            {
+                var ownerId = scope.HomeOwnerId;
+                var plan = await dbContext.MealPlans
+                    .FirstOrDefaultAsync(entity => entity.Pk == ownerId && entity.WeekStart == weekStart);
+
+                // Recipes already in the plan may have been deleted since; they keep the title saved with them
+                var titles = (plan?.Entries ?? [])
+                    .GroupBy(entry => entry.RecipeId)
+                    .ToDictionary(group => group.Key, group => group.First().RecipeTitle);
+                var recipeIds = request.Entries.Select(entry => entry.RecipeId).Distinct().ToList();
+                var visibleTitles = await scope.Visible(dbContext.Recipes.AsNoTracking())
+                    .Where(recipe => recipeIds.Contains(recipe.Id))
+                    .ToDictionaryAsync(recipe => recipe.Id, recipe => recipe.Title);
+
+                var missing = recipeIds.Where(id => !visibleTitles.ContainsKey(id) && !titles.ContainsKey(id)).ToList();
+                if (missing.Count > 0)
+                {
+                    return Results.BadRequest(new ErrorResponse
+                    {
+                        Code = "VALIDATION_ERROR",
+                        Message = $"Recipes not found: {string.Join(", ", missing)}"
+                    });
+                }
+
+                foreach (var (id, title) in visibleTitles)
+                {
+                    titles[id] = title;
+                }
+
+                if (plan == null)
+                {
+                    plan = new MealPlan { Id = MealPlanId(weekStart), Pk = ownerId, WeekStart = weekStart };
+                    dbContext.MealPlans.Add(plan);
+                }
+
+                plan.Entries = request.Entries
+                    .Select(entry => new MealPlanEntry
+                    {
+                        Date = entry.Date,
+                        Meal = entry.Meal,
+                        RecipeId = entry.RecipeId,
+                        RecipeTitle = titles[entry.RecipeId]
+                    })
+                    .ToList();
+                plan.UpdatedAt = DateTime.UtcNow;
+
+                await dbContext.SaveChangesAsync();
+
+                return Results.Ok(ToResponse(plan));
+            }
+            catch (Exception ex)
+            {
+                logger.LogError(ex, "Failed to save meal plan: {WeekStart}", weekStart);
+                return Results.Problem("Failed to save the meal plan. Please try again.");
+            }
+        })
+        .WithName("SaveMealPlan")
+        .Produces<MealPlanResponse>(StatusCodes.Status200OK)
+        .Produces<ErrorResponse>(StatusCodes.Status400BadRequest);
+
+        app.MapGet("/meal-plans/{weekStart}/calendar", async (
+            string weekStart,
+            AccessScope scope,
+            RecipeDbContext dbContext,
+            ILogger<Program> logger) =>
+        {
+            if (!MealPlanWeek.TryParseWeekStart(weekStart, out _))
+            {
+                return InvalidWeekStart();
+            }
+
+            try
+            {
+                var plan = await FindPlan(dbContext, scope, weekStart)
+                    ?? new MealPlan { Id = MealPlanId(weekStart), Pk = scope.HomeOwnerId, WeekStart = weekStart };
+                var calendar = MealPlanCalendar.Write(plan, DateTime.UtcNow);
+
+                return Results.File(Encoding.UTF8.GetBytes(calendar), "text/calendar", $"meal-plan-{weekStart}.ics");
+            }
+            catch (Exception ex)
+            {
+                logger.LogError(ex, "Failed to export meal plan: {WeekStart}", weekStart);
+                return Results.Problem("Failed to export the meal plan. Please try again.");
+            }
+        })
+        .WithName("DownloadMealPlanCalendar")
+        .Produces(StatusCodes.Status200OK, null, "text/calendar")
+        .Produces<ErrorResponse>(StatusCodes.Status400BadRequest);
+    }
+
+    // One plan per week in each collection: when two household members save a new week at once, the second
+    // save is rejected by the store instead of leaving two plans for the week
+    private static string MealPlanId(string weekStart) => $"mealplan_{weekStart}";
+
+    private static Task<MealPlan?> FindPlan(RecipeDbContext dbContext, AccessScope scope, string weekStart)
+    {
+        var ownerId = scope.HomeOwnerId;
+        return dbContext.MealPlans
+            .AsNoTracking()
+            .FirstOrDefaultAsync(entity => entity.Pk == ownerId && entity.WeekStart == weekStart);
+    }
+
+    private static IResult InvalidWeekStart()
+    {
+        return Results.BadRequest(new ErrorResponse
+        {
+            Code = "INVALID_REQUEST",
+            Message = "Week start must be a Monday in the format yyyy-MM-dd"
+        });
+    }
+
+    private static MealPlanResponse ToResponse(MealPlan plan)
+    {
+        return new MealPlanResponse
+        {
+            WeekStart = plan.WeekStart,
+            Entries = plan.Entries
+                .Select(entry => new MealPlanEntryDto
+                {
+                    Date = entry.Date,
+                    Meal = entry.Meal,
+                    RecipeId = entry.RecipeId,
+                    RecipeTitle = entry.RecipeTitle
+                })
+                .ToList(),
+            UpdatedAt = plan.UpdatedAt
+        };
+    }
+}
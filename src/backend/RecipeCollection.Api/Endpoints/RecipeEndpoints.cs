@@ -18,11 +18,16 @@ public static class RecipeEndpoints
         // Validation constants
         const long MaxImageSizeBytes = 10 * 1024 * 1024; // 10 MB
         var AllowedImageTypes = new[] { "image/jpeg", "image/jpg", "image/png", "image/webp" };
+        const int DefaultPageSize = 24;
+        const int MaxPageSize = 100;
+        var AllowedSortOrders = new[] { "newest", "oldest", "title" };
+        var AllowedTagMatchModes = new[] { "all", "any" };
 
         app.MapPost("/ocr", async (
             [FromForm] OcrRequest request,
             IOcrService ocrService,
             IBlobStorageService blobService,
+            IConfiguration configuration,
             ILogger<Program> logger) =>
         {
             var image = request.Image;
@@ -55,6 +60,17 @@ public static class RecipeEndpoints
                 });
             }
 
+            if (request.Language != null && !OcrLanguages.IsSupported(request.Language))
+            {
+                return Results.BadRequest(new ErrorResponse
+                {
+                    Code = "INVALID_REQUEST",
+                    Message = $"Invalid OCR language. Allowed languages: {string.Join(", ", OcrLanguages.Supported)}"
+                });
+            }
+
+            var language = request.Language ?? configuration["Tesseract:Language"] ?? "eng";
+
             try
             {
                 // Upload to blob storage
@@ -65,18 +81,28 @@ public static class RecipeEndpoints
                 }
 
                 // Extract text via OCR
-                string extractedText;
+                OcrResult ocrResult;
                 using (var stream = image.OpenReadStream())
                 {
-                    extractedText = await ocrService.ExtractTextFromImageAsync(stream);
+                    ocrResult = await ocrService.ExtractTextFromImageAsync(stream, language);
                 }
 
-                logger.LogInformation("OCR completed for image: {ImageRef}", imageRef);
+                logger.LogInformation("OCR completed for image: {ImageRef} ({Language})", imageRef, language);
 
                 return Results.Ok(new OcrResponse
                 {
                     ImageRef = imageRef,
-                    ExtractedText = extractedText
+                    ExtractedText = ocrResult.Text,
+                    Language = language,
+                    Words = ocrResult.Words.Select(w => new OcrWordDto
+                    {
+                        Text = w.Text,
+                        Confidence = w.Confidence,
+                        X = w.X,
+                        Y = w.Y,
+                        Width = w.Width,
+                        Height = w.Height
+                    }).ToList()
                 });
             }
             catch (Exception ex)
@@ -85,6 +111,7 @@ public static class RecipeEndpoints
                 return Results.Problem("OCR processing failed. Please try again.");
             }
         })
+        .WithName("RunOcr")
         .Accepts<OcrRequest>("multipart/form-data")
         .Produces<OcrResponse>(StatusCodes.Status200OK)
         .Produces<ErrorResponse>(StatusCodes.Status400BadRequest)
@@ -93,6 +120,7 @@ public static class RecipeEndpoints
         app.MapPost("/recipes", async (
             CreateRecipeRequest request,
             IValidator<CreateRecipeRequest> validator,
+            AccessScope scope,
             RecipeDbContext dbContext,
             IIngredientParser ingredientParser,
             ILogger<Program> logger) =>
@@ -114,59 +142,59 @@ public static class RecipeEndpoints
                 var recipeId = $"recipe_{Guid.NewGuid()}";
                 var normalizedTags = request.Tags != null ? TagNormalizer.Normalize(request.Tags) : [];
                 var searchText = SearchTextBuilder.BuildSearchText(request.Title, request.RawText);
+                var imageRefs = request.ImageRefs is { Count: > 0 }
+                    ? request.ImageRefs
+                    : string.IsNullOrWhiteSpace(request.ImageRef) ? new List<string>() : new List<string> { request.ImageRef };
 
                 // Create recipe
                 var recipe = new Recipe
                 {
                     Id = recipeId,
-                    Pk = "recipe",
+                    Pk = scope.HomeOwnerId,
                     Type = "Recipe",
                     Title = request.Title,
                     RawText = request.RawText,
-                    ImageRef = request.ImageRef,
+                    ImageRef = imageRefs.FirstOrDefault() ?? string.Empty,
+                    ImageRefs = imageRefs,
+                    Servings = request.Servings,
+                    OcrLanguage = request.OcrLanguage,
+                    Steps = CleanSteps(request.Steps),
+                    PrepTimeMinutes = request.PrepTimeMinutes,
+                    CookTimeMinutes = request.CookTimeMinutes,
+                    Yield = request.Yield,
+                    SourceBook = request.SourceBook,
+                    SourcePage = request.SourcePage,
                     SearchText = searchText,
                     NormalizedTags = normalizedTags
                 };
 
                 dbContext.Recipes.Add(recipe);
 
-                // Parse and store ingredients
-                var ingredients = ingredientParser.ParseIngredients(request.RawText, recipeId);
-                foreach (var ingredient in ingredients)
-                {
-                    ingredient.Type = "RecipeIngredient";
-                }
+                // Ingredient lines split out by the client are taken as-is; otherwise they are found in the raw text
+                var ingredients = request.IngredientLines != null
+                    ? ingredientParser.ParseIngredientLines(request.IngredientLines, recipe)
+                    : ingredientParser.ParseIngredients(request.RawText, recipe);
                 dbContext.RecipeIngredients.AddRange(ingredients);
 
                 await dbContext.SaveChangesAsync();
 
                 logger.LogInformation("Created recipe: {RecipeId} with {IngredientCount} ingredients", recipeId, ingredients.Count);
 
-                return Results.Created($"/recipes/{recipeId}", new RecipeDetailResponse
-                {
-                    Id = recipe.Id,
-                    Title = recipe.Title,
-                    RawText = recipe.RawText,
-                    ImageRef = recipe.ImageRef,
-                    Tags = recipe.NormalizedTags,
-                    Ingredients = ingredients.Select(i => new IngredientDto
-                    {
-                        FreeText = i.FreeText,
-                        CanonicalName = i.CanonicalName,
-                        Position = i.Position
-                    }).ToList(),
-                    CreatedAt = recipe.CreatedAt
-                });
+                return Results.Created($"/recipes/{recipeId}", await ToDetailResponseAsync(dbContext, scope, recipe, ingredients));
             }
             catch (Exception ex)
             {
                 logger.LogError(ex, "Failed to create recipe");
                 return Results.Problem("Failed to create recipe. Please try again.");
             }
-        });
+        })
+        .WithName("CreateRecipe")
+        .Produces<RecipeDetailResponse>(StatusCodes.Status201Created)
+        .Produces<ErrorResponse>(StatusCodes.Status400BadRequest);
 
         app.MapGet("/recipes/{id}", async (
             string id,
+            AccessScope scope,
             RecipeDbContext dbContext,
             ILogger<Program> logger) =>
         {
@@ -174,9 +202,10 @@ public static class RecipeEndpoints
             {
                 var recipe = await dbContext.Recipes
                     .AsNoTracking()
-                    .FirstOrDefaultAsync(recipe => recipe.Id == id && recipe.Pk == "recipe");
+                    .FirstOrDefaultAsync(recipe => recipe.Id == id);
 
-                if (recipe == null)
+                // Recipes the user can't reach are reported as missing, so their ids reveal nothing
+                if (recipe == null || scope.AccessTo(recipe) == RecipeAccess.None)
                 {
                     return Results.NotFound(new ErrorResponse
                     {
@@ -187,50 +216,250 @@ public static class RecipeEndpoints
 
                 var ingredients = await dbContext.RecipeIngredients
                     .AsNoTracking()
-                    .Where(ingredient => ingredient.RecipeId == id && ingredient.Pk == "recipe")
+                    .Where(ingredient => ingredient.RecipeId == id && ingredient.Pk == recipe.Pk)
                     .OrderBy(ingredient => ingredient.Position)
                     .ToListAsync();
 
-                return Results.Ok(new RecipeDetailResponse
-                {
-                    Id = recipe.Id,
-                    Title = recipe.Title,
-                    RawText = recipe.RawText,
-                    ImageRef = recipe.ImageRef,
-                    Tags = recipe.NormalizedTags,
-                    Ingredients = ingredients.Select(i => new IngredientDto
-                    {
-                        FreeText = i.FreeText,
-                        CanonicalName = i.CanonicalName,
-                        Position = i.Position
-                    }).ToList(),
-                    CreatedAt = recipe.CreatedAt
-                });
+                return Results.Ok(await ToDetailResponseAsync(dbContext, scope, recipe, ingredients));
             }
             catch (Exception ex)
             {
                 logger.LogError(ex, "Failed to get recipe: {RecipeId}", id);
                 return Results.Problem("Failed to retrieve recipe.");
             }
-        });
+        })
+        .WithName("GetRecipe")
+        .Produces<RecipeDetailResponse>(StatusCodes.Status200OK)
+        .Produces<ErrorResponse>(StatusCodes.Status404NotFound);
         
+        app.MapPut("/recipes/{id}", async (
+            string id,
+            UpdateRecipeRequest request,
+            IValidator<UpdateRecipeRequest> validator,
+            AccessScope scope,
+            RecipeDbContext dbContext,
+            IIngredientParser ingredientParser,
+            ILogger<Program> logger) =>
+        {
+            var validationResult = await validator.ValidateAsync(request);
+            if (!validationResult.IsValid)
+            {
+                var errors = string.Join("; ", validationResult.Errors.Select(e => e.ErrorMessage));
+                return Results.BadRequest(new ErrorResponse
+                {
+                    Code = "VALIDATION_ERROR",
+                    Message = errors
+                });
+            }
+
+            try
+            {
+                var recipe = await dbContext.Recipes
+                    .FirstOrDefaultAsync(entity => entity.Id == id);
+
+                var access = recipe == null ? RecipeAccess.None : scope.AccessTo(recipe);
+                if (recipe == null || access == RecipeAccess.None)
+                {
+                    return Results.NotFound(new ErrorResponse
+                    {
+                        Code = "NOT_FOUND",
+                        Message = "Recipe not found"
+                    });
+                }
+
+                if (access < RecipeAccess.Edit)
+                {
+                    return Forbidden("Only the owners of this recipe and those it is shared with for editing can change it");
+                }
+
+                var rawTextChanged = recipe.RawText != request.RawText;
+
+                recipe.Title = request.Title;
+                recipe.RawText = request.RawText;
+                recipe.Servings = request.Servings;
+                recipe.PrepTimeMinutes = request.PrepTimeMinutes;
+                recipe.CookTimeMinutes = request.CookTimeMinutes;
+                recipe.Yield = request.Yield;
+                recipe.SourceBook = request.SourceBook;
+                recipe.SourcePage = request.SourcePage;
+                if (request.Steps != null)
+                {
+                    recipe.Steps = CleanSteps(request.Steps);
+                }
+                recipe.SearchText = SearchTextBuilder.BuildSearchText(request.Title, request.RawText);
+                if (request.Tags != null)
+                {
+                    recipe.NormalizedTags = TagNormalizer.Normalize(request.Tags);
+                }
+                recipe.UpdatedAt = DateTime.UtcNow;
+
+                // Ingredients are derived from the raw text unless given as lines, so re-parse them when it changes
+                if (rawTextChanged || request.IngredientLines != null)
+                {
+                    var existingIngredients = await dbContext.RecipeIngredients
+                        .Where(ingredient => ingredient.RecipeId == id && ingredient.Pk == recipe.Pk)
+                        .ToListAsync();
+                    dbContext.RecipeIngredients.RemoveRange(existingIngredients);
+
+                    var parsedIngredients = request.IngredientLines != null
+                        ? ingredientParser.ParseIngredientLines(request.IngredientLines, recipe)
+                        : ingredientParser.ParseIngredients(request.RawText, recipe);
+                    dbContext.RecipeIngredients.AddRange(parsedIngredients);
+                }
+
+                await dbContext.SaveChangesAsync();
+
+                var ingredients = await dbContext.RecipeIngredients
+                    .AsNoTracking()
+                    .Where(ingredient => ingredient.RecipeId == id && ingredient.Pk == recipe.Pk)
+                    .OrderBy(ingredient => ingredient.Position)
+                    .ToListAsync();
+
+                logger.LogInformation("Updated recipe: {RecipeId}", id);
+
+                return Results.Ok(await ToDetailResponseAsync(dbContext, scope, recipe, ingredients));
+            }
+            catch (Exception ex)
+            {
+                logger.LogError(ex, "Failed to update recipe: {RecipeId}", id);
+                return Results.Problem("Failed to update recipe. Please try again.");
+            }
+        })
+        .WithName("UpdateRecipe")
+        .Produces<RecipeDetailResponse>(StatusCodes.Status200OK)
+        .Produces<ErrorResponse>(StatusCodes.Status400BadRequest)
+        .Produces<ErrorResponse>(StatusCodes.Status403Forbidden)
+        .Produces<ErrorResponse>(StatusCodes.Status404NotFound);
+
+        app.MapDelete("/recipes/{id}", async (
+            string id,
+            AccessScope scope,
+            RecipeDbContext dbContext,
+            IBlobStorageService blobService,
+            ILogger<Program> logger) =>
+        {
+            try
+            {
+                var recipe = await dbContext.Recipes
+                    .FirstOrDefaultAsync(entity => entity.Id == id);
+
+                var access = recipe == null ? RecipeAccess.None : scope.AccessTo(recipe);
+                if (recipe == null || access == RecipeAccess.None)
+                {
+                    return Results.NotFound(new ErrorResponse
+                    {
+                        Code = "NOT_FOUND",
+                        Message = "Recipe not found"
+                    });
+                }
+
+                if (access < RecipeAccess.Owner)
+                {
+                    return Forbidden("Only the owners of this recipe can delete it");
+                }
+
+                var ingredients = await dbContext.RecipeIngredients
+                    .Where(ingredient => ingredient.RecipeId == id && ingredient.Pk == recipe.Pk)
+                    .ToListAsync();
+
+                var shares = await dbContext.RecipeShares
+                    .Where(share => share.Pk == "share" && share.RecipeId == id)
+                    .ToListAsync();
+
+                dbContext.RecipeIngredients.RemoveRange(ingredients);
+                dbContext.RecipeShares.RemoveRange(shares);
+                dbContext.Recipes.Remove(recipe);
+                await dbContext.SaveChangesAsync();
+
+                // The recipe is gone either way; a leftover image is only wasted storage
+                foreach (var imageRef in RecipeImageRefs.Get(recipe))
+                {
+                    try
+                    {
+                        if (await RecipeImageRefs.IsInUseAsync(dbContext, imageRef))
+                        {
+                            continue;
+                        }
+
+                        await blobService.DeleteImageAsync(imageRef);
+                    }
+                    catch (Exception ex)
+                    {
+                        logger.LogWarning(ex, "Failed to delete image {ImageRef} for recipe: {RecipeId}", imageRef, id);
+                    }
+                }
+
+                logger.LogInformation("Deleted recipe: {RecipeId}", id);
+
+                return Results.NoContent();
+            }
+            catch (Exception ex)
+            {
+                logger.LogError(ex, "Failed to delete recipe: {RecipeId}", id);
+                return Results.Problem("Failed to delete recipe. Please try again.");
+            }
+        })
+        .WithName("DeleteRecipe")
+        .Produces(StatusCodes.Status204NoContent)
+        .Produces<ErrorResponse>(StatusCodes.Status403Forbidden)
+        .Produces<ErrorResponse>(StatusCodes.Status404NotFound);
+
         app.MapGet("/recipes", async (
             string? query,
-            string? tag,
+            string[]? tag,
+            string? tagMatch,
+            int? page,
+            int? pageSize,
+            string? sort,
+            AccessScope scope,
             RecipeDbContext dbContext,
             ILogger<Program> logger) =>
         {
+            var currentPage = page ?? 1;
+            var currentPageSize = pageSize ?? DefaultPageSize;
+            var sortOrder = string.IsNullOrWhiteSpace(sort) ? "newest" : sort.Trim().ToLowerInvariant();
+            var tagMatchMode = string.IsNullOrWhiteSpace(tagMatch) ? "all" : tagMatch.Trim().ToLowerInvariant();
+
+            if (currentPage < 1 || currentPageSize < 1 || currentPageSize > MaxPageSize)
+            {
+                return Results.BadRequest(new ErrorResponse
+                {
+                    Code = "VALIDATION_ERROR",
+                    Message = $"Page must be at least 1 and page size must be between 1 and {MaxPageSize}"
+                });
+            }
+
+            if (!AllowedSortOrders.Contains(sortOrder))
+            {
+                return Results.BadRequest(new ErrorResponse
+                {
+                    Code = "VALIDATION_ERROR",
+                    Message = $"Invalid sort order. Allowed values: {string.Join(", ", AllowedSortOrders)}"
+                });
+            }
+
+            if (!AllowedTagMatchModes.Contains(tagMatchMode))
+            {
+                return Results.BadRequest(new ErrorResponse
+                {
+                    Code = "VALIDATION_ERROR",
+                    Message = $"Invalid tag match mode. Allowed values: {string.Join(", ", AllowedTagMatchModes)}"
+                });
+            }
+
             try
             {
-                var recipes = await dbContext.Recipes
-                    .AsNoTracking()
-                    .Where(recipe => recipe.Pk == "recipe")
+                // The user's own and household's recipes, and everything shared with them
+                var recipes = await scope.Visible(dbContext.Recipes.AsNoTracking())
                     .ToListAsync();
 
-                if (!string.IsNullOrWhiteSpace(tag))
+                // Repeated tag parameters: "all" requires every tag (AND), "any" requires one of them (OR)
+                var normalizedTags = TagNormalizer.Normalize((tag ?? Array.Empty<string>()).Where(t => !string.IsNullOrWhiteSpace(t)).ToList());
+                if (normalizedTags.Count > 0)
                 {
-                    var normalizedTag = TagNormalizer.Normalize(tag);
-                    recipes = recipes.Where(r => r.NormalizedTags != null && r.NormalizedTags.Contains(normalizedTag)).ToList();
+                    recipes = tagMatchMode == "any"
+                        ? recipes.Where(r => r.NormalizedTags != null && r.NormalizedTags.Any(normalizedTags.Contains)).ToList()
+                        : recipes.Where(r => r.NormalizedTags != null && normalizedTags.All(r.NormalizedTags.Contains)).ToList();
                 }
 
                 if (!string.IsNullOrWhiteSpace(query))
@@ -239,28 +468,50 @@ public static class RecipeEndpoints
                     recipes = recipes.Where(r => (r.SearchText ?? string.Empty).Contains(q)).ToList();
                 }
 
-                var summaries = recipes.Select(r => new RecipeSummaryResponse
+                // Id is the tie-breaker so pages stay stable when sort keys are equal
+                var sorted = sortOrder switch
                 {
-                    Id = r.Id,
-                    Title = r.Title,
-                    Tags = r.NormalizedTags ?? new List<string>(),
-                    CreatedAt = r.CreatedAt,
-                    ImageRef = r.ImageRef
-                }).ToList();
+                    "oldest" => recipes.OrderBy(r => r.CreatedAt).ThenBy(r => r.Id),
+                    "title" => recipes.OrderBy(r => r.Title, StringComparer.InvariantCultureIgnoreCase).ThenBy(r => r.Id),
+                    _ => recipes.OrderByDescending(r => r.CreatedAt).ThenBy(r => r.Id)
+                };
 
-                return Results.Ok(summaries);
+                var summaries = sorted
+                    .Skip((currentPage - 1) * currentPageSize)
+                    .Take(currentPageSize)
+                    .Select(r => new RecipeSummaryResponse
+                    {
+                        Id = r.Id,
+                        Title = r.Title,
+                        Tags = r.NormalizedTags ?? new List<string>(),
+                        CreatedAt = r.CreatedAt,
+                        ImageRef = r.ImageRef
+                    }).ToList();
+
+                return Results.Ok(new SearchRecipesResponse
+                {
+                    Recipes = summaries,
+                    Page = currentPage,
+                    PageSize = currentPageSize,
+                    TotalCount = recipes.Count,
+                    TotalPages = (int)Math.Ceiling(recipes.Count / (double)currentPageSize)
+                });
             }
             catch (Exception ex)
             {
                 logger.LogError(ex, "Failed to search recipes");
                 return Results.Problem("Failed to search recipes.");
             }
-        });
+        })
+        .WithName("SearchRecipes")
+        .Produces<SearchRecipesResponse>(StatusCodes.Status200OK)
+        .Produces<ErrorResponse>(StatusCodes.Status400BadRequest);
 
         app.MapPost("/recipes/{id}/tags", async (
             string id,
             AddTagRequest request,
             IValidator<AddTagRequest> validator,
+            AccessScope scope,
             RecipeDbContext dbContext,
             ILogger<Program> logger) =>
         {
@@ -278,9 +529,10 @@ public static class RecipeEndpoints
             try
             {
                 var recipe = await dbContext.Recipes
-                    .FirstOrDefaultAsync(entity => entity.Id == id && entity.Pk == "recipe");
+                    .FirstOrDefaultAsync(entity => entity.Id == id);
 
-                if (recipe == null)
+                var access = recipe == null ? RecipeAccess.None : scope.AccessTo(recipe);
+                if (recipe == null || access == RecipeAccess.None)
                 {
                     return Results.NotFound(new ErrorResponse
                     {
@@ -289,6 +541,11 @@ public static class RecipeEndpoints
                     });
                 }
 
+                if (access < RecipeAccess.Edit)
+                {
+                    return Forbidden("Only the owners of this recipe and those it is shared with for editing can change it");
+                }
+
                 var normalizedTag = TagNormalizer.Normalize(request.Tag);
                 
                 // Add tag if not already present (idempotent)
@@ -301,47 +558,40 @@ public static class RecipeEndpoints
 
                 var ingredients = await dbContext.RecipeIngredients
                     .AsNoTracking()
-                    .Where(ingredient => ingredient.RecipeId == id && ingredient.Pk == "recipe")
+                    .Where(ingredient => ingredient.RecipeId == id && ingredient.Pk == recipe.Pk)
                     .OrderBy(ingredient => ingredient.Position)
                     .ToListAsync();
 
                 logger.LogInformation("Added tag '{Tag}' to recipe: {RecipeId}", normalizedTag, id);
 
-                return Results.Ok(new RecipeDetailResponse
-                {
-                    Id = recipe.Id,
-                    Title = recipe.Title,
-                    RawText = recipe.RawText,
-                    ImageRef = recipe.ImageRef,
-                    Tags = recipe.NormalizedTags,
-                    Ingredients = ingredients.Select(i => new IngredientDto
-                    {
-                        FreeText = i.FreeText,
-                        CanonicalName = i.CanonicalName,
-                        Position = i.Position
-                    }).ToList(),
-                    CreatedAt = recipe.CreatedAt
-                });
+                return Results.Ok(await ToDetailResponseAsync(dbContext, scope, recipe, ingredients));
             }
             catch (Exception ex)
             {
                 logger.LogError(ex, "Failed to add tag to recipe: {RecipeId}", id);
                 return Results.Problem("Failed to add tag. Please try again.");
             }
-        });
+        })
+        .WithName("AddRecipeTag")
+        .Produces<RecipeDetailResponse>(StatusCodes.Status200OK)
+        .Produces<ErrorResponse>(StatusCodes.Status400BadRequest)
+        .Produces<ErrorResponse>(StatusCodes.Status403Forbidden)
+        .Produces<ErrorResponse>(StatusCodes.Status404NotFound);
 
         app.MapDelete("/recipes/{id}/tags/{tag}", async (
             string id,
             string tag,
+            AccessScope scope,
             RecipeDbContext dbContext,
             ILogger<Program> logger) =>
         {
             try
             {
                 var recipe = await dbContext.Recipes
-                    .FirstOrDefaultAsync(entity => entity.Id == id && entity.Pk == "recipe");
+                    .FirstOrDefaultAsync(entity => entity.Id == id);
 
-                if (recipe == null)
+                var access = recipe == null ? RecipeAccess.None : scope.AccessTo(recipe);
+                if (recipe == null || access == RecipeAccess.None)
                 {
                     return Results.NotFound(new ErrorResponse
                     {
@@ -350,6 +600,11 @@ public static class RecipeEndpoints
                     });
                 }
 
+                if (access < RecipeAccess.Edit)
+                {
+                    return Forbidden("Only the owners of this recipe and those it is shared with for editing can change it");
+                }
+
                 var normalizedTag = TagNormalizer.Normalize(tag);
                 
                 // Remove tag if present (idempotent)
@@ -362,33 +617,78 @@ public static class RecipeEndpoints
 
                 var ingredients = await dbContext.RecipeIngredients
                     .AsNoTracking()
-                    .Where(ingredient => ingredient.RecipeId == id && ingredient.Pk == "recipe")
+                    .Where(ingredient => ingredient.RecipeId == id && ingredient.Pk == recipe.Pk)
                     .OrderBy(ingredient => ingredient.Position)
                     .ToListAsync();
 
                 logger.LogInformation("Removed tag '{Tag}' from recipe: {RecipeId}", normalizedTag, id);
 
-                return Results.Ok(new RecipeDetailResponse
-                {
-                    Id = recipe.Id,
-                    Title = recipe.Title,
-                    RawText = recipe.RawText,
-                    ImageRef = recipe.ImageRef,
-                    Tags = recipe.NormalizedTags,
-                    Ingredients = ingredients.Select(i => new IngredientDto
-                    {
-                        FreeText = i.FreeText,
-                        CanonicalName = i.CanonicalName,
-                        Position = i.Position
-                    }).ToList(),
-                    CreatedAt = recipe.CreatedAt
-                });
+                return Results.Ok(await ToDetailResponseAsync(dbContext, scope, recipe, ingredients));
             }
             catch (Exception ex)
             {
                 logger.LogError(ex, "Failed to remove tag from recipe: {RecipeId}", id);
                 return Results.Problem("Failed to remove tag. Please try again.");
             }
-        });
+        })
+        .WithName("RemoveRecipeTag")
+        .Produces<RecipeDetailResponse>(StatusCodes.Status200OK)
+        .Produces<ErrorResponse>(StatusCodes.Status403Forbidden)
+        .Produces<ErrorResponse>(StatusCodes.Status404NotFound);
+    }
+
+    private static async Task<RecipeDetailResponse> ToDetailResponseAsync(
+        RecipeDbContext dbContext,
+        AccessScope scope,
+        Recipe recipe,
+        List<RecipeIngredient> ingredients)
+    {
+        return new RecipeDetailResponse
+        {
+            Id = recipe.Id,
+            Title = recipe.Title,
+            RawText = recipe.RawText,
+            ImageRef = recipe.ImageRef,
+            ImageRefs = RecipeImageRefs.Get(recipe),
+            Servings = recipe.Servings,
+            OcrLanguage = recipe.OcrLanguage,
+            Steps = recipe.Steps,
+            PrepTimeMinutes = recipe.PrepTimeMinutes,
+            CookTimeMinutes = recipe.CookTimeMinutes,
+            Yield = recipe.Yield,
+            SourceBook = recipe.SourceBook,
+            SourcePage = recipe.SourcePage,
+            Tags = recipe.NormalizedTags,
+            Ingredients = ingredients.Select(i => new IngredientDto
+            {
+                FreeText = i.FreeText,
+                CanonicalName = i.CanonicalName,
+                Quantity = i.Quantity,
+                QuantityMax = i.QuantityMax,
+                Unit = i.Unit,
+                Name = i.Name,
+                Position = i.Position
+            }).ToList(),
+            CreatedAt = recipe.CreatedAt,
+            Owner = await OwnerDirectory.DescribeOwnerAsync(dbContext, recipe.Pk),
+            Access = AccessScope.Describe(scope.AccessTo(recipe))
+        };
+    }
+
+    private static IResult Forbidden(string message)
+    {
+        return Results.Json(new ErrorResponse
+        {
+            Code = "FORBIDDEN",
+            Message = message
+        }, statusCode: StatusCodes.Status403Forbidden);
+    }
+
+    private static List<string> CleanSteps(List<string>? steps)
+    {
+        return steps?
+            .Select(step => step.Trim())
+            .Where(step => step.Length > 0)
+            .ToList() ?? new List<string>();
     }
 }
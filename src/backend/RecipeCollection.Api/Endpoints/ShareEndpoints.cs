@@ -0,0 +1,212 @@
+using FluentValidation;
+using Microsoft.EntityFrameworkCore;
+using RecipeCollection.Data;
+using RecipeCollection.Domain;
+using RecipeCollection.DTOs;
+using RecipeCollection.DTOs.RequestModels;
+using RecipeCollection.DTOs.ResponseModels;
+using RecipeCollection.Services;
+
+namespace RecipeCollection.Endpoints;
+
+public static class ShareEndpoints
+{
+    public static void MapShareEndpoints(this WebApplication app)
+    {
+        app.MapGet("/shares", async (
+            AccessScope scope,
+            RecipeDbContext dbContext,
+            ILogger<Program> logger) =>
+        {
+            try
+            {
+                var ownerIds = scope.OwnedOwnerIds.ToList();
+                var shares = await dbContext.RecipeShares
+                    .AsNoTracking()
+                    .Where(share => share.Pk == "share" && (ownerIds.Contains(share.OwnerId) || share.GranteeId == scope.UserId))
+                    .ToListAsync();
+
+                var responses = await ToResponsesAsync(dbContext, shares);
+
+                return Results.Ok(new SharesResponse
+                {
+                    Given = responses.Where(share => ownerIds.Contains(share.Owner.Id)).ToList(),
+                    Received = responses.Where(share => share.Grantee.Id == scope.UserId).ToList()
+                });
+            }
+            catch (Exception ex)
+            {
+                logger.LogError(ex, "Failed to list shares");
+                return Results.Problem("Failed to load sharing. Please try again.");
+            }
+        })
+        .WithName("GetShares")
+        .Produces<SharesResponse>(StatusCodes.Status200OK);
+
+        // Only the owners of a recipe can share it. Without a recipe id, the collection the user adds
+        // recipes to is shared: their household's, or their own when they aren't in one.
+        app.MapPost("/shares", async (
+            CreateShareRequest request,
+            IValidator<CreateShareRequest> validator,
+            AccessScope scope,
+            RecipeDbContext dbContext,
+            ILogger<Program> logger) =>
+        {
+            var validationResult = await validator.ValidateAsync(request);
+            if (!validationResult.IsValid)
+            {
+                var errors = string.Join("; ", validationResult.Errors.Select(e => e.ErrorMessage));
+                return Results.BadRequest(new ErrorResponse
+                {
+                    Code = "VALIDATION_ERROR",
+                    Message = errors
+                });
+            }
+
+            var granteeId = request.UserId.Trim();
+            if (granteeId == scope.UserId)
+            {
+                return Results.BadRequest(new ErrorResponse
+                {
+                    Code = "VALIDATION_ERROR",
+                    Message = "You can't share with yourself"
+                });
+            }
+
+            try
+            {
+                var ownerId = scope.HomeOwnerId;
+                if (request.RecipeId != null)
+                {
+                    var recipe = await dbContext.Recipes
+                        .AsNoTracking()
+                        .FirstOrDefaultAsync(entity => entity.Id == request.RecipeId);
+
+                    if (recipe == null || scope.AccessTo(recipe) != RecipeAccess.Owner)
+                    {
+                        return Results.NotFound(new ErrorResponse
+                        {
+                            Code = "NOT_FOUND",
+                            Message = "Recipe not found"
+                        });
+                    }
+                    ownerId = recipe.Pk;
+                }
+
+                var granteeExists = await dbContext.UserProfiles
+                    .AnyAsync(user => user.Id == granteeId && user.Pk == "user");
+                if (!granteeExists)
+                {
+                    return Results.NotFound(new ErrorResponse
+                    {
+                        Code = "NOT_FOUND",
+                        Message = $"No one has signed in as {granteeId} yet"
+                    });
+                }
+
+                var share = await dbContext.RecipeShares
+                    .FirstOrDefaultAsync(entity => entity.Pk == "share"
+                        && entity.OwnerId == ownerId
+                        && entity.RecipeId == request.RecipeId
+                        && entity.GranteeId == granteeId);
+
+                if (share == null)
+                {
+                    share = new RecipeShare
+                    {
+                        Id = $"share_{Guid.NewGuid()}",
+                        OwnerId = ownerId,
+                        RecipeId = request.RecipeId,
+                        GranteeId = granteeId,
+                        Permission = request.Permission
+                    };
+                    dbContext.RecipeShares.Add(share);
+                }
+                else
+                {
+                    share.Permission = request.Permission;
+                }
+
+                await dbContext.SaveChangesAsync();
+
+                logger.LogInformation("Shared {Target} with {GranteeId} ({Permission})",
+                    request.RecipeId ?? ownerId, granteeId, request.Permission);
+
+                return Results.Ok((await ToResponsesAsync(dbContext, [share])).Single());
+            }
+            catch (Exception ex)
+            {
+                logger.LogError(ex, "Failed to share with {GranteeId}", granteeId);
+                return Results.Problem("Failed to share. Please try again.");
+            }
+        })
+        .WithName("CreateShare")
+        .Produces<ShareResponse>(StatusCodes.Status200OK)
+        .Produces<ErrorResponse>(StatusCodes.Status400BadRequest)
+        .Produces<ErrorResponse>(StatusCodes.Status404NotFound);
+
+        // The owners stop sharing, or whoever it was shared with gives it up
+        app.MapDelete("/shares/{id}", async (
+            string id,
+            AccessScope scope,
+            RecipeDbContext dbContext,
+            ILogger<Program> logger) =>
+        {
+            try
+            {
+                var share = await dbContext.RecipeShares
+                    .FirstOrDefaultAsync(entity => entity.Id == id && entity.Pk == "share");
+
+                if (share == null || (!scope.OwnedOwnerIds.Contains(share.OwnerId) && share.GranteeId != scope.UserId))
+                {
+                    return Results.NotFound(new ErrorResponse
+                    {
+                        Code = "NOT_FOUND",
+                        Message = "Share not found"
+                    });
+                }
+
+                dbContext.RecipeShares.Remove(share);
+                await dbContext.SaveChangesAsync();
+
+                logger.LogInformation("Removed share: {ShareId}", id);
+
+                return Results.NoContent();
+            }
+            catch (Exception ex)
+            {
+                logger.LogError(ex, "Failed to remove share: {ShareId}", id);
+                return Results.Problem("Failed to stop sharing. Please try again.");
+            }
+        })
+        .WithName("DeleteShare")
+        .Produces(StatusCodes.Status204NoContent)
+        .Produces<ErrorResponse>(StatusCodes.Status404NotFound);
+    }
+
+    private static async Task<List<ShareResponse>> ToResponsesAsync(RecipeDbContext dbContext, List<RecipeShare> shares)
+    {
+        var owners = await OwnerDirectory.DescribeOwnersAsync(dbContext, shares.Select(share => share.OwnerId));
+        var granteeNames = await OwnerDirectory.GetUserNamesAsync(dbContext, shares.Select(share => share.GranteeId));
+
+        var recipeIds = shares.Where(share => share.RecipeId != null).Select(share => share.RecipeId!).Distinct().ToList();
+        var titles = await dbContext.Recipes
+            .AsNoTracking()
+            .Where(recipe => recipeIds.Contains(recipe.Id))
+            .ToDictionaryAsync(recipe => recipe.Id, recipe => recipe.Title);
+
+        return shares
+            .OrderByDescending(share => share.CreatedAt)
+            .Select(share => new ShareResponse
+            {
+                Id = share.Id,
+                Owner = owners[share.OwnerId],
+                RecipeId = share.RecipeId,
+                RecipeTitle = share.RecipeId == null ? null : titles.GetValueOrDefault(share.RecipeId),
+                Grantee = new UserDto { Id = share.GranteeId, Name = granteeNames[share.GranteeId] },
+                Permission = share.Permission,
+                CreatedAt = share.CreatedAt
+            })
+            .ToList();
+    }
+}
@@ -0,0 +1,142 @@
+using FluentValidation;
+using Microsoft.EntityFrameworkCore;
+using RecipeCollection.Data;
+using RecipeCollection.DTOs.RequestModels;
+using RecipeCollection.DTOs.ResponseModels;
+using RecipeCollection.Services;
+using RecipeCollection.Utilities;
+
+namespace RecipeCollection.Endpoints;
+
+public static class TagEndpoints
+{
+    public static void MapTagEndpoints(this WebApplication app)
+    {
+        // Tags on every recipe the user can see, so they can filter shared recipes too
+        app.MapGet("/tags", async (
+            AccessScope scope,
+            RecipeDbContext dbContext,
+            ILogger<Program> logger) =>
+        {
+            try
+            {
+                var recipes = await scope.Visible(dbContext.Recipes.AsNoTracking())
+                    .ToListAsync();
+
+                var tagCounts = recipes
+                    .SelectMany(r => r.NormalizedTags ?? new List<string>())
+                    .GroupBy(tag => tag)
+                    .Select(group => new TagCountResponse
+                    {
+                        Tag = group.Key,
+                        RecipeCount = group.Count()
+                    })
+                    .OrderByDescending(t => t.RecipeCount)
+                    .ThenBy(t => t.Tag, StringComparer.Ordinal)
+                    .ToList();
+
+                return Results.Ok(tagCounts);
+            }
+            catch (Exception ex)
+            {
+                logger.LogError(ex, "Failed to list tags");
+                return Results.Problem("Failed to list tags.");
+            }
+        })
+        .WithName("GetTags")
+        .Produces<List<TagCountResponse>>(StatusCodes.Status200OK);
+
+        // Renaming onto a tag that already exists merges the two: recipes that had both keep one copy.
+        // Only the user's own and household's recipes are renamed; recipes shared with them keep their tags.
+        app.MapPost("/tags/{tag}/rename", async (
+            string tag,
+            RenameTagRequest request,
+            IValidator<RenameTagRequest> validator,
+            AccessScope scope,
+            RecipeDbContext dbContext,
+            ILogger<Program> logger) =>
+        {
+            var validationResult = await validator.ValidateAsync(request);
+            if (!validationResult.IsValid)
+            {
+                var errors = string.Join("; ", validationResult.Errors.Select(e => e.ErrorMessage));
+                return Results.BadRequest(new ErrorResponse
+                {
+                    Code = "VALIDATION_ERROR",
+                    Message = errors
+                });
+            }
+
+            var sourceTag = TagNormalizer.Normalize(tag);
+            var targetTag = TagNormalizer.Normalize(request.NewTag);
+
+            if (sourceTag == targetTag)
+            {
+                return Results.BadRequest(new ErrorResponse
+                {
+                    Code = "VALIDATION_ERROR",
+                    Message = "New tag must be different from the current tag"
+                });
+            }
+
+            try
+            {
+                var recipes = await scope.Owned(dbContext.Recipes)
+                    .ToListAsync();
+
+                var affectedRecipes = recipes
+                    .Where(r => r.NormalizedTags != null && r.NormalizedTags.Contains(sourceTag))
+                    .ToList();
+
+                if (affectedRecipes.Count == 0)
+                {
+                    return Results.NotFound(new ErrorResponse
+                    {
+                        Code = "NOT_FOUND",
+                        Message = "Tag not found"
+                    });
+                }
+
+                var merged = recipes.Any(r => r.NormalizedTags != null && r.NormalizedTags.Contains(targetTag));
+
+                foreach (var recipe in affectedRecipes)
+                {
+                    // Replace in place so the tag keeps its position on the recipe
+                    var index = recipe.NormalizedTags.IndexOf(sourceTag);
+                    if (recipe.NormalizedTags.Contains(targetTag))
+                    {
+                        recipe.NormalizedTags.RemoveAt(index);
+                    }
+                    else
+                    {
+                        recipe.NormalizedTags[index] = targetTag;
+                    }
+                    recipe.UpdatedAt = DateTime.UtcNow;
+                }
+
+                await dbContext.SaveChangesAsync();
+
+                logger.LogInformation(
+                    "Renamed tag '{SourceTag}' to '{TargetTag}' on {RecipeCount} recipes (merged: {Merged})",
+                    sourceTag, targetTag, affectedRecipes.Count, merged);
+
+                return Results.Ok(new RenameTagResponse
+                {
+                    Tag = targetTag,
+                    RecipeCount = recipes.Count(r => r.NormalizedTags != null && r.NormalizedTags.Contains(targetTag)),
+                    UpdatedRecipeCount = affectedRecipes.Count,
+                    Merged = merged
+                });
+            }
+            catch (Exception ex)
+            {
+                logger.LogError(ex, "Failed to rename tag: {Tag}", sourceTag);
+                return Results.Problem("Failed to rename tag. Please try again.");
+            }
+        })
+        .WithName("RenameTag")
+        .Produces<RenameTagResponse>(StatusCodes.Status200OK)
+        .Produces<ErrorResponse>(StatusCodes.Status400BadRequest)
+        .Produces<ErrorResponse>(StatusCodes.Status404NotFound);
+    }
+}
@@ -0,0 +1,92 @@
+using System.Text;
+using Microsoft.AspNetCore.Authentication.JwtBearer;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.IdentityModel.Tokens;
+using RecipeCollection.DTOs.ResponseModels;
+using RecipeCollection.Services;
+
+namespace RecipeCollection.Extensions;
+
+public static class ServiceCollectionAuthExtensions
+{
+    // HMAC-SHA256 needs a key of at least 256 bits
+    private const int MinSigningKeyLength = 32;
+
+    /// <summary>
+    /// Configures bearer token authentication and requires a signed-in user on every endpoint that doesn't
+    /// opt out with AllowAnonymous. Tokens come from the identity provider at Auth:Authority (with
+    /// Auth:Audience), or, for offline development, from the built-in issuer enabled with
+    /// Auth:DevIssuer:Enabled and signed with Auth:DevIssuer:SigningKey. Startup fails when neither is set,
+    /// so the API is never left open by a missing setting.
+    /// </summary>
+    public static void ConfigureAuthentication(this IHostApplicationBuilder builder)
+    {
+        var authority = builder.Configuration["Auth:Authority"];
+        var devIssuerEnabled = builder.Configuration.GetValue<bool>("Auth:DevIssuer:Enabled");
+        var authentication = builder.Services.AddAuthentication(JwtBearerDefaults.AuthenticationScheme);
+
+        if (!string.IsNullOrWhiteSpace(authority))
+        {
+            authentication.AddJwtBearer(options =>
+            {
+                options.Authority = authority;
+                options.Audience = builder.Configuration["Auth:Audience"];
+                options.MapInboundClaims = false;
+                options.TokenValidationParameters.NameClaimType = CurrentUser.NameClaim;
+                options.Events = new JwtBearerEvents { OnChallenge = WriteUnauthorizedAsync };
+            });
+        }
+        else if (devIssuerEnabled)
+        {
+            var signingKey = builder.Configuration["Auth:DevIssuer:SigningKey"];
+            if (string.IsNullOrEmpty(signingKey) || signingKey.Length < MinSigningKeyLength)
+            {
+                throw new InvalidOperationException(
+                    $"Auth:DevIssuer:SigningKey must be at least {MinSigningKeyLength} characters");
+            }
+
+            var key = new SymmetricSecurityKey(Encoding.UTF8.GetBytes(signingKey));
+            builder.Services.AddSingleton(new DevTokenIssuer(key));
+
+            authentication.AddJwtBearer(options =>
+            {
+                options.MapInboundClaims = false;
+                options.TokenValidationParameters = new TokenValidationParameters
+                {
+                    ValidIssuer = DevTokenIssuer.Issuer,
+                    ValidAudience = DevTokenIssuer.Audience,
+                    IssuerSigningKey = key,
+                    NameClaimType = CurrentUser.NameClaim
+                };
+                options.Events = new JwtBearerEvents { OnChallenge = WriteUnauthorizedAsync };
+            });
+        }
+        else
+        {
+            throw new InvalidOperationException(
+                "No authentication is configured. Set Auth:Authority and Auth:Audience for an identity provider, " +
+                "or Auth:DevIssuer:Enabled and Auth:DevIssuer:SigningKey for local development.");
+        }
+
+        builder.Services.AddAuthorizationBuilder()
+            .SetFallbackPolicy(new AuthorizationPolicyBuilder()
+                .RequireAuthenticatedUser()
+                .RequireClaim(CurrentUser.IdClaim)
+                .Build());
+    }
+
+    // Answers like every other error, so the frontend can tell an expired session from a failed request
+    private static async Task WriteUnauthorizedAsync(JwtBearerChallengeContext context)
+    {
+        context.HandleResponse();
+        context.Response.StatusCode = StatusCodes.Status401Unauthorized;
+        await context.Response.WriteAsJsonAsync(new ErrorResponse
+        {
+            Code = "UNAUTHORIZED",
+            Message = context.AuthenticateFailure is SecurityTokenExpiredException
+                ? "Your session has expired. Please sign in again."
+                : "Please sign in to continue.",
+            CorrelationId = context.HttpContext.Items["CorrelationId"]?.ToString()
+        });
+    }
+}
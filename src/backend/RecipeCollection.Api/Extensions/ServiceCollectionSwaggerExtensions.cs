@@ -1,5 +1,7 @@
 using System.Reflection;
+using System.Text.Json;
 using Microsoft.OpenApi;
+using Swashbuckle.AspNetCore.SwaggerGen;
 
 namespace RecipeCollection.Extensions;
 public static class ServiceCollectionSwaggerExtensions
@@ -27,6 +29,10 @@ public static class ServiceCollectionSwaggerExtensions
             {
                 options.IncludeXmlComments(xmlDocFile);
             }
+
+            // The frontend generates its types from this document and checks every response against them
+            options.SupportNonNullableReferenceTypes();
+            options.SchemaFilter<RequireNonNullablePropertiesSchemaFilter>();
         });
     }
     
@@ -42,4 +48,33 @@ public static class ServiceCollectionSwaggerExtensions
             options.RoutePrefix = "swagger";
         });
     }
-}
\ No newline at end of file
+}
+
+/// <summary>
+/// Marks every property of a response that can't be null as required. System.Text.Json writes all properties,
+/// so a response always has them; requests may leave out the ones with a default.
+/// </summary>
+internal sealed class RequireNonNullablePropertiesSchemaFilter : ISchemaFilter
+{
+    public void Apply(IOpenApiSchema schema, SchemaFilterContext context)
+    {
+        if (schema is not OpenApiSchema { Properties.Count: > 0 } objectSchema
+            || context.Type.Namespace?.EndsWith(".RequestModels") == true)
+        {
+            return;
+        }
+
+        // Not thread-safe, and documents may be generated for concurrent requests
+        var nullability = new NullabilityInfoContext();
+        objectSchema.Required ??= new HashSet<string>();
+        foreach (var property in context.Type.GetProperties(BindingFlags.Public | BindingFlags.Instance))
+        {
+            var name = JsonNamingPolicy.CamelCase.ConvertName(property.Name);
+            if (objectSchema.Properties.ContainsKey(name)
+                && nullability.Create(property).ReadState != NullabilityState.Nullable)
+            {
+                objectSchema.Required.Add(name);
+            }
+        }
+    }
+}
@@ -19,6 +19,8 @@ builder.Services.ConfigureCors(allowedOrigins);
 
 builder.Services.AddValidatorsFromAssemblyContaining<Program>();
 
+builder.ConfigureAuthentication();
+
 builder.Services.AddEndpointsApiExplorer();
 builder.Services.ConfigureSwaggerGen();
 
@@ -31,6 +33,8 @@ var azureVisionApiKey = builder.Configuration["AzureVision:ApiKey"];
 builder.Services.ConfigureOcrService(azureVisionEndpoint, azureVisionApiKey);
 
 builder.Services.AddTransient<IIngredientParser, IngredientParser>();
+builder.Services.AddScoped<IBackupService, BackupService>();
+builder.Services.AddScoped<LegacyRecipeMigration>();
 
 var app = builder.Build();
 
@@ -58,9 +62,22 @@ app.UseOutputCache();
 
 app.UseCors();
 
-app.MapGet("/", () => Results.Ok(new { service = "Recipe Collection API", version = "1.0.0" }));
+app.UseAuthentication();
+app.UseAuthorization();
+
+app.MapGet("/", () => Results.Ok(new { service = "Recipe Collection API", version = "1.0.0" }))
+    .AllowAnonymous();
+
+app.MapAuthEndpoints();
 
 app.MapRecipeEndpoints();
+app.MapImageEndpoints();
+app.MapTagEndpoints();
+app.MapDraftEndpoints();
+app.MapBackupEndpoints();
+app.MapMealPlanEndpoints();
+app.MapHouseholdEndpoints();
+app.MapShareEndpoints();
 
 await app.EnsureCosmosCreatedAsync();
 
@@ -0,0 +1,143 @@
+using Microsoft.EntityFrameworkCore;
+using RecipeCollection.Data;
+using RecipeCollection.Domain;
+using RecipeCollection.Utilities;
+
+namespace RecipeCollection.Services;
+
+// Ordered, so the strongest of several grants wins
+public enum RecipeAccess
+{
+    None,
+    Read,
+    Edit,
+    Owner
+}
+
+/// <summary>
+/// The signed-in user and the recipes they can reach: their own collection, their household's, and recipes
+/// or collections others have shared with them. Endpoints take it as a parameter; it is loaded once per request.
+/// </summary>
+public sealed class AccessScope
+{
+    public const string ReadPermission = "read";
+    public const string EditPermission = "edit";
+    public static readonly string[] Permissions = [ReadPermission, EditPermission];
+
+    public required string UserId { get; init; }
+
+    public Household? Household { get; init; }
+
+    // Permission by owner id, for collections shared with the user
+    public IReadOnlyDictionary<string, string> SharedCollections { get; init; } = new Dictionary<string, string>();
+
+    // Permission by recipe id, for recipes shared with the user one by one
+    public IReadOnlyDictionary<string, string> SharedRecipes { get; init; } = new Dictionary<string, string>();
+
+    public string UserOwnerId => OwnerIds.ForUser(UserId);
+
+    // Where new recipes and meal plans go: the household's collection for its members, otherwise the user's own
+    public string HomeOwnerId => Household == null ? UserOwnerId : OwnerIds.ForHousehold(Household.Id);
+
+    // A household member still owns the recipes they added before joining
+    public IReadOnlyList<string> OwnedOwnerIds => Household == null ? [UserOwnerId] : [UserOwnerId, HomeOwnerId];
+
+    public RecipeAccess AccessTo(Recipe recipe)
+    {
+        if (OwnedOwnerIds.Contains(recipe.Pk))
+        {
+            return RecipeAccess.Owner;
+        }
+
+        var access = RecipeAccess.None;
+        if (SharedCollections.TryGetValue(recipe.Pk, out var collectionPermission))
+        {
+            access = Stronger(access, ToAccess(collectionPermission));
+        }
+        if (SharedRecipes.TryGetValue(recipe.Id, out var recipePermission))
+        {
+            access = Stronger(access, ToAccess(recipePermission));
+        }
+        return access;
+    }
+
+    public IQueryable<Recipe> Owned(IQueryable<Recipe> recipes)
+    {
+        var ownerIds = OwnedOwnerIds.ToList();
+        return recipes.Where(recipe => ownerIds.Contains(recipe.Pk));
+    }
+
+    public IQueryable<Recipe> Visible(IQueryable<Recipe> recipes)
+    {
+        var ownerIds = OwnedOwnerIds.Concat(SharedCollections.Keys).ToList();
+        var recipeIds = SharedRecipes.Keys.ToList();
+        return recipes.Where(recipe => ownerIds.Contains(recipe.Pk) || recipeIds.Contains(recipe.Id));
+    }
+
+    public static string Describe(RecipeAccess access)
+    {
+        return access switch
+        {
+            RecipeAccess.Owner => "owner",
+            RecipeAccess.Edit => EditPermission,
+            _ => ReadPermission
+        };
+    }
+
+    public static async Task<AccessScope> LoadAsync(RecipeDbContext dbContext, string userId)
+    {
+        var household = await FindHouseholdAsync(dbContext, userId);
+
+        var shares = await dbContext.RecipeShares
+            .AsNoTracking()
+            .Where(share => share.Pk == "share" && share.GranteeId == userId)
+            .ToListAsync();
+
+        return new AccessScope
+        {
+            UserId = userId,
+            Household = household,
+            SharedCollections = StrongestPermissions(shares.Where(share => share.RecipeId == null), share => share.OwnerId),
+            SharedRecipes = StrongestPermissions(shares.Where(share => share.RecipeId != null), share => share.RecipeId!)
+        };
+    }
+
+    public static Task<Household?> FindHouseholdAsync(RecipeDbContext dbContext, string userId)
+    {
+        return dbContext.Households
+            .AsNoTracking()
+            .FirstOrDefaultAsync(entity => entity.Pk == "household" && entity.MemberIds.Contains(userId));
+    }
+
+    // Minimal API parameter binding; the fallback authorization policy guarantees a subject claim
+    public static async ValueTask<AccessScope?> BindAsync(HttpContext context)
+    {
+        var userId = CurrentUser.GetId(context.User);
+        if (userId == null)
+        {
+            return null;
+        }
+
+        var dbContext = context.RequestServices.GetRequiredService<RecipeDbContext>();
+        return await LoadAsync(dbContext, userId);
+    }
+
+    private static Dictionary<string, string> StrongestPermissions(IEnumerable<RecipeShare> shares, Func<RecipeShare, string> key)
+    {
+        return shares
+            .GroupBy(key)
+            .ToDictionary(
+                group => group.Key,
+                group => group.Any(share => share.Permission == EditPermission) ? EditPermission : ReadPermission);
+    }
+
+    private static RecipeAccess ToAccess(string permission)
+    {
+        return permission == EditPermission ? RecipeAccess.Edit : RecipeAccess.Read;
+    }
+
+    private static RecipeAccess Stronger(RecipeAccess a, RecipeAccess b)
+    {
+        return a > b ? a : b;
+    }
+}
@@ -0,0 +1,479 @@
+using System.IO.Compression;
+using System.Text.Json;
+using System.Text.RegularExpressions;
+using Azure;
+using FluentValidation;
+using Microsoft.AspNetCore.StaticFiles;
+using Microsoft.EntityFrameworkCore;
+using RecipeCollection.Data;
+using RecipeCollection.Domain;
+using RecipeCollection.DTOs;
+using RecipeCollection.DTOs.RequestModels;
+using RecipeCollection.DTOs.ResponseModels;
+using RecipeCollection.Utilities;
+
+namespace RecipeCollection.Services;
+
+public interface IBackupService
+{
+    // Writes a ZIP archive of every recipe the user owns, with its ingredients and images
+    Task WriteBackupAsync(Stream output, AccessScope scope);
+
+    // Restores into the collection the user adds recipes to. mode is "skip", "overwrite" or "duplicate";
+    // throws InvalidBackupException when the archive can't be read
+    Task<RestoreReportResponse> RestoreBackupAsync(Stream archive, string mode, bool dryRun, AccessScope scope);
+}
+
+public class InvalidBackupException(string message) : Exception(message);
+
+/// <summary>
+/// Backs up the collection to a ZIP archive and restores it, so recipes can move between the in-memory
+/// development setup and Azure. Images are re-uploaded on restore and get new imageRefs, since blob names
+/// are generated by the storage service.
+/// </summary>
+public partial class BackupService : IBackupService
+{
+    public const string Format = "recipe-collection-backup";
+    public const int Version = 1;
+    public static readonly string[] Modes = ["skip", "overwrite", "duplicate"];
+
+    private const string ManifestEntry = "manifest.json";
+    private const string RecipesFolder = "recipes/";
+    private const string ImagesFolder = "images/";
+    // Matches the upload limit on a single photo
+    private const long MaxImageSizeBytes = 10 * 1024 * 1024;
+    // A recipe at the validation limits is well under this; larger JSON entries are not read into memory
+    private const long MaxJsonEntrySizeBytes = 1024 * 1024;
+
+    private static readonly JsonSerializerOptions JsonOptions = new(JsonSerializerDefaults.Web) { WriteIndented = true };
+    private static readonly FileExtensionContentTypeProvider ContentTypes = new();
+
+    private readonly RecipeDbContext _dbContext;
+    private readonly IBlobStorageService _blobService;
+    private readonly IValidator<CreateRecipeRequest> _recipeValidator;
+    private readonly ILogger<BackupService> _logger;
+
+    public BackupService(
+        RecipeDbContext dbContext,
+        IBlobStorageService blobService,
+        IValidator<CreateRecipeRequest> recipeValidator,
+        ILogger<BackupService> logger)
+    {
+        _dbContext = dbContext;
+        _blobService = blobService;
+        _recipeValidator = recipeValidator;
+        _logger = logger;
+    }
+
+    public async Task WriteBackupAsync(Stream output, AccessScope scope)
+    {
+        var recipes = await scope.Owned(_dbContext.Recipes.AsNoTracking())
+            .OrderBy(recipe => recipe.CreatedAt)
+            .ToListAsync();
+        var ownerIds = scope.OwnedOwnerIds.ToList();
+        var ingredientsByRecipe = (await _dbContext.RecipeIngredients
+                .AsNoTracking()
+                .Where(ingredient => ownerIds.Contains(ingredient.Pk))
+                .ToListAsync())
+            .ToLookup(ingredient => ingredient.RecipeId);
+
+        // The output may be the response body, which only allows asynchronous writes
+        await using var archive = await ZipArchive.CreateAsync(output, ZipArchiveMode.Create, leaveOpen: true, entryNameEncoding: null);
+        var writtenImages = new HashSet<string>();
+        var missingImages = new List<string>();
+
+        foreach (var recipe in recipes)
+        {
+            var imageRefs = RecipeImageRefs.Get(recipe);
+            await WriteJsonEntryAsync(archive, $"{RecipesFolder}{recipe.Id}.json", ToBackupRecipe(recipe, imageRefs, ingredientsByRecipe[recipe.Id]));
+
+            foreach (var imageRef in imageRefs)
+            {
+                // Each image is stored once, however many recipes use it
+                if (!writtenImages.Add(imageRef))
+                {
+                    continue;
+                }
+
+                try
+                {
+                    await using var image = await _blobService.DownloadImageAsync(imageRef);
+                    await using var entry = await archive.CreateEntry($"{ImagesFolder}{imageRef}", CompressionLevel.NoCompression).OpenAsync();
+                    await image.CopyToAsync(entry);
+                }
+                catch (Exception ex) when (ex is FileNotFoundException || ex is RequestFailedException { Status: 404 })
+                {
+                    // The recipe is still worth keeping; the manifest records the gap
+                    _logger.LogWarning("Image {ImageRef} of recipe {RecipeId} is missing from storage", imageRef, recipe.Id);
+                    missingImages.Add(imageRef);
+                }
+            }
+        }
+
+        await WriteJsonEntryAsync(archive, ManifestEntry, new BackupManifestDto
+        {
+            Format = Format,
+            Version = Version,
+            ExportedAt = DateTime.UtcNow,
+            RecipeCount = recipes.Count,
+            ImageCount = writtenImages.Count - missingImages.Count,
+            MissingImages = missingImages
+        });
+
+        _logger.LogInformation("Exported backup with {RecipeCount} recipes and {ImageCount} images",
+            recipes.Count, writtenImages.Count - missingImages.Count);
+    }
+
+    public async Task<RestoreReportResponse> RestoreBackupAsync(Stream archiveStream, string mode, bool dryRun, AccessScope scope)
+    {
+        ZipArchive archive;
+        try
+        {
+            archive = new ZipArchive(archiveStream, ZipArchiveMode.Read, leaveOpen: true);
+        }
+        catch (InvalidDataException)
+        {
+            throw new InvalidBackupException("The file is not a ZIP archive");
+        }
+
+        using (archive)
+        {
+            var manifest = await ReadManifestAsync(archive);
+            var report = new RestoreReportResponse { DryRun = dryRun, Mode = mode };
+
+            var existingIds = (await scope.Owned(_dbContext.Recipes.AsNoTracking())
+                    .Select(recipe => recipe.Id)
+                    .ToListAsync())
+                .ToHashSet();
+            // Shared images are uploaded once and every recipe points at the same copy
+            var uploadedImages = new Dictionary<string, string>();
+
+            var recipeEntries = archive.Entries
+                .Where(entry => entry.FullName.StartsWith(RecipesFolder, StringComparison.Ordinal)
+                    && entry.FullName.EndsWith(".json", StringComparison.OrdinalIgnoreCase))
+                .OrderBy(entry => entry.FullName, StringComparer.Ordinal);
+
+            foreach (var entry in recipeEntries)
+            {
+                var backupRecipe = await ReadRecipeAsync(entry, report.Warnings);
+                if (backupRecipe == null)
+                {
+                    continue;
+                }
+
+                var exists = existingIds.Contains(backupRecipe.Id);
+                var action = !exists ? "created" : mode switch
+                {
+                    "overwrite" => "overwritten",
+                    "duplicate" => "duplicated",
+                    _ => "skipped"
+                };
+                // An id already used in someone else's collection can't be taken over, so the recipe gets a new one
+                var takenElsewhere = !exists && await _dbContext.Recipes.AnyAsync(recipe => recipe.Id == backupRecipe.Id);
+                var newId = action == "duplicated" || takenElsewhere ? $"recipe_{Guid.NewGuid()}" : backupRecipe.Id;
+
+                report.Recipes.Add(new RestoredRecipeResponse
+                {
+                    Id = backupRecipe.Id,
+                    Title = backupRecipe.Title,
+                    Action = action,
+                    NewId = action == "skipped" ? null : newId
+                });
+                switch (action)
+                {
+                    case "created": report.Created++; break;
+                    case "overwritten": report.Overwritten++; break;
+                    case "duplicated": report.Duplicated++; break;
+                    default: report.Skipped++; continue;
+                }
+
+                var imageRefs = new List<string>();
+                foreach (var imageRef in backupRecipe.ImageRefs)
+                {
+                    var restoredRef = await RestoreImageAsync(archive, imageRef, uploadedImages, dryRun, report);
+                    if (restoredRef != null)
+                    {
+                        imageRefs.Add(restoredRef);
+                    }
+                }
+
+                existingIds.Add(newId);
+                if (!dryRun)
+                {
+                    await SaveRecipeAsync(backupRecipe, newId, imageRefs, overwrite: action == "overwritten", scope);
+                }
+            }
+
+            if (manifest.RecipeCount != report.Recipes.Count)
+            {
+                report.Warnings.Add($"The manifest lists {manifest.RecipeCount} recipes but {report.Recipes.Count} could be read");
+            }
+
+            _logger.LogInformation(
+                "Restored backup ({Mode}, dry run: {DryRun}): {Created} created, {Overwritten} overwritten, {Skipped} skipped, {Duplicated} duplicated",
+                mode, dryRun, report.Created, report.Overwritten, report.Skipped, report.Duplicated);
+
+            return report;
+        }
+    }
+
+    private static BackupRecipeDto ToBackupRecipe(Recipe recipe, List<string> imageRefs, IEnumerable<RecipeIngredient> ingredients)
+    {
+        return new BackupRecipeDto
+        {
+            Id = recipe.Id,
+            Title = recipe.Title,
+            RawText = recipe.RawText,
+            ImageRefs = imageRefs,
+            Servings = recipe.Servings,
+            OcrLanguage = recipe.OcrLanguage,
+            Steps = recipe.Steps,
+            PrepTimeMinutes = recipe.PrepTimeMinutes,
+            CookTimeMinutes = recipe.CookTimeMinutes,
+            Yield = recipe.Yield,
+            SourceBook = recipe.SourceBook,
+            SourcePage = recipe.SourcePage,
+            Tags = recipe.NormalizedTags,
+            Ingredients = ingredients
+                .OrderBy(i => i.Position)
+                .Select(i => new IngredientDto
+                {
+                    FreeText = i.FreeText,
+                    CanonicalName = i.CanonicalName,
+                    Quantity = i.Quantity,
+                    QuantityMax = i.QuantityMax,
+                    Unit = i.Unit,
+                    Name = i.Name,
+                    Position = i.Position
+                }).ToList(),
+            CreatedAt = recipe.CreatedAt,
+            UpdatedAt = recipe.UpdatedAt
+        };
+    }
+
+    private static async Task WriteJsonEntryAsync<T>(ZipArchive archive, string name, T value)
+    {
+        await using var stream = await archive.CreateEntry(name, CompressionLevel.Optimal).OpenAsync();
+        await JsonSerializer.SerializeAsync(stream, value, JsonOptions);
+    }
+
+    private static async Task<BackupManifestDto> ReadManifestAsync(ZipArchive archive)
+    {
+        var entry = archive.GetEntry(ManifestEntry)
+            ?? throw new InvalidBackupException("The archive has no manifest.json, so it is not a recipe collection backup");
+        if (entry.Length > MaxJsonEntrySizeBytes)
+        {
+            throw new InvalidBackupException("The archive's manifest.json is too large to be a recipe collection manifest");
+        }
+
+        BackupManifestDto? manifest;
+        try
+        {
+            await using var stream = entry.Open();
+            manifest = await JsonSerializer.DeserializeAsync<BackupManifestDto>(stream, JsonOptions);
+        }
+        catch (JsonException)
+        {
+            throw new InvalidBackupException("The archive's manifest.json is not valid JSON");
+        }
+
+        if (manifest == null || manifest.Format != Format)
+        {
+            throw new InvalidBackupException("The archive is not a recipe collection backup");
+        }
+        if (manifest.Version > Version)
+        {
+            throw new InvalidBackupException($"The backup is format version {manifest.Version}; this server reads up to version {Version}");
+        }
+
+        return manifest;
+    }
+
+    // A damaged recipe file, or one the API would not have accepted, is reported and skipped rather than failing
+    // the whole restore
+    private async Task<BackupRecipeDto?> ReadRecipeAsync(ZipArchiveEntry entry, List<string> warnings)
+    {
+        if (entry.Length > MaxJsonEntrySizeBytes)
+        {
+            warnings.Add($"{entry.FullName}: larger than {MaxJsonEntrySizeBytes / 1024} KB, so not a recipe file");
+            return null;
+        }
+
+        try
+        {
+            await using var stream = entry.Open();
+            var recipe = await JsonSerializer.DeserializeAsync<BackupRecipeDto>(stream, JsonOptions);
+            if (recipe == null || !RecipeIdPattern().IsMatch(recipe.Id) || string.IsNullOrWhiteSpace(recipe.Title))
+            {
+                warnings.Add($"{entry.FullName}: missing or invalid id or title");
+                return null;
+            }
+
+            // Same rules as creating a recipe, so a hand-edited backup can't store what the API would refuse
+            var validationResult = await _recipeValidator.ValidateAsync(ToCreateRequest(recipe));
+            if (!validationResult.IsValid)
+            {
+                warnings.Add($"{entry.FullName}: {string.Join("; ", validationResult.Errors.Select(e => e.ErrorMessage))}");
+                return null;
+            }
+
+            return recipe;
+        }
+        catch (JsonException)
+        {
+            warnings.Add($"{entry.FullName}: not a valid recipe file");
+            return null;
+        }
+    }
+
+    private static CreateRecipeRequest ToCreateRequest(BackupRecipeDto recipe)
+    {
+        return new CreateRecipeRequest
+        {
+            Title = recipe.Title,
+            RawText = recipe.RawText,
+            ImageRefs = recipe.ImageRefs,
+            Servings = recipe.Servings,
+            OcrLanguage = recipe.OcrLanguage,
+            IngredientLines = recipe.Ingredients.Select(ingredient => ingredient.FreeText).ToList(),
+            Steps = recipe.Steps,
+            PrepTimeMinutes = recipe.PrepTimeMinutes,
+            CookTimeMinutes = recipe.CookTimeMinutes,
+            Yield = recipe.Yield,
+            SourceBook = recipe.SourceBook,
+            SourcePage = recipe.SourcePage,
+            // Tags are normalized on restore, so only the normalized form has to be valid
+            Tags = TagNormalizer.Normalize(recipe.Tags)
+        };
+    }
+
+    private async Task<string?> RestoreImageAsync(
+        ZipArchive archive,
+        string imageRef,
+        Dictionary<string, string> uploadedImages,
+        bool dryRun,
+        RestoreReportResponse report)
+    {
+        if (uploadedImages.TryGetValue(imageRef, out var uploadedRef))
+        {
+            return uploadedRef;
+        }
+
+        var entry = archive.GetEntry($"{ImagesFolder}{imageRef}");
+        if (entry == null)
+        {
+            report.Warnings.Add($"Image {imageRef} is not in the archive; the recipe is restored without it");
+            return null;
+        }
+        if (entry.Length > MaxImageSizeBytes)
+        {
+            report.Warnings.Add($"Image {imageRef} is larger than {MaxImageSizeBytes / 1024 / 1024} MB and was left out");
+            return null;
+        }
+
+        report.ImageCount++;
+        if (dryRun)
+        {
+            uploadedImages[imageRef] = imageRef;
+            return imageRef;
+        }
+
+        // Blob names are "recipes/{date}/{guid}_{fileName}"; the upload adds a new date and GUID
+        var fileName = UploadedNamePrefix().Replace(Path.GetFileName(imageRef), string.Empty);
+        if (!ContentTypes.TryGetContentType(fileName, out var contentType))
+        {
+            contentType = "application/octet-stream";
+        }
+
+        await using var stream = entry.Open();
+        var newRef = await _blobService.UploadImageAsync(stream, fileName, contentType);
+        uploadedImages[imageRef] = newRef;
+        return newRef;
+    }
+
+    // An overwritten recipe stays in the collection it was in; anything else goes to the user's home collection
+    private async Task SaveRecipeAsync(BackupRecipeDto backupRecipe, string id, List<string> imageRefs, bool overwrite, AccessScope scope)
+    {
+        var replacedImageRefs = new List<string>();
+        var ownerId = scope.HomeOwnerId;
+        if (overwrite)
+        {
+            var existing = await scope.Owned(_dbContext.Recipes).FirstOrDefaultAsync(recipe => recipe.Id == id);
+            if (existing != null)
+            {
+                replacedImageRefs = RecipeImageRefs.Get(existing).Except(imageRefs).ToList();
+                ownerId = existing.Pk;
+                _dbContext.Recipes.Remove(existing);
+            }
+            var existingIngredients = await _dbContext.RecipeIngredients
+                .Where(ingredient => ingredient.RecipeId == id && ingredient.Pk == ownerId)
+                .ToListAsync();
+            _dbContext.RecipeIngredients.RemoveRange(existingIngredients);
+            await _dbContext.SaveChangesAsync();
+        }
+
+        var tags = TagNormalizer.Normalize(backupRecipe.Tags);
+        _dbContext.Recipes.Add(new Recipe
+        {
+            Id = id,
+            Pk = ownerId,
+            Type = "Recipe",
+            Title = backupRecipe.Title,
+            RawText = backupRecipe.RawText,
+            ImageRef = imageRefs.FirstOrDefault() ?? string.Empty,
+            ImageRefs = imageRefs,
+            Servings = backupRecipe.Servings,
+            OcrLanguage = backupRecipe.OcrLanguage,
+            Steps = backupRecipe.Steps,
+            PrepTimeMinutes = backupRecipe.PrepTimeMinutes,
+            CookTimeMinutes = backupRecipe.CookTimeMinutes,
+            Yield = backupRecipe.Yield,
+            SourceBook = backupRecipe.SourceBook,
+            SourcePage = backupRecipe.SourcePage,
+            SearchText = SearchTextBuilder.BuildSearchText(backupRecipe.Title, backupRecipe.RawText),
+            NormalizedTags = tags,
+            CreatedAt = backupRecipe.CreatedAt,
+            UpdatedAt = backupRecipe.UpdatedAt
+        });
+        _dbContext.RecipeIngredients.AddRange(backupRecipe.Ingredients.Select(ingredient => new RecipeIngredient
+        {
+            Id = $"recipeingredient_{Guid.NewGuid()}",
+            Pk = ownerId,
+            Type = "RecipeIngredient",
+            RecipeId = id,
+            FreeText = ingredient.FreeText,
+            CanonicalName = ingredient.CanonicalName,
+            Quantity = ingredient.Quantity,
+            QuantityMax = ingredient.QuantityMax,
+            Unit = ingredient.Unit,
+            Name = ingredient.Name,
+            Position = ingredient.Position
+        }));
+        await _dbContext.SaveChangesAsync();
+
+        // The overwritten recipe's own photos are no longer referenced; a leftover image is only wasted storage
+        foreach (var imageRef in replacedImageRefs)
+        {
+            try
+            {
+                if (await RecipeImageRefs.IsInUseAsync(_dbContext, imageRef))
+                {
+                    continue;
+                }
+
+                await _blobService.DeleteImageAsync(imageRef);
+            }
+            catch (Exception ex)
+            {
+                _logger.LogWarning(ex, "Failed to delete replaced image {ImageRef} for recipe: {RecipeId}", imageRef, id);
+            }
+        }
+    }
+
+    // Same shape as the ids the API creates, and safe as a file name inside the archive
+    [GeneratedRegex("^[A-Za-z0-9_-]{1,100}$")]
+    private static partial Regex RecipeIdPattern();
+
+    [GeneratedRegex("^[0-9a-fA-F-]{36}_")]
+    private static partial Regex UploadedNamePrefix();
+}
@@ -0,0 +1,25 @@
+using System.Security.Claims;
+
+namespace RecipeCollection.Services;
+
+// Reads the signed-in user from the token's claims; inbound claims keep their JWT names, so "sub" is the user id
+public static class CurrentUser
+{
+    public const string IdClaim = "sub";
+    public const string NameClaim = "name";
+
+    public static string? GetId(ClaimsPrincipal user)
+    {
+        return user.FindFirstValue(IdClaim);
+    }
+
+    // Identity providers differ in which claim carries something readable
+    public static string GetName(ClaimsPrincipal user)
+    {
+        return user.FindFirstValue(NameClaim)
+            ?? user.FindFirstValue("preferred_username")
+            ?? user.FindFirstValue("email")
+            ?? GetId(user)
+            ?? string.Empty;
+    }
+}
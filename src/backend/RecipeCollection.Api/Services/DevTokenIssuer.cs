@@ -0,0 +1,43 @@
+using Microsoft.IdentityModel.JsonWebTokens;
+using Microsoft.IdentityModel.Tokens;
+
+namespace RecipeCollection.Services;
+
+/// <summary>
+/// Signs access tokens for any user name asked for, standing in for an identity provider so the app runs
+/// offline. Only registered when Auth:DevIssuer:Enabled is set. Deployments use it too until the frontend
+/// can sign in with an identity provider, so anyone can sign in as any user name there.
+/// </summary>
+public sealed class DevTokenIssuer
+{
+    public const string Issuer = "recipe-collection-dev";
+    public const string Audience = "recipe-collection";
+    public static readonly TimeSpan Lifetime = TimeSpan.FromHours(12);
+
+    private readonly SigningCredentials _credentials;
+    private readonly JsonWebTokenHandler _handler = new();
+
+    public DevTokenIssuer(SecurityKey signingKey)
+    {
+        _credentials = new SigningCredentials(signingKey, SecurityAlgorithms.HmacSha256);
+    }
+
+    public (string AccessToken, DateTime ExpiresAt) Issue(string userId, string name)
+    {
+        var expiresAt = DateTime.UtcNow.Add(Lifetime);
+        var accessToken = _handler.CreateToken(new SecurityTokenDescriptor
+        {
+            Issuer = Issuer,
+            Audience = Audience,
+            Expires = expiresAt,
+            Claims = new Dictionary<string, object>
+            {
+                [CurrentUser.IdClaim] = userId,
+                [CurrentUser.NameClaim] = name
+            },
+            SigningCredentials = _credentials
+        });
+
+        return (accessToken, expiresAt);
+    }
+}
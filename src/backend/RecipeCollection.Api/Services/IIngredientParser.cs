@@ -1,11 +1,14 @@
 
 using RecipeCollection.Domain;
+using RecipeCollection.Utilities;
 
 namespace RecipeCollection.Services;
 
+// Ingredients are created in the recipe's partition, ready to be added alongside it
 public interface IIngredientParser
 {
-    List<RecipeIngredient> ParseIngredients(string rawText, string recipeId);
+    List<RecipeIngredient> ParseIngredients(string rawText, Recipe recipe);
+    List<RecipeIngredient> ParseIngredientLines(IEnumerable<string> lines, Recipe recipe);
 }
 
 public class IngredientParser : IIngredientParser
@@ -17,7 +20,7 @@ public class IngredientParser : IIngredientParser
         _logger = logger;
     }
 
-    public List<RecipeIngredient> ParseIngredients(string rawText, string recipeId)
+    public List<RecipeIngredient> ParseIngredients(string rawText, Recipe recipe)
     {
         var ingredients = new List<RecipeIngredient>();
 
@@ -50,23 +53,13 @@ public class IngredientParser : IIngredientParser
 
             if (inIngredientsSection)
             {
-                // Check if line looks like an ingredient (starts with -, •, or digit)
+                // Check if line looks like an ingredient (starts with -, •, a digit or a fraction like ½)
                 var trimmed = line.Trim();
                 if (trimmed.StartsWith("-") || trimmed.StartsWith("•") ||
-                    trimmed.StartsWith("*") || char.IsDigit(trimmed[0]))
+                    trimmed.StartsWith("*") || char.IsDigit(trimmed[0]) || "½⅓⅔¼¾⅛".Contains(trimmed[0]))
                 {
                     var freeText = trimmed.TrimStart('-', '•', '*').Trim();
-                    var canonicalName = ExtractCanonicalName(freeText);
-
-                    ingredients.Add(new RecipeIngredient
-                    {
-                        Id = $"recipeingredient_{Guid.NewGuid()}",
-                        Pk = "recipe",
-                        RecipeId = recipeId,
-                        FreeText = freeText,
-                        CanonicalName = canonicalName,
-                        Position = position++
-                    });
+                    ingredients.Add(CreateIngredient(freeText, recipe, position++));
                 }
             }
         }
@@ -75,11 +68,44 @@ public class IngredientParser : IIngredientParser
         return ingredients;
     }
 
+    // Every non-empty line is an ingredient; used when the user has already split them out of the text
+    public List<RecipeIngredient> ParseIngredientLines(IEnumerable<string> lines, Recipe recipe)
+    {
+        var ingredients = lines
+            .Select(line => line.Trim().TrimStart('-', '•', '*').Trim())
+            .Where(line => line.Length > 0)
+            .Select((freeText, position) => CreateIngredient(freeText, recipe, position))
+            .ToList();
+
+        _logger.LogInformation("Parsed {Count} ingredient lines", ingredients.Count);
+        return ingredients;
+    }
+
+    private RecipeIngredient CreateIngredient(string freeText, Recipe recipe, int position)
+    {
+        var parsed = IngredientLineParser.Parse(freeText);
+
+        return new RecipeIngredient
+        {
+            Id = $"recipeingredient_{Guid.NewGuid()}",
+            Pk = recipe.Pk,
+            Type = "RecipeIngredient",
+            RecipeId = recipe.Id,
+            FreeText = freeText,
+            CanonicalName = ExtractCanonicalName(freeText),
+            Quantity = parsed.Quantity,
+            QuantityMax = parsed.QuantityMax,
+            Unit = parsed.Unit,
+            Name = parsed.Name.Length > 0 ? parsed.Name : null,
+            Position = position
+        };
+    }
+
     private string? ExtractCanonicalName(string freeText)
     {
         // Best-effort extraction: take last "word" that isn't a number or unit
         var words = freeText.Split(' ', StringSplitOptions.RemoveEmptyEntries);
-        var units = new[] { "cup", "cups", "tsp", "tbsp", "teaspoon", "tablespoon", "oz", "lb", "g", "kg", "ml", "l" };
+        var units = new[] { "cup", "cups", "tsp", "tbsp", "teaspoon", "tablespoon", "oz", "lb", "g", "kg", "ml", "l", "dl", "cl", "msk", "tsk", "krm", "st" };
 
         for (int i = words.Length - 1; i >= 0; i--)
         {
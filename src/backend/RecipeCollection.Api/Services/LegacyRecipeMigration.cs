@@ -0,0 +1,110 @@
+using Microsoft.EntityFrameworkCore;
+using RecipeCollection.Data;
+using RecipeCollection.Domain;
+using RecipeCollection.Utilities;
+
+namespace RecipeCollection.Services;
+
+/// <summary>
+/// Moves recipes saved before sign-in was added, which are still in the old shared "recipe" partition, into
+/// the collection of the user set in <c>LegacyRecipes:OwnerUserId</c> when they sign in. Nothing is moved
+/// while that setting is empty, so the shared recipes never go to whoever happens to sign in first.
+/// </summary>
+public class LegacyRecipeMigration
+{
+    public const string LegacyPartition = "recipe";
+
+    private readonly RecipeDbContext _dbContext;
+    private readonly IConfiguration _configuration;
+    private readonly ILogger<LegacyRecipeMigration> _logger;
+
+    public LegacyRecipeMigration(RecipeDbContext dbContext, IConfiguration configuration, ILogger<LegacyRecipeMigration> logger)
+    {
+        _dbContext = dbContext;
+        _configuration = configuration;
+        _logger = logger;
+    }
+
+    // Returns how many recipes were moved. A failure is logged rather than thrown, so it never stops anyone
+    // signing in; recipes not yet moved are picked up at the next sign-in.
+    public async Task<int> ClaimAsync(string userId)
+    {
+        var ownerUserId = _configuration["LegacyRecipes:OwnerUserId"]?.Trim().ToLowerInvariant();
+        if (string.IsNullOrEmpty(ownerUserId) || ownerUserId != userId)
+        {
+            return 0;
+        }
+
+        try
+        {
+            var recipes = await _dbContext.Recipes
+                .AsNoTracking()
+                .Where(recipe => recipe.Pk == LegacyPartition)
+                .ToListAsync();
+            if (recipes.Count == 0)
+            {
+                return 0;
+            }
+
+            var household = await AccessScope.FindHouseholdAsync(_dbContext, userId);
+            var ownerId = household == null ? OwnerIds.ForUser(userId) : OwnerIds.ForHousehold(household.Id);
+            var ingredientsByRecipe = (await _dbContext.RecipeIngredients
+                    .AsNoTracking()
+                    .Where(ingredient => ingredient.Pk == LegacyPartition)
+                    .ToListAsync())
+                .ToLookup(ingredient => ingredient.RecipeId);
+
+            // A move that failed halfway may already have written some copies
+            var recipeIds = recipes.Select(recipe => recipe.Id).ToList();
+            var copiedRecipeIds = (await _dbContext.Recipes
+                    .AsNoTracking()
+                    .Where(recipe => recipe.Pk == ownerId && recipeIds.Contains(recipe.Id))
+                    .Select(recipe => recipe.Id)
+                    .ToListAsync())
+                .ToHashSet();
+            var copiedIngredientIds = (await _dbContext.RecipeIngredients
+                    .AsNoTracking()
+                    .Where(ingredient => ingredient.Pk == ownerId && recipeIds.Contains(ingredient.RecipeId))
+                    .Select(ingredient => ingredient.Id)
+                    .ToListAsync())
+                .ToHashSet();
+
+            // The partition key is part of a document's identity, so each recipe is written under the new one
+            // before the old document is deleted; a failure in between leaves a copy the next sign-in finishes
+            foreach (var recipe in recipes)
+            {
+                var ingredients = ingredientsByRecipe[recipe.Id].ToList();
+
+                SetPartition(recipe, ingredients, ownerId);
+                if (!copiedRecipeIds.Contains(recipe.Id))
+                {
+                    _dbContext.Recipes.Add(recipe);
+                }
+                _dbContext.RecipeIngredients.AddRange(ingredients.Where(ingredient => !copiedIngredientIds.Contains(ingredient.Id)));
+                await _dbContext.SaveChangesAsync();
+                _dbContext.ChangeTracker.Clear();
+
+                SetPartition(recipe, ingredients, LegacyPartition);
+                _dbContext.RecipeIngredients.RemoveRange(ingredients);
+                _dbContext.Recipes.Remove(recipe);
+                await _dbContext.SaveChangesAsync();
+                _dbContext.ChangeTracker.Clear();
+            }
+
+            _logger.LogInformation("Moved {RecipeCount} recipes from before sign-in to {OwnerId}", recipes.Count, ownerId);
+            return recipes.Count;
+        }
+        catch (Exception ex)
+        {
+            _dbContext.ChangeTracker.Clear();
+            _logger.LogError(ex, "Failed to move recipes from before sign-in to user: {UserId}", userId);
+            return 0;
+        }
+    }
+
+    private static void SetPartition(Recipe recipe, List<RecipeIngredient> ingredients, string pk)
+    {
+        recipe.Pk = pk;
+        ingredients.ForEach(ingredient => ingredient.Pk = pk);
+    }
+}
@@ -6,7 +6,16 @@ namespace RecipeCollection.Services;
 
 public interface IOcrService
 {
-    Task<string> ExtractTextFromImageAsync(Stream imageStream);
+    // language is a Tesseract language code such as "swe+eng"; null uses the configured default
+    Task<OcrResult> ExtractTextFromImageAsync(Stream imageStream, string? language = null);
+}
+
+// Confidence is 0-1. The bounding box is given as fractions of the image size so it stays valid when the image is scaled.
+public record OcrWord(string Text, double Confidence, double X, double Y, double Width, double Height);
+
+public record OcrResult(string Text, IReadOnlyList<OcrWord> Words)
+{
+    public static OcrResult TextOnly(string text) => new(text, []);
 }
 
 public class AzureOcrService : IOcrService
@@ -33,13 +42,14 @@ public class AzureOcrService : IOcrService
         }
     }
 
-    public async Task<string> ExtractTextFromImageAsync(Stream imageStream)
+    // Azure Vision Read detects the language itself, so the requested language is not needed
+    public async Task<OcrResult> ExtractTextFromImageAsync(Stream imageStream, string? language = null)
     {
         if (_client == null)
         {
             // Return placeholder for dev/testing when Azure Vision not configured
             _logger.LogWarning("OCR called without Azure Vision configured - returning placeholder");
-            return "Placeholder OCR text:\n\nChocolate Chip Cookies\n\nIngredients:\n- 2 cups flour\n- 1 cup sugar\n- 1 cup butter\n- 2 eggs\n- 1 tsp vanilla\n- 1 cup chocolate chips\n\nInstructions:\nMix dry ingredients. Cream butter and sugar. Add eggs and vanilla. Combine. Fold in chocolate chips. Bake at 350°F for 12 minutes.";
+            return OcrResult.TextOnly("Placeholder OCR text:\n\nChocolate Chip Cookies\n\nIngredients:\n- 2 cups flour\n- 1 cup sugar\n- 1 cup butter\n- 2 eggs\n- 1 tsp vanilla\n- 1 cup chocolate chips\n\nInstructions:\nMix dry ingredients. Cream butter and sugar. Add eggs and vanilla. Combine. Fold in chocolate chips. Bake at 350°F for 12 minutes.");
         }
 
         try
@@ -53,20 +63,39 @@ public class AzureOcrService : IOcrService
             if (result.Value.Read?.Blocks == null || result.Value.Read.Blocks.Count == 0)
             {
                 _logger.LogWarning("No text found in image");
-                return string.Empty;
+                return OcrResult.TextOnly(string.Empty);
             }
 
+            double imageWidth = result.Value.Metadata.Width;
+            double imageHeight = result.Value.Metadata.Height;
+
             // Extract all text lines
             var extractedText = new System.Text.StringBuilder();
+            var words = new List<OcrWord>();
             foreach (var block in result.Value.Read.Blocks)
             {
                 foreach (var line in block.Lines)
                 {
                     extractedText.AppendLine(line.Text);
+
+                    foreach (var word in line.Words)
+                    {
+                        var left = word.BoundingPolygon.Min(p => p.X);
+                        var top = word.BoundingPolygon.Min(p => p.Y);
+                        var right = word.BoundingPolygon.Max(p => p.X);
+                        var bottom = word.BoundingPolygon.Max(p => p.Y);
+                        words.Add(new OcrWord(
+                            word.Text,
+                            word.Confidence,
+                            left / imageWidth,
+                            top / imageHeight,
+                            (right - left) / imageWidth,
+                            (bottom - top) / imageHeight));
+                    }
                 }
             }
 
-            return extractedText.ToString().Trim();
+            return new OcrResult(extractedText.ToString().Trim(), words);
         }
         catch (RequestFailedException ex)
         {
@@ -99,12 +128,12 @@ public class TesseractOcrService : IOcrService
         }
     }
 
-    public async Task<string> ExtractTextFromImageAsync(Stream imageStream)
+    public async Task<OcrResult> ExtractTextFromImageAsync(Stream imageStream, string? language = null)
     {
         if (!Directory.Exists(_tessDataPath))
         {
             _logger.LogWarning("Tesseract data not available - returning placeholder");
-            return "Placeholder OCR text:\n\nChocolate Chip Cookies\n\nIngredients:\n- 2 cups flour\n- 1 cup sugar\n- 1 cup butter\n- 2 eggs\n- 1 tsp vanilla\n- 1 cup chocolate chips\n\nInstructions:\nMix dry ingredients. Cream butter and sugar. Add eggs and vanilla. Combine. Fold in chocolate chips. Bake at 350°F for 12 minutes.";
+            return OcrResult.TextOnly("Placeholder OCR text:\n\nChocolate Chip Cookies\n\nIngredients:\n- 2 cups flour\n- 1 cup sugar\n- 1 cup butter\n- 2 eggs\n- 1 tsp vanilla\n- 1 cup chocolate chips\n\nInstructions:\nMix dry ingredients. Cream butter and sugar. Add eggs and vanilla. Combine. Fold in chocolate chips. Bake at 350°F for 12 minutes.");
         }
 
         try
@@ -121,7 +150,7 @@ public class TesseractOcrService : IOcrService
             var imageBytes = memoryStream.ToArray();
 
             // Perform OCR
-            using var engine = new TesseractEngine(_tessDataPath, _language, EngineMode.Default);
+            using var engine = new TesseractEngine(_tessDataPath, language ?? _language, EngineMode.Default);
             using var img = Pix.LoadFromMemory(imageBytes);
             using var page = engine.Process(img);
             
@@ -130,16 +159,39 @@ public class TesseractOcrService : IOcrService
             if (string.IsNullOrWhiteSpace(text))
             {
                 _logger.LogWarning("No text found in image");
-                return string.Empty;
+                return OcrResult.TextOnly(string.Empty);
+            }
+
+            var words = new List<OcrWord>();
+            using (var iterator = page.GetIterator())
+            {
+                iterator.Begin();
+                do
+                {
+                    var word = iterator.GetText(PageIteratorLevel.Word)?.Trim();
+                    if (string.IsNullOrEmpty(word) || !iterator.TryGetBoundingBox(PageIteratorLevel.Word, out var box))
+                    {
+                        continue;
+                    }
+
+                    // Tesseract reports confidence as a percentage
+                    words.Add(new OcrWord(
+                        word,
+                        iterator.GetConfidence(PageIteratorLevel.Word) / 100.0,
+                        (double)box.X1 / img.Width,
+                        (double)box.Y1 / img.Height,
+                        (double)box.Width / img.Width,
+                        (double)box.Height / img.Height));
+                } while (iterator.Next(PageIteratorLevel.Word));
             }
 
-            _logger.LogInformation($"Extracted {text.Length} characters from image");
-            return text;
+            _logger.LogInformation($"Extracted {text.Length} characters and {words.Count} words from image");
+            return new OcrResult(text, words);
         }
         catch (Exception ex)
         {
             _logger.LogWarning(ex, "Tesseract OCR processing failed; returning placeholder text");
-            return "Placeholder OCR text:\n\nChocolate Chip Cookies\n\nIngredients:\n- 2 cups flour\n- 1 cup sugar\n- 1 cup butter\n- 2 eggs\n- 1 tsp vanilla\n- 1 cup chocolate chips\n\nInstructions:\nMix dry ingredients. Cream butter and sugar. Add eggs and vanilla. Combine. Fold in chocolate chips. Bake at 350°F for 12 minutes.";
+            return OcrResult.TextOnly("Placeholder OCR text:\n\nChocolate Chip Cookies\n\nIngredients:\n- 2 cups flour\n- 1 cup sugar\n- 1 cup butter\n- 2 eggs\n- 1 tsp vanilla\n- 1 cup chocolate chips\n\nInstructions:\nMix dry ingredients. Cream butter and sugar. Add eggs and vanilla. Combine. Fold in chocolate chips. Bake at 350°F for 12 minutes.");
         }
     }
 }
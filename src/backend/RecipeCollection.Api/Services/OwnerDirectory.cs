@@ -0,0 +1,64 @@
+using Microsoft.EntityFrameworkCore;
+using RecipeCollection.Data;
+using RecipeCollection.DTOs;
+using RecipeCollection.Utilities;
+
+namespace RecipeCollection.Services;
+
+// Display names for owners and users, looked up in one query per kind
+public static class OwnerDirectory
+{
+    public static async Task<Dictionary<string, OwnerDto>> DescribeOwnersAsync(RecipeDbContext dbContext, IEnumerable<string> ownerIds)
+    {
+        var distinctIds = ownerIds.Distinct().ToList();
+
+        var userNames = await GetUserNamesAsync(dbContext, distinctIds
+            .Where(id => OwnerIds.KindOf(id) == "user")
+            .Select(id => id[OwnerIds.UserPrefix.Length..]));
+
+        var householdIds = distinctIds
+            .Where(id => OwnerIds.KindOf(id) == "household")
+            .Select(id => id[OwnerIds.HouseholdPrefix.Length..])
+            .ToList();
+        var householdNames = await dbContext.Households
+            .AsNoTracking()
+            .Where(household => household.Pk == "household" && householdIds.Contains(household.Id))
+            .ToDictionaryAsync(household => household.Id, household => household.Name);
+
+        return distinctIds.ToDictionary(id => id, id =>
+        {
+            var kind = OwnerIds.KindOf(id);
+            var name = kind switch
+            {
+                "user" => userNames.GetValueOrDefault(id[OwnerIds.UserPrefix.Length..]),
+                "household" => householdNames.GetValueOrDefault(id[OwnerIds.HouseholdPrefix.Length..]),
+                _ => null
+            };
+            return new OwnerDto { Id = id, Kind = kind ?? "user", Name = name ?? id };
+        });
+    }
+
+    public static async Task<OwnerDto> DescribeOwnerAsync(RecipeDbContext dbContext, string ownerId)
+    {
+        return (await DescribeOwnersAsync(dbContext, [ownerId]))[ownerId];
+    }
+
+    // Users who haven't signed in since a profile was kept are shown by their id
+    public static async Task<Dictionary<string, string>> GetUserNamesAsync(RecipeDbContext dbContext, IEnumerable<string> userIds)
+    {
+        var ids = userIds.Distinct().ToList();
+        var names = await dbContext.UserProfiles
+            .AsNoTracking()
+            .Where(user => user.Pk == "user" && ids.Contains(user.Id))
+            .ToDictionaryAsync(user => user.Id, user => user.Name);
+
+        return ids.ToDictionary(id => id, id => names.GetValueOrDefault(id) ?? id);
+    }
+
+    public static async Task<List<UserDto>> DescribeUsersAsync(RecipeDbContext dbContext, IEnumerable<string> userIds)
+    {
+        var ids = userIds.ToList();
+        var names = await GetUserNamesAsync(dbContext, ids);
+        return ids.Select(id => new UserDto { Id = id, Name = names[id] }).ToList();
+    }
+}
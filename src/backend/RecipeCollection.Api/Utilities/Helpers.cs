@@ -1,3 +1,8 @@
+using System.Globalization;
+using Microsoft.EntityFrameworkCore;
+using RecipeCollection.Data;
+using RecipeCollection.Domain;
+
 namespace RecipeCollection.Utilities;
 
 public static class TagNormalizer
@@ -13,6 +18,17 @@ public static class TagNormalizer
     }
 }
 
+public static class OcrLanguages
+{
+    // Tesseract language codes matching the traineddata files shipped in tessdata; "+" combines models
+    public static readonly string[] Supported = ["eng", "swe", "swe+eng"];
+
+    public static bool IsSupported(string? language)
+    {
+        return language != null && Supported.Contains(language);
+    }
+}
+
 public static class SearchTextBuilder
 {
     public static string BuildSearchText(string title, string rawText)
@@ -34,3 +50,76 @@ public static class SearchTextBuilder
             .Trim();
     }
 }
+
+public static class RecipeImageRefs
+{
+    // Recipes saved before multi-page support only have the single ImageRef
+    public static List<string> Get(Recipe recipe)
+    {
+        if (recipe.ImageRefs.Count > 0)
+        {
+            return recipe.ImageRefs;
+        }
+
+        return string.IsNullOrWhiteSpace(recipe.ImageRef) ? new List<string>() : new List<string> { recipe.ImageRef };
+    }
+
+    // A restored backup can point several recipes at one image, so its blob may only be deleted once no
+    // recipe in any collection uses it any more
+    public static Task<bool> IsInUseAsync(RecipeDbContext dbContext, string imageRef)
+    {
+        return dbContext.Recipes
+            .AsNoTracking()
+            .AnyAsync(recipe => recipe.ImageRef == imageRef || recipe.ImageRefs.Contains(imageRef));
+    }
+}
+
+public static class MealPlanWeek
+{
+    public static readonly string[] Meals = ["breakfast", "lunch", "dinner"];
+
+    public static bool IsDate(string? value)
+    {
+        return TryParseDate(value, out _);
+    }
+
+    public static bool TryParseDate(string? value, out DateOnly date)
+    {
+        return DateOnly.TryParseExact(value, "yyyy-MM-dd", CultureInfo.InvariantCulture, DateTimeStyles.None, out date);
+    }
+
+    // Weeks start on Monday, as in ISO 8601 and Swedish calendars
+    public static bool TryParseWeekStart(string? value, out DateOnly weekStart)
+    {
+        return TryParseDate(value, out weekStart) && weekStart.DayOfWeek == DayOfWeek.Monday;
+    }
+
+    public static bool Contains(DateOnly weekStart, DateOnly date)
+    {
+        return date >= weekStart && date <= weekStart.AddDays(6);
+    }
+}
+
+public static class OwnerIds
+{
+    public const string UserPrefix = "user:";
+    public const string HouseholdPrefix = "household:";
+
+    public static string ForUser(string userId)
+    {
+        return $"{UserPrefix}{userId}";
+    }
+
+    public static string ForHousehold(string householdId)
+    {
+        return $"{HouseholdPrefix}{householdId}";
+    }
+
+    // "user" or "household"; null for the partition recipes had before sign-in was added
+    public static string? KindOf(string ownerId)
+    {
+        return ownerId.StartsWith(UserPrefix, StringComparison.Ordinal) ? "user"
+            : ownerId.StartsWith(HouseholdPrefix, StringComparison.Ordinal) ? "household"
+            : null;
+    }
+}
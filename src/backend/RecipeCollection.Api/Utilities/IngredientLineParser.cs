@@ -0,0 +1,129 @@
+using System.Globalization;
+using System.Text.RegularExpressions;
+
+namespace RecipeCollection.Utilities;
+
+public record ParsedIngredientLine(double? Quantity, double? QuantityMax, string? Unit, string Name);
+
+/// <summary>
+/// Splits a single ingredient line such as "1½ dl mjölk" or "2–3 cups flour" into quantity, unit and name.
+/// Units are mapped to one canonical abbreviation so English and Swedish spellings compare equal.
+/// </summary>
+public static partial class IngredientLineParser
+{
+    private static readonly Dictionary<char, double> UnicodeFractions = new()
+    {
+        ['½'] = 1.0 / 2,
+        ['⅓'] = 1.0 / 3,
+        ['⅔'] = 2.0 / 3,
+        ['¼'] = 1.0 / 4,
+        ['¾'] = 3.0 / 4,
+        ['⅛'] = 1.0 / 8,
+    };
+
+    private static readonly Dictionary<string, string> UnitAliases = new(StringComparer.OrdinalIgnoreCase)
+    {
+        // Swedish volume
+        ["krm"] = "krm", ["kryddmått"] = "krm",
+        ["tsk"] = "tsk", ["tesked"] = "tsk", ["teskedar"] = "tsk",
+        ["msk"] = "msk", ["matsked"] = "msk", ["matskedar"] = "msk",
+        ["ml"] = "ml", ["cl"] = "cl", ["dl"] = "dl",
+        ["l"] = "l", ["liter"] = "l", ["litre"] = "l", ["liters"] = "l", ["litres"] = "l",
+        // English volume
+        ["tsp"] = "tsp", ["teaspoon"] = "tsp", ["teaspoons"] = "tsp",
+        ["tbsp"] = "tbsp", ["tbs"] = "tbsp", ["tablespoon"] = "tbsp", ["tablespoons"] = "tbsp",
+        ["cup"] = "cup", ["cups"] = "cup",
+        ["fl oz"] = "fl oz",
+        // Weight
+        ["g"] = "g", ["gram"] = "g", ["grams"] = "g",
+        ["hg"] = "hg", ["kg"] = "kg", ["kilo"] = "kg",
+        ["oz"] = "oz", ["ounce"] = "oz", ["ounces"] = "oz",
+        ["lb"] = "lb", ["lbs"] = "lb", ["pound"] = "lb", ["pounds"] = "lb",
+        // Count
+        ["st"] = "st", ["stk"] = "st", ["styck"] = "st",
+        ["pcs"] = "pcs", ["piece"] = "pcs", ["pieces"] = "pcs",
+        ["pinch"] = "pinch", ["nypa"] = "pinch",
+    };
+
+    // Mixed numbers ("1 1/2", "1½") are listed before plain numbers so they win the alternation
+    private const string NumberPattern = @"\d+\s+\d+/\d+|\d+/\d+|\d+\s*[½⅓⅔¼¾⅛]|[½⅓⅔¼¾⅛]|\d+(?:[.,]\d+)?";
+
+    [GeneratedRegex(
+        @"^(?<min>" + NumberPattern + @")(?:\s*(?:-|–|—|to|till)\s*(?<max>" + NumberPattern + @"))?\s*(?<rest>.*)$",
+        RegexOptions.IgnoreCase)]
+    private static partial Regex QuantityRegex();
+
+    [GeneratedRegex(@"^(?<unit>fl\.?\s*oz|[a-zäåö]+)\.?(?:\s+|$)(?<rest>.*)$", RegexOptions.IgnoreCase)]
+    private static partial Regex UnitRegex();
+
+    public static ParsedIngredientLine Parse(string line)
+    {
+        var text = line.Trim();
+        double? quantity = null;
+        double? quantityMax = null;
+
+        var quantityMatch = QuantityRegex().Match(text);
+        if (quantityMatch.Success)
+        {
+            quantity = ParseNumber(quantityMatch.Groups["min"].Value);
+            quantityMax = quantityMatch.Groups["max"].Success
+                ? ParseNumber(quantityMatch.Groups["max"].Value)
+                : null;
+            text = quantityMatch.Groups["rest"].Value.Trim();
+        }
+
+        string? unit = null;
+        var unitMatch = UnitRegex().Match(text);
+        if (unitMatch.Success)
+        {
+            var unitText = Regex.Replace(unitMatch.Groups["unit"].Value, @"[\s.]+", " ");
+            if (UnitAliases.TryGetValue(unitText, out var canonicalUnit))
+            {
+                unit = canonicalUnit;
+                text = unitMatch.Groups["rest"].Value.Trim();
+            }
+        }
+
+        // "2 cups of flour" -> "flour"
+        if (unit != null && text.StartsWith("of ", StringComparison.OrdinalIgnoreCase))
+        {
+            text = text[3..].Trim();
+        }
+
+        return new ParsedIngredientLine(quantity, quantityMax, unit, text);
+    }
+
+    private static double ParseNumber(string value)
+    {
+        var trimmed = value.Trim();
+        double whole = 0;
+
+        var fractionChar = trimmed[^1];
+        if (UnicodeFractions.TryGetValue(fractionChar, out var unicodeFraction))
+        {
+            var wholePart = trimmed[..^1].Trim();
+            if (wholePart.Length > 0)
+            {
+                whole = double.Parse(wholePart, CultureInfo.InvariantCulture);
+            }
+            return whole + unicodeFraction;
+        }
+
+        var parts = trimmed.Split(' ', StringSplitOptions.RemoveEmptyEntries);
+        if (parts.Length == 2)
+        {
+            whole = double.Parse(parts[0], CultureInfo.InvariantCulture);
+            trimmed = parts[1];
+        }
+
+        if (trimmed.Contains('/'))
+        {
+            var fraction = trimmed.Split('/');
+            var denominator = double.Parse(fraction[1], CultureInfo.InvariantCulture);
+            return denominator == 0 ? whole : whole + double.Parse(fraction[0], CultureInfo.InvariantCulture) / denominator;
+        }
+
+        // Swedish recipes write decimals with a comma ("2,5 dl")
+        return whole + double.Parse(trimmed.Replace(',', '.'), CultureInfo.InvariantCulture);
+    }
+}
@@ -0,0 +1,102 @@
+using System.Globalization;
+using System.Text;
+using RecipeCollection.Domain;
+
+namespace RecipeCollection.Utilities;
+
+// Writes a week's plan as an iCalendar (RFC 5545) file, one event per planned recipe
+public static class MealPlanCalendar
+{
+    // Local times without a time zone, so each meal shows at the same hour wherever the calendar is opened
+    private static readonly Dictionary<string, TimeOnly> MealTimes = new()
+    {
+        ["breakfast"] = new TimeOnly(8, 0),
+        ["lunch"] = new TimeOnly(12, 0),
+        ["dinner"] = new TimeOnly(18, 0)
+    };
+
+    private static readonly TimeSpan MealDuration = TimeSpan.FromHours(1);
+
+    public static string Write(MealPlan plan, DateTime generatedAt)
+    {
+        var builder = new StringBuilder();
+        void Line(string line) => builder.Append(Fold(line)).Append("\r\n");
+
+        Line("BEGIN:VCALENDAR");
+        Line("VERSION:2.0");
+        Line("PRODID:-//Recipe Collection//Meal Planner//EN");
+        Line("CALSCALE:GREGORIAN");
+        Line($"X-WR-CALNAME:{Escape($"Meal plan, week of {plan.WeekStart}")}");
+
+        foreach (var entry in plan.Entries
+            .OrderBy(e => e.Date, StringComparer.Ordinal)
+            .ThenBy(e => Array.IndexOf(MealPlanWeek.Meals, e.Meal)))
+        {
+            if (!MealPlanWeek.TryParseDate(entry.Date, out var date) || !MealTimes.TryGetValue(entry.Meal, out var time))
+            {
+                continue;
+            }
+
+            var start = date.ToDateTime(time);
+            var meal = CultureInfo.InvariantCulture.TextInfo.ToTitleCase(entry.Meal);
+
+            Line("BEGIN:VEVENT");
+            Line($"UID:{entry.Date}-{entry.Meal}-{entry.RecipeId}@recipe-collection");
+            Line($"DTSTAMP:{FormatTime(generatedAt.ToUniversalTime())}Z");
+            Line($"DTSTART:{FormatTime(start)}");
+            Line($"DTEND:{FormatTime(start.Add(MealDuration))}");
+            Line($"SUMMARY:{Escape($"{meal}: {entry.RecipeTitle}")}");
+            Line("END:VEVENT");
+        }
+
+        Line("END:VCALENDAR");
+        return builder.ToString();
+    }
+
+    private static string FormatTime(DateTime time)
+    {
+        return time.ToString("yyyyMMdd'T'HHmmss", CultureInfo.InvariantCulture);
+    }
+
+    private static string Escape(string text)
+    {
+        return text
+            .Replace("\\", "\\\\")
+            .Replace(";", "\\;")
+            .Replace(",", "\\,")
+            .Replace("\r\n", "\\n")
+            .Replace("\n", "\\n");
+    }
+
+    // Lines longer than 75 octets continue on the next line after a space, never splitting a UTF-8 character
+    private static string Fold(string line)
+    {
+        const int MaxOctets = 75;
+        var builder = new StringBuilder();
+        var octets = 0;
+
+        foreach (var element in EnumerateTextElements(line))
+        {
+            var size = Encoding.UTF8.GetByteCount(element);
+            if (octets + size > MaxOctets)
+            {
+                builder.Append("\r\n ");
+                octets = 1;
+            }
+
+            builder.Append(element);
+            octets += size;
+        }
+
+        return builder.ToString();
+    }
+
+    private static IEnumerable<string> EnumerateTextElements(string text)
+    {
+        var enumerator = StringInfo.GetTextElementEnumerator(text);
+        while (enumerator.MoveNext())
+        {
+            yield return enumerator.GetTextElement();
+        }
+    }
+}
@@ -1,5 +1,7 @@
 using FluentValidation;
 using RecipeCollection.DTOs.RequestModels;
+using RecipeCollection.Services;
+using RecipeCollection.Utilities;
 
 namespace RecipeCollection.Validators;
 
@@ -16,10 +18,124 @@ public class CreateRecipeRequestValidator : AbstractValidator<CreateRecipeReques
             .NotEmpty().WithMessage("Recipe text is required")
             .MaximumLength(10000).WithMessage("Recipe text must not exceed 10,000 characters");
 
+        // Photos are optional: recipes imported from web pages and text files have none
         RuleFor(x => x.ImageRef)
-            .NotEmpty().WithMessage("Image reference is required")
             .MaximumLength(500).WithMessage("Image reference must not exceed 500 characters");
 
+        RuleFor(x => x.ImageRefs)
+            .Must(imageRefs => imageRefs == null || imageRefs.Count <= 10)
+            .WithMessage("Recipe cannot have more than 10 images");
+
+        RuleForEach(x => x.ImageRefs)
+            .NotEmpty().WithMessage("Image reference cannot be empty")
+            .MaximumLength(500).WithMessage("Image reference must not exceed 500 characters")
+            .When(x => x.ImageRefs != null);
+
+        RuleFor(x => x.Servings)
+            .InclusiveBetween(1, 100).WithMessage("Servings must be between 1 and 100")
+            .When(x => x.Servings.HasValue);
+
+        RuleFor(x => x.IngredientLines)
+            .Must(lines => lines == null || lines.Count <= 100)
+            .WithMessage("Recipe cannot have more than 100 ingredients");
+
+        RuleForEach(x => x.IngredientLines)
+            .MaximumLength(500).WithMessage("Ingredient must not exceed 500 characters")
+            .When(x => x.IngredientLines != null);
+
+        RuleFor(x => x.Steps)
+            .Must(steps => steps == null || steps.Count <= 100)
+            .WithMessage("Recipe cannot have more than 100 steps");
+
+        RuleForEach(x => x.Steps)
+            .MaximumLength(2000).WithMessage("Step must not exceed 2,000 characters")
+            .When(x => x.Steps != null);
+
+        RuleFor(x => x.PrepTimeMinutes)
+            .InclusiveBetween(1, 10080).WithMessage("Prep time must be between 1 minute and 7 days")
+            .When(x => x.PrepTimeMinutes.HasValue);
+
+        RuleFor(x => x.CookTimeMinutes)
+            .InclusiveBetween(1, 10080).WithMessage("Cook time must be between 1 minute and 7 days")
+            .When(x => x.CookTimeMinutes.HasValue);
+
+        RuleFor(x => x.Yield)
+            .MaximumLength(100).WithMessage("Yield must not exceed 100 characters");
+
+        RuleFor(x => x.SourceBook)
+            .MaximumLength(200).WithMessage("Source book must not exceed 200 characters");
+
+        RuleFor(x => x.SourcePage)
+            .MaximumLength(20).WithMessage("Source page must not exceed 20 characters");
+
+        RuleFor(x => x.OcrLanguage)
+            .Must(OcrLanguages.IsSupported)
+            .WithMessage($"OCR language must be one of: {string.Join(", ", OcrLanguages.Supported)}")
+            .When(x => x.OcrLanguage != null);
+
+        RuleFor(x => x.Tags)
+            .Must(tags => tags == null || tags.Count <= 20)
+            .WithMessage("Recipe cannot have more than 20 tags");
+
+        RuleForEach(x => x.Tags)
+            .NotEmpty().WithMessage("Tag cannot be empty")
+            .MinimumLength(2).WithMessage("Tag must be at least 2 characters")
+            .MaximumLength(50).WithMessage("Tag must not exceed 50 characters")
+            .Matches("^[a-zäåö0-9\\-]+$").WithMessage("Tag must contain only letters (including äåö), numbers, and hyphens")
+            .When(x => x.Tags != null);
+    }
+}
+
+public class UpdateRecipeRequestValidator : AbstractValidator<UpdateRecipeRequest>
+{
+    public UpdateRecipeRequestValidator()
+    {
+        RuleFor(x => x.Title)
+            .NotEmpty().WithMessage("Title is required")
+            .MinimumLength(3).WithMessage("Title must be at least 3 characters")
+            .MaximumLength(200).WithMessage("Title must not exceed 200 characters");
+
+        RuleFor(x => x.RawText)
+            .NotEmpty().WithMessage("Recipe text is required")
+            .MaximumLength(10000).WithMessage("Recipe text must not exceed 10,000 characters");
+
+        RuleFor(x => x.Servings)
+            .InclusiveBetween(1, 100).WithMessage("Servings must be between 1 and 100")
+            .When(x => x.Servings.HasValue);
+
+        RuleFor(x => x.IngredientLines)
+            .Must(lines => lines == null || lines.Count <= 100)
+            .WithMessage("Recipe cannot have more than 100 ingredients");
+
+        RuleForEach(x => x.IngredientLines)
+            .MaximumLength(500).WithMessage("Ingredient must not exceed 500 characters")
+            .When(x => x.IngredientLines != null);
+
+        RuleFor(x => x.Steps)
+            .Must(steps => steps == null || steps.Count <= 100)
+            .WithMessage("Recipe cannot have more than 100 steps");
+
+        RuleForEach(x => x.Steps)
+            .MaximumLength(2000).WithMessage("Step must not exceed 2,000 characters")
+            .When(x => x.Steps != null);
+
+        RuleFor(x => x.PrepTimeMinutes)
+            .InclusiveBetween(1, 10080).WithMessage("Prep time must be between 1 minute and 7 days")
+            .When(x => x.PrepTimeMinutes.HasValue);
+
+        RuleFor(x => x.CookTimeMinutes)
+            .InclusiveBetween(1, 10080).WithMessage("Cook time must be between 1 minute and 7 days")
+            .When(x => x.CookTimeMinutes.HasValue);
+
+        RuleFor(x => x.Yield)
+            .MaximumLength(100).WithMessage("Yield must not exceed 100 characters");
+
+        RuleFor(x => x.SourceBook)
+            .MaximumLength(200).WithMessage("Source book must not exceed 200 characters");
+
+        RuleFor(x => x.SourcePage)
+            .MaximumLength(20).WithMessage("Source page must not exceed 20 characters");
+
         RuleFor(x => x.Tags)
             .Must(tags => tags == null || tags.Count <= 20)
             .WithMessage("Recipe cannot have more than 20 tags");
@@ -43,3 +159,156 @@ public class AddTagRequestValidator : AbstractValidator<AddTagRequest>
             .MaximumLength(50).WithMessage("Tag must not exceed 50 characters");
     }
 }
+
+public class RenameTagRequestValidator : AbstractValidator<RenameTagRequest>
+{
+    public RenameTagRequestValidator()
+    {
+        RuleFor(x => x.NewTag)
+            .NotEmpty().WithMessage("New tag is required")
+            .MinimumLength(2).WithMessage("Tag must be at least 2 characters")
+            .MaximumLength(50).WithMessage("Tag must not exceed 50 characters");
+    }
+}
+
+// Limits match the recipe fields, but nothing is required: a draft can be saved at any stage
+public class SaveDraftRequestValidator : AbstractValidator<SaveDraftRequest>
+{
+    public SaveDraftRequestValidator()
+    {
+        RuleFor(x => x.Title)
+            .MaximumLength(200).WithMessage("Title must not exceed 200 characters");
+
+        RuleFor(x => x.RawText)
+            .MaximumLength(10000).WithMessage("Recipe text must not exceed 10,000 characters");
+
+        RuleFor(x => x.TagsInput)
+            .MaximumLength(1000).WithMessage("Tags must not exceed 1,000 characters");
+
+        RuleFor(x => x.OcrLanguage)
+            .Must(OcrLanguages.IsSupported)
+            .WithMessage($"OCR language must be one of: {string.Join(", ", OcrLanguages.Supported)}")
+            .When(x => x.OcrLanguage != null);
+
+        RuleFor(x => x.Pages)
+            .Must(pages => pages.Count <= 10)
+            .WithMessage("Recipe cannot have more than 10 images");
+
+        RuleForEach(x => x.Pages).ChildRules(page =>
+        {
+            page.RuleFor(p => p.ImageRef)
+                .NotEmpty().WithMessage("Image reference cannot be empty")
+                .MaximumLength(500).WithMessage("Image reference must not exceed 500 characters");
+
+            page.RuleFor(p => p.Text)
+                .MaximumLength(10000).WithMessage("Page text must not exceed 10,000 characters");
+        });
+
+        RuleFor(x => x.Sections!).ChildRules(sections =>
+        {
+            sections.RuleFor(s => s.Ingredients)
+                .MaximumLength(50000).WithMessage("Ingredients must not exceed 50,000 characters");
+
+            sections.RuleFor(s => s.Steps)
+                .MaximumLength(200000).WithMessage("Steps must not exceed 200,000 characters");
+
+            sections.RuleFor(s => s.Servings)
+                .MaximumLength(20).WithMessage("Servings must not exceed 20 characters");
+
+            sections.RuleFor(s => s.PrepTime)
+                .MaximumLength(20).WithMessage("Prep time must not exceed 20 characters");
+
+            sections.RuleFor(s => s.CookTime)
+                .MaximumLength(20).WithMessage("Cook time must not exceed 20 characters");
+
+            sections.RuleFor(s => s.Yield)
+                .MaximumLength(100).WithMessage("Yield must not exceed 100 characters");
+
+            sections.RuleFor(s => s.SourceBook)
+                .MaximumLength(200).WithMessage("Source book must not exceed 200 characters");
+
+            sections.RuleFor(s => s.SourcePage)
+                .MaximumLength(20).WithMessage("Source page must not exceed 20 characters");
+        }).When(x => x.Sections != null);
+    }
+}
+
+// That each date falls within the planned week is checked by the endpoint, which knows the week
+public class SaveMealPlanRequestValidator : AbstractValidator<SaveMealPlanRequest>
+{
+    public SaveMealPlanRequestValidator()
+    {
+        RuleFor(x => x.Entries)
+            .Must(entries => entries.Count <= 100)
+            .WithMessage("A week cannot have more than 100 planned recipes");
+
+        RuleForEach(x => x.Entries).ChildRules(entry =>
+        {
+            entry.RuleFor(e => e.Date)
+                .Must(MealPlanWeek.IsDate)
+                .WithMessage("Date must be a date in the format yyyy-MM-dd");
+
+            entry.RuleFor(e => e.Meal)
+                .Must(meal => MealPlanWeek.Meals.Contains(meal))
+                .WithMessage($"Meal must be one of: {string.Join(", ", MealPlanWeek.Meals)}");
+
+            entry.RuleFor(e => e.RecipeId)
+                .NotEmpty().WithMessage("Recipe id is required")
+                .MaximumLength(100).WithMessage("Recipe id must not exceed 100 characters");
+        });
+    }
+}
+
+// Lowercased into the user id, so it must be something that reads well in a share or household list
+public class DevTokenRequestValidator : AbstractValidator<DevTokenRequest>
+{
+    public DevTokenRequestValidator()
+    {
+        RuleFor(x => x.UserName)
+            .NotEmpty().WithMessage("User name is required")
+            .MaximumLength(50).WithMessage("User name must not exceed 50 characters")
+            .Matches("^\\s*[A-Za-z0-9._-]+\\s*$").WithMessage("User name must contain only letters, numbers, dots, dashes and underscores");
+
+        RuleFor(x => x.DisplayName)
+            .MaximumLength(100).WithMessage("Display name must not exceed 100 characters");
+    }
+}
+
+public class CreateHouseholdRequestValidator : AbstractValidator<CreateHouseholdRequest>
+{
+    public CreateHouseholdRequestValidator()
+    {
+        RuleFor(x => x.Name)
+            .NotEmpty().WithMessage("Household name is required")
+            .MaximumLength(100).WithMessage("Household name must not exceed 100 characters");
+    }
+}
+
+public class InviteHouseholdMemberRequestValidator : AbstractValidator<AddHouseholdMemberRequest>
+{
+    public InviteHouseholdMemberRequestValidator()
+    {
+        RuleFor(x => x.UserId)
+            .NotEmpty().WithMessage("User id is required")
+            .MaximumLength(200).WithMessage("User id must not exceed 200 characters");
+    }
+}
+
+public class CreateShareRequestValidator : AbstractValidator<CreateShareRequest>
+{
+    public CreateShareRequestValidator()
+    {
+        RuleFor(x => x.RecipeId)
+            .NotEmpty().WithMessage("Recipe id cannot be empty")
+            .MaximumLength(100).WithMessage("Recipe id must not exceed 100 characters")
+            .When(x => x.RecipeId != null);
+
+        RuleFor(x => x.UserId)
+            .NotEmpty().WithMessage("User id is required")
+            .MaximumLength(200).WithMessage("User id must not exceed 200 characters");
+
+        RuleFor(x => x.Permission)
+            .Must(permission => AccessScope.Permissions.Contains(permission))
+            .WithMessage($"Permission must be one of: {string.Join(", ", AccessScope.Permissions)}");
+    }
+}
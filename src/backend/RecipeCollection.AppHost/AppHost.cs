@@ -22,9 +22,15 @@ var blobs = storage.AddBlobs("blobs");
 
 if (builder.ExecutionContext.IsPublishMode)
 {
+    // The frontend can only sign in through the built-in token issuer, so the deployed API keeps it until
+    // there is a sign-in flow for an identity provider. The signing key is a secret set at deployment.
+    var authSigningKey = builder.AddParameter("auth-dev-signing-key", secret: true);
+
     var api = builder.AddDockerfile(name: "api", contextPath: "..")
         .WithReference(dbResource)
         .WithReference(blobs)
+        .WithEnvironment("Auth__DevIssuer__Enabled", "true")
+        .WithEnvironment("Auth__DevIssuer__SigningKey", authSigningKey)
         .WaitFor(dbResource)
         .WaitFor(blobs);
 
@@ -15,6 +15,16 @@ public class RecipeDbContext : DbContext
 
     public DbSet<RecipeIngredient> RecipeIngredients => Set<RecipeIngredient>();
 
+    public DbSet<RecipeDraft> RecipeDrafts => Set<RecipeDraft>();
+
+    public DbSet<MealPlan> MealPlans => Set<MealPlan>();
+
+    public DbSet<UserProfile> UserProfiles => Set<UserProfile>();
+
+    public DbSet<Household> Households => Set<Household>();
+
+    public DbSet<RecipeShare> RecipeShares => Set<RecipeShare>();
+
     protected override void OnModelCreating(ModelBuilder modelBuilder)
     {
         modelBuilder.Entity<Recipe>()
@@ -29,5 +39,32 @@ public class RecipeDbContext : DbContext
             .ToContainer(nameof(RecipeIngredient))
             .HasPartitionKey(i => i.Pk)
             .HasOne<Recipe>();
+
+        modelBuilder.Entity<RecipeDraft>(draft =>
+        {
+            draft.ToContainer(nameof(RecipeDraft))
+                .HasPartitionKey(d => d.Pk);
+            draft.OwnsMany(d => d.Pages);
+            draft.OwnsOne(d => d.Sections);
+        });
+
+        modelBuilder.Entity<MealPlan>(plan =>
+        {
+            plan.ToContainer(nameof(MealPlan))
+                .HasPartitionKey(p => p.Pk);
+            plan.OwnsMany(p => p.Entries);
+        });
+
+        modelBuilder.Entity<UserProfile>()
+            .ToContainer(nameof(UserProfile))
+            .HasPartitionKey(u => u.Pk);
+
+        modelBuilder.Entity<Household>()
+            .ToContainer(nameof(Household))
+            .HasPartitionKey(h => h.Pk);
+
+        modelBuilder.Entity<RecipeShare>()
+            .ToContainer(nameof(RecipeShare))
+            .HasPartitionKey(s => s.Pk);
     }
 }
@@ -0,0 +1,31 @@
+using Newtonsoft.Json;
+
+namespace RecipeCollection.Domain;
+
+// People sharing one recipe collection. A user belongs to at most one household; recipes they add while a
+// member are owned by the household, so they stay with it when the user leaves.
+public class Household
+{
+    [JsonProperty("id")]
+    public required string Id { get; set; }
+
+    [JsonProperty("pk")]
+    public string Pk { get; set; } = "household";
+
+    [JsonProperty("type")]
+    public string Type { get; set; } = "Household";
+
+    [JsonProperty("name")]
+    public required string Name { get; set; }
+
+    // User ids, in the order they joined
+    [JsonProperty("memberIds")]
+    public List<string> MemberIds { get; set; } = new();
+
+    // User ids invited but not yet joined; they become members when they accept
+    [JsonProperty("invitedIds")]
+    public List<string> InvitedIds { get; set; } = new();
+
+    [JsonProperty("createdAt")]
+    public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+}
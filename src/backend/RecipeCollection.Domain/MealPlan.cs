@@ -0,0 +1,45 @@
+using Newtonsoft.Json;
+
+namespace RecipeCollection.Domain;
+
+// The recipes a collection has planned for one week, Monday to Sunday
+public class MealPlan
+{
+    [JsonProperty("id")]
+    public required string Id { get; set; }
+
+    // The collection planning the week, like Recipe.Pk
+    [JsonProperty("pk")]
+    public string Pk { get; set; } = "mealplan";
+
+    // The Monday's date, e.g. "2026-10-19"
+    [JsonProperty("weekStart")]
+    public required string WeekStart { get; set; }
+
+    [JsonProperty("type")]
+    public string Type { get; set; } = "MealPlan";
+
+    [JsonProperty("entries")]
+    public List<MealPlanEntry> Entries { get; set; } = new();
+
+    [JsonProperty("updatedAt")]
+    public DateTime UpdatedAt { get; set; } = DateTime.UtcNow;
+}
+
+public class MealPlanEntry
+{
+    // Date within the week, yyyy-MM-dd
+    [JsonProperty("date")]
+    public required string Date { get; set; }
+
+    // "breakfast", "lunch" or "dinner"
+    [JsonProperty("meal")]
+    public required string Meal { get; set; }
+
+    [JsonProperty("recipeId")]
+    public required string RecipeId { get; set; }
+
+    // Kept so the plan still reads well if the recipe is deleted later
+    [JsonProperty("recipeTitle")]
+    public string RecipeTitle { get; set; } = string.Empty;
+}
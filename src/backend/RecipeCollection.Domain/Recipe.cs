@@ -7,6 +7,8 @@ public class Recipe
     [JsonProperty("id")]
     public required string Id { get; set; }
 
+    // The collection the recipe belongs to: "user:{userId}" or "household:{householdId}".
+    // Recipes saved before sign-in was added are in the old shared "recipe" partition.
     [JsonProperty("pk")]
     public required string Pk { get; set; } = "recipe";
 
@@ -22,9 +24,43 @@ public class Recipe
     [JsonProperty("imageRef")]
     public required string ImageRef { get; set; }
 
+    // Every photographed page in reading order; ImageRef is the first page.
+    // Empty for recipes saved before multi-page support, which only have ImageRef.
+    [JsonProperty("imageRefs")]
+    public List<string> ImageRefs { get; set; } = new();
+
     [JsonProperty("searchText")]
     public required string SearchText { get; set; }
 
+    // Number of people the recipe serves as written; null when unknown
+    [JsonProperty("servings")]
+    public int? Servings { get; set; }
+
+    // Tesseract language the text was recognized with, e.g. "swe+eng"
+    [JsonProperty("ocrLanguage")]
+    public string? OcrLanguage { get; set; }
+
+    // Instruction steps in order; empty when the recipe only has its raw text
+    [JsonProperty("steps")]
+    public List<string> Steps { get; set; } = new();
+
+    [JsonProperty("prepTimeMinutes")]
+    public int? PrepTimeMinutes { get; set; }
+
+    [JsonProperty("cookTimeMinutes")]
+    public int? CookTimeMinutes { get; set; }
+
+    // What the recipe makes when that isn't portions, e.g. "24 cookies" or "1 loaf"
+    [JsonProperty("yield")]
+    public string? Yield { get; set; }
+
+    // Cookbook the recipe was photographed from, and the page it is on
+    [JsonProperty("sourceBook")]
+    public string? SourceBook { get; set; }
+
+    [JsonProperty("sourcePage")]
+    public string? SourcePage { get; set; }
+
     [JsonProperty("normalizedTags")]
     public List<string> NormalizedTags { get; set; } = new();
 
@@ -0,0 +1,83 @@
+using Newtonsoft.Json;
+
+namespace RecipeCollection.Domain;
+
+// A recipe still being imported, saved as the user works so it can be finished later or on another device.
+// Fields hold what is typed in the form, so a resumed draft looks exactly as it was left.
+public class RecipeDraft
+{
+    [JsonProperty("id")]
+    public required string Id { get; set; }
+
+    // "user:{userId}": drafts are private to whoever is importing the recipe
+    [JsonProperty("pk")]
+    public string Pk { get; set; } = "draft";
+
+    [JsonProperty("type")]
+    public string Type { get; set; } = "RecipeDraft";
+
+    [JsonProperty("title")]
+    public string Title { get; set; } = string.Empty;
+
+    // Null while the text still follows the extracted pages
+    [JsonProperty("rawText")]
+    public string? RawText { get; set; }
+
+    // Comma-separated, as typed
+    [JsonProperty("tagsInput")]
+    public string TagsInput { get; set; } = string.Empty;
+
+    [JsonProperty("ocrLanguage")]
+    public string? OcrLanguage { get; set; }
+
+    // Pages whose text has been extracted, in reading order
+    [JsonProperty("pages")]
+    public List<RecipeDraftPage> Pages { get; set; } = new();
+
+    // Null while the sections are still split from the text
+    [JsonProperty("sections")]
+    public RecipeDraftSections? Sections { get; set; }
+
+    [JsonProperty("createdAt")]
+    public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+
+    [JsonProperty("updatedAt")]
+    public DateTime UpdatedAt { get; set; } = DateTime.UtcNow;
+}
+
+public class RecipeDraftPage
+{
+    [JsonProperty("imageRef")]
+    public required string ImageRef { get; set; }
+
+    [JsonProperty("text")]
+    public string Text { get; set; } = string.Empty;
+}
+
+// One ingredient or step per line, numbers as typed
+public class RecipeDraftSections
+{
+    [JsonProperty("ingredients")]
+    public string Ingredients { get; set; } = string.Empty;
+
+    [JsonProperty("steps")]
+    public string Steps { get; set; } = string.Empty;
+
+    [JsonProperty("servings")]
+    public string Servings { get; set; } = string.Empty;
+
+    [JsonProperty("prepTime")]
+    public string PrepTime { get; set; } = string.Empty;
+
+    [JsonProperty("cookTime")]
+    public string CookTime { get; set; } = string.Empty;
+
+    [JsonProperty("yield")]
+    public string Yield { get; set; } = string.Empty;
+
+    [JsonProperty("sourceBook")]
+    public string SourceBook { get; set; } = string.Empty;
+
+    [JsonProperty("sourcePage")]
+    public string SourcePage { get; set; } = string.Empty;
+}
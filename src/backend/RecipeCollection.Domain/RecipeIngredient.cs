@@ -7,8 +7,9 @@ public class RecipeIngredient
     [JsonProperty("id")]
     public required string Id { get; set; }
 
+    // Same partition as the recipe
     [JsonProperty("pk")]
-    public string Pk { get; set; } = "recipe";
+    public required string Pk { get; set; }
 
     [JsonProperty("type")]
     public string Type { get; set; } = "RecipeIngredient";
@@ -22,6 +23,19 @@ public class RecipeIngredient
     [JsonProperty("canonicalName")]
     public string? CanonicalName { get; set; }
 
+    [JsonProperty("quantity")]
+    public double? Quantity { get; set; }
+
+    // Upper bound when the quantity is a range, e.g. 3 for "2–3"
+    [JsonProperty("quantityMax")]
+    public double? QuantityMax { get; set; }
+
+    [JsonProperty("unit")]
+    public string? Unit { get; set; }
+
+    [JsonProperty("name")]
+    public string? Name { get; set; }
+
     [JsonProperty("position")]
     public int Position { get; set; }
 
@@ -0,0 +1,34 @@
+using Newtonsoft.Json;
+
+namespace RecipeCollection.Domain;
+
+// Access to someone else's recipes: one recipe, or the whole collection when RecipeId is null
+public class RecipeShare
+{
+    [JsonProperty("id")]
+    public required string Id { get; set; }
+
+    [JsonProperty("pk")]
+    public string Pk { get; set; } = "share";
+
+    [JsonProperty("type")]
+    public string Type { get; set; } = "RecipeShare";
+
+    // The collection the recipes belong to, e.g. "user:alice" or "household:household_{guid}"
+    [JsonProperty("ownerId")]
+    public required string OwnerId { get; set; }
+
+    [JsonProperty("recipeId")]
+    public string? RecipeId { get; set; }
+
+    // User id of whoever the recipes are shared with
+    [JsonProperty("granteeId")]
+    public required string GranteeId { get; set; }
+
+    // "read" or "edit"
+    [JsonProperty("permission")]
+    public required string Permission { get; set; }
+
+    [JsonProperty("createdAt")]
+    public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+}
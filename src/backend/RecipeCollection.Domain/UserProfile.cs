@@ -0,0 +1,23 @@
+using Newtonsoft.Json;
+
+namespace RecipeCollection.Domain;
+
+// Someone who has signed in. The id is the token's subject, so others can add them to a household or share with them.
+public class UserProfile
+{
+    [JsonProperty("id")]
+    public required string Id { get; set; }
+
+    [JsonProperty("pk")]
+    public string Pk { get; set; } = "user";
+
+    [JsonProperty("type")]
+    public string Type { get; set; } = "UserProfile";
+
+    // Display name from the token, refreshed on every sign-in
+    [JsonProperty("name")]
+    public string Name { get; set; } = string.Empty;
+
+    [JsonProperty("createdAt")]
+    public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+}
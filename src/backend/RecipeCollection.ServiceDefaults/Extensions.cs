@@ -127,9 +127,11 @@ public static class Extensions
     {
         var healthChecks = app.MapGroup("");
 
+        // Probes don't sign in, so health checks stay reachable when an app requires authentication
         healthChecks
             .CacheOutput("HealthChecks")
-            .WithRequestTimeout("HealthChecks");
+            .WithRequestTimeout("HealthChecks")
+            .AllowAnonymous();
 
         // All health checks must pass for app to be
         // considered ready to accept traffic after starting
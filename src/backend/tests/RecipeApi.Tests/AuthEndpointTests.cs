@@ -0,0 +1,301 @@
+using System.Net;
+using System.Net.Http.Headers;
+using System.Net.Http.Json;
+using Microsoft.AspNetCore.Hosting;
+using Microsoft.AspNetCore.Mvc.Testing;
+using Microsoft.Extensions.DependencyInjection;
+using RecipeCollection.Data;
+using RecipeCollection.Domain;
+using RecipeCollection.DTOs.RequestModels;
+using RecipeCollection.DTOs.ResponseModels;
+
+namespace RecipeApi.Tests;
+
+[TestFixture]
+public class AuthEndpointTests
+{
+    private WebApplicationFactory<Program> _factory = null!;
+
+    [OneTimeSetUp]
+    public void SetUp()
+    {
+        _factory = new WebApplicationFactory<Program>().WithWebHostBuilder(builder =>
+        {
+            builder.UseSetting("ConnectionStrings:CosmosDb", "");
+            builder.UseDevTokenIssuer();
+        });
+    }
+
+    [OneTimeTearDown]
+    public void TearDown()
+    {
+        _factory.Dispose();
+    }
+
+    [Test]
+    public async Task ProtectedEndpoint_WithoutToken_Returns401()
+    {
+        // Arrange
+        using var client = _factory.CreateClient();
+
+        // Act
+        var response = await client.GetAsync("/recipes");
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.Unauthorized));
+        var error = await response.Content.ReadFromJsonAsync<ErrorResponse>();
+        Assert.That(error!.Code, Is.EqualTo("UNAUTHORIZED"));
+    }
+
+    [Test]
+    public async Task ProtectedEndpoint_WithInvalidToken_Returns401()
+    {
+        // Arrange
+        using var client = _factory.CreateClient();
+        client.DefaultRequestHeaders.Authorization = new AuthenticationHeaderValue("Bearer", "not-a-token");
+
+        // Act
+        var response = await client.GetAsync("/recipes");
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.Unauthorized));
+    }
+
+    [Test]
+    public async Task CreateDevToken_ReturnsTokenForLowercasedUserName()
+    {
+        // Arrange
+        using var client = _factory.CreateClient();
+        var userName = NewUserName("Alice");
+
+        // Act
+        var response = await client.PostAsJsonAsync("/auth/dev-token", new DevTokenRequest
+        {
+            UserName = userName,
+            DisplayName = "Alice Andersson"
+        });
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.OK));
+        var token = await response.Content.ReadFromJsonAsync<DevTokenResponse>();
+        Assert.That(token!.AccessToken, Is.Not.Empty);
+        Assert.That(token.ExpiresAt, Is.GreaterThan(DateTime.UtcNow));
+        Assert.That(token.User.Id, Is.EqualTo(userName.ToLowerInvariant()));
+        Assert.That(token.User.Name, Is.EqualTo("Alice Andersson"));
+        Assert.That(token.User.Household, Is.Null);
+    }
+
+    [Test]
+    public async Task SignIn_WithDeployedConfiguration_ReturnsTokenTheApiAccepts()
+    {
+        // Arrange: only the settings the AppHost passes to the deployed API, outside Development
+        using var deployed = new WebApplicationFactory<Program>().WithWebHostBuilder(builder =>
+        {
+            builder.UseEnvironment("Production");
+            builder.UseSetting("ConnectionStrings:CosmosDb", "");
+            builder.UseSetting("Auth:DevIssuer:Enabled", "true");
+            builder.UseSetting("Auth:DevIssuer:SigningKey", "deployment-secret-at-least-32-characters");
+        });
+        using var client = deployed.CreateClient(new WebApplicationFactoryClientOptions
+        {
+            BaseAddress = new Uri("https://localhost")
+        });
+        var userName = NewUserName("deployed");
+
+        // Act
+        var tokenResponse = await client.PostAsJsonAsync("/auth/dev-token", new DevTokenRequest { UserName = userName });
+        var token = await tokenResponse.Content.ReadFromJsonAsync<DevTokenResponse>();
+        client.DefaultRequestHeaders.Authorization = new AuthenticationHeaderValue("Bearer", token!.AccessToken);
+        var meResponse = await client.GetAsync("/auth/me");
+
+        // Assert
+        Assert.That(tokenResponse.StatusCode, Is.EqualTo(HttpStatusCode.OK));
+        Assert.That(meResponse.StatusCode, Is.EqualTo(HttpStatusCode.OK));
+        var user = await meResponse.Content.ReadFromJsonAsync<CurrentUserResponse>();
+        Assert.That(user!.Id, Is.EqualTo(userName.ToLowerInvariant()));
+    }
+
+    [Test]
+    public async Task CreateDevToken_WithInvalidUserName_Returns400()
+    {
+        // Arrange
+        using var client = _factory.CreateClient();
+
+        // Act
+        var response = await client.PostAsJsonAsync("/auth/dev-token", new DevTokenRequest { UserName = "not a name!" });
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.BadRequest));
+    }
+
+    [Test]
+    public async Task GetCurrentUser_ReturnsSignedInUser()
+    {
+        // Arrange
+        var userName = NewUserName("bob");
+        using var client = await _factory.CreateSignedInClientAsync(userName);
+
+        // Act
+        var user = await client.GetFromJsonAsync<CurrentUserResponse>("/auth/me");
+
+        // Assert
+        Assert.That(user!.Id, Is.EqualTo(userName));
+        Assert.That(user.Name, Is.EqualTo(userName));
+    }
+
+    [Test]
+    public async Task CreateRecipe_IsOwnedBySignedInUser()
+    {
+        // Arrange
+        var userName = NewUserName("carol");
+        using var client = await _factory.CreateSignedInClientAsync(userName);
+
+        // Act
+        var recipe = await CreateRecipe(client);
+
+        // Assert
+        Assert.That(recipe.Owner.Id, Is.EqualTo($"user:{userName}"));
+        Assert.That(recipe.Owner.Kind, Is.EqualTo("user"));
+        Assert.That(recipe.Owner.Name, Is.EqualTo(userName));
+        Assert.That(recipe.Access, Is.EqualTo("owner"));
+    }
+
+    [Test]
+    public async Task Recipes_AreHiddenFromOtherUsers()
+    {
+        // Arrange
+        using var owner = await _factory.CreateSignedInClientAsync(NewUserName("dave"));
+        using var other = await _factory.CreateSignedInClientAsync(NewUserName("erin"));
+        var recipe = await CreateRecipe(owner);
+
+        // Act
+        var getResponse = await other.GetAsync($"/recipes/{recipe.Id}");
+        var deleteResponse = await other.DeleteAsync($"/recipes/{recipe.Id}");
+        var search = await other.GetFromJsonAsync<SearchRecipesResponse>("/recipes?pageSize=100");
+
+        // Assert
+        Assert.That(getResponse.StatusCode, Is.EqualTo(HttpStatusCode.NotFound));
+        Assert.That(deleteResponse.StatusCode, Is.EqualTo(HttpStatusCode.NotFound));
+        Assert.That(search!.Recipes, Has.None.Matches<RecipeSummaryResponse>(r => r.Id == recipe.Id));
+    }
+
+    [Test]
+    public async Task Drafts_AreHiddenFromOtherUsers()
+    {
+        // Arrange
+        using var owner = await _factory.CreateSignedInClientAsync(NewUserName("frank"));
+        using var other = await _factory.CreateSignedInClientAsync(NewUserName("grace"));
+        var draftId = $"draft-{Guid.NewGuid():N}";
+        await owner.PutAsJsonAsync($"/drafts/{draftId}", new SaveDraftRequest { Title = "Half done" });
+
+        // Act
+        var response = await other.GetAsync($"/drafts/{draftId}");
+        var drafts = await other.GetFromJsonAsync<List<DraftResponse>>("/drafts");
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.NotFound));
+        Assert.That(drafts!, Has.None.Matches<DraftResponse>(d => d.Id == draftId));
+    }
+
+    [Test]
+    public async Task SignIn_AsLegacyRecipeOwner_MovesRecipesFromBeforeSignInIntoTheirCollection()
+    {
+        // Arrange
+        var ownerName = NewUserName("heidi");
+        using var factory = _factory.WithWebHostBuilder(builder => builder.UseSetting("LegacyRecipes:OwnerUserId", ownerName));
+        var recipeId = await AddLegacyRecipeAsync(factory, "recipe");
+        using var other = await factory.CreateSignedInClientAsync(NewUserName("ivan"));
+
+        // Act
+        using var owner = await factory.CreateSignedInClientAsync(ownerName);
+
+        // Assert
+        var otherResponse = await other.GetAsync($"/recipes/{recipeId}");
+        Assert.That(otherResponse.StatusCode, Is.EqualTo(HttpStatusCode.NotFound));
+        var recipe = await owner.GetFromJsonAsync<RecipeDetailResponse>($"/recipes/{recipeId}");
+        Assert.That(recipe!.Owner.Id, Is.EqualTo($"user:{ownerName}"));
+        Assert.That(recipe.Access, Is.EqualTo("owner"));
+        Assert.That(recipe.Ingredients.Select(i => i.FreeText), Is.EqualTo(new[] { "2 dl milk" }));
+    }
+
+    [Test]
+    public async Task SignIn_AfterAMoveThatStoppedHalfway_FinishesIt()
+    {
+        // Arrange: the copy in the owner's collection was written, but the old recipe wasn't deleted
+        var ownerName = NewUserName("jarl");
+        using var factory = _factory.WithWebHostBuilder(builder => builder.UseSetting("LegacyRecipes:OwnerUserId", ownerName));
+        var recipeId = await AddLegacyRecipeAsync(factory, "recipe");
+        await AddLegacyRecipeAsync(factory, $"user:{ownerName}", recipeId);
+
+        // Act
+        using var owner = await factory.CreateSignedInClientAsync(ownerName);
+
+        // Assert
+        var recipe = await owner.GetFromJsonAsync<RecipeDetailResponse>($"/recipes/{recipeId}");
+        Assert.That(recipe!.Ingredients.Select(i => i.FreeText), Is.EqualTo(new[] { "2 dl milk" }));
+        using var scope = factory.Services.CreateScope();
+        var dbContext = scope.ServiceProvider.GetRequiredService<RecipeDbContext>();
+        Assert.That(dbContext.Recipes.Count(r => r.Id == recipeId), Is.EqualTo(1));
+        Assert.That(dbContext.RecipeIngredients.Count(i => i.RecipeId == recipeId), Is.EqualTo(1));
+    }
+
+    [Test]
+    public async Task SignIn_WithoutLegacyRecipeOwner_LeavesRecipesFromBeforeSignIn()
+    {
+        // Arrange
+        var recipeId = await AddLegacyRecipeAsync(_factory, "recipe");
+
+        // Act
+        using var client = await _factory.CreateSignedInClientAsync(NewUserName("kajsa"));
+
+        // Assert
+        var response = await client.GetAsync($"/recipes/{recipeId}");
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.NotFound));
+        using var scope = _factory.Services.CreateScope();
+        var dbContext = scope.ServiceProvider.GetRequiredService<RecipeDbContext>();
+        Assert.That(dbContext.Recipes.Single(r => r.Id == recipeId).Pk, Is.EqualTo("recipe"));
+    }
+
+    // Writes a recipe with one ingredient straight to the database, as the single-user version stored them
+    private static async Task<string> AddLegacyRecipeAsync(
+        WebApplicationFactory<Program> factory,
+        string pk,
+        string? recipeId = null)
+    {
+        recipeId ??= $"recipe_{Guid.NewGuid()}";
+        using var scope = factory.Services.CreateScope();
+        var dbContext = scope.ServiceProvider.GetRequiredService<RecipeDbContext>();
+        dbContext.Recipes.Add(new Recipe
+        {
+            Id = recipeId,
+            Pk = pk,
+            Title = "Grandma's buns",
+            RawText = "2 dl milk",
+            ImageRef = string.Empty,
+            SearchText = "grandma's buns 2 dl milk"
+        });
+        dbContext.RecipeIngredients.Add(new RecipeIngredient
+        {
+            Id = $"recipeingredient_{recipeId}",
+            Pk = pk,
+            RecipeId = recipeId,
+            FreeText = "2 dl milk"
+        });
+        await dbContext.SaveChangesAsync();
+        return recipeId;
+    }
+
+    private static string NewUserName(string name) => $"{name}-{Guid.NewGuid().ToString("N").Substring(0, 8)}";
+
+    private static async Task<RecipeDetailResponse> CreateRecipe(HttpClient client)
+    {
+        var response = await client.PostAsJsonAsync("/recipes", new CreateRecipeRequest
+        {
+            Title = "Private Recipe " + Guid.NewGuid().ToString().Substring(0, 8),
+            RawText = "Test recipe text",
+            ImageRef = "test-image-ref"
+        });
+        response.EnsureSuccessStatusCode();
+        return (await response.Content.ReadFromJsonAsync<RecipeDetailResponse>())!;
+    }
+}
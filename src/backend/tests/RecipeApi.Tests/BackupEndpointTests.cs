@@ -0,0 +1,330 @@
+using System.IO.Compression;
+using System.Net;
+using System.Net.Http.Json;
+using System.Text.Json;
+using Microsoft.AspNetCore.Hosting;
+using Microsoft.AspNetCore.Mvc.Testing;
+using Microsoft.Extensions.DependencyInjection;
+using RecipeCollection.DTOs;
+using RecipeCollection.DTOs.RequestModels;
+using RecipeCollection.DTOs.ResponseModels;
+using RecipeCollection.Services;
+
+namespace RecipeApi.Tests;
+
+[TestFixture]
+public class BackupEndpointTests
+{
+    private static readonly JsonSerializerOptions JsonOptions = new(JsonSerializerDefaults.Web);
+    private static readonly byte[] ImageBytes = { 0xFF, 0xD8, 0xFF, 0xE0 };
+
+    private WebApplicationFactory<Program> _factory = null!;
+    private HttpClient _client = null!;
+
+    [OneTimeSetUp]
+    public async Task SetUp()
+    {
+        _factory = new WebApplicationFactory<Program>().WithWebHostBuilder(builder =>
+        {
+            builder.UseSetting("ConnectionStrings:CosmosDb", "");
+            builder.UseDevTokenIssuer();
+        });
+        _client = await _factory.CreateSignedInClientAsync();
+    }
+
+    [OneTimeTearDown]
+    public void TearDown()
+    {
+        _client.Dispose();
+        _factory.Dispose();
+    }
+
+    [Test]
+    public async Task ExportBackup_ContainsManifestRecipesAndImages()
+    {
+        // Arrange
+        var imageRef = await UploadTestImage();
+        var created = await CreateRecipe("Backed-up buns", imageRef);
+
+        // Act
+        var response = await _client.GetAsync("/backup");
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.OK));
+        Assert.That(response.Content.Headers.ContentType?.MediaType, Is.EqualTo("application/zip"));
+        using var archive = new ZipArchive(await response.Content.ReadAsStreamAsync(), ZipArchiveMode.Read);
+
+        var manifest = ReadJson<BackupManifestDto>(archive, "manifest.json");
+        Assert.That(manifest.Format, Is.EqualTo("recipe-collection-backup"));
+        Assert.That(manifest.RecipeCount, Is.GreaterThanOrEqualTo(1));
+
+        var recipe = ReadJson<BackupRecipeDto>(archive, $"recipes/{created.Id}.json");
+        Assert.That(recipe.Title, Is.EqualTo("Backed-up buns"));
+        Assert.That(recipe.ImageRefs, Is.EqualTo(new[] { imageRef }));
+        Assert.That(recipe.Ingredients.Select(i => i.FreeText), Does.Contain("2 eggs"));
+
+        using var image = new MemoryStream();
+        await using (var entry = archive.GetEntry($"images/{imageRef}")!.Open())
+        {
+            await entry.CopyToAsync(image);
+        }
+        Assert.That(image.ToArray(), Is.EqualTo(ImageBytes));
+    }
+
+    [Test]
+    public async Task RestoreBackup_NewRecipe_CreatesItWithItsImage()
+    {
+        // Arrange
+        var id = NewRecipeId();
+        var archive = BuildArchive(BackupRecipe(id, "Restored pancakes", "recipes/2026-01-01/11111111-1111-1111-1111-111111111111_pancakes.jpg"));
+
+        // Act
+        var response = await Restore(archive, "skip", dryRun: false);
+        var recipe = await _client.GetFromJsonAsync<RecipeDetailResponse>($"/recipes/{id}");
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.OK));
+        var report = await response.Content.ReadFromJsonAsync<RestoreReportResponse>();
+        Assert.That(report!.Created, Is.EqualTo(1));
+        Assert.That(report.ImageCount, Is.EqualTo(1));
+        Assert.That(report.Recipes.Single().Action, Is.EqualTo("created"));
+
+        Assert.That(recipe!.Title, Is.EqualTo("Restored pancakes"));
+        Assert.That(recipe.Tags, Is.EqualTo(new[] { "breakfast" }));
+        Assert.That(recipe.Ingredients.Single().FreeText, Is.EqualTo("3 dl flour"));
+        Assert.That(recipe.ImageRefs, Has.Count.EqualTo(1));
+        Assert.That(recipe.ImageRefs[0], Does.EndWith("_pancakes.jpg"));
+        var image = await _client.GetByteArrayAsync($"/images/{recipe.ImageRefs[0]}");
+        Assert.That(image, Is.EqualTo(ImageBytes));
+    }
+
+    [Test]
+    public async Task DeleteRecipe_RestoredWithAnImageAnotherRecipeUses_KeepsTheImage()
+    {
+        // Arrange
+        const string sharedImage = "recipes/2026-01-01/22222222-2222-2222-2222-222222222222_buns.jpg";
+        var deletedId = NewRecipeId();
+        var keptId = NewRecipeId();
+        var archive = BuildArchive(BackupRecipe(deletedId, "Buns", sharedImage), BackupRecipe(keptId, "More buns", sharedImage));
+        (await Restore(archive, "skip", dryRun: false)).EnsureSuccessStatusCode();
+        var kept = await _client.GetFromJsonAsync<RecipeDetailResponse>($"/recipes/{keptId}");
+
+        // Act
+        var deleteResponse = await _client.DeleteAsync($"/recipes/{deletedId}");
+        var imageResponse = await _client.GetAsync($"/images/{kept!.ImageRefs[0]}");
+
+        // Assert
+        Assert.That(deleteResponse.StatusCode, Is.EqualTo(HttpStatusCode.NoContent));
+        Assert.That(imageResponse.StatusCode, Is.EqualTo(HttpStatusCode.OK));
+    }
+
+    [Test]
+    public async Task RestoreBackup_DryRun_ReportsWithoutSaving()
+    {
+        // Arrange
+        var id = NewRecipeId();
+        var archive = BuildArchive(BackupRecipe(id, "Not yet restored"));
+
+        // Act
+        var response = await Restore(archive, "skip", dryRun: true);
+        var getResponse = await _client.GetAsync($"/recipes/{id}");
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.OK));
+        var report = await response.Content.ReadFromJsonAsync<RestoreReportResponse>();
+        Assert.That(report!.DryRun, Is.True);
+        Assert.That(report.Created, Is.EqualTo(1));
+        Assert.That(getResponse.StatusCode, Is.EqualTo(HttpStatusCode.NotFound));
+    }
+
+    [TestCase("skip", "Original title")]
+    [TestCase("overwrite", "Title from backup")]
+    public async Task RestoreBackup_ExistingId_SkipsOrOverwrites(string mode, string expectedTitle)
+    {
+        // Arrange
+        var existing = await CreateRecipe("Original title");
+        var archive = BuildArchive(BackupRecipe(existing.Id, "Title from backup"));
+
+        // Act
+        var response = await Restore(archive, mode, dryRun: false);
+        var recipe = await _client.GetFromJsonAsync<RecipeDetailResponse>($"/recipes/{existing.Id}");
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.OK));
+        var report = await response.Content.ReadFromJsonAsync<RestoreReportResponse>();
+        Assert.That(report!.Recipes.Single().Action, Is.EqualTo(mode == "skip" ? "skipped" : "overwritten"));
+        Assert.That(recipe!.Title, Is.EqualTo(expectedTitle));
+    }
+
+    [Test]
+    public async Task RestoreBackup_ExistingId_DuplicateMode_CreatesCopyUnderNewId()
+    {
+        // Arrange
+        var existing = await CreateRecipe("Original title");
+        var archive = BuildArchive(BackupRecipe(existing.Id, "Title from backup"));
+
+        // Act
+        var response = await Restore(archive, "duplicate", dryRun: false);
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.OK));
+        var report = await response.Content.ReadFromJsonAsync<RestoreReportResponse>();
+        var restored = report!.Recipes.Single();
+        Assert.That(restored.Action, Is.EqualTo("duplicated"));
+        Assert.That(restored.NewId, Is.Not.EqualTo(existing.Id));
+
+        var original = await _client.GetFromJsonAsync<RecipeDetailResponse>($"/recipes/{existing.Id}");
+        var copy = await _client.GetFromJsonAsync<RecipeDetailResponse>($"/recipes/{restored.NewId}");
+        Assert.That(original!.Title, Is.EqualTo("Original title"));
+        Assert.That(copy!.Title, Is.EqualTo("Title from backup"));
+    }
+
+    [Test]
+    public async Task RestoreBackup_NotAZipArchive_Returns400()
+    {
+        // Act
+        var response = await Restore("not a zip"u8.ToArray(), "skip", dryRun: true);
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.BadRequest));
+        var error = await response.Content.ReadFromJsonAsync<ErrorResponse>();
+        Assert.That(error!.Code, Is.EqualTo("INVALID_BACKUP"));
+    }
+
+    [Test]
+    public async Task RestoreBackup_UnknownMode_Returns400()
+    {
+        // Act
+        var response = await Restore(BuildArchive(BackupRecipe(NewRecipeId(), "Any recipe")), "merge", dryRun: true);
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.BadRequest));
+        var error = await response.Content.ReadFromJsonAsync<ErrorResponse>();
+        Assert.That(error!.Code, Is.EqualTo("VALIDATION_ERROR"));
+    }
+
+    [Test]
+    public async Task RestoreBackup_InvalidRecipe_IsSkippedWithAWarning()
+    {
+        // Arrange
+        var recipe = BackupRecipe(NewRecipeId(), "Too many servings");
+        recipe.Servings = 500;
+        var archive = BuildArchive(recipe);
+
+        // Act
+        var response = await Restore(archive, "skip", dryRun: false);
+        var getResponse = await _client.GetAsync($"/recipes/{recipe.Id}");
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.OK));
+        var report = await response.Content.ReadFromJsonAsync<RestoreReportResponse>();
+        Assert.That(report!.Created, Is.EqualTo(0));
+        Assert.That(report.Warnings, Has.Some.Contains("Servings must be between 1 and 100"));
+        Assert.That(getResponse.StatusCode, Is.EqualTo(HttpStatusCode.NotFound));
+    }
+
+    [Test]
+    public async Task RestoreBackup_OversizedRecipeFile_IsSkippedWithAWarning()
+    {
+        // Arrange
+        var recipe = BackupRecipe(NewRecipeId(), "Padded recipe");
+        recipe.RawText = new string('x', 2 * 1024 * 1024);
+        var archive = BuildArchive(recipe);
+
+        // Act
+        var response = await Restore(archive, "skip", dryRun: true);
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.OK));
+        var report = await response.Content.ReadFromJsonAsync<RestoreReportResponse>();
+        Assert.That(report!.Created, Is.EqualTo(0));
+        Assert.That(report.Warnings, Has.Some.Contains("not a recipe file"));
+    }
+
+    private static string NewRecipeId() => $"recipe_{Guid.NewGuid()}";
+
+    private static BackupRecipeDto BackupRecipe(string id, string title, string? imageRef = null) => new()
+    {
+        Id = id,
+        Title = title,
+        RawText = "3 dl flour\nWhisk and fry.",
+        ImageRefs = imageRef != null ? new List<string> { imageRef } : new List<string>(),
+        Steps = new List<string> { "Whisk and fry." },
+        Tags = new List<string> { "Breakfast" },
+        Ingredients = new List<IngredientDto> { new() { FreeText = "3 dl flour", Quantity = 3, Unit = "dl", Name = "flour" } },
+        CreatedAt = DateTime.UtcNow,
+        UpdatedAt = DateTime.UtcNow
+    };
+
+    private static byte[] BuildArchive(params BackupRecipeDto[] recipes)
+    {
+        var imageRefs = recipes.SelectMany(recipe => recipe.ImageRefs).Distinct().ToList();
+        using var output = new MemoryStream();
+        using (var archive = new ZipArchive(output, ZipArchiveMode.Create, leaveOpen: true))
+        {
+            WriteJson(archive, "manifest.json", new BackupManifestDto
+            {
+                Format = "recipe-collection-backup",
+                Version = 1,
+                ExportedAt = DateTime.UtcNow,
+                RecipeCount = recipes.Length,
+                ImageCount = imageRefs.Count
+            });
+            foreach (var recipe in recipes)
+            {
+                WriteJson(archive, $"recipes/{recipe.Id}.json", recipe);
+            }
+            foreach (var imageRef in imageRefs)
+            {
+                using var entry = archive.CreateEntry($"images/{imageRef}").Open();
+                entry.Write(ImageBytes);
+            }
+        }
+
+        return output.ToArray();
+    }
+
+    private static void WriteJson<T>(ZipArchive archive, string name, T value)
+    {
+        using var entry = archive.CreateEntry(name).Open();
+        JsonSerializer.Serialize(entry, value, JsonOptions);
+    }
+
+    private static T ReadJson<T>(ZipArchive archive, string name)
+    {
+        var entry = archive.GetEntry(name);
+        Assert.That(entry, Is.Not.Null, $"{name} is missing from the archive");
+        using var stream = entry!.Open();
+        return JsonSerializer.Deserialize<T>(stream, JsonOptions)!;
+    }
+
+    private async Task<HttpResponseMessage> Restore(byte[] archive, string mode, bool dryRun)
+    {
+        using var content = new MultipartFormDataContent
+        {
+            { new ByteArrayContent(archive), "file", "backup.zip" },
+            { new StringContent(mode), "mode" },
+            { new StringContent(dryRun ? "true" : "false"), "dryRun" }
+        };
+        return await _client.PostAsync("/backup/restore", content);
+    }
+
+    private async Task<RecipeDetailResponse> CreateRecipe(string title, string? imageRef = null)
+    {
+        var response = await _client.PostAsJsonAsync("/recipes", new CreateRecipeRequest
+        {
+            Title = title,
+            RawText = "2 eggs\n1 cup milk",
+            ImageRefs = imageRef != null ? new List<string> { imageRef } : new List<string>()
+        });
+        response.EnsureSuccessStatusCode();
+        return (await response.Content.ReadFromJsonAsync<RecipeDetailResponse>())!;
+    }
+
+    private async Task<string> UploadTestImage()
+    {
+        var blobService = _factory.Services.GetRequiredService<IBlobStorageService>();
+        using var stream = new MemoryStream(ImageBytes);
+        return await blobService.UploadImageAsync(stream, "buns.jpg", "image/jpeg");
+    }
+}
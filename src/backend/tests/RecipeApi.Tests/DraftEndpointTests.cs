@@ -0,0 +1,134 @@
+using System.Net;
+using System.Net.Http.Json;
+using Microsoft.AspNetCore.Hosting;
+using Microsoft.AspNetCore.Mvc.Testing;
+using RecipeCollection.DTOs;
+using RecipeCollection.DTOs.RequestModels;
+using RecipeCollection.DTOs.ResponseModels;
+
+namespace RecipeApi.Tests;
+
+[TestFixture]
+public class DraftEndpointTests
+{
+    private WebApplicationFactory<Program> _factory = null!;
+    private HttpClient _client = null!;
+
+    [OneTimeSetUp]
+    public async Task SetUp()
+    {
+        _factory = new WebApplicationFactory<Program>().WithWebHostBuilder(builder =>
+        {
+            builder.UseSetting("ConnectionStrings:CosmosDb", "");
+            builder.UseDevTokenIssuer();
+        });
+        _client = await _factory.CreateSignedInClientAsync();
+    }
+
+    [OneTimeTearDown]
+    public void TearDown()
+    {
+        _client.Dispose();
+        _factory.Dispose();
+    }
+
+    [Test]
+    public async Task SaveDraft_ThenGet_ReturnsDraftAsSaved()
+    {
+        // Arrange
+        var id = NewDraftId();
+        var request = new SaveDraftRequest
+        {
+            Title = "Half-finished buns",
+            RawText = "Kanelbullar\n25 g jäst",
+            TagsInput = "baking, swedish",
+            OcrLanguage = "swe",
+            Pages = new List<DraftPageDto> { new() { ImageRef = "test-image-ref", Text = "Kanelbullar" } },
+            Sections = new DraftSectionsDto { Ingredients = "25 g jäst", Servings = "4" }
+        };
+
+        // Act
+        var saveResponse = await _client.PutAsJsonAsync($"/drafts/{id}", request);
+        var draft = await _client.GetFromJsonAsync<DraftResponse>($"/drafts/{id}");
+
+        // Assert
+        Assert.That(saveResponse.StatusCode, Is.EqualTo(HttpStatusCode.OK));
+        Assert.That(draft, Is.Not.Null);
+        Assert.That(draft!.Title, Is.EqualTo("Half-finished buns"));
+        Assert.That(draft.RawText, Is.EqualTo("Kanelbullar\n25 g jäst"));
+        Assert.That(draft.TagsInput, Is.EqualTo("baking, swedish"));
+        Assert.That(draft.OcrLanguage, Is.EqualTo("swe"));
+        Assert.That(draft.Pages.Single().ImageRef, Is.EqualTo("test-image-ref"));
+        Assert.That(draft.Sections!.Ingredients, Is.EqualTo("25 g jäst"));
+        Assert.That(draft.Sections.Servings, Is.EqualTo("4"));
+    }
+
+    [Test]
+    public async Task SaveDraft_Twice_ReplacesDraftAndListsItFirst()
+    {
+        // Arrange
+        var id = NewDraftId();
+        await _client.PutAsJsonAsync($"/drafts/{id}", new SaveDraftRequest { Title = "First", TagsInput = "old" });
+
+        // Act
+        await _client.PutAsJsonAsync($"/drafts/{id}", new SaveDraftRequest { Title = "Second" });
+        var drafts = await _client.GetFromJsonAsync<List<DraftResponse>>("/drafts");
+
+        // Assert
+        Assert.That(drafts, Is.Not.Null);
+        Assert.That(drafts!.First().Id, Is.EqualTo(id));
+        Assert.That(drafts.Count(d => d.Id == id), Is.EqualTo(1));
+        Assert.That(drafts.First().Title, Is.EqualTo("Second"));
+        Assert.That(drafts.First().TagsInput, Is.Empty);
+        Assert.That(drafts.Select(d => d.UpdatedAt), Is.Ordered.Descending);
+    }
+
+    [Test]
+    public async Task DeleteDraft_RemovesIt()
+    {
+        // Arrange
+        var id = NewDraftId();
+        await _client.PutAsJsonAsync($"/drafts/{id}", new SaveDraftRequest { Title = "Thrown away" });
+
+        // Act
+        var deleteResponse = await _client.DeleteAsync($"/drafts/{id}");
+        var getResponse = await _client.GetAsync($"/drafts/{id}");
+
+        // Assert
+        Assert.That(deleteResponse.StatusCode, Is.EqualTo(HttpStatusCode.NoContent));
+        Assert.That(getResponse.StatusCode, Is.EqualTo(HttpStatusCode.NotFound));
+    }
+
+    [Test]
+    public async Task SaveDraft_WithInvalidId_ReturnsBadRequest()
+    {
+        // Act
+        var response = await _client.PutAsJsonAsync("/drafts/not%20valid", new SaveDraftRequest());
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.BadRequest));
+        var error = await response.Content.ReadFromJsonAsync<ErrorResponse>();
+        Assert.That(error!.Code, Is.EqualTo("INVALID_REQUEST"));
+    }
+
+    [Test]
+    public async Task SaveDraft_WithTooManyPages_ReturnsValidationError()
+    {
+        // Arrange
+        var request = new SaveDraftRequest
+        {
+            Pages = Enumerable.Range(1, 11).Select(i => new DraftPageDto { ImageRef = $"page-{i}" }).ToList()
+        };
+
+        // Act
+        var response = await _client.PutAsJsonAsync($"/drafts/{NewDraftId()}", request);
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.BadRequest));
+        var error = await response.Content.ReadFromJsonAsync<ErrorResponse>();
+        Assert.That(error!.Code, Is.EqualTo("VALIDATION_ERROR"));
+        Assert.That(error.Message, Does.Contain("more than 10 images"));
+    }
+
+    private static string NewDraftId() => $"draft-{Guid.NewGuid():N}";
+}
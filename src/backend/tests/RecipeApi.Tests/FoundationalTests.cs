@@ -17,6 +17,7 @@ public class FoundationalTests
         _factory = new WebApplicationFactory<Program>().WithWebHostBuilder(builder =>
         {
             builder.UseSetting("ConnectionStrings:CosmosDb", "");
+            builder.UseDevTokenIssuer();
         });
     }
 
@@ -71,7 +72,7 @@ public class FoundationalTests
     public async Task InvalidRequest_ReturnsValidationError()
     {
         // Arrange
-        var client = _factory.CreateClient();
+        var client = await _factory.CreateSignedInClientAsync();
         var invalidRecipe = new CreateRecipeRequest
         {
             Title = "", // Invalid: empty title
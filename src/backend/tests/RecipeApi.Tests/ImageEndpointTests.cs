@@ -0,0 +1,82 @@
+using System.Net;
+using Microsoft.AspNetCore.Hosting;
+using Microsoft.AspNetCore.Mvc.Testing;
+using Microsoft.Extensions.DependencyInjection;
+using RecipeCollection.Services;
+
+namespace RecipeApi.Tests;
+
+[TestFixture]
+public class ImageEndpointTests
+{
+    private WebApplicationFactory<Program> _factory = null!;
+    private HttpClient _client = null!;
+
+    [OneTimeSetUp]
+    public async Task SetUp()
+    {
+        _factory = new WebApplicationFactory<Program>().WithWebHostBuilder(builder =>
+        {
+            builder.UseSetting("ConnectionStrings:CosmosDb", "");
+            builder.UseDevTokenIssuer();
+        });
+        _client = await _factory.CreateSignedInClientAsync();
+    }
+
+    [OneTimeTearDown]
+    public void TearDown()
+    {
+        _client.Dispose();
+        _factory.Dispose();
+    }
+
+    [Test]
+    public async Task GetImage_ExistingImage_ReturnsImageBytes()
+    {
+        // Arrange
+        var imageBytes = new byte[] { 0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A };
+        var imageRef = await UploadTestImage(imageBytes, "photo.png", "image/png");
+
+        // Act
+        var response = await _client.GetAsync($"/images/{imageRef}");
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.OK));
+        Assert.That(response.Content.Headers.ContentType?.MediaType, Is.EqualTo("image/png"));
+        var body = await response.Content.ReadAsByteArrayAsync();
+        Assert.That(body, Is.EqualTo(imageBytes));
+    }
+
+    [Test]
+    public async Task GetImage_ExistingImage_IsCachedOnlyByTheBrowser()
+    {
+        // Arrange
+        var imageRef = await UploadTestImage(new byte[] { 0xFF, 0xD8, 0xFF }, "photo.jpg", "image/jpeg");
+
+        // Act
+        var response = await _client.GetAsync($"/images/{imageRef}");
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.OK));
+        Assert.That(response.Headers.CacheControl?.Private, Is.True);
+        Assert.That(response.Headers.CacheControl?.Public, Is.False);
+        Assert.That(response.Headers.CacheControl?.MaxAge, Is.EqualTo(TimeSpan.FromDays(1)));
+    }
+
+    [Test]
+    public async Task GetImage_NonExistentImage_ReturnsNotFound()
+    {
+        // Act
+        var response = await _client.GetAsync($"/images/recipes/2026-01-01/{Guid.NewGuid()}_missing.jpg");
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.NotFound));
+    }
+
+    private async Task<string> UploadTestImage(byte[] bytes, string fileName, string contentType)
+    {
+        var blobService = _factory.Services.GetRequiredService<IBlobStorageService>();
+        using var stream = new MemoryStream(bytes);
+        return await blobService.UploadImageAsync(stream, fileName, contentType);
+    }
+}
@@ -0,0 +1,51 @@
+using RecipeCollection.Utilities;
+
+namespace RecipeApi.Tests;
+
+/// <summary>
+/// Unit tests for splitting ingredient lines into quantity, unit and name
+/// </summary>
+public class IngredientLineParserTests
+{
+    [TestCase("2 dl mjölk", 2.0, null, "dl", "mjölk")]
+    [TestCase("2,5 dl grädde", 2.5, null, "dl", "grädde")]
+    [TestCase("1 msk smör", 1.0, null, "msk", "smör")]
+    [TestCase("½ tsk salt", 0.5, null, "tsk", "salt")]
+    [TestCase("1 krm peppar", 1.0, null, "krm", "peppar")]
+    [TestCase("200g vetemjöl", 200.0, null, "g", "vetemjöl")]
+    [TestCase("3 ägg", 3.0, null, null, "ägg")]
+    [TestCase("2 cups of flour", 2.0, null, "cup", "flour")]
+    [TestCase("1 tablespoon sugar", 1.0, null, "tbsp", "sugar")]
+    [TestCase("1 Tbsp. olive oil", 1.0, null, "tbsp", "olive oil")]
+    [TestCase("1 1/2 cups milk", 1.5, null, "cup", "milk")]
+    [TestCase("1½ dl socker", 1.5, null, "dl", "socker")]
+    [TestCase("3/4 cup butter", 0.75, null, "cup", "butter")]
+    [TestCase("2–3 cloves garlic", 2.0, 3.0, null, "cloves garlic")]
+    [TestCase("2-3 tsk kanel", 2.0, 3.0, "tsk", "kanel")]
+    [TestCase("2 to 3 tomatoes", 2.0, 3.0, null, "tomatoes")]
+    [TestCase("2 tomatoes", 2.0, null, null, "tomatoes")]
+    [TestCase("salt och peppar", null, null, null, "salt och peppar")]
+    [TestCase("lök", null, null, null, "lök")]
+    public void Parse_SplitsQuantityUnitAndName(string line, double? quantity, double? quantityMax, string? unit, string name)
+    {
+        // Act
+        var result = IngredientLineParser.Parse(line);
+
+        // Assert
+        Assert.That(result.Quantity, Is.EqualTo(quantity).Within(0.001));
+        Assert.That(result.QuantityMax, Is.EqualTo(quantityMax).Within(0.001));
+        Assert.That(result.Unit, Is.EqualTo(unit));
+        Assert.That(result.Name, Is.EqualTo(name));
+    }
+
+    [Test]
+    public void Parse_ThirdsKeepFullPrecision()
+    {
+        // Act
+        var result = IngredientLineParser.Parse("⅓ cup honey");
+
+        // Assert
+        Assert.That(result.Quantity, Is.EqualTo(1.0 / 3).Within(0.0001));
+        Assert.That(result.Unit, Is.EqualTo("cup"));
+    }
+}
@@ -0,0 +1,244 @@
+using System.Net;
+using System.Net.Http.Json;
+using Microsoft.AspNetCore.Hosting;
+using Microsoft.AspNetCore.Mvc.Testing;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.DependencyInjection;
+using RecipeCollection.Data;
+using RecipeCollection.DTOs;
+using RecipeCollection.DTOs.RequestModels;
+using RecipeCollection.DTOs.ResponseModels;
+
+namespace RecipeApi.Tests;
+
+[TestFixture]
+public class MealPlanEndpointTests
+{
+    private static int _weekCounter;
+
+    private WebApplicationFactory<Program> _factory = null!;
+    private HttpClient _client = null!;
+
+    [OneTimeSetUp]
+    public async Task SetUp()
+    {
+        _factory = new WebApplicationFactory<Program>().WithWebHostBuilder(builder =>
+        {
+            builder.UseSetting("ConnectionStrings:CosmosDb", "");
+            builder.UseDevTokenIssuer();
+        });
+        _client = await _factory.CreateSignedInClientAsync();
+    }
+
+    [OneTimeTearDown]
+    public void TearDown()
+    {
+        _client.Dispose();
+        _factory.Dispose();
+    }
+
+    [Test]
+    public async Task GetMealPlan_UnplannedWeek_ReturnsEmptyPlan()
+    {
+        // Arrange
+        var weekStart = NewWeekStart();
+
+        // Act
+        var plan = await _client.GetFromJsonAsync<MealPlanResponse>($"/meal-plans/{Format(weekStart)}");
+
+        // Assert
+        Assert.That(plan, Is.Not.Null);
+        Assert.That(plan!.WeekStart, Is.EqualTo(Format(weekStart)));
+        Assert.That(plan.Entries, Is.Empty);
+        Assert.That(plan.UpdatedAt, Is.Null);
+    }
+
+    [Test]
+    public async Task SaveMealPlan_ThenGet_ReturnsEntriesWithRecipeTitles()
+    {
+        // Arrange
+        var weekStart = NewWeekStart();
+        var recipe = await CreateRecipe("Planned porridge");
+        var request = new SaveMealPlanRequest
+        {
+            Entries = new List<MealPlanEntryDto>
+            {
+                new() { Date = Format(weekStart), Meal = "breakfast", RecipeId = recipe.Id },
+                new() { Date = Format(weekStart.AddDays(6)), Meal = "dinner", RecipeId = recipe.Id }
+            }
+        };
+
+        // Act
+        var saveResponse = await _client.PutAsJsonAsync($"/meal-plans/{Format(weekStart)}", request);
+        var plan = await _client.GetFromJsonAsync<MealPlanResponse>($"/meal-plans/{Format(weekStart)}");
+
+        // Assert
+        Assert.That(saveResponse.StatusCode, Is.EqualTo(HttpStatusCode.OK));
+        Assert.That(plan!.Entries, Has.Count.EqualTo(2));
+        Assert.That(plan.Entries.Select(e => e.RecipeTitle), Is.All.EqualTo("Planned porridge"));
+        Assert.That(plan.Entries.Select(e => e.Meal), Is.EqualTo(new[] { "breakfast", "dinner" }));
+        Assert.That(plan.UpdatedAt, Is.Not.Null);
+    }
+
+    [Test]
+    public async Task SaveMealPlan_Twice_KeepsOnePlanForTheWeek()
+    {
+        // Arrange
+        var weekStart = NewWeekStart();
+        var recipe = await CreateRecipe("Weekly stew");
+        var request = new SaveMealPlanRequest
+        {
+            Entries = new List<MealPlanEntryDto> { new() { Date = Format(weekStart), Meal = "dinner", RecipeId = recipe.Id } }
+        };
+        (await _client.PutAsJsonAsync($"/meal-plans/{Format(weekStart)}", request)).EnsureSuccessStatusCode();
+
+        // Act
+        var response = await _client.PutAsJsonAsync($"/meal-plans/{Format(weekStart)}", request);
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.OK));
+        using var scope = _factory.Services.CreateScope();
+        var dbContext = scope.ServiceProvider.GetRequiredService<RecipeDbContext>();
+        var week = Format(weekStart);
+        var planIds = await dbContext.MealPlans
+            .Where(plan => plan.WeekStart == week)
+            .Select(plan => plan.Id)
+            .ToListAsync();
+        Assert.That(planIds, Is.EqualTo(new[] { $"mealplan_{week}" }));
+    }
+
+    [Test]
+    public async Task SaveMealPlan_AfterAPlannedRecipeIsDeleted_KeepsItsTitle()
+    {
+        // Arrange
+        var weekStart = NewWeekStart();
+        var deleted = await CreateRecipe("Deleted lasagne");
+        var added = await CreateRecipe("Added salad");
+        var firstEntry = new MealPlanEntryDto { Date = Format(weekStart), Meal = "dinner", RecipeId = deleted.Id };
+        (await _client.PutAsJsonAsync($"/meal-plans/{Format(weekStart)}",
+            new SaveMealPlanRequest { Entries = new List<MealPlanEntryDto> { firstEntry } })).EnsureSuccessStatusCode();
+        (await _client.DeleteAsync($"/recipes/{deleted.Id}")).EnsureSuccessStatusCode();
+
+        // Act
+        var response = await _client.PutAsJsonAsync($"/meal-plans/{Format(weekStart)}", new SaveMealPlanRequest
+        {
+            Entries = new List<MealPlanEntryDto>
+            {
+                firstEntry,
+                new() { Date = Format(weekStart.AddDays(1)), Meal = "lunch", RecipeId = added.Id }
+            }
+        });
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.OK));
+        var plan = await response.Content.ReadFromJsonAsync<MealPlanResponse>();
+        Assert.That(plan!.Entries.Select(e => e.RecipeTitle), Is.EqualTo(new[] { "Deleted lasagne", "Added salad" }));
+    }
+
+    [Test]
+    public async Task SaveMealPlan_DateOutsideWeek_Returns400()
+    {
+        // Arrange
+        var weekStart = NewWeekStart();
+        var recipe = await CreateRecipe("Next week's soup");
+        var request = new SaveMealPlanRequest
+        {
+            Entries = new List<MealPlanEntryDto>
+            {
+                new() { Date = Format(weekStart.AddDays(7)), Meal = "lunch", RecipeId = recipe.Id }
+            }
+        };
+
+        // Act
+        var response = await _client.PutAsJsonAsync($"/meal-plans/{Format(weekStart)}", request);
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.BadRequest));
+        var error = await response.Content.ReadFromJsonAsync<ErrorResponse>();
+        Assert.That(error!.Code, Is.EqualTo("VALIDATION_ERROR"));
+    }
+
+    [Test]
+    public async Task SaveMealPlan_UnknownRecipeOrMeal_Returns400()
+    {
+        // Arrange
+        var weekStart = NewWeekStart();
+        var request = new SaveMealPlanRequest
+        {
+            Entries = new List<MealPlanEntryDto>
+            {
+                new() { Date = Format(weekStart), Meal = "dinner", RecipeId = $"recipe_{Guid.NewGuid()}" },
+                new() { Date = Format(weekStart), Meal = "brunch", RecipeId = $"recipe_{Guid.NewGuid()}" }
+            }
+        };
+
+        // Act
+        var response = await _client.PutAsJsonAsync($"/meal-plans/{Format(weekStart)}", request);
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.BadRequest));
+        var error = await response.Content.ReadFromJsonAsync<ErrorResponse>();
+        Assert.That(error!.Code, Is.EqualTo("VALIDATION_ERROR"));
+    }
+
+    [TestCase("2026-10-20")]
+    [TestCase("next-week")]
+    public async Task GetMealPlan_WeekStartNotAMonday_Returns400(string weekStart)
+    {
+        // Act
+        var response = await _client.GetAsync($"/meal-plans/{weekStart}");
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.BadRequest));
+        var error = await response.Content.ReadFromJsonAsync<ErrorResponse>();
+        Assert.That(error!.Code, Is.EqualTo("INVALID_REQUEST"));
+    }
+
+    [Test]
+    public async Task ExportCalendar_HasOneEventPerPlannedRecipe()
+    {
+        // Arrange
+        var weekStart = NewWeekStart();
+        var recipe = await CreateRecipe("Fish, chips; and peas");
+        await _client.PutAsJsonAsync($"/meal-plans/{Format(weekStart)}", new SaveMealPlanRequest
+        {
+            Entries = new List<MealPlanEntryDto>
+            {
+                new() { Date = Format(weekStart.AddDays(4)), Meal = "dinner", RecipeId = recipe.Id },
+                new() { Date = Format(weekStart.AddDays(5)), Meal = "lunch", RecipeId = recipe.Id }
+            }
+        });
+
+        // Act
+        var response = await _client.GetAsync($"/meal-plans/{Format(weekStart)}/calendar");
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.OK));
+        Assert.That(response.Content.Headers.ContentType?.MediaType, Is.EqualTo("text/calendar"));
+        var calendar = await response.Content.ReadAsStringAsync();
+        Assert.That(calendar, Does.StartWith("BEGIN:VCALENDAR\r\n"));
+        Assert.That(calendar.Split("BEGIN:VEVENT").Length - 1, Is.EqualTo(2));
+        Assert.That(calendar, Does.Contain($"DTSTART:{weekStart.AddDays(4):yyyyMMdd}T180000"));
+        Assert.That(calendar, Does.Contain($"DTSTART:{weekStart.AddDays(5):yyyyMMdd}T120000"));
+        Assert.That(calendar, Does.Contain(@"SUMMARY:Dinner: Fish\, chips\; and peas"));
+    }
+
+    // Each test plans its own week, since the in-memory database is shared
+    private static DateOnly NewWeekStart()
+    {
+        return new DateOnly(2030, 1, 7).AddDays(7 * Interlocked.Increment(ref _weekCounter));
+    }
+
+    private static string Format(DateOnly date) => date.ToString("yyyy-MM-dd");
+
+    private async Task<RecipeDetailResponse> CreateRecipe(string title)
+    {
+        var response = await _client.PostAsJsonAsync("/recipes", new CreateRecipeRequest
+        {
+            Title = title,
+            RawText = "1 dl oats\n2 dl water"
+        });
+        response.EnsureSuccessStatusCode();
+        return (await response.Content.ReadFromJsonAsync<RecipeDetailResponse>())!;
+    }
+}
@@ -0,0 +1,166 @@
+using System.Text.Json.Nodes;
+using Microsoft.AspNetCore.Hosting;
+using Microsoft.AspNetCore.Mvc.Testing;
+
+namespace RecipeApi.Tests;
+
+// The frontend generates its types from this document and checks every response against it
+[TestFixture]
+public class OpenApiDocumentTests
+{
+    private static readonly string[] HttpMethods = ["get", "post", "put", "patch", "delete"];
+
+    private WebApplicationFactory<Program> _factory = null!;
+    private HttpClient _client = null!;
+
+    [OneTimeSetUp]
+    public void SetUp()
+    {
+        _factory = new WebApplicationFactory<Program>().WithWebHostBuilder(builder =>
+        {
+            builder.UseEnvironment("Development");
+            builder.UseSetting("ConnectionStrings:CosmosDb", "");
+            builder.UseDevTokenIssuer();
+        });
+        _client = _factory.CreateClient();
+    }
+
+    [OneTimeTearDown]
+    public void TearDown()
+    {
+        _client.Dispose();
+        _factory.Dispose();
+    }
+
+    [Test]
+    public async Task SwaggerDocument_EveryOperation_HasOperationIdAndSuccessResponse()
+    {
+        // Act
+        var document = await GetDocument();
+
+        // Assert
+        foreach (var (path, method, operation) in Operations(document))
+        {
+            Assert.That(operation["operationId"]?.GetValue<string>(), Is.Not.Null.And.Not.Empty, $"{method} {path}");
+            var responses = operation["responses"]!.AsObject();
+            Assert.That(responses.Any(response => response.Key.StartsWith('2')), Is.True, $"{method} {path}");
+        }
+    }
+
+    [Test]
+    public async Task SwaggerDocument_RecipeEndpoints_DescribeTheirJsonResponses()
+    {
+        // Act
+        var document = await GetDocument();
+
+        // Assert
+        Assert.That(ResponseSchemaRef(document, "/recipes/{id}", "get", "200"), Does.EndWith("/RecipeDetailResponse"));
+        Assert.That(ResponseSchemaRef(document, "/recipes", "post", "201"), Does.EndWith("/RecipeDetailResponse"));
+        Assert.That(ResponseSchemaRef(document, "/recipes", "get", "200"), Does.EndWith("/SearchRecipesResponse"));
+        Assert.That(ResponseSchemaRef(document, "/drafts/{id}", "put", "200"), Does.EndWith("/DraftResponse"));
+        Assert.That(ResponseSchemaRef(document, "/recipes/{id}", "get", "404"), Does.EndWith("/ErrorResponse"));
+        Assert.That(ResponseSchemaRef(document, "/recipes/{id}", "put", "403"), Does.EndWith("/ErrorResponse"));
+        Assert.That(ResponseSchemaRef(document, "/shares", "get", "200"), Does.EndWith("/SharesResponse"));
+    }
+
+    [Test]
+    public async Task SwaggerDocument_ResponseSchemas_RequireEveryPropertyThatCannotBeNull()
+    {
+        // Act
+        var document = await GetDocument();
+        var required = RequiredProperties(document, "RecipeDetailResponse");
+
+        // Assert
+        Assert.That(required, Does.Contain("id").And.Contain("imageRefs").And.Contain("ingredients").And.Contain("createdAt"));
+        Assert.That(required, Does.Not.Contain("servings").And.Not.Contain("ocrLanguage").And.Not.Contain("yield"));
+    }
+
+    [Test]
+    public async Task SwaggerDocument_RequestSchemas_LeaveDefaultedPropertiesOptional()
+    {
+        // Act
+        var document = await GetDocument();
+
+        // Assert
+        Assert.That(RequiredProperties(document, "CreateRecipeRequest"), Is.EquivalentTo(new[] { "title", "rawText" }));
+        Assert.That(RequiredProperties(document, "SaveDraftRequest"), Is.Empty);
+    }
+
+    [Test]
+    public async Task SwaggerDocument_MatchesFrontendSnapshot()
+    {
+        // Arrange
+        var snapshotPath = FindFrontendSnapshot();
+        if (snapshotPath == null)
+        {
+            Assert.Ignore("src/frontend/openapi.json is not part of this checkout");
+        }
+        var snapshot = JsonNode.Parse(await File.ReadAllTextAsync(snapshotPath!))!;
+        const string hint = "run `npm run generate:api -- --url <API>/swagger/v1/swagger.json` in src/frontend";
+
+        // Act
+        var document = await GetDocument();
+
+        // Assert
+        foreach (var (path, method, operation) in Operations(snapshot))
+        {
+            var live = document["paths"]?[path]?[method];
+            Assert.That(live?["operationId"]?.GetValue<string>(), Is.EqualTo(operation["operationId"]?.GetValue<string>()),
+                $"{method} {path} changed; {hint}");
+        }
+
+        foreach (var (name, schema) in snapshot["components"]!["schemas"]!.AsObject())
+        {
+            var live = document["components"]?["schemas"]?[name];
+            Assert.That(live, Is.Not.Null, $"Schema {name} was removed; {hint}");
+            Assert.That(PropertyNames(live!), Is.EquivalentTo(PropertyNames(schema!)), $"Properties of {name} changed; {hint}");
+            Assert.That(RequiredProperties(document, name), Is.EquivalentTo(RequiredProperties(snapshot, name)),
+                $"Required properties of {name} changed; {hint}");
+        }
+    }
+
+    private async Task<JsonNode> GetDocument()
+    {
+        var json = await _client.GetStringAsync("/swagger/v1/swagger.json");
+        return JsonNode.Parse(json)!;
+    }
+
+    private static IEnumerable<(string Path, string Method, JsonNode Operation)> Operations(JsonNode document)
+    {
+        foreach (var (path, item) in document["paths"]!.AsObject())
+        {
+            foreach (var method in HttpMethods)
+            {
+                if (item?[method] is { } operation)
+                {
+                    yield return (path, method, operation);
+                }
+            }
+        }
+    }
+
+    private static string? ResponseSchemaRef(JsonNode document, string path, string method, string status) =>
+        document["paths"]?[path]?[method]?["responses"]?[status]?["content"]?["application/json"]?["schema"]?["$ref"]
+            ?.GetValue<string>();
+
+    private static List<string> RequiredProperties(JsonNode document, string schemaName) =>
+        document["components"]?["schemas"]?[schemaName]?["required"]?.AsArray()
+            .Select(name => name!.GetValue<string>())
+            .ToList() ?? [];
+
+    private static List<string> PropertyNames(JsonNode schema) =>
+        schema["properties"]?.AsObject().Select(property => property.Key).ToList() ?? [];
+
+    private static string? FindFrontendSnapshot()
+    {
+        for (var directory = new DirectoryInfo(AppContext.BaseDirectory); directory != null; directory = directory.Parent)
+        {
+            var candidate = Path.Combine(directory.FullName, "frontend", "openapi.json");
+            if (File.Exists(candidate))
+            {
+                return candidate;
+            }
+        }
+        return null;
+    }
+}
@@ -0,0 +1,442 @@
+using System.Net;
+using System.Net.Http.Json;
+using Microsoft.AspNetCore.Hosting;
+using Microsoft.AspNetCore.Mvc.Testing;
+using RecipeCollection.DTOs.RequestModels;
+using RecipeCollection.DTOs.ResponseModels;
+
+namespace RecipeApi.Tests;
+
+[TestFixture]
+public class RecipeManagementTests
+{
+    private WebApplicationFactory<Program> _factory = null!;
+    private HttpClient _client = null!;
+
+    [OneTimeSetUp]
+    public async Task SetUp()
+    {
+        _factory = new WebApplicationFactory<Program>().WithWebHostBuilder(builder =>
+        {
+            builder.UseSetting("ConnectionStrings:CosmosDb", "");
+            builder.UseDevTokenIssuer();
+        });
+        _client = await _factory.CreateSignedInClientAsync();
+    }
+
+    [OneTimeTearDown]
+    public void TearDown()
+    {
+        _client.Dispose();
+        _factory.Dispose();
+    }
+
+    [Test]
+    public async Task UpdateRecipe_ChangesTitleAndRawText()
+    {
+        // Arrange
+        var recipe = await CreateTestRecipe();
+        var request = new UpdateRecipeRequest
+        {
+            Title = "Corrected Title",
+            RawText = "Corrected recipe text"
+        };
+
+        // Act
+        var response = await _client.PutAsJsonAsync($"/recipes/{recipe.Id}", request);
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.OK));
+        var updatedRecipe = await response.Content.ReadFromJsonAsync<RecipeDetailResponse>();
+        Assert.That(updatedRecipe, Is.Not.Null);
+        Assert.That(updatedRecipe!.Title, Is.EqualTo("Corrected Title"));
+        Assert.That(updatedRecipe.RawText, Is.EqualTo("Corrected recipe text"));
+        Assert.That(updatedRecipe.CreatedAt, Is.EqualTo(recipe.CreatedAt));
+    }
+
+    [Test]
+    public async Task UpdateRecipe_WithTags_ReplacesNormalizedTags()
+    {
+        // Arrange
+        var recipe = await CreateTestRecipe();
+        await _client.PostAsJsonAsync($"/recipes/{recipe.Id}/tags", new { tag = "dinner" });
+        var request = new UpdateRecipeRequest
+        {
+            Title = recipe.Title,
+            RawText = recipe.RawText,
+            Tags = new List<string> { "dessert", "baking" }
+        };
+
+        // Act
+        var response = await _client.PutAsJsonAsync($"/recipes/{recipe.Id}", request);
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.OK));
+        var updatedRecipe = await response.Content.ReadFromJsonAsync<RecipeDetailResponse>();
+        Assert.That(updatedRecipe, Is.Not.Null);
+        Assert.That(updatedRecipe!.Tags, Is.EquivalentTo(new[] { "dessert", "baking" }));
+    }
+
+    [Test]
+    public async Task UpdateRecipe_WithoutTags_KeepsExistingTags()
+    {
+        // Arrange
+        var recipe = await CreateTestRecipe();
+        await _client.PostAsJsonAsync($"/recipes/{recipe.Id}/tags", new { tag = "dinner" });
+        var request = new UpdateRecipeRequest
+        {
+            Title = "Renamed Recipe",
+            RawText = recipe.RawText
+        };
+
+        // Act
+        var response = await _client.PutAsJsonAsync($"/recipes/{recipe.Id}", request);
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.OK));
+        var updatedRecipe = await response.Content.ReadFromJsonAsync<RecipeDetailResponse>();
+        Assert.That(updatedRecipe, Is.Not.Null);
+        Assert.That(updatedRecipe!.Tags, Contains.Item("dinner"));
+    }
+
+    [Test]
+    public async Task UpdateRecipe_WithChangedRawText_ReparsesIngredients()
+    {
+        // Arrange
+        var recipe = await CreateTestRecipe();
+        var request = new UpdateRecipeRequest
+        {
+            Title = recipe.Title,
+            RawText = "Ingredients:\n- 2 cups flour\n- 1 cup sugar\n\nInstructions:\nMix and bake."
+        };
+
+        // Act
+        var response = await _client.PutAsJsonAsync($"/recipes/{recipe.Id}", request);
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.OK));
+        var updatedRecipe = await response.Content.ReadFromJsonAsync<RecipeDetailResponse>();
+        Assert.That(updatedRecipe, Is.Not.Null);
+        Assert.That(updatedRecipe!.Ingredients, Has.Count.EqualTo(2));
+        Assert.That(updatedRecipe.Ingredients[0].FreeText, Is.EqualTo("2 cups flour"));
+    }
+
+    [Test]
+    public async Task UpdateRecipe_IsReflectedInSearch()
+    {
+        // Arrange
+        var recipe = await CreateTestRecipe();
+        var uniqueWord = "zucchini" + Guid.NewGuid().ToString("N").Substring(0, 8);
+        var request = new UpdateRecipeRequest
+        {
+            Title = recipe.Title,
+            RawText = $"Slice the {uniqueWord} thinly"
+        };
+
+        // Act
+        await _client.PutAsJsonAsync($"/recipes/{recipe.Id}", request);
+        var searchResponse = await _client.GetAsync($"/recipes?query={uniqueWord}");
+
+        // Assert
+        var results = await searchResponse.Content.ReadFromJsonAsync<SearchRecipesResponse>();
+        Assert.That(results, Is.Not.Null);
+        Assert.That(results!.Recipes, Has.Some.Matches<RecipeSummaryResponse>(r => r.Id == recipe.Id));
+    }
+
+    [Test]
+    public async Task UpdateRecipe_WithTooShortTitle_Returns400()
+    {
+        // Arrange
+        var recipe = await CreateTestRecipe();
+        var request = new UpdateRecipeRequest
+        {
+            Title = "AB",
+            RawText = recipe.RawText
+        };
+
+        // Act
+        var response = await _client.PutAsJsonAsync($"/recipes/{recipe.Id}", request);
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.BadRequest));
+        var error = await response.Content.ReadFromJsonAsync<ErrorResponse>();
+        Assert.That(error, Is.Not.Null);
+        Assert.That(error!.Message, Does.Contain("Title must be at least 3 characters"));
+    }
+
+    [Test]
+    public async Task UpdateRecipe_WithServings_StoresServings()
+    {
+        // Arrange
+        var recipe = await CreateTestRecipe();
+        var request = new UpdateRecipeRequest
+        {
+            Title = recipe.Title,
+            RawText = recipe.RawText,
+            Servings = 4
+        };
+
+        // Act
+        var response = await _client.PutAsJsonAsync($"/recipes/{recipe.Id}", request);
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.OK));
+        var getResponse = await _client.GetAsync($"/recipes/{recipe.Id}");
+        var fetchedRecipe = await getResponse.Content.ReadFromJsonAsync<RecipeDetailResponse>();
+        Assert.That(fetchedRecipe, Is.Not.Null);
+        Assert.That(fetchedRecipe!.Servings, Is.EqualTo(4));
+    }
+
+    [TestCase(0)]
+    [TestCase(101)]
+    public async Task UpdateRecipe_WithServingsOutOfRange_Returns400(int servings)
+    {
+        // Arrange
+        var recipe = await CreateTestRecipe();
+        var request = new UpdateRecipeRequest
+        {
+            Title = recipe.Title,
+            RawText = recipe.RawText,
+            Servings = servings
+        };
+
+        // Act
+        var response = await _client.PutAsJsonAsync($"/recipes/{recipe.Id}", request);
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.BadRequest));
+        var error = await response.Content.ReadFromJsonAsync<ErrorResponse>();
+        Assert.That(error, Is.Not.Null);
+        Assert.That(error!.Message, Does.Contain("Servings must be between 1 and 100"));
+    }
+
+    [Test]
+    public async Task UpdateRecipe_NonExistentRecipe_ReturnsNotFound()
+    {
+        // Arrange
+        var nonExistentId = "recipe_" + Guid.NewGuid();
+        var request = new UpdateRecipeRequest
+        {
+            Title = "Some Title",
+            RawText = "Some text"
+        };
+
+        // Act
+        var response = await _client.PutAsJsonAsync($"/recipes/{nonExistentId}", request);
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.NotFound));
+    }
+
+    [Test]
+    public async Task CreateRecipe_WithImageRefs_KeepsPageOrder()
+    {
+        // Arrange
+        var request = new CreateRecipeRequest
+        {
+            Title = "Two Page Recipe",
+            RawText = "Ingredients on one page, method on the next",
+            ImageRefs = new List<string> { "page-1-ref", "page-2-ref" }
+        };
+
+        // Act
+        var response = await _client.PostAsJsonAsync("/recipes", request);
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.Created));
+        var recipe = await response.Content.ReadFromJsonAsync<RecipeDetailResponse>();
+        Assert.That(recipe, Is.Not.Null);
+        Assert.That(recipe!.ImageRefs, Is.EqualTo(new[] { "page-1-ref", "page-2-ref" }));
+        Assert.That(recipe.ImageRef, Is.EqualTo("page-1-ref"));
+    }
+
+    [Test]
+    public async Task CreateRecipe_WithSingleImageRef_ReturnsItAsOnlyPage()
+    {
+        // Act
+        var recipe = await CreateTestRecipe();
+
+        // Assert
+        Assert.That(recipe.ImageRefs, Is.EqualTo(new[] { "test-image-ref" }));
+    }
+
+    [Test]
+    public async Task CreateRecipe_WithOcrLanguage_StoresIt()
+    {
+        // Arrange
+        var request = new CreateRecipeRequest
+        {
+            Title = "Swedish Recipe",
+            RawText = "2 dl mjölk",
+            ImageRef = "test-image-ref",
+            OcrLanguage = "swe"
+        };
+
+        // Act
+        var response = await _client.PostAsJsonAsync("/recipes", request);
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.Created));
+        var created = await response.Content.ReadFromJsonAsync<RecipeDetailResponse>();
+        var getResponse = await _client.GetAsync($"/recipes/{created!.Id}");
+        var fetchedRecipe = await getResponse.Content.ReadFromJsonAsync<RecipeDetailResponse>();
+        Assert.That(fetchedRecipe, Is.Not.Null);
+        Assert.That(fetchedRecipe!.OcrLanguage, Is.EqualTo("swe"));
+    }
+
+    [Test]
+    public async Task CreateRecipe_WithSections_StoresStepsMetadataAndIngredientLines()
+    {
+        // Arrange
+        var request = new CreateRecipeRequest
+        {
+            Title = "Sectioned Recipe",
+            RawText = "Pancakes\n3 dl mjölk\n2 eggs\nWhisk.\nFry.",
+            ImageRef = "test-image-ref",
+            IngredientLines = new List<string> { "3 dl mjölk", "- 2 eggs", " " },
+            Steps = new List<string> { "Whisk everything together.", "  ", "Fry in butter." },
+            PrepTimeMinutes = 10,
+            CookTimeMinutes = 20,
+            Yield = "12 pancakes",
+            SourceBook = "Grandma's cookbook",
+            SourcePage = "42"
+        };
+
+        // Act
+        var response = await _client.PostAsJsonAsync("/recipes", request);
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.Created));
+        var recipe = await response.Content.ReadFromJsonAsync<RecipeDetailResponse>();
+        Assert.That(recipe, Is.Not.Null);
+        Assert.That(recipe!.Steps, Is.EqualTo(new[] { "Whisk everything together.", "Fry in butter." }));
+        Assert.That(recipe.Ingredients.Select(i => i.FreeText), Is.EqualTo(new[] { "3 dl mjölk", "2 eggs" }));
+        Assert.That(recipe.Ingredients[0].Unit, Is.EqualTo("dl"));
+        Assert.That(recipe.PrepTimeMinutes, Is.EqualTo(10));
+        Assert.That(recipe.CookTimeMinutes, Is.EqualTo(20));
+        Assert.That(recipe.Yield, Is.EqualTo("12 pancakes"));
+        Assert.That(recipe.SourceBook, Is.EqualTo("Grandma's cookbook"));
+        Assert.That(recipe.SourcePage, Is.EqualTo("42"));
+    }
+
+    [Test]
+    public async Task UpdateRecipe_WithoutSteps_KeepsExistingSteps()
+    {
+        // Arrange
+        var createResponse = await _client.PostAsJsonAsync("/recipes", new CreateRecipeRequest
+        {
+            Title = "Recipe With Steps",
+            RawText = "Boil water. Add pasta.",
+            ImageRef = "test-image-ref",
+            Steps = new List<string> { "Boil water.", "Add pasta." }
+        });
+        var recipe = await createResponse.Content.ReadFromJsonAsync<RecipeDetailResponse>();
+        var request = new UpdateRecipeRequest
+        {
+            Title = "Renamed Recipe",
+            RawText = recipe!.RawText
+        };
+
+        // Act
+        var response = await _client.PutAsJsonAsync($"/recipes/{recipe.Id}", request);
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.OK));
+        var updatedRecipe = await response.Content.ReadFromJsonAsync<RecipeDetailResponse>();
+        Assert.That(updatedRecipe, Is.Not.Null);
+        Assert.That(updatedRecipe!.Steps, Is.EqualTo(new[] { "Boil water.", "Add pasta." }));
+    }
+
+    [Test]
+    public async Task UpdateRecipe_WithIngredientLines_ReplacesIngredients()
+    {
+        // Arrange
+        var recipe = await CreateTestRecipe();
+        var request = new UpdateRecipeRequest
+        {
+            Title = recipe.Title,
+            RawText = recipe.RawText,
+            IngredientLines = new List<string> { "1 tsk salt", "2 msk olja" }
+        };
+
+        // Act
+        var response = await _client.PutAsJsonAsync($"/recipes/{recipe.Id}", request);
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.OK));
+        var updatedRecipe = await response.Content.ReadFromJsonAsync<RecipeDetailResponse>();
+        Assert.That(updatedRecipe, Is.Not.Null);
+        Assert.That(updatedRecipe!.Ingredients.Select(i => i.FreeText), Is.EqualTo(new[] { "1 tsk salt", "2 msk olja" }));
+    }
+
+    [Test]
+    public async Task UpdateRecipe_WithEmptyIngredientLines_RemovesIngredients()
+    {
+        // Arrange
+        var recipe = await CreateTestRecipe();
+        var withIngredients = await _client.PutAsJsonAsync($"/recipes/{recipe.Id}", new UpdateRecipeRequest
+        {
+            Title = recipe.Title,
+            RawText = recipe.RawText,
+            IngredientLines = new List<string> { "1 tsk salt" }
+        });
+        withIngredients.EnsureSuccessStatusCode();
+        var request = new UpdateRecipeRequest
+        {
+            Title = recipe.Title,
+            RawText = recipe.RawText,
+            IngredientLines = new List<string>()
+        };
+
+        // Act
+        var response = await _client.PutAsJsonAsync($"/recipes/{recipe.Id}", request);
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.OK));
+        var updatedRecipe = await response.Content.ReadFromJsonAsync<RecipeDetailResponse>();
+        Assert.That(updatedRecipe, Is.Not.Null);
+        Assert.That(updatedRecipe!.Ingredients, Is.Empty);
+    }
+
+    [Test]
+    public async Task DeleteRecipe_ReturnsNoContent_AndRemovesRecipe()
+    {
+        // Arrange
+        var recipe = await CreateTestRecipe();
+
+        // Act
+        var response = await _client.DeleteAsync($"/recipes/{recipe.Id}");
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.NoContent));
+        var getResponse = await _client.GetAsync($"/recipes/{recipe.Id}");
+        Assert.That(getResponse.StatusCode, Is.EqualTo(HttpStatusCode.NotFound));
+    }
+
+    [Test]
+    public async Task DeleteRecipe_NonExistentRecipe_ReturnsNotFound()
+    {
+        // Arrange
+        var nonExistentId = "recipe_" + Guid.NewGuid();
+
+        // Act
+        var response = await _client.DeleteAsync($"/recipes/{nonExistentId}");
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.NotFound));
+    }
+
+    private async Task<RecipeDetailResponse> CreateTestRecipe()
+    {
+        var request = new CreateRecipeRequest
+        {
+            Title = "Test Recipe " + Guid.NewGuid().ToString().Substring(0, 8),
+            RawText = "Test recipe text",
+            ImageRef = "test-image-ref"
+        };
+
+        var response = await _client.PostAsJsonAsync("/recipes", request);
+        response.EnsureSuccessStatusCode();
+        return (await response.Content.ReadFromJsonAsync<RecipeDetailResponse>())!;
+    }
+}
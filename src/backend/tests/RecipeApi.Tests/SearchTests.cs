@@ -2,6 +2,7 @@ using System.Net;
 using System.Net.Http.Json;
 using Microsoft.AspNetCore.Hosting;
 using Microsoft.AspNetCore.Mvc.Testing;
+using RecipeCollection.DTOs.RequestModels;
 using RecipeCollection.DTOs.ResponseModels;
 
 namespace RecipeApi.Tests;
@@ -13,13 +14,14 @@ public class SearchTests
     private HttpClient _client = null!;
 
     [OneTimeSetUp]
-    public void SetUp()
+    public async Task SetUp()
     {
         _factory = new WebApplicationFactory<Program>().WithWebHostBuilder(builder =>
         {
             builder.UseSetting("ConnectionStrings:CosmosDb", "");
+            builder.UseDevTokenIssuer();
         });
-        _client = _factory.CreateClient();
+        _client = await _factory.CreateSignedInClientAsync();
     }
 
     [OneTimeTearDown]
@@ -39,8 +41,9 @@ public class SearchTests
 
         // Assert
         Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.OK));
-        var recipes = await response.Content.ReadFromJsonAsync<List<RecipeSummaryResponse>>();
-        Assert.That(recipes, Is.Not.Null);
+        var result = await response.Content.ReadFromJsonAsync<SearchRecipesResponse>();
+        Assert.That(result, Is.Not.Null);
+        Assert.That(result!.Recipes, Is.Not.Null);
     }
 
     [Test]
@@ -54,8 +57,9 @@ public class SearchTests
 
         // Assert
         Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.OK));
-        var recipes = await response.Content.ReadFromJsonAsync<List<RecipeSummaryResponse>>();
-        Assert.That(recipes, Is.Not.Null);
+        var result = await response.Content.ReadFromJsonAsync<SearchRecipesResponse>();
+        Assert.That(result, Is.Not.Null);
+        Assert.That(result!.Recipes, Is.Not.Null);
         // All returned recipes should contain the query text (case-insensitive)
         // Note: This will pass with empty results if no recipes exist yet
     }
@@ -71,8 +75,9 @@ public class SearchTests
 
         // Assert
         Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.OK));
-        var recipes = await response.Content.ReadFromJsonAsync<List<RecipeSummaryResponse>>();
-        Assert.That(recipes, Is.Not.Null);
+        var result = await response.Content.ReadFromJsonAsync<SearchRecipesResponse>();
+        Assert.That(result, Is.Not.Null);
+        Assert.That(result!.Recipes, Is.Not.Null);
         // All returned recipes should have the specified tag (normalized)
     }
 
@@ -88,8 +93,9 @@ public class SearchTests
 
         // Assert
         Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.OK));
-        var recipes = await response.Content.ReadFromJsonAsync<List<RecipeSummaryResponse>>();
-        Assert.That(recipes, Is.Not.Null);
+        var result = await response.Content.ReadFromJsonAsync<SearchRecipesResponse>();
+        Assert.That(result, Is.Not.Null);
+        Assert.That(result!.Recipes, Is.Not.Null);
         // Results should match both query text AND tag
     }
 
@@ -104,8 +110,9 @@ public class SearchTests
 
         // Assert
         Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.OK));
-        var recipes = await response.Content.ReadFromJsonAsync<List<RecipeSummaryResponse>>();
-        Assert.That(recipes, Is.Not.Null);
+        var result = await response.Content.ReadFromJsonAsync<SearchRecipesResponse>();
+        Assert.That(result, Is.Not.Null);
+        Assert.That(result!.Recipes, Is.Not.Null);
         // Should find recipes containing "chocolate", "Chocolate", "CHOCOLATE", etc.
     }
 
@@ -120,8 +127,9 @@ public class SearchTests
 
         // Assert
         Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.OK));
-        var recipes = await response.Content.ReadFromJsonAsync<List<RecipeSummaryResponse>>();
-        Assert.That(recipes, Is.Not.Null);
+        var result = await response.Content.ReadFromJsonAsync<SearchRecipesResponse>();
+        Assert.That(result, Is.Not.Null);
+        Assert.That(result!.Recipes, Is.Not.Null);
         // Should match recipes tagged "dessert" (normalized form)
     }
 
@@ -136,8 +144,9 @@ public class SearchTests
 
         // Assert
         Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.OK));
-        var recipes = await response.Content.ReadFromJsonAsync<List<RecipeSummaryResponse>>();
-        Assert.That(recipes, Is.Not.Null);
+        var result = await response.Content.ReadFromJsonAsync<SearchRecipesResponse>();
+        Assert.That(result, Is.Not.Null);
+        var recipes = result!.Recipes;
         Assert.That(recipes, Is.Empty);
     }
 
@@ -149,11 +158,12 @@ public class SearchTests
 
         // Assert
         Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.OK));
-        var recipes = await response.Content.ReadFromJsonAsync<List<RecipeSummaryResponse>>();
-        Assert.That(recipes, Is.Not.Null);
+        var result = await response.Content.ReadFromJsonAsync<SearchRecipesResponse>();
+        Assert.That(result, Is.Not.Null);
+        var recipes = result!.Recipes;
         
         // If any recipes exist, verify they have the expected structure
-        if (recipes!.Count > 0)
+        if (recipes.Count > 0)
         {
             var recipe = recipes[0];
             Assert.That(string.IsNullOrEmpty(recipe.Id), Is.False);
@@ -172,4 +182,174 @@ public class SearchTests
         // Assert
         Assert.That(response.Headers.Contains("X-Correlation-Id"), Is.True);
     }
+
+    [Test]
+    public async Task GetRecipes_WithPageSize_ReturnsOnePageAndTotals()
+    {
+        // Arrange - three recipes sharing a unique marker word
+        var marker = NewMarker();
+        await CreateTestRecipe("Alpha Recipe", marker);
+        await CreateTestRecipe("Bravo Recipe", marker);
+        await CreateTestRecipe("Charlie Recipe", marker);
+
+        // Act
+        var firstPage = await _client.GetFromJsonAsync<SearchRecipesResponse>($"/recipes?query={marker}&pageSize=2&page=1");
+        var secondPage = await _client.GetFromJsonAsync<SearchRecipesResponse>($"/recipes?query={marker}&pageSize=2&page=2");
+
+        // Assert
+        Assert.That(firstPage, Is.Not.Null);
+        Assert.That(firstPage!.Recipes, Has.Count.EqualTo(2));
+        Assert.That(firstPage.TotalCount, Is.EqualTo(3));
+        Assert.That(firstPage.TotalPages, Is.EqualTo(2));
+        Assert.That(secondPage, Is.Not.Null);
+        Assert.That(secondPage!.Recipes, Has.Count.EqualTo(1));
+        Assert.That(secondPage.Page, Is.EqualTo(2));
+    }
+
+    [Test]
+    public async Task GetRecipes_PageBeyondLast_ReturnsEmptyPage()
+    {
+        // Arrange
+        var marker = NewMarker();
+        await CreateTestRecipe("Only Recipe", marker);
+
+        // Act
+        var result = await _client.GetFromJsonAsync<SearchRecipesResponse>($"/recipes?query={marker}&page=5");
+
+        // Assert
+        Assert.That(result, Is.Not.Null);
+        Assert.That(result!.Recipes, Is.Empty);
+        Assert.That(result.TotalCount, Is.EqualTo(1));
+    }
+
+    [Test]
+    public async Task GetRecipes_DefaultSort_ReturnsNewestFirst()
+    {
+        // Arrange
+        var marker = NewMarker();
+        var first = await CreateTestRecipe("First Recipe", marker);
+        var second = await CreateTestRecipe("Second Recipe", marker);
+
+        // Act
+        var result = await _client.GetFromJsonAsync<SearchRecipesResponse>($"/recipes?query={marker}");
+
+        // Assert
+        Assert.That(result!.Recipes.Select(r => r.Id), Is.EqualTo(new[] { second.Id, first.Id }));
+    }
+
+    [Test]
+    public async Task GetRecipes_SortOldest_ReturnsOldestFirst()
+    {
+        // Arrange
+        var marker = NewMarker();
+        var first = await CreateTestRecipe("First Recipe", marker);
+        var second = await CreateTestRecipe("Second Recipe", marker);
+
+        // Act
+        var result = await _client.GetFromJsonAsync<SearchRecipesResponse>($"/recipes?query={marker}&sort=oldest");
+
+        // Assert
+        Assert.That(result!.Recipes.Select(r => r.Id), Is.EqualTo(new[] { first.Id, second.Id }));
+    }
+
+    [Test]
+    public async Task GetRecipes_SortTitle_ReturnsAlphabeticalOrder()
+    {
+        // Arrange
+        var marker = NewMarker();
+        await CreateTestRecipe("pancakes", marker);
+        await CreateTestRecipe("Apple Pie", marker);
+        await CreateTestRecipe("Meatballs", marker);
+
+        // Act
+        var result = await _client.GetFromJsonAsync<SearchRecipesResponse>($"/recipes?query={marker}&sort=title");
+
+        // Assert
+        Assert.That(result!.Recipes.Select(r => r.Title), Is.EqualTo(new[] { "Apple Pie", "Meatballs", "pancakes" }));
+    }
+
+    [Test]
+    public async Task GetRecipes_WithInvalidSort_Returns400()
+    {
+        // Act
+        var response = await _client.GetAsync("/recipes?sort=random");
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.BadRequest));
+        var error = await response.Content.ReadFromJsonAsync<ErrorResponse>();
+        Assert.That(error!.Code, Is.EqualTo("VALIDATION_ERROR"));
+    }
+
+    [TestCase("page=0")]
+    [TestCase("pageSize=0")]
+    [TestCase("pageSize=101")]
+    public async Task GetRecipes_WithInvalidPaging_Returns400(string paging)
+    {
+        // Act
+        var response = await _client.GetAsync($"/recipes?{paging}");
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.BadRequest));
+    }
+
+    [Test]
+    public async Task GetRecipes_WithMultipleTags_MatchesAllByDefault()
+    {
+        // Arrange
+        var marker = NewMarker();
+        var both = await CreateTestRecipe("Chocolate Cake", marker, new List<string> { "dessert", "chocolate" });
+        await CreateTestRecipe("Vanilla Cake", marker, new List<string> { "dessert" });
+        await CreateTestRecipe("Chocolate Sauce", marker, new List<string> { "chocolate" });
+
+        // Act
+        var result = await _client.GetFromJsonAsync<SearchRecipesResponse>($"/recipes?query={marker}&tag=dessert&tag=chocolate");
+
+        // Assert
+        Assert.That(result!.Recipes.Select(r => r.Id), Is.EqualTo(new[] { both.Id }));
+    }
+
+    [Test]
+    public async Task GetRecipes_WithMultipleTagsAndMatchAny_MatchesEitherTag()
+    {
+        // Arrange
+        var marker = NewMarker();
+        await CreateTestRecipe("Chocolate Cake", marker, new List<string> { "dessert", "chocolate" });
+        await CreateTestRecipe("Vanilla Cake", marker, new List<string> { "dessert" });
+        await CreateTestRecipe("Chocolate Sauce", marker, new List<string> { "chocolate" });
+        await CreateTestRecipe("Meatballs", marker, new List<string> { "dinner" });
+
+        // Act
+        var result = await _client.GetFromJsonAsync<SearchRecipesResponse>($"/recipes?query={marker}&tag=dessert&tag=chocolate&tagMatch=any");
+
+        // Assert
+        Assert.That(result!.TotalCount, Is.EqualTo(3));
+        Assert.That(result.Recipes, Has.None.Matches<RecipeSummaryResponse>(r => r.Title == "Meatballs"));
+    }
+
+    [Test]
+    public async Task GetRecipes_WithInvalidTagMatch_Returns400()
+    {
+        // Act
+        var response = await _client.GetAsync("/recipes?tag=dessert&tagMatch=some");
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.BadRequest));
+    }
+
+    private static string NewMarker() => "marker" + Guid.NewGuid().ToString("N").Substring(0, 8);
+
+    private async Task<RecipeDetailResponse> CreateTestRecipe(string title, string marker, List<string>? tags = null)
+    {
+        var request = new CreateRecipeRequest
+        {
+            Title = title,
+            RawText = $"Test recipe text {marker}",
+            ImageRef = "test-image-ref",
+            Tags = tags
+        };
+
+        var response = await _client.PostAsJsonAsync("/recipes", request);
+        response.EnsureSuccessStatusCode();
+        return (await response.Content.ReadFromJsonAsync<RecipeDetailResponse>())!;
+    }
 }
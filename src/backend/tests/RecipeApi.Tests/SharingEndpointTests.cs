@@ -0,0 +1,432 @@
+using System.Net;
+using System.Net.Http.Json;
+using Microsoft.AspNetCore.Hosting;
+using Microsoft.AspNetCore.Mvc.Testing;
+using RecipeCollection.DTOs.RequestModels;
+using RecipeCollection.DTOs.ResponseModels;
+
+namespace RecipeApi.Tests;
+
+[TestFixture]
+public class SharingEndpointTests
+{
+    private WebApplicationFactory<Program> _factory = null!;
+
+    [OneTimeSetUp]
+    public void SetUp()
+    {
+        _factory = new WebApplicationFactory<Program>().WithWebHostBuilder(builder =>
+        {
+            builder.UseSetting("ConnectionStrings:CosmosDb", "");
+            builder.UseDevTokenIssuer();
+        });
+    }
+
+    [OneTimeTearDown]
+    public void TearDown()
+    {
+        _factory.Dispose();
+    }
+
+    [Test]
+    public async Task ShareRecipe_ReadOnly_LetsGranteeReadButNotChangeIt()
+    {
+        // Arrange
+        var (owner, _) = await SignIn("alice");
+        var (grantee, granteeId) = await SignIn("bob");
+        var recipe = await CreateRecipe(owner);
+
+        // Act
+        var shareResponse = await owner.PostAsJsonAsync("/shares", new CreateShareRequest
+        {
+            RecipeId = recipe.Id,
+            UserId = granteeId,
+            Permission = "read"
+        });
+        var shared = await grantee.GetFromJsonAsync<RecipeDetailResponse>($"/recipes/{recipe.Id}");
+        var updateResponse = await grantee.PutAsJsonAsync($"/recipes/{recipe.Id}", new UpdateRecipeRequest
+        {
+            Title = "Changed",
+            RawText = recipe.RawText
+        });
+        var tagResponse = await grantee.PostAsJsonAsync($"/recipes/{recipe.Id}/tags", new AddTagRequest { Tag = "mine" });
+
+        // Assert
+        Assert.That(shareResponse.StatusCode, Is.EqualTo(HttpStatusCode.OK));
+        Assert.That(shared!.Access, Is.EqualTo("read"));
+        Assert.That(shared.Owner.Id, Is.EqualTo(recipe.Owner.Id));
+        Assert.That(updateResponse.StatusCode, Is.EqualTo(HttpStatusCode.Forbidden));
+        Assert.That(tagResponse.StatusCode, Is.EqualTo(HttpStatusCode.Forbidden));
+    }
+
+    [Test]
+    public async Task ShareRecipe_Editable_LetsGranteeEditButNotDeleteIt()
+    {
+        // Arrange
+        var (owner, _) = await SignIn("carol");
+        var (grantee, granteeId) = await SignIn("dave");
+        var recipe = await CreateRecipe(owner);
+        await Share(owner, recipe.Id, granteeId, "edit");
+
+        // Act
+        var updateResponse = await grantee.PutAsJsonAsync($"/recipes/{recipe.Id}", new UpdateRecipeRequest
+        {
+            Title = "Improved",
+            RawText = recipe.RawText
+        });
+        var deleteResponse = await grantee.DeleteAsync($"/recipes/{recipe.Id}");
+
+        // Assert
+        Assert.That(updateResponse.StatusCode, Is.EqualTo(HttpStatusCode.OK));
+        var updated = await updateResponse.Content.ReadFromJsonAsync<RecipeDetailResponse>();
+        Assert.That(updated!.Title, Is.EqualTo("Improved"));
+        Assert.That(updated.Access, Is.EqualTo("edit"));
+        Assert.That(deleteResponse.StatusCode, Is.EqualTo(HttpStatusCode.Forbidden));
+    }
+
+    [Test]
+    public async Task ShareCollection_ShowsEveryRecipeInGranteesSearch()
+    {
+        // Arrange
+        var (owner, _) = await SignIn("erin");
+        var (grantee, granteeId) = await SignIn("frank");
+        var first = await CreateRecipe(owner);
+        var second = await CreateRecipe(owner);
+
+        // Act
+        await Share(owner, null, granteeId, "read");
+        var search = await grantee.GetFromJsonAsync<SearchRecipesResponse>("/recipes?pageSize=100");
+
+        // Assert
+        Assert.That(search!.Recipes.Select(r => r.Id), Does.Contain(first.Id).And.Contain(second.Id));
+    }
+
+    [Test]
+    public async Task DeleteShare_RevokesAccess()
+    {
+        // Arrange
+        var (owner, _) = await SignIn("gina");
+        var (grantee, granteeId) = await SignIn("hank");
+        var recipe = await CreateRecipe(owner);
+        var share = await Share(owner, recipe.Id, granteeId, "read");
+
+        // Act
+        var deleteResponse = await owner.DeleteAsync($"/shares/{share.Id}");
+        var getResponse = await grantee.GetAsync($"/recipes/{recipe.Id}");
+
+        // Assert
+        Assert.That(deleteResponse.StatusCode, Is.EqualTo(HttpStatusCode.NoContent));
+        Assert.That(getResponse.StatusCode, Is.EqualTo(HttpStatusCode.NotFound));
+    }
+
+    [Test]
+    public async Task GetShares_ListsGivenAndReceivedShares()
+    {
+        // Arrange
+        var (owner, ownerId) = await SignIn("ida");
+        var (grantee, granteeId) = await SignIn("jon");
+        var recipe = await CreateRecipe(owner);
+        var share = await Share(owner, recipe.Id, granteeId, "edit");
+
+        // Act
+        var given = await owner.GetFromJsonAsync<SharesResponse>("/shares");
+        var received = await grantee.GetFromJsonAsync<SharesResponse>("/shares");
+
+        // Assert
+        var givenShare = given!.Given.Single(s => s.Id == share.Id);
+        Assert.That(givenShare.RecipeTitle, Is.EqualTo(recipe.Title));
+        Assert.That(givenShare.Grantee.Id, Is.EqualTo(granteeId));
+        Assert.That(givenShare.Permission, Is.EqualTo("edit"));
+        Assert.That(received!.Received.Single(s => s.Id == share.Id).Owner.Id, Is.EqualTo($"user:{ownerId}"));
+    }
+
+    [Test]
+    public async Task Share_WithSomeoneWhoNeverSignedIn_Returns404()
+    {
+        // Arrange
+        var (owner, _) = await SignIn("kim");
+        var recipe = await CreateRecipe(owner);
+
+        // Act
+        var response = await owner.PostAsJsonAsync("/shares", new CreateShareRequest
+        {
+            RecipeId = recipe.Id,
+            UserId = $"nobody-{Guid.NewGuid():N}",
+            Permission = "read"
+        });
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.NotFound));
+    }
+
+    [Test]
+    public async Task Share_RecipeSharedWithYou_Returns404()
+    {
+        // Arrange
+        var (owner, _) = await SignIn("lena");
+        var (grantee, granteeId) = await SignIn("mats");
+        var (_, thirdId) = await SignIn("nils");
+        var recipe = await CreateRecipe(owner);
+        await Share(owner, recipe.Id, granteeId, "edit");
+
+        // Act
+        var response = await grantee.PostAsJsonAsync("/shares", new CreateShareRequest
+        {
+            RecipeId = recipe.Id,
+            UserId = thirdId,
+            Permission = "read"
+        });
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.NotFound));
+    }
+
+    [Test]
+    public async Task Share_WithInvalidPermission_Returns400()
+    {
+        // Arrange
+        var (owner, _) = await SignIn("olle");
+        var (_, granteeId) = await SignIn("pia");
+
+        // Act
+        var response = await owner.PostAsJsonAsync("/shares", new CreateShareRequest
+        {
+            UserId = granteeId,
+            Permission = "admin"
+        });
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.BadRequest));
+    }
+
+    [Test]
+    public async Task Household_MembersOwnRecipesAddedByEachOther()
+    {
+        // Arrange
+        var (first, _) = await SignIn("quinn");
+        var (second, secondId) = await SignIn("rut");
+        var household = await CreateHousehold(first, "The Quinns");
+        await Invite(first, household.Id, secondId);
+        var joinResponse = await second.PostAsync($"/households/{household.Id}/join", null);
+
+        // Act
+        var recipe = await CreateRecipe(first);
+        var seenBySecond = await second.GetFromJsonAsync<RecipeDetailResponse>($"/recipes/{recipe.Id}");
+        var deleteResponse = await second.DeleteAsync($"/recipes/{recipe.Id}");
+
+        // Assert
+        Assert.That(joinResponse.StatusCode, Is.EqualTo(HttpStatusCode.OK));
+        Assert.That(recipe.Owner.Id, Is.EqualTo($"household:{household.Id}"));
+        Assert.That(recipe.Owner.Kind, Is.EqualTo("household"));
+        Assert.That(recipe.Owner.Name, Is.EqualTo("The Quinns"));
+        Assert.That(seenBySecond!.Access, Is.EqualTo("owner"));
+        Assert.That(deleteResponse.StatusCode, Is.EqualTo(HttpStatusCode.NoContent));
+    }
+
+    [Test]
+    public async Task Household_ShowsOnCurrentUser()
+    {
+        // Arrange
+        var (client, userId) = await SignIn("sara");
+        var household = await CreateHousehold(client, "Sara's kitchen");
+
+        // Act
+        var user = await client.GetFromJsonAsync<CurrentUserResponse>("/auth/me");
+
+        // Assert
+        Assert.That(user!.Household!.Id, Is.EqualTo(household.Id));
+        Assert.That(user.Household.Members.Select(m => m.Id), Is.EqualTo(new[] { userId }));
+    }
+
+    [Test]
+    public async Task Household_CreateWhileMember_Returns409()
+    {
+        // Arrange
+        var (client, _) = await SignIn("tor");
+        await CreateHousehold(client, "First");
+
+        // Act
+        var response = await client.PostAsJsonAsync("/households", new CreateHouseholdRequest { Name = "Second" });
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.Conflict));
+    }
+
+    [Test]
+    public async Task Household_LastMemberLeaving_Returns409()
+    {
+        // Arrange
+        var (client, userId) = await SignIn("ulla");
+        var household = await CreateHousehold(client, "Alone");
+
+        // Act
+        var response = await client.DeleteAsync($"/households/{household.Id}/members/{userId}");
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.Conflict));
+    }
+
+    [Test]
+    public async Task Household_MemberWhoLeaves_LosesAccessToItsRecipes()
+    {
+        // Arrange
+        var (first, _) = await SignIn("vera");
+        var (second, secondId) = await SignIn("walt");
+        var household = await CreateHousehold(first, "Shared flat");
+        await Join(first, second, household.Id, secondId);
+        var recipe = await CreateRecipe(first);
+
+        // Act
+        var leaveResponse = await second.DeleteAsync($"/households/{household.Id}/members/{secondId}");
+        var getResponse = await second.GetAsync($"/recipes/{recipe.Id}");
+
+        // Assert
+        Assert.That(leaveResponse.StatusCode, Is.EqualTo(HttpStatusCode.NoContent));
+        Assert.That(getResponse.StatusCode, Is.EqualTo(HttpStatusCode.NotFound));
+    }
+
+    [Test]
+    public async Task Household_RemovingAnotherMember_Returns403()
+    {
+        // Arrange
+        var (first, _) = await SignIn("xena");
+        var (second, secondId) = await SignIn("yngve");
+        var household = await CreateHousehold(first, "Two of us");
+        await Join(first, second, household.Id, secondId);
+
+        // Act
+        var response = await first.DeleteAsync($"/households/{household.Id}/members/{secondId}");
+        var user = await second.GetFromJsonAsync<CurrentUserResponse>("/auth/me");
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.Forbidden));
+        Assert.That(user!.Household!.Id, Is.EqualTo(household.Id));
+    }
+
+    [Test]
+    public async Task Household_InvitedUser_OnlyJoinsWhenAccepting()
+    {
+        // Arrange
+        var (first, _) = await SignIn("ada");
+        var (second, secondId) = await SignIn("bo");
+        var household = await CreateHousehold(first, "Invitations");
+        var recipe = await CreateRecipe(first);
+
+        // Act
+        var invited = await Invite(first, household.Id, secondId);
+        var invitedUser = await second.GetFromJsonAsync<CurrentUserResponse>("/auth/me");
+        var getResponse = await second.GetAsync($"/recipes/{recipe.Id}");
+
+        // Assert
+        Assert.That(invited.Members.Select(m => m.Id), Has.No.Member(secondId));
+        Assert.That(invited.Invited.Select(m => m.Id), Is.EqualTo(new[] { secondId }));
+        Assert.That(invitedUser!.Household, Is.Null);
+        Assert.That(invitedUser.Invitations.Select(i => i.Id), Is.EqualTo(new[] { household.Id }));
+        Assert.That(getResponse.StatusCode, Is.EqualTo(HttpStatusCode.NotFound));
+    }
+
+    [Test]
+    public async Task Household_JoinWithoutInvitation_Returns404()
+    {
+        // Arrange
+        var (first, _) = await SignIn("cleo");
+        var (second, _) = await SignIn("dag");
+        var household = await CreateHousehold(first, "Closed");
+
+        // Act
+        var response = await second.PostAsync($"/households/{household.Id}/join", null);
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.NotFound));
+    }
+
+    [Test]
+    public async Task Household_DeclinedInvitation_CanNoLongerBeAccepted()
+    {
+        // Arrange
+        var (first, _) = await SignIn("eva");
+        var (second, secondId) = await SignIn("finn");
+        var household = await CreateHousehold(first, "Declined");
+        await Invite(first, household.Id, secondId);
+
+        // Act
+        var declineResponse = await second.DeleteAsync($"/households/{household.Id}/invitations/{secondId}");
+        var joinResponse = await second.PostAsync($"/households/{household.Id}/join", null);
+        var user = await second.GetFromJsonAsync<CurrentUserResponse>("/auth/me");
+
+        // Assert
+        Assert.That(declineResponse.StatusCode, Is.EqualTo(HttpStatusCode.NoContent));
+        Assert.That(joinResponse.StatusCode, Is.EqualTo(HttpStatusCode.NotFound));
+        Assert.That(user!.Invitations, Is.Empty);
+    }
+
+    [Test]
+    public async Task Household_InvitedUserRemovingAnotherInvitation_Returns403()
+    {
+        // Arrange
+        var (first, _) = await SignIn("gun");
+        var (second, secondId) = await SignIn("hugo");
+        var (_, thirdId) = await SignIn("iris");
+        var household = await CreateHousehold(first, "Two invitations");
+        await Invite(first, household.Id, secondId);
+        await Invite(first, household.Id, thirdId);
+
+        // Act
+        var response = await second.DeleteAsync($"/households/{household.Id}/invitations/{thirdId}");
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.Forbidden));
+    }
+
+    private async Task<(HttpClient Client, string UserId)> SignIn(string name)
+    {
+        var userId = $"{name}-{Guid.NewGuid().ToString("N").Substring(0, 8)}";
+        return (await _factory.CreateSignedInClientAsync(userId), userId);
+    }
+
+    private static async Task<RecipeDetailResponse> CreateRecipe(HttpClient client)
+    {
+        var response = await client.PostAsJsonAsync("/recipes", new CreateRecipeRequest
+        {
+            Title = "Shared Recipe " + Guid.NewGuid().ToString().Substring(0, 8),
+            RawText = "Test recipe text",
+            ImageRef = "test-image-ref"
+        });
+        response.EnsureSuccessStatusCode();
+        return (await response.Content.ReadFromJsonAsync<RecipeDetailResponse>())!;
+    }
+
+    private static async Task<ShareResponse> Share(HttpClient client, string? recipeId, string userId, string permission)
+    {
+        var response = await client.PostAsJsonAsync("/shares", new CreateShareRequest
+        {
+            RecipeId = recipeId,
+            UserId = userId,
+            Permission = permission
+        });
+        response.EnsureSuccessStatusCode();
+        return (await response.Content.ReadFromJsonAsync<ShareResponse>())!;
+    }
+
+    private static async Task<HouseholdResponse> Invite(HttpClient member, string householdId, string userId)
+    {
+        var response = await member.PostAsJsonAsync($"/households/{householdId}/invitations",
+            new InviteHouseholdMemberRequest { UserId = userId });
+        response.EnsureSuccessStatusCode();
+        return (await response.Content.ReadFromJsonAsync<HouseholdResponse>())!;
+    }
+
+    private static async Task Join(HttpClient member, HttpClient invitee, string householdId, string inviteeId)
+    {
+        await Invite(member, householdId, inviteeId);
+        var response = await invitee.PostAsync($"/households/{householdId}/join", null);
+        response.EnsureSuccessStatusCode();
+    }
+
+    private static async Task<HouseholdResponse> CreateHousehold(HttpClient client, string name)
+    {
+        var response = await client.PostAsJsonAsync("/households", new CreateHouseholdRequest { Name = name });
+        response.EnsureSuccessStatusCode();
+        return (await response.Content.ReadFromJsonAsync<HouseholdResponse>())!;
+    }
+}
@@ -0,0 +1,202 @@
+using System.Net;
+using System.Net.Http.Json;
+using Microsoft.AspNetCore.Hosting;
+using Microsoft.AspNetCore.Mvc.Testing;
+using RecipeCollection.DTOs.RequestModels;
+using RecipeCollection.DTOs.ResponseModels;
+
+namespace RecipeApi.Tests;
+
+[TestFixture]
+public class TagEndpointTests
+{
+    private WebApplicationFactory<Program> _factory = null!;
+    private HttpClient _client = null!;
+
+    [OneTimeSetUp]
+    public async Task SetUp()
+    {
+        _factory = new WebApplicationFactory<Program>().WithWebHostBuilder(builder =>
+        {
+            builder.UseSetting("ConnectionStrings:CosmosDb", "");
+            builder.UseDevTokenIssuer();
+        });
+        _client = await _factory.CreateSignedInClientAsync();
+    }
+
+    [OneTimeTearDown]
+    public void TearDown()
+    {
+        _client.Dispose();
+        _factory.Dispose();
+    }
+
+    [Test]
+    public async Task GetTags_ReturnsRecipeCountPerTag()
+    {
+        // Arrange - unique tag names so other tests' recipes don't affect the counts
+        var suffix = Guid.NewGuid().ToString("N").Substring(0, 8);
+        var common = $"common-{suffix}";
+        var rare = $"rare-{suffix}";
+        await CreateTestRecipe(new List<string> { common, rare });
+        await CreateTestRecipe(new List<string> { common });
+
+        // Act
+        var response = await _client.GetAsync("/tags");
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.OK));
+        var tags = await response.Content.ReadFromJsonAsync<List<TagCountResponse>>();
+        Assert.That(tags, Is.Not.Null);
+        Assert.That(tags!.Single(t => t.Tag == common).RecipeCount, Is.EqualTo(2));
+        Assert.That(tags.Single(t => t.Tag == rare).RecipeCount, Is.EqualTo(1));
+    }
+
+    [Test]
+    public async Task GetTags_IsOrderedByRecipeCountDescending()
+    {
+        // Act
+        var tags = await _client.GetFromJsonAsync<List<TagCountResponse>>("/tags");
+
+        // Assert
+        Assert.That(tags, Is.Not.Null);
+        Assert.That(tags!.Select(t => t.RecipeCount), Is.Ordered.Descending);
+    }
+
+    [Test]
+    public async Task GetTags_ReflectsTagRemoval()
+    {
+        // Arrange
+        var tag = $"removed-{Guid.NewGuid().ToString("N").Substring(0, 8)}";
+        var recipe = await CreateTestRecipe(new List<string> { tag });
+        await _client.DeleteAsync($"/recipes/{recipe.Id}/tags/{tag}");
+
+        // Act
+        var tags = await _client.GetFromJsonAsync<List<TagCountResponse>>("/tags");
+
+        // Assert
+        Assert.That(tags, Is.Not.Null);
+        Assert.That(tags!, Has.None.Matches<TagCountResponse>(t => t.Tag == tag));
+    }
+
+    [Test]
+    public async Task RenameTag_ReplacesTagOnAllRecipes()
+    {
+        // Arrange
+        var suffix = Guid.NewGuid().ToString("N").Substring(0, 8);
+        var oldTag = $"desserts-{suffix}";
+        var newTag = $"dessert-{suffix}";
+        var first = await CreateTestRecipe(new List<string> { "baking", oldTag });
+        var second = await CreateTestRecipe(new List<string> { oldTag });
+
+        // Act
+        var response = await _client.PostAsJsonAsync($"/tags/{oldTag}/rename", new RenameTagRequest { NewTag = newTag });
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.OK));
+        var result = await response.Content.ReadFromJsonAsync<RenameTagResponse>();
+        Assert.That(result, Is.Not.Null);
+        Assert.That(result!.Tag, Is.EqualTo(newTag));
+        Assert.That(result.UpdatedRecipeCount, Is.EqualTo(2));
+        Assert.That(result.Merged, Is.False);
+
+        var updatedFirst = await _client.GetFromJsonAsync<RecipeDetailResponse>($"/recipes/{first.Id}");
+        var updatedSecond = await _client.GetFromJsonAsync<RecipeDetailResponse>($"/recipes/{second.Id}");
+        Assert.That(updatedFirst!.Tags, Is.EqualTo(new[] { "baking", newTag }));
+        Assert.That(updatedSecond!.Tags, Is.EqualTo(new[] { newTag }));
+    }
+
+    [Test]
+    public async Task RenameTag_OntoExistingTag_MergesWithoutDuplicates()
+    {
+        // Arrange
+        var suffix = Guid.NewGuid().ToString("N").Substring(0, 8);
+        var source = $"efterratt-{suffix}";
+        var target = $"dessert-{suffix}";
+        var both = await CreateTestRecipe(new List<string> { target, source });
+        await CreateTestRecipe(new List<string> { source });
+        await CreateTestRecipe(new List<string> { target });
+
+        // Act
+        var response = await _client.PostAsJsonAsync($"/tags/{source}/rename", new RenameTagRequest { NewTag = target });
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.OK));
+        var result = await response.Content.ReadFromJsonAsync<RenameTagResponse>();
+        Assert.That(result!.Merged, Is.True);
+        Assert.That(result.RecipeCount, Is.EqualTo(3));
+
+        var updatedBoth = await _client.GetFromJsonAsync<RecipeDetailResponse>($"/recipes/{both.Id}");
+        Assert.That(updatedBoth!.Tags, Is.EqualTo(new[] { target }));
+
+        var tags = await _client.GetFromJsonAsync<List<TagCountResponse>>("/tags");
+        Assert.That(tags!, Has.None.Matches<TagCountResponse>(t => t.Tag == source));
+    }
+
+    [Test]
+    public async Task RenameTag_NormalizesBothTagNames()
+    {
+        // Arrange
+        var suffix = Guid.NewGuid().ToString("N").Substring(0, 8);
+        await CreateTestRecipe(new List<string> { $"dinner-{suffix}" });
+
+        // Act
+        var response = await _client.PostAsJsonAsync(
+            $"/tags/{Uri.EscapeDataString($"  Dinner-{suffix} ")}/rename",
+            new RenameTagRequest { NewTag = $"  MAIN-{suffix}  " });
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.OK));
+        var result = await response.Content.ReadFromJsonAsync<RenameTagResponse>();
+        Assert.That(result!.Tag, Is.EqualTo($"main-{suffix}"));
+    }
+
+    [Test]
+    public async Task RenameTag_ToSameTag_Returns400()
+    {
+        // Act
+        var response = await _client.PostAsJsonAsync("/tags/dessert/rename", new RenameTagRequest { NewTag = " Dessert " });
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.BadRequest));
+    }
+
+    [Test]
+    public async Task RenameTag_WithTooShortNewTag_Returns400()
+    {
+        // Act
+        var response = await _client.PostAsJsonAsync("/tags/dessert/rename", new RenameTagRequest { NewTag = "a" });
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.BadRequest));
+        var error = await response.Content.ReadFromJsonAsync<ErrorResponse>();
+        Assert.That(error!.Message, Does.Contain("Tag must be at least 2 characters"));
+    }
+
+    [Test]
+    public async Task RenameTag_UnusedTag_ReturnsNotFound()
+    {
+        // Act
+        var response = await _client.PostAsJsonAsync(
+            $"/tags/unused-{Guid.NewGuid():N}/rename",
+            new RenameTagRequest { NewTag = "dessert" });
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.NotFound));
+    }
+
+    private async Task<RecipeDetailResponse> CreateTestRecipe(List<string> tags)
+    {
+        var request = new CreateRecipeRequest
+        {
+            Title = "Test Recipe " + Guid.NewGuid().ToString().Substring(0, 8),
+            RawText = "Test recipe text",
+            ImageRef = "test-image-ref",
+            Tags = tags
+        };
+
+        var response = await _client.PostAsJsonAsync("/recipes", request);
+        response.EnsureSuccessStatusCode();
+        return (await response.Content.ReadFromJsonAsync<RecipeDetailResponse>())!;
+    }
+}
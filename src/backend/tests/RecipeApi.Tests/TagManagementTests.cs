@@ -15,13 +15,14 @@ public class TagManagementTests
     private HttpClient _client = null!;
 
     [OneTimeSetUp]
-    public void SetUp()
+    public async Task SetUp()
     {
         _factory = new WebApplicationFactory<Program>().WithWebHostBuilder(builder =>
         {
             builder.UseSetting("ConnectionStrings:CosmosDb", "");
+            builder.UseDevTokenIssuer();
         });
-        _client = _factory.CreateClient();
+        _client = await _factory.CreateSignedInClientAsync();
     }
 
     [OneTimeTearDown]
@@ -169,9 +170,9 @@ public class TagManagementTests
 
         // Assert
         Assert.That(searchResponse.StatusCode, Is.EqualTo(HttpStatusCode.OK));
-        var results = await searchResponse.Content.ReadFromJsonAsync<List<RecipeSummaryResponse>>();
+        var results = await searchResponse.Content.ReadFromJsonAsync<SearchRecipesResponse>();
         Assert.That(results, Is.Not.Null);
-        Assert.That(results!, Has.Some.Matches<RecipeSummaryResponse>(r => r.Id == recipe.Id));
+        Assert.That(results!.Recipes, Has.Some.Matches<RecipeSummaryResponse>(r => r.Id == recipe.Id));
     }
 
     [Test]
@@ -187,9 +188,9 @@ public class TagManagementTests
 
         // Assert
         Assert.That(searchResponse.StatusCode, Is.EqualTo(HttpStatusCode.OK));
-        var results = await searchResponse.Content.ReadFromJsonAsync<List<RecipeSummaryResponse>>();
+        var results = await searchResponse.Content.ReadFromJsonAsync<SearchRecipesResponse>();
         Assert.That(results, Is.Not.Null);
-        Assert.That(results!, Has.None.Matches<RecipeSummaryResponse>(r => r.Id == recipe.Id));
+        Assert.That(results!.Recipes, Has.None.Matches<RecipeSummaryResponse>(r => r.Id == recipe.Id));
     }
 
     private async Task<RecipeDetailResponse> CreateTestRecipe()
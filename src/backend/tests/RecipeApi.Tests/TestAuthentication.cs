@@ -0,0 +1,34 @@
+using System.Net.Http.Headers;
+using System.Net.Http.Json;
+using Microsoft.AspNetCore.Hosting;
+using Microsoft.AspNetCore.Mvc.Testing;
+using RecipeCollection.DTOs.RequestModels;
+using RecipeCollection.DTOs.ResponseModels;
+
+namespace RecipeApi.Tests;
+
+// Every endpoint but sign-in, images and health needs a token; tests get theirs from the development issuer
+internal static class TestAuthentication
+{
+    public const string DefaultUserName = "test-user";
+
+    public static IWebHostBuilder UseDevTokenIssuer(this IWebHostBuilder builder)
+    {
+        return builder
+            .UseSetting("Auth:DevIssuer:Enabled", "true")
+            .UseSetting("Auth:DevIssuer:SigningKey", "test-signing-key-at-least-32-characters");
+    }
+
+    public static async Task<HttpClient> CreateSignedInClientAsync(
+        this WebApplicationFactory<Program> factory,
+        string userName = DefaultUserName)
+    {
+        var client = factory.CreateClient();
+        var response = await client.PostAsJsonAsync("/auth/dev-token", new DevTokenRequest { UserName = userName });
+        response.EnsureSuccessStatusCode();
+        var token = await response.Content.ReadFromJsonAsync<DevTokenResponse>();
+
+        client.DefaultRequestHeaders.Authorization = new AuthenticationHeaderValue("Bearer", token!.AccessToken);
+        return client;
+    }
+}
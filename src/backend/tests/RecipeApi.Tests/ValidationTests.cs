@@ -19,14 +19,17 @@ public class ValidationTests
     private HttpClient _client = null!;
 
     [OneTimeSetUp]
-    public void SetUp()
+    public async Task SetUp()
     {
         var ocrService = Substitute.For<IOcrService>();
-        ocrService.ExtractTextFromImageAsync(Arg.Any<Stream>()).Returns(Task.FromResult("Test OCR text"));
+        ocrService.ExtractTextFromImageAsync(Arg.Any<Stream>(), Arg.Any<string?>()).Returns(Task.FromResult(new OcrResult(
+            "Test OCR text",
+            [new OcrWord("Test", 0.98, 0.1, 0.1, 0.2, 0.05), new OcrWord("OCR", 0.42, 0.35, 0.1, 0.15, 0.05)])));
 
         _factory = new WebApplicationFactory<Program>().WithWebHostBuilder(builder =>
         {
             builder.UseSetting("ConnectionStrings:CosmosDb", "");
+            builder.UseDevTokenIssuer();
             builder.UseEnvironment("Testing");
             builder.ConfigureTestServices(services =>
             {
@@ -40,7 +43,7 @@ public class ValidationTests
             });
         });
 
-        _client = _factory.CreateClient();
+        _client = await _factory.CreateSignedInClientAsync();
     }
 
     [OneTimeTearDown]
@@ -72,6 +75,72 @@ public class ValidationTests
         Assert.That(error!.Message, Does.Contain("Title must be at least 3 characters"));
     }
 
+    [Test]
+    public async Task CreateRecipe_WithoutAnyImageRef_CreatesRecipeWithoutPhotos()
+    {
+        // Arrange - imported recipes have no photo
+        var request = new CreateRecipeRequest
+        {
+            Title = "Valid Title",
+            RawText = "Some recipe text",
+            ImageRefs = new List<string>()
+        };
+
+        // Act
+        var response = await _client.PostAsJsonAsync("/recipes", request);
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.Created));
+        var recipe = await response.Content.ReadFromJsonAsync<RecipeDetailResponse>();
+        Assert.That(recipe, Is.Not.Null);
+        Assert.That(recipe!.ImageRef, Is.Empty);
+        Assert.That(recipe.ImageRefs, Is.Empty);
+    }
+
+    [Test]
+    public async Task CreateRecipe_WithUnsupportedOcrLanguage_Returns400()
+    {
+        // Arrange
+        var request = new CreateRecipeRequest
+        {
+            Title = "Valid Title",
+            RawText = "Some recipe text",
+            ImageRef = "test-image-ref",
+            OcrLanguage = "fra"
+        };
+
+        // Act
+        var response = await _client.PostAsJsonAsync("/recipes", request);
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.BadRequest));
+        var error = await response.Content.ReadFromJsonAsync<ErrorResponse>();
+        Assert.That(error, Is.Not.Null);
+        Assert.That(error!.Message, Does.Contain("OCR language must be one of"));
+    }
+
+    [Test]
+    public async Task CreateRecipe_WithNegativePrepTime_Returns400()
+    {
+        // Arrange
+        var request = new CreateRecipeRequest
+        {
+            Title = "Valid Title",
+            RawText = "Some recipe text",
+            ImageRef = "test-image-ref",
+            PrepTimeMinutes = -5
+        };
+
+        // Act
+        var response = await _client.PostAsJsonAsync("/recipes", request);
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.BadRequest));
+        var error = await response.Content.ReadFromJsonAsync<ErrorResponse>();
+        Assert.That(error, Is.Not.Null);
+        Assert.That(error!.Message, Does.Contain("Prep time must be between 1 minute and 7 days"));
+    }
+
     [Test]
     public async Task CreateRecipe_WithTooLongTitle_Returns400()
     {
@@ -309,11 +378,7 @@ public class ValidationTests
     public async Task OcrEndpoint_WithValidJpeg_Returns200()
     {
         // Arrange
-        var content = new MultipartFormDataContent();
-        var jpegBytes = Convert.FromBase64String("/9j/4AAQSkZJRgABAQAAAQABAAD/2wCEAAkGBxAQEBUQEA8QDw8PEA8PDw8PEA8QDxAQFREWFhURFRUYHSggGBolGxUVITEhJSkrLi4uFx8zODMtNygtLisBCgoKDQ0NDg0NDisZHhkrKysrKystKy0tKy0rLS0rKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrK//AABEIAAEAAQMBIgACEQEDEQH/xAAWAAEBAQAAAAAAAAAAAAAAAAAAAQL/xAAUEQEAAAAAAAAAAAAAAAAAAAAA/8QAFQEBAQAAAAAAAAAAAAAAAAAAAgP/xAAUEQEAAAAAAAAAAAAAAAAAAAAA/9oADAMBAAIRAxEAPwCdAAf/2Q==");
-        var byteContent = new ByteArrayContent(jpegBytes);
-        byteContent.Headers.ContentType = new System.Net.Http.Headers.MediaTypeHeaderValue("image/jpeg");
-        content.Add(byteContent, "image", "test.jpg");
+        var content = CreateJpegContent();
 
         // Act
         var response = await _client.PostAsync("/ocr", content);
@@ -321,4 +386,68 @@ public class ValidationTests
         // Assert
         Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.OK));
     }
+
+    [Test]
+    public async Task OcrEndpoint_WithUnsupportedLanguage_Returns400()
+    {
+        // Arrange
+        var content = CreateJpegContent();
+        content.Add(new StringContent("klingon"), "language");
+
+        // Act
+        var response = await _client.PostAsync("/ocr", content);
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.BadRequest));
+        var error = await response.Content.ReadFromJsonAsync<ErrorResponse>();
+        Assert.That(error, Is.Not.Null);
+        Assert.That(error!.Code, Is.EqualTo("INVALID_REQUEST"));
+        Assert.That(error.Message, Does.Contain("Invalid OCR language"));
+    }
+
+    [Test]
+    public async Task OcrEndpoint_WithLanguage_ReturnsLanguageUsed()
+    {
+        // Arrange
+        var content = CreateJpegContent();
+        content.Add(new StringContent("swe+eng"), "language");
+
+        // Act
+        var response = await _client.PostAsync("/ocr", content);
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.OK));
+        var result = await response.Content.ReadFromJsonAsync<OcrResponse>();
+        Assert.That(result, Is.Not.Null);
+        Assert.That(result!.Language, Is.EqualTo("swe+eng"));
+    }
+
+    [Test]
+    public async Task OcrEndpoint_WithValidJpeg_ReturnsWordConfidenceAndPosition()
+    {
+        // Arrange
+        var content = CreateJpegContent();
+
+        // Act
+        var response = await _client.PostAsync("/ocr", content);
+
+        // Assert
+        Assert.That(response.StatusCode, Is.EqualTo(HttpStatusCode.OK));
+        var result = await response.Content.ReadFromJsonAsync<OcrResponse>();
+        Assert.That(result, Is.Not.Null);
+        Assert.That(result!.Words, Has.Count.EqualTo(2));
+        Assert.That(result.Words[1].Text, Is.EqualTo("OCR"));
+        Assert.That(result.Words[1].Confidence, Is.EqualTo(0.42));
+        Assert.That(result.Words[1].X, Is.EqualTo(0.35));
+        Assert.That(result.Words[1].Width, Is.EqualTo(0.15));
+    }
+
+    private static MultipartFormDataContent CreateJpegContent()
+    {
+        var content = new MultipartFormDataContent();
+        var byteContent = new ByteArrayContent(Convert.FromBase64String("/9j/4AAQSkZJRgABAQAAAQABAAD/2wCEAAkGBxAQEBUQEA8QDw8PEA8PDw8PEA8QDxAQFREWFhURFRUYHSggGBolGxUVITEhJSkrLi4uFx8zODMtNygtLisBCgoKDQ0NDg0NDisZHhkrKysrKystKy0tKy0rLS0rKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrK//AABEIAAEAAQMBIgACEQEDEQH/xAAWAAEBAQAAAAAAAAAAAAAAAAAAAQL/xAAUEQEAAAAAAAAAAAAAAAAAAAAA/8QAFQEBAQAAAAAAAAAAAAAAAAAAAgP/xAAUEQEAAAAAAAAAAAAAAAAAAAAA/9oADAMBAAIRAxEAPwCdAAf/2Q=="));
+        byteContent.Headers.ContentType = new System.Net.Http.Headers.MediaTypeHeaderValue("image/jpeg");
+        content.Add(byteContent, "image", "test.jpg");
+        return content;
+    }
 }
@@ -0,0 +1,71 @@
+// Keeps the app shell and recipe photos available offline. Recipe data is cached by the app itself in
+// IndexedDB, so API calls are left alone here and fail normally when there is no connection.
+const SHELL_CACHE = 'recipe-collection-shell-v1'
+const IMAGE_CACHE = 'recipe-collection-images-v1'
+const SHELL_URLS = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg']
+// Photos are large; the oldest are dropped once this many are cached
+const MAX_CACHED_IMAGES = 200
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE).then(cache => cache.addAll(SHELL_URLS)).then(() => self.skipWaiting())
+  )
+})
+
+self.addEventListener('activate', event => {
+  const current = [SHELL_CACHE, IMAGE_CACHE]
+  event.waitUntil(
+    caches
+      .keys()
+      .then(keys => Promise.all(keys.filter(key => !current.includes(key)).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  )
+})
+
+const trimImageCache = async () => {
+  const cache = await caches.open(IMAGE_CACHE)
+  const keys = await cache.keys()
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - MAX_CACHED_IMAGES)).map(key => cache.delete(key)))
+}
+
+// Pages: network first so deploys show up straight away, the cached shell when offline
+const handleNavigation = async request => {
+  try {
+    const response = await fetch(request)
+    if (response.ok) {
+      const cache = await caches.open(SHELL_CACHE)
+      await cache.put('/index.html', response.clone())
+    }
+    return response
+  } catch {
+    return (await caches.match('/index.html')) ?? Response.error()
+  }
+}
+
+// Build assets have content hashes and photos never change, so a cached copy is always current
+const handleCacheFirst = async (request, cacheName) => {
+  const cached = await caches.match(request)
+  if (cached) return cached
+
+  const response = await fetch(request)
+  if (response.ok) {
+    const cache = await caches.open(cacheName)
+    await cache.put(request, response.clone())
+    if (cacheName === IMAGE_CACHE) trimImageCache()
+  }
+  return response
+}
+
+self.addEventListener('fetch', event => {
+  const { request } = event
+  if (request.method !== 'GET') return
+
+  const url = new URL(request.url)
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request))
+  } else if (request.destination === 'image' && url.pathname.includes('/images/')) {
+    event.respondWith(handleCacheFirst(request, IMAGE_CACHE))
+  } else if (url.origin === self.location.origin && !url.pathname.startsWith('/api/')) {
+    event.respondWith(handleCacheFirst(request, SHELL_CACHE))
+  }
+})
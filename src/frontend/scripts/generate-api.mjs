@@ -0,0 +1,246 @@
+// Generates src/types/api.generated.ts from the API's OpenAPI document.
+//
+//   npm run generate:api                  regenerates from the openapi.json snapshot
+//   npm run generate:api -- --url <url>   downloads the document from a running API first, e.g.
+//                                         http://localhost:5137/swagger/v1/swagger.json
+//
+// The output has a TypeScript type and a runtime schema for every schema in the document, and an
+// operation table for every endpoint that answers with JSON or nothing. Files (backups, photos and
+// calendars) are downloaded with fetch directly.
+
+import { readFile, writeFile } from 'node:fs/promises'
+import { dirname, resolve } from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), '..')
+const snapshotPath = resolve(root, 'openapi.json')
+const outputPath = resolve(root, 'src/types/api.generated.ts')
+
+const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete']
+
+async function loadDocument() {
+  const urlIndex = process.argv.indexOf('--url')
+  if (urlIndex === -1) {
+    return JSON.parse(await readFile(snapshotPath, 'utf8'))
+  }
+
+  const url = process.argv[urlIndex + 1]
+  if (!url) throw new Error('--url needs the address of the OpenAPI document')
+  const response = await fetch(url)
+  if (!response.ok) throw new Error(`GET ${url} answered ${response.status} ${response.statusText}`)
+  const document = await response.json()
+  await writeFile(snapshotPath, JSON.stringify(document, null, 2) + '\n')
+  return document
+}
+
+const refName = ref => {
+  const match = /^#\/components\/schemas\/(.+)$/.exec(ref)
+  if (!match) throw new Error(`Unsupported $ref ${ref}`)
+  return match[1]
+}
+
+// OpenAPI 3.0 marks nullable schemas with `nullable`, 3.1 with a "null" type; a nullable $ref is
+// wrapped in allOf, oneOf or anyOf
+function unwrap(schema) {
+  let nullable = schema.nullable === true
+  let inner = schema
+
+  for (const combinator of ['allOf', 'oneOf', 'anyOf']) {
+    const variants = inner[combinator]
+    if (!variants) continue
+    const nonNull = variants.filter(variant => variant.type !== 'null')
+    if (nonNull.length !== variants.length) nullable = true
+    if (nonNull.length !== 1) throw new Error(`Unsupported ${combinator} with ${nonNull.length} schemas`)
+    inner = { ...nonNull[0], nullable: nullable || nonNull[0].nullable }
+    nullable = nullable || inner.nullable === true
+  }
+
+  if (Array.isArray(inner.type)) {
+    const types = inner.type.filter(type => type !== 'null')
+    if (types.length !== inner.type.length) nullable = true
+    if (types.length !== 1) throw new Error(`Unsupported type ${JSON.stringify(inner.type)}`)
+    inner = { ...inner, type: types[0] }
+  }
+
+  return { schema: inner, nullable }
+}
+
+/** The runtime schema, as described by the Schema type written into the output */
+function toRuntimeSchema(source) {
+  const { schema, nullable } = unwrap(source)
+  const withNull = runtime => (nullable ? { ...runtime, nullable: true } : runtime)
+
+  if (schema.$ref) return withNull({ $ref: refName(schema.$ref) })
+  if (schema.type === 'array') return withNull({ type: 'array', items: toRuntimeSchema(schema.items ?? {}) })
+  if (schema.type === 'object' || schema.properties) {
+    const properties = Object.fromEntries(
+      Object.entries(schema.properties ?? {}).map(([name, property]) => [name, toRuntimeSchema(property)])
+    )
+    return withNull({ type: 'object', properties, required: schema.required ?? [] })
+  }
+  if (['string', 'number', 'integer', 'boolean'].includes(schema.type)) {
+    return withNull(schema.enum ? { type: schema.type, enum: schema.enum } : { type: schema.type })
+  }
+  return { type: 'unknown' }
+}
+
+function toType(source, indent = '') {
+  const { schema, nullable } = unwrap(source)
+  const withNull = type => (nullable ? `${type} | null` : type)
+
+  if (schema.$ref) return withNull(refName(schema.$ref))
+  if (schema.type === 'array') {
+    const items = toType(schema.items ?? {}, indent)
+    return withNull(/[ |]/.test(items) ? `(${items})[]` : `${items}[]`)
+  }
+  if (schema.type === 'object' || schema.properties) return withNull(toObjectType(schema, indent))
+  if (schema.enum) return withNull(schema.enum.map(literal).join(' | '))
+  if (schema.type === 'string') return withNull(schema.format === 'binary' ? 'Blob' : 'string')
+  if (schema.type === 'number' || schema.type === 'integer') return withNull('number')
+  if (schema.type === 'boolean') return withNull('boolean')
+  return 'unknown'
+}
+
+// A property the document doesn't require may be left out or sent as null
+function toObjectType(schema, indent) {
+  const required = new Set(schema.required ?? [])
+  const lines = Object.entries(schema.properties ?? {}).map(([name, property]) => {
+    const type = toType(property, indent + '  ')
+    return required.has(name)
+      ? `${indent}  ${name}: ${type}`
+      : `${indent}  ${name}?: ${type.endsWith(' | null') ? type : `${type} | null`}`
+  })
+  return lines.length === 0 ? 'Record<string, never>' : `{\n${lines.join('\n')}\n${indent}}`
+}
+
+const jsonContent = content => content?.['application/json'] ?? content?.['text/json']
+
+function toOperation(path, method, operation) {
+  if (!operation.operationId) throw new Error(`${method.toUpperCase()} ${path} has no operationId`)
+
+  const success = Object.entries(operation.responses ?? {}).find(([status]) => /^2\d\d$/.test(status))
+  const responseContent = success?.[1].content
+  const responseSchema = jsonContent(responseContent)?.schema
+  // Answers with a file
+  if (responseContent && !responseSchema) return null
+
+  const requestContent = operation.requestBody?.content
+  const jsonBody = jsonContent(requestContent)?.schema
+  const isMultipart = Boolean(requestContent?.['multipart/form-data'])
+  if (requestContent && !jsonBody && !isMultipart) return null
+
+  const parameters = (operation.parameters ?? []).filter(parameter => ['path', 'query'].includes(parameter.in))
+  return {
+    id: operation.operationId,
+    method: method.toUpperCase(),
+    path,
+    parameters,
+    body: jsonBody ? 'json' : isMultipart ? 'multipart' : null,
+    bodyType: jsonBody ? toType(jsonBody, '    ') : isMultipart ? 'FormData' : null,
+    bodyRequired: operation.requestBody?.required === true,
+    response: responseSchema ? toRuntimeSchema(responseSchema) : null,
+    responseType: responseSchema ? toType(responseSchema, '    ') : 'void',
+  }
+}
+
+function literal(value) {
+  if (Array.isArray(value)) return `[${value.map(literal).join(', ')}]`
+  if (typeof value === 'string') return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`
+  if (value === null || typeof value !== 'object') return String(value)
+
+  const entries = Object.entries(value).map(
+    ([key, entry]) => `${/^[A-Za-z_$][\w$]*$/.test(key) ? key : literal(key)}: ${literal(entry)}`
+  )
+  return entries.length === 0 ? '{}' : `{ ${entries.join(', ')} }`
+}
+
+function render(document) {
+  const schemas = document.components?.schemas ?? {}
+  const names = Object.keys(schemas).sort()
+  const operations = Object.entries(document.paths ?? {})
+    .flatMap(([path, item]) =>
+      HTTP_METHODS.filter(method => item[method]).map(method => toOperation(path, method, item[method]))
+    )
+    .filter(Boolean)
+    .sort((a, b) => a.id.localeCompare(b.id))
+
+  const out = [
+    `// Generated by scripts/generate-api.mjs from ${document.info?.title ?? 'the API'} ${document.info?.version ?? ''}`.trimEnd(),
+    '// Do not edit by hand: run `npm run generate:api` after changing the API.',
+    '',
+    '/** What a response value is checked against at runtime; `$ref` names one of `schemas` */',
+    'export type Schema = { nullable?: boolean } & (',
+    "  | { type: 'string' | 'number' | 'integer' | 'boolean'; enum?: readonly unknown[] }",
+    "  | { type: 'array'; items: Schema }",
+    "  | { type: 'object'; properties: Readonly<Record<string, Schema>>; required: readonly string[] }",
+    '  | { $ref: SchemaName }',
+    "  | { type: 'unknown' }",
+    ')',
+    '',
+  ]
+
+  for (const name of names) {
+    const type = toType(schemas[name])
+    out.push(type.startsWith('{') ? `export interface ${name} ${type}` : `export type ${name} = ${type}`, '')
+  }
+
+  out.push(`export type SchemaName =\n${names.map(name => `  | '${name}'`).join('\n')}`, '')
+  out.push('export const schemas: Readonly<Record<SchemaName, Schema>> = {')
+  for (const name of names) {
+    const { properties, ...schema } = toRuntimeSchema(schemas[name])
+    if (!properties) {
+      out.push(`  ${name}: ${literal(schema)},`)
+      continue
+    }
+    // One line per property keeps the diff of an API change readable
+    out.push(`  ${name}: {`)
+    for (const [key, value] of Object.entries(schema)) out.push(`    ${key}: ${literal(value)},`)
+    out.push('    properties: {')
+    for (const [key, value] of Object.entries(properties)) out.push(`      ${key}: ${literal(value)},`)
+    out.push('    },', '  },')
+  }
+  out.push('}', '')
+
+  out.push('/** Path and query parameters, request body and response of each operation, by operationId */')
+  out.push('export interface Operations {')
+  for (const operation of operations) {
+    const params = operation.parameters.map(
+      parameter => `      ${parameter.name}${parameter.required ? '' : '?'}: ${toType(parameter.schema ?? {}, '      ')}`
+    )
+    out.push(`  ${operation.id}: {`)
+    out.push(params.length ? `    params: {\n${params.join('\n')}\n    }` : '    params: Record<string, never>')
+    if (operation.bodyType) out.push(`    body${operation.bodyRequired ? '' : '?'}: ${operation.bodyType}`)
+    out.push(`    response: ${operation.responseType}`)
+    out.push('  }')
+  }
+  out.push('}', '')
+
+  out.push('export type OperationId = keyof Operations', '')
+  out.push('export interface OperationDescriptor {')
+  out.push("  method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'")
+  out.push('  /** With {name} placeholders for the path parameters */')
+  out.push('  path: string')
+  out.push('  query: readonly string[]')
+  out.push("  body: 'json' | 'multipart' | null")
+  out.push('  /** null when the operation answers without a body */')
+  out.push('  response: Schema | null')
+  out.push('}', '')
+  out.push('export const operations: Readonly<Record<OperationId, OperationDescriptor>> = {')
+  for (const operation of operations) {
+    const query = operation.parameters.filter(parameter => parameter.in === 'query').map(parameter => parameter.name)
+    out.push(`  ${operation.id}: {`)
+    out.push(`    method: '${operation.method}',`)
+    out.push(`    path: ${literal(operation.path)},`)
+    out.push(`    query: ${literal(query)},`)
+    out.push(`    body: ${operation.body ? `'${operation.body}'` : 'null'},`)
+    out.push(`    response: ${operation.response ? literal(operation.response) : 'null'},`)
+    out.push('  },')
+  }
+  out.push('}', '')
+
+  return out.join('\n')
+}
+
+const document = await loadDocument()
+await writeFile(outputPath, render(document))
+console.log(`Wrote ${outputPath}`)
@@ -2,14 +2,41 @@ import { Routes, Route } from 'react-router-dom'
 import Home from './pages/Home'
 import AddRecipe from './pages/AddRecipe'
 import RecipeDetail from './pages/RecipeDetail'
+import TagManagement from './pages/TagManagement'
+import Drafts from './pages/Drafts'
+import ImportRecipe from './pages/ImportRecipe'
+import Backup from './pages/Backup'
+import ShoppingList from './pages/ShoppingList'
+import Planner from './pages/Planner'
+import Sharing from './pages/Sharing'
+import Login from './pages/Login'
+import SyncStatusBanner from './components/SyncStatusBanner'
+import AccountBar from './components/AccountBar'
+import { useSession } from './hooks/useSession'
 
 function App() {
+  const session = useSession()
+
+  // Every page needs someone signed in; the page asked for is shown once they are
+  if (!session) {
+    return <Login />
+  }
+
   return (
-    <div className="min-h-screen bg-gray-50">
+    <div className="min-h-screen bg-gray-50 print:min-h-0 print:bg-white">
+      <SyncStatusBanner />
+      <AccountBar session={session} />
       <Routes>
         <Route path="/" element={<Home />} />
         <Route path="/add-recipe" element={<AddRecipe />} />
         <Route path="/recipes/:id" element={<RecipeDetail />} />
+        <Route path="/tags" element={<TagManagement />} />
+        <Route path="/drafts" element={<Drafts />} />
+        <Route path="/import" element={<ImportRecipe />} />
+        <Route path="/backup" element={<Backup />} />
+        <Route path="/shopping-list" element={<ShoppingList />} />
+        <Route path="/planner" element={<Planner />} />
+        <Route path="/sharing" element={<Sharing />} />
       </Routes>
     </div>
   )
@@ -0,0 +1,63 @@
+import { useEffect, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { refreshCurrentUser, signOut } from '../services/api'
+import type { Session } from '../services/auth'
+import { useSyncStatus } from '../hooks/useSyncStatus'
+
+interface AccountBarProps {
+  session: Session
+}
+
+/**
+ * Who is signed in, with links to their household and sharing, and signing out. Signing out forgets
+ * what is kept on this device, so changes that haven't synced yet are only dropped after asking.
+ */
+export default function AccountBar({ session }: AccountBarProps) {
+  const { pending } = useSyncStatus()
+  const [isSigningOut, setIsSigningOut] = useState(false)
+  const { user } = session
+
+  // Picks up invitations, and a household the user joined or left on another device
+  useEffect(() => {
+    refreshCurrentUser().catch(() => {})
+  }, [user.id])
+
+  const handleSignOut = async () => {
+    if (
+      pending.length > 0 &&
+      !window.confirm(
+        `${pending.length} ${pending.length === 1 ? 'change hasn\'t' : 'changes haven\'t'} synced yet and will be lost. Sign out anyway?`
+      )
+    ) {
+      return
+    }
+
+    setIsSigningOut(true)
+    try {
+      await signOut()
+    } finally {
+      setIsSigningOut(false)
+    }
+  }
+
+  return (
+    <div className="bg-white border-b border-gray-200 text-sm print:hidden">
+      <div className="container mx-auto px-4 py-2 max-w-6xl flex flex-wrap items-center justify-end gap-x-3 gap-y-1">
+        <span className="text-gray-600">
+          Signed in as <span className="font-medium text-gray-900">{user.name}</span>
+          {user.household && <> · {user.household.name}</>}
+        </span>
+        <Link to="/sharing" className="text-blue-600 hover:text-blue-800 font-medium">
+          Household & sharing
+        </Link>
+        <button
+          onClick={handleSignOut}
+          disabled={isSigningOut}
+          className="text-gray-600 hover:text-gray-900 font-medium disabled:text-gray-400"
+        >
+          {isSigningOut ? 'Signing out...' : 'Sign out'}
+        </button>
+      </div>
+    </div>
+  )
+}
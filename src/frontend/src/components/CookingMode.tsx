@@ -0,0 +1,238 @@
+import { useEffect, useRef, useState } from 'react'
+import type { Ingredient } from '../types'
+import { formatQuantity } from '../utils/ingredients'
+import { findDurations, formatCountdown } from '../utils/timers'
+import { useWakeLock } from '../hooks/useWakeLock'
+import { useCountdownTimers } from '../hooks/useCountdownTimers'
+
+// Horizontal distance a touch has to travel to count as a swipe
+const SWIPE_THRESHOLD = 60
+
+interface CookingModeProps {
+  title: string
+  /** Already scaled and converted the way the recipe page shows them */
+  ingredients: Ingredient[]
+  steps: string[]
+  onClose: () => void
+}
+
+/**
+ * Full-screen view showing one step at a time in large type, with timers for the durations in each step.
+ * The ingredient list comes first, so it can be gathered before starting.
+ */
+export default function CookingMode({ title, ingredients, steps, onClose }: CookingModeProps) {
+  const hasIngredientsCard = ingredients.length > 0
+  const cardCount = steps.length + (hasIngredientsCard ? 1 : 0)
+  const [index, setIndex] = useState(0)
+  const [confirmClose, setConfirmClose] = useState(false)
+  const touchStart = useRef<{ x: number; y: number } | null>(null)
+  const isScreenLocked = useWakeLock(true)
+  const { timers, startTimer, togglePause, removeTimer } = useCountdownTimers()
+
+  const stepIndex = index - (hasIngredientsCard ? 1 : 0)
+  const hasRunningTimers = timers.some(timer => timer.remaining > 0)
+
+  const goTo = (next: number) => setIndex(Math.min(cardCount - 1, Math.max(0, next)))
+
+  const requestClose = () => {
+    if (hasRunningTimers) {
+      setConfirmClose(true)
+    } else {
+      onClose()
+    }
+  }
+
+  // Keep the latest handlers for the window listener without re-subscribing on every render
+  const keyHandlerRef = useRef<(e: KeyboardEvent) => void>(() => {})
+  keyHandlerRef.current = (e: KeyboardEvent) => {
+    if (e.key === 'ArrowRight' || e.key === 'PageDown') {
+      e.preventDefault()
+      goTo(index + 1)
+    } else if (e.key === 'ArrowLeft' || e.key === 'PageUp') {
+      e.preventDefault()
+      goTo(index - 1)
+    } else if (e.key === 'Escape') {
+      requestClose()
+    }
+  }
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => keyHandlerRef.current(e)
+    window.addEventListener('keydown', handleKeyDown)
+
+    // The overlay covers the page, so the page behind it should not scroll
+    const previousOverflow = document.body.style.overflow
+    document.body.style.overflow = 'hidden'
+
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown)
+      document.body.style.overflow = previousOverflow
+    }
+  }, [])
+
+  const handleTouchStart = (e: React.TouchEvent) => {
+    touchStart.current = { x: e.touches[0].clientX, y: e.touches[0].clientY }
+  }
+
+  const handleTouchEnd = (e: React.TouchEvent) => {
+    if (!touchStart.current) return
+
+    const dx = e.changedTouches[0].clientX - touchStart.current.x
+    const dy = e.changedTouches[0].clientY - touchStart.current.y
+    touchStart.current = null
+    if (Math.abs(dx) > SWIPE_THRESHOLD && Math.abs(dx) > Math.abs(dy)) {
+      goTo(dx < 0 ? index + 1 : index - 1)
+    }
+  }
+
+  // Durations in the step become buttons that start a timer
+  const renderStep = (text: string, number: number) => {
+    const parts: React.ReactNode[] = []
+    let last = 0
+    for (const duration of findDurations(text)) {
+      parts.push(text.slice(last, duration.start))
+      parts.push(
+        <button
+          key={duration.start}
+          onClick={() => startTimer(`Step ${number}: ${duration.text}`, duration.seconds)}
+          className="inline-flex items-baseline gap-1 mx-1 px-3 py-0.5 bg-amber-400 text-gray-900 rounded-lg hover:bg-amber-300 font-semibold"
+          aria-label={`Start a ${duration.text} timer`}
+        >
+          ⏱ {duration.text}
+        </button>
+      )
+      last = duration.end
+    }
+    parts.push(text.slice(last))
+    return parts
+  }
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label={`Cooking ${title}`}
+      className="fixed inset-0 z-50 flex flex-col bg-gray-900 text-white"
+      onTouchStart={handleTouchStart}
+      onTouchEnd={handleTouchEnd}
+    >
+      <header className="flex items-center justify-between gap-4 px-4 py-3 border-b border-gray-700">
+        <div className="min-w-0">
+          <h2 className="text-lg font-semibold truncate">{title}</h2>
+          <p className="text-xs text-gray-400">
+            {isScreenLocked ? 'Screen stays on while cooking' : 'Screen may turn off; keep-awake is not available'}
+          </p>
+        </div>
+        <button
+          onClick={requestClose}
+          className="shrink-0 px-4 py-2 bg-gray-700 rounded-lg hover:bg-gray-600 font-medium"
+        >
+          Exit
+        </button>
+      </header>
+
+      {confirmClose && (
+        <div className="flex flex-col sm:flex-row sm:items-center gap-3 px-4 py-3 bg-red-900">
+          <p className="flex-1">Timers are still running and will stop if you leave cooking mode.</p>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="px-4 py-2 bg-red-600 rounded-lg hover:bg-red-500 font-medium">
+              Leave anyway
+            </button>
+            <button
+              onClick={() => setConfirmClose(false)}
+              className="px-4 py-2 bg-gray-700 rounded-lg hover:bg-gray-600 font-medium"
+            >
+              Keep cooking
+            </button>
+          </div>
+        </div>
+      )}
+
+      <main className="flex-1 overflow-y-auto px-6 py-8 md:px-16">
+        {hasIngredientsCard && index === 0 ? (
+          <div>
+            <p className="text-sm uppercase tracking-wide text-gray-400 mb-4">Ingredients</p>
+            <ul className="space-y-3 text-2xl md:text-3xl">
+              {ingredients.map((ingredient, i) => (
+                <li key={i}>
+                  {ingredient.name ? (
+                    <>
+                      <span className="font-semibold text-amber-300">{formatQuantity(ingredient)}</span>{' '}
+                      {ingredient.name}
+                    </>
+                  ) : (
+                    ingredient.freeText
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        ) : steps.length > 0 ? (
+          <div>
+            <p className="text-sm uppercase tracking-wide text-gray-400 mb-4">
+              Step {stepIndex + 1} of {steps.length}
+            </p>
+            <p className="text-3xl md:text-5xl leading-snug">{renderStep(steps[stepIndex], stepIndex + 1)}</p>
+          </div>
+        ) : (
+          <p className="text-2xl text-gray-300">This recipe has no steps yet. Add them under Edit.</p>
+        )}
+      </main>
+
+      {timers.length > 0 && (
+        <ul className="flex flex-wrap gap-2 px-4 py-3 border-t border-gray-700" aria-label="Timers">
+          {timers.map(timer => {
+            const isDone = timer.remaining <= 0
+            return (
+              <li
+                key={timer.id}
+                className={`flex items-center gap-3 px-3 py-2 rounded-lg ${
+                  isDone ? 'bg-red-600 animate-pulse' : 'bg-gray-800'
+                }`}
+              >
+                <div>
+                  <p className="text-xs text-gray-300">{timer.label}</p>
+                  <p className="text-2xl font-semibold tabular-nums" aria-live={isDone ? 'assertive' : 'off'}>
+                    {isDone ? "Time's up" : formatCountdown(timer.remaining)}
+                  </p>
+                </div>
+                {!isDone && (
+                  <button
+                    onClick={() => togglePause(timer.id)}
+                    className="px-2 py-1 bg-gray-700 rounded hover:bg-gray-600 text-sm"
+                  >
+                    {timer.endsAt === null ? 'Resume' : 'Pause'}
+                  </button>
+                )}
+                <button
+                  onClick={() => removeTimer(timer.id)}
+                  className="px-2 py-1 bg-gray-700 rounded hover:bg-gray-600 text-sm"
+                  aria-label={isDone ? `Dismiss ${timer.label}` : `Cancel ${timer.label}`}
+                >
+                  {isDone ? 'Dismiss' : '×'}
+                </button>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+
+      <nav className="grid grid-cols-2 gap-3 px-4 py-4 border-t border-gray-700">
+        <button
+          onClick={() => goTo(index - 1)}
+          disabled={index === 0}
+          className="py-4 bg-gray-700 rounded-lg hover:bg-gray-600 disabled:opacity-40 text-xl font-medium"
+        >
+          ← Previous
+        </button>
+        <button
+          onClick={() => goTo(index + 1)}
+          disabled={index >= cardCount - 1}
+          className="py-4 bg-blue-600 rounded-lg hover:bg-blue-500 disabled:opacity-40 text-xl font-medium"
+        >
+          Next →
+        </button>
+      </nav>
+    </div>
+  )
+}
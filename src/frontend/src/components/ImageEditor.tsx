@@ -0,0 +1,266 @@
+import { useState, useEffect, useRef } from 'react'
+import {
+  FULL_FRAME,
+  adjustmentsToCssFilter,
+  renderRotated,
+  type ImageAdjustments,
+  type Quad,
+} from '../utils/imageProcessing'
+
+// The on-screen preview only needs to be about as large as it is displayed
+const PREVIEW_MAX_DIMENSION = 1000
+const CORNER_LABELS = ['top-left', 'top-right', 'bottom-right', 'bottom-left']
+
+interface ImageEditorProps {
+  file: File
+  initialAdjustments: ImageAdjustments
+  isApplying: boolean
+  onApply: (adjustments: ImageAdjustments) => void
+  onCancel: () => void
+}
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value))
+
+export default function ImageEditor({ file, initialAdjustments, isApplying, onApply, onCancel }: ImageEditorProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const frameRef = useRef<HTMLDivElement>(null)
+  const [bitmap, setBitmap] = useState<ImageBitmap | null>(null)
+  const [loadError, setLoadError] = useState(false)
+  const [adjustments, setAdjustments] = useState(initialAdjustments)
+  const [draggedCorner, setDraggedCorner] = useState<number | null>(null)
+
+  useEffect(() => {
+    let loaded: ImageBitmap | null = null
+    let cancelled = false
+
+    createImageBitmap(file)
+      .then(result => {
+        if (cancelled) {
+          result.close()
+          return
+        }
+        loaded = result
+        setBitmap(result)
+      })
+      .catch(() => {
+        if (!cancelled) setLoadError(true)
+      })
+
+    return () => {
+      cancelled = true
+      loaded?.close()
+    }
+  }, [file])
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!bitmap || !canvas) return
+
+    const rotated = renderRotated(bitmap, adjustments.quarterTurns, adjustments.straighten, PREVIEW_MAX_DIMENSION)
+    canvas.width = rotated.width
+    canvas.height = rotated.height
+    canvas.getContext('2d')?.drawImage(rotated, 0, 0)
+  }, [bitmap, adjustments.quarterTurns, adjustments.straighten])
+
+  const update = (changes: Partial<ImageAdjustments>) => {
+    setAdjustments(current => ({ ...current, ...changes }))
+  }
+
+  // The corners are placed on the rotated image, so a quarter turn invalidates them
+  const rotate = (turns: number) => {
+    update({ quarterTurns: (adjustments.quarterTurns + turns + 4) % 4, corners: FULL_FRAME })
+  }
+
+  const moveCorner = (index: number, clientX: number, clientY: number) => {
+    const frame = frameRef.current
+    if (!frame) return
+
+    const rect = frame.getBoundingClientRect()
+    const corners = [...adjustments.corners] as Quad
+    corners[index] = {
+      x: clamp01((clientX - rect.left) / rect.width),
+      y: clamp01((clientY - rect.top) / rect.height),
+    }
+    update({ corners })
+  }
+
+  const handleCornerPointerDown = (index: number, e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId)
+    setDraggedCorner(index)
+  }
+
+  const handleCornerPointerMove = (index: number, e: React.PointerEvent<HTMLDivElement>) => {
+    if (draggedCorner !== index) return
+    moveCorner(index, e.clientX, e.clientY)
+  }
+
+  const handleCornerPointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+      e.currentTarget.releasePointerCapture(e.pointerId)
+    }
+    setDraggedCorner(null)
+  }
+
+  if (loadError) {
+    return (
+      <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+        <p className="text-red-800 font-medium">This image could not be opened for editing.</p>
+        <button onClick={onCancel} className="mt-2 text-sm text-blue-600 hover:text-blue-800">
+          Back to pages
+        </button>
+      </div>
+    )
+  }
+
+  const polygonPoints = adjustments.corners.map(corner => `${corner.x * 100},${corner.y * 100}`).join(' ')
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Drag the corners onto the edges of the page to crop it and straighten its perspective.
+      </p>
+
+      <div className="flex justify-center bg-gray-800 rounded-lg p-4">
+        {!bitmap && <p className="text-gray-300 text-sm py-24">Loading image...</p>}
+        <div ref={frameRef} className={`relative touch-none select-none ${bitmap ? '' : 'hidden'}`}>
+          <canvas
+            ref={canvasRef}
+            className="block max-w-full max-h-[60vh]"
+            style={{ filter: adjustmentsToCssFilter(adjustments) }}
+          />
+          <svg
+            className="absolute inset-0 w-full h-full pointer-events-none"
+            viewBox="0 0 100 100"
+            preserveAspectRatio="none"
+            aria-hidden="true"
+          >
+            <polygon
+              points={polygonPoints}
+              fill="rgba(59, 130, 246, 0.12)"
+              stroke="#3b82f6"
+              strokeWidth={2}
+              vectorEffect="non-scaling-stroke"
+            />
+          </svg>
+          {adjustments.corners.map((corner, index) => (
+            <div
+              key={CORNER_LABELS[index]}
+              role="slider"
+              aria-label={`Move ${CORNER_LABELS[index]} corner`}
+              aria-valuetext={`${Math.round(corner.x * 100)}%, ${Math.round(corner.y * 100)}%`}
+              onPointerDown={(e) => handleCornerPointerDown(index, e)}
+              onPointerMove={(e) => handleCornerPointerMove(index, e)}
+              onPointerUp={handleCornerPointerUp}
+              onPointerCancel={handleCornerPointerUp}
+              className="absolute w-6 h-6 -ml-3 -mt-3 rounded-full bg-white border-2 border-blue-600 shadow cursor-move"
+              style={{ left: `${corner.x * 100}%`, top: `${corner.y * 100}%` }}
+            />
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <p className="block text-sm font-medium text-gray-700 mb-2">Rotate</p>
+          <div className="flex gap-2">
+            <button
+              onClick={() => rotate(-1)}
+              className="px-3 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 text-sm font-medium"
+              aria-label="Rotate left"
+            >
+              ⟲ Left
+            </button>
+            <button
+              onClick={() => rotate(1)}
+              className="px-3 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 text-sm font-medium"
+              aria-label="Rotate right"
+            >
+              ⟳ Right
+            </button>
+            <button
+              onClick={() => update({ corners: FULL_FRAME })}
+              className="px-3 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 text-sm font-medium"
+            >
+              Reset corners
+            </button>
+          </div>
+        </div>
+
+        <div>
+          <label htmlFor="straighten" className="block text-sm font-medium text-gray-700 mb-2">
+            Straighten ({adjustments.straighten > 0 ? '+' : ''}{adjustments.straighten}°)
+          </label>
+          <input
+            id="straighten"
+            type="range"
+            min={-15}
+            max={15}
+            step={0.5}
+            value={adjustments.straighten}
+            onChange={(e) => update({ straighten: Number(e.target.value) })}
+            className="w-full"
+          />
+        </div>
+
+        <div>
+          <label htmlFor="brightness" className="block text-sm font-medium text-gray-700 mb-2">
+            Brightness ({Math.round(adjustments.brightness * 100)}%)
+          </label>
+          <input
+            id="brightness"
+            type="range"
+            min={0.5}
+            max={2}
+            step={0.05}
+            value={adjustments.brightness}
+            onChange={(e) => update({ brightness: Number(e.target.value) })}
+            className="w-full"
+          />
+        </div>
+
+        <div>
+          <label htmlFor="contrast" className="block text-sm font-medium text-gray-700 mb-2">
+            Contrast ({Math.round(adjustments.contrast * 100)}%)
+          </label>
+          <input
+            id="contrast"
+            type="range"
+            min={0.5}
+            max={3}
+            step={0.05}
+            value={adjustments.contrast}
+            onChange={(e) => update({ contrast: Number(e.target.value) })}
+            className="w-full"
+          />
+        </div>
+
+        <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+          <input
+            type="checkbox"
+            checked={adjustments.grayscale}
+            onChange={(e) => update({ grayscale: e.target.checked })}
+            className="h-4 w-4 rounded border-gray-300"
+          />
+          Black and white (often helps text recognition)
+        </label>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-3">
+        <button
+          onClick={() => onApply(adjustments)}
+          disabled={!bitmap || isApplying}
+          className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed font-medium transition-colors"
+        >
+          {isApplying ? 'Applying...' : 'Apply'}
+        </button>
+        <button
+          onClick={onCancel}
+          disabled={isApplying}
+          className="bg-gray-200 text-gray-700 px-6 py-2 rounded-lg hover:bg-gray-300 disabled:opacity-50 font-medium transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,134 @@
+import { useState, useEffect, useRef } from 'react'
+
+const MIN_SCALE = 1
+const MAX_SCALE = 5
+const ZOOM_STEP = 0.5
+
+interface ImageViewerProps {
+  src: string
+  alt: string
+}
+
+const clampScale = (value: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, value))
+
+export default function ImageViewer({ src, alt }: ImageViewerProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const dragStart = useRef<{ x: number; y: number; offsetX: number; offsetY: number } | null>(null)
+  const [scale, setScale] = useState(MIN_SCALE)
+  const [offset, setOffset] = useState({ x: 0, y: 0 })
+  const [hasError, setHasError] = useState(false)
+
+  const zoomTo = (nextScale: number) => {
+    const clamped = clampScale(nextScale)
+    setScale(clamped)
+    if (clamped === MIN_SCALE) {
+      setOffset({ x: 0, y: 0 })
+    }
+  }
+
+  // React registers wheel listeners as passive, so preventDefault only works on a native listener
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault()
+      setScale(current => {
+        const next = clampScale(current + (e.deltaY < 0 ? ZOOM_STEP : -ZOOM_STEP))
+        if (next === MIN_SCALE) {
+          setOffset({ x: 0, y: 0 })
+        }
+        return next
+      })
+    }
+
+    container.addEventListener('wheel', handleWheel, { passive: false })
+    return () => container.removeEventListener('wheel', handleWheel)
+  }, [hasError])
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (scale === MIN_SCALE) return
+
+    e.currentTarget.setPointerCapture(e.pointerId)
+    dragStart.current = { x: e.clientX, y: e.clientY, offsetX: offset.x, offsetY: offset.y }
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragStart.current) return
+
+    setOffset({
+      x: dragStart.current.offsetX + (e.clientX - dragStart.current.x) / scale,
+      y: dragStart.current.offsetY + (e.clientY - dragStart.current.y) / scale,
+    })
+  }
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+      e.currentTarget.releasePointerCapture(e.pointerId)
+    }
+    dragStart.current = null
+  }
+
+  if (hasError) {
+    return (
+      <div className="flex items-center justify-center h-64 bg-gray-100 rounded-lg text-sm text-gray-500">
+        The photo could not be loaded
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      <div
+        ref={containerRef}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onDoubleClick={() => zoomTo(scale === MIN_SCALE ? 2 : MIN_SCALE)}
+        className={`relative overflow-hidden bg-gray-100 rounded-lg h-96 touch-none select-none ${
+          scale > MIN_SCALE ? 'cursor-grab active:cursor-grabbing' : 'cursor-zoom-in'
+        }`}
+      >
+        <img
+          src={src}
+          alt={alt}
+          draggable={false}
+          onError={() => setHasError(true)}
+          className="w-full h-full object-contain transition-transform duration-75"
+          style={{ transform: `scale(${scale}) translate(${offset.x}px, ${offset.y}px)` }}
+        />
+      </div>
+
+      <div className="flex items-center justify-center gap-2 mt-3">
+        <button
+          onClick={() => zoomTo(scale - ZOOM_STEP)}
+          disabled={scale === MIN_SCALE}
+          className="w-9 h-9 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50 font-medium"
+          aria-label="Zoom out"
+        >
+          −
+        </button>
+        <span className="w-14 text-center text-sm text-gray-600">{Math.round(scale * 100)}%</span>
+        <button
+          onClick={() => zoomTo(scale + ZOOM_STEP)}
+          disabled={scale === MAX_SCALE}
+          className="w-9 h-9 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50 font-medium"
+          aria-label="Zoom in"
+        >
+          +
+        </button>
+        <button
+          onClick={() => zoomTo(MIN_SCALE)}
+          disabled={scale === MIN_SCALE}
+          className="px-3 h-9 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50 text-sm font-medium"
+        >
+          Reset
+        </button>
+      </div>
+      <p className="text-xs text-gray-500 text-center mt-1">
+        Scroll or use the buttons to zoom, drag to pan
+      </p>
+    </div>
+  )
+}
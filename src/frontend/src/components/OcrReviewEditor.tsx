@@ -0,0 +1,92 @@
+import { useRef, useState } from 'react'
+import type { OcrWord } from '../types'
+import { findLowConfidenceWords } from '../utils/ocrConfidence'
+import OcrWordCrop from './OcrWordCrop'
+
+interface OcrReviewPage {
+  previewUrl: string
+  words: OcrWord[]
+}
+
+interface OcrReviewEditorProps {
+  id: string
+  value: string
+  onChange: (value: string) => void
+  /** The photographed pages in the order their text appears in value */
+  pages: OcrReviewPage[]
+  rows?: number
+  placeholder?: string
+}
+
+// Shared by the textarea and the highlight layer behind it so their text lines up exactly
+const TEXT_LAYOUT = 'px-4 py-2 border font-mono text-sm whitespace-pre-wrap break-words'
+
+/**
+ * Textarea for correcting OCR output. Words the OCR engine was unsure of are highlighted, and placing the cursor
+ * in one shows where it was read from in the photo.
+ */
+export default function OcrReviewEditor({ id, value, onChange, pages, rows = 12, placeholder }: OcrReviewEditorProps) {
+  const backdropRef = useRef<HTMLDivElement>(null)
+  const [cursor, setCursor] = useState<number | null>(null)
+
+  const flagged = findLowConfidenceWords(value, pages.map(page => page.words))
+  const active = cursor === null ? undefined : flagged.find(f => cursor >= f.start && cursor <= f.end)
+
+  const highlighted: React.ReactNode[] = []
+  let last = 0
+  for (const f of flagged) {
+    highlighted.push(value.slice(last, f.start))
+    highlighted.push(
+      <mark key={f.start} className={`text-transparent rounded-sm ${f === active ? 'bg-orange-300' : 'bg-yellow-200'}`}>
+        {value.slice(f.start, f.end)}
+      </mark>
+    )
+    last = f.end
+  }
+  // A trailing newline keeps the layer as tall as the textarea when the text ends in an empty line
+  highlighted.push(value.slice(last) + '\n')
+
+  return (
+    <div>
+      <div className="relative bg-white rounded-lg">
+        <div
+          ref={backdropRef}
+          aria-hidden="true"
+          className={`absolute inset-0 overflow-hidden border-transparent rounded-lg text-transparent pointer-events-none ${TEXT_LAYOUT}`}
+        >
+          {highlighted}
+        </div>
+        <textarea
+          id={id}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onSelect={(e) => setCursor(e.currentTarget.selectionStart)}
+          onScroll={(e) => {
+            if (backdropRef.current) backdropRef.current.scrollTop = e.currentTarget.scrollTop
+          }}
+          rows={rows}
+          placeholder={placeholder}
+          className={`relative block w-full bg-transparent border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${TEXT_LAYOUT}`}
+        />
+      </div>
+
+      {flagged.length > 0 && (
+        <p className="text-xs text-gray-500 mt-1">
+          {flagged.length === 1 ? '1 highlighted word' : `${flagged.length} highlighted words`} may have been misread.
+          Click one to compare it with the photo
+        </p>
+      )}
+
+      {active && pages[active.pageIndex] && (
+        <div className="mt-2 p-3 bg-yellow-50 border border-yellow-200 rounded-lg space-y-2">
+          <p className="text-sm text-gray-700">
+            Read as <span className="font-mono font-medium">{active.word.text}</span> with{' '}
+            {Math.round(active.word.confidence * 100)}% confidence
+            {pages.length > 1 && ` on page ${active.pageIndex + 1}`}
+          </p>
+          <OcrWordCrop imageUrl={pages[active.pageIndex].previewUrl} word={active.word} />
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,69 @@
+import { useEffect, useRef, useState } from 'react'
+import type { OcrWord } from '../types'
+
+// Crops are enlarged so a few letters are readable, but never wider than this
+const MAX_CROP_WIDTH = 600
+const MAX_ZOOM = 4
+
+interface OcrWordCropProps {
+  imageUrl: string
+  word: OcrWord
+}
+
+/** Shows the part of the photo a word was read from, with the word outlined and some surrounding context */
+export default function OcrWordCrop({ imageUrl, word }: OcrWordCropProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [loadError, setLoadError] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    const image = new Image()
+
+    image.onload = () => {
+      const canvas = canvasRef.current
+      const context = canvas?.getContext('2d')
+      if (cancelled || !canvas || !context) return
+
+      const wordX = word.x * image.naturalWidth
+      const wordY = word.y * image.naturalHeight
+      const wordWidth = word.width * image.naturalWidth
+      const wordHeight = word.height * image.naturalHeight
+      // Include about a line of context around the word
+      const padding = Math.max(wordHeight, 8)
+      const left = Math.max(0, wordX - padding * 3)
+      const top = Math.max(0, wordY - padding)
+      const right = Math.min(image.naturalWidth, wordX + wordWidth + padding * 3)
+      const bottom = Math.min(image.naturalHeight, wordY + wordHeight + padding)
+      const zoom = Math.min(MAX_ZOOM, MAX_CROP_WIDTH / Math.max(1, right - left))
+
+      canvas.width = Math.max(1, Math.round((right - left) * zoom))
+      canvas.height = Math.max(1, Math.round((bottom - top) * zoom))
+      context.drawImage(image, left, top, right - left, bottom - top, 0, 0, canvas.width, canvas.height)
+      context.strokeStyle = '#f97316'
+      context.lineWidth = 2
+      context.strokeRect((wordX - left) * zoom, (wordY - top) * zoom, wordWidth * zoom, wordHeight * zoom)
+      setLoadError(false)
+    }
+    image.onerror = () => {
+      if (!cancelled) setLoadError(true)
+    }
+    image.src = imageUrl
+
+    return () => {
+      cancelled = true
+    }
+  }, [imageUrl, word])
+
+  if (loadError) {
+    return <p className="text-sm text-red-700">The photo could not be loaded.</p>
+  }
+
+  return (
+    <canvas
+      ref={canvasRef}
+      role="img"
+      aria-label={`Photo of the text read as "${word.text}"`}
+      className="max-w-full h-auto rounded border border-gray-300 bg-white"
+    />
+  )
+}
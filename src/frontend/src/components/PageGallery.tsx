@@ -0,0 +1,58 @@
+import { useState } from 'react'
+import { getImageUrl } from '../services/api'
+import ImageViewer from './ImageViewer'
+
+interface PageGalleryProps {
+  imageRefs: string[]
+  title: string
+}
+
+export default function PageGallery({ imageRefs, title }: PageGalleryProps) {
+  const [selectedIndex, setSelectedIndex] = useState(0)
+  // The recipe can be edited down to fewer pages while a later one is selected
+  const currentIndex = Math.min(selectedIndex, imageRefs.length - 1)
+  const currentRef = imageRefs[currentIndex]
+
+  return (
+    <div>
+      <ImageViewer
+        key={currentRef}
+        src={getImageUrl(currentRef)}
+        alt={imageRefs.length > 1
+          ? `Page ${currentIndex + 1} of ${imageRefs.length} of ${title}`
+          : `Original photo of ${title}`}
+      />
+
+      {imageRefs.length > 1 && (
+        <div className="mt-4">
+          <p className="text-sm text-gray-600 mb-2">
+            Page {currentIndex + 1} of {imageRefs.length}
+          </p>
+          <div className="flex gap-2 overflow-x-auto pb-1">
+            {imageRefs.map((imageRef, index) => (
+              <button
+                key={imageRef}
+                onClick={() => setSelectedIndex(index)}
+                aria-label={`Show page ${index + 1}`}
+                aria-current={index === currentIndex}
+                className={`relative shrink-0 w-16 h-20 rounded-md overflow-hidden bg-gray-100 border-2 transition-colors ${
+                  index === currentIndex ? 'border-blue-600' : 'border-transparent hover:border-gray-300'
+                }`}
+              >
+                <img
+                  src={getImageUrl(imageRef)}
+                  alt=""
+                  loading="lazy"
+                  className="w-full h-full object-cover"
+                />
+                <span className="absolute bottom-0 right-0 px-1 bg-black/60 text-white text-xs rounded-tl">
+                  {index + 1}
+                </span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
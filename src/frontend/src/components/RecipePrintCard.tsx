@@ -0,0 +1,98 @@
+import { getImageUrl } from '../services/api'
+import {
+  PRINT_LAYOUTS,
+  describeRecipeCard,
+  describeSource,
+  type PrintLayout,
+  type RecipeCard,
+} from '../utils/recipeExport'
+
+interface RecipePrintCardProps {
+  card: RecipeCard
+  layout: PrintLayout
+  /** First photo of the recipe, left out when not set */
+  imageRef?: string
+}
+
+const STYLES: Record<PrintLayout, Record<'title' | 'meta' | 'heading' | 'body' | 'columns' | 'photo', string>> = {
+  a4: {
+    title: 'text-3xl',
+    meta: 'text-sm',
+    heading: 'text-lg mb-2',
+    body: 'text-sm leading-relaxed',
+    columns: 'grid-cols-[2fr_3fr] gap-8',
+    photo: 'max-h-[70mm] max-w-[35%]',
+  },
+  card: {
+    title: 'text-[13pt] leading-tight',
+    meta: 'text-[7pt]',
+    heading: 'text-[9pt] mb-1',
+    body: 'text-[8pt] leading-snug',
+    columns: 'grid-cols-[2fr_3fr] gap-3',
+    photo: 'max-h-[25mm] max-w-[35%]',
+  },
+}
+
+/**
+ * The recipe as it is printed: hidden on screen and the only thing on the page when printing.
+ * Sets the paper size for the chosen layout.
+ */
+export default function RecipePrintCard({ card, layout, imageRef }: RecipePrintCardProps) {
+  const paper = PRINT_LAYOUTS[layout]
+  const styles = STYLES[layout]
+  const meta = describeRecipeCard(card)
+  const footer = [describeSource(card), card.tags.join(', ')].filter(Boolean).join(' · ')
+
+  return (
+    <article className="hidden print:block text-black bg-white">
+      <style>{`@page { size: ${paper.width}mm ${paper.height}mm; margin: ${paper.margin}mm; }`}</style>
+
+      <header className="flex items-start justify-between gap-4 mb-3 break-inside-avoid">
+        <div>
+          <h1 className={`${styles.title} font-bold`}>{card.title}</h1>
+          {meta.length > 0 && <p className={`${styles.meta} text-gray-600 mt-1`}>{meta.join(' · ')}</p>}
+        </div>
+        {imageRef && <img src={getImageUrl(imageRef)} alt="" className={`${styles.photo} object-contain`} />}
+      </header>
+
+      <div className={`grid ${card.ingredients.length > 0 ? styles.columns : 'grid-cols-1'}`}>
+        {card.ingredients.length > 0 && (
+          <section>
+            <h2 className={`${styles.heading} font-semibold`}>Ingredients</h2>
+            <ul className={`${styles.body} space-y-0.5`}>
+              {card.ingredients.map((line, index) => (
+                <li key={index} className="flex gap-1.5 break-inside-avoid">
+                  <span>•</span>
+                  <span>{line}</span>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        <section>
+          {card.steps.length > 0 ? (
+            <>
+              <h2 className={`${styles.heading} font-semibold`}>Method</h2>
+              <ol className={`${styles.body} space-y-1.5`}>
+                {card.steps.map((step, index) => (
+                  <li key={index} className="flex gap-1.5 break-inside-avoid">
+                    <span className="font-semibold">{index + 1}.</span>
+                    <span>{step}</span>
+                  </li>
+                ))}
+              </ol>
+            </>
+          ) : (
+            <>
+              <h2 className={`${styles.heading} font-semibold`}>Recipe</h2>
+              <p className={`${styles.body} whitespace-pre-wrap`}>{card.text}</p>
+            </>
+          )}
+        </section>
+      </div>
+
+      {footer && <p className={`${styles.meta} text-gray-500 mt-3`}>{footer}</p>}
+    </article>
+  )
+}
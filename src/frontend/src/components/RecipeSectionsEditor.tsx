@@ -0,0 +1,160 @@
+import type { RecipeSectionsDraft } from '../utils/recipeSections'
+
+interface RecipeSectionsEditorProps {
+  /** Prefix for input ids, so two editors never share an id */
+  idPrefix: string
+  value: RecipeSectionsDraft
+  onChange: (value: RecipeSectionsDraft) => void
+  /** Shown as a button that refills every section from the recipe text */
+  onSplitFromText?: () => void
+  disabled?: boolean
+}
+
+const INPUT_CLASS =
+  'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+
+export default function RecipeSectionsEditor({
+  idPrefix,
+  value,
+  onChange,
+  onSplitFromText,
+  disabled,
+}: RecipeSectionsEditorProps) {
+  const update = (changes: Partial<RecipeSectionsDraft>) => {
+    onChange({ ...value, ...changes })
+  }
+
+  return (
+    <fieldset className="space-y-4" disabled={disabled} aria-labelledby={`${idPrefix}-sections-heading`}>
+      <div className="flex items-center justify-between gap-3">
+        <h3 id={`${idPrefix}-sections-heading`} className="text-lg font-semibold text-gray-900">
+          Sections
+        </h3>
+        {onSplitFromText && (
+          <button
+            type="button"
+            onClick={onSplitFromText}
+            className="text-sm text-blue-600 hover:text-blue-800"
+          >
+            Split again from recipe text
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor={`${idPrefix}-ingredients`} className="block text-sm font-medium text-gray-700 mb-2">
+            Ingredients (one per line)
+          </label>
+          <textarea
+            id={`${idPrefix}-ingredients`}
+            value={value.ingredients}
+            onChange={(e) => update({ ingredients: e.target.value })}
+            rows={10}
+            placeholder={'3 dl mjölk\n2 eggs'}
+            className={`${INPUT_CLASS} font-mono text-sm`}
+          />
+        </div>
+
+        <div>
+          <label htmlFor={`${idPrefix}-steps`} className="block text-sm font-medium text-gray-700 mb-2">
+            Steps (one per line)
+          </label>
+          <textarea
+            id={`${idPrefix}-steps`}
+            value={value.steps}
+            onChange={(e) => update({ steps: e.target.value })}
+            rows={10}
+            placeholder={'Whisk the flour and milk.\nFry in butter.'}
+            className={`${INPUT_CLASS} text-sm`}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div>
+          <label htmlFor={`${idPrefix}-servings`} className="block text-sm font-medium text-gray-700 mb-2">
+            Servings
+          </label>
+          <input
+            id={`${idPrefix}-servings`}
+            type="number"
+            min={1}
+            max={100}
+            value={value.servings}
+            onChange={(e) => update({ servings: e.target.value })}
+            placeholder="e.g., 4"
+            className={INPUT_CLASS}
+          />
+        </div>
+        <div>
+          <label htmlFor={`${idPrefix}-prep-time`} className="block text-sm font-medium text-gray-700 mb-2">
+            Prep time (min)
+          </label>
+          <input
+            id={`${idPrefix}-prep-time`}
+            type="number"
+            min={1}
+            value={value.prepTime}
+            onChange={(e) => update({ prepTime: e.target.value })}
+            className={INPUT_CLASS}
+          />
+        </div>
+        <div>
+          <label htmlFor={`${idPrefix}-cook-time`} className="block text-sm font-medium text-gray-700 mb-2">
+            Cook time (min)
+          </label>
+          <input
+            id={`${idPrefix}-cook-time`}
+            type="number"
+            min={1}
+            value={value.cookTime}
+            onChange={(e) => update({ cookTime: e.target.value })}
+            className={INPUT_CLASS}
+          />
+        </div>
+        <div>
+          <label htmlFor={`${idPrefix}-yield`} className="block text-sm font-medium text-gray-700 mb-2">
+            Yield
+          </label>
+          <input
+            id={`${idPrefix}-yield`}
+            type="text"
+            value={value.yield}
+            onChange={(e) => update({ yield: e.target.value })}
+            placeholder="e.g., 24 cookies"
+            className={INPUT_CLASS}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-[1fr_8rem] gap-4">
+        <div>
+          <label htmlFor={`${idPrefix}-source-book`} className="block text-sm font-medium text-gray-700 mb-2">
+            Source book
+          </label>
+          <input
+            id={`${idPrefix}-source-book`}
+            type="text"
+            value={value.sourceBook}
+            onChange={(e) => update({ sourceBook: e.target.value })}
+            placeholder="e.g., Grandma's cookbook"
+            className={INPUT_CLASS}
+          />
+        </div>
+        <div>
+          <label htmlFor={`${idPrefix}-source-page`} className="block text-sm font-medium text-gray-700 mb-2">
+            Page
+          </label>
+          <input
+            id={`${idPrefix}-source-page`}
+            type="text"
+            value={value.sourcePage}
+            onChange={(e) => update({ sourcePage: e.target.value })}
+            className={INPUT_CLASS}
+          />
+        </div>
+      </div>
+    </fieldset>
+  )
+}
@@ -0,0 +1,120 @@
+import { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { deleteShare, describeError, shareRecipes, type ErrorState } from '../services/api'
+import { invalidateQueries } from '../services/queryCache'
+import { queryKeys, sharesQuery } from '../services/queries'
+import { useQuery } from '../hooks/useQuery'
+import type { SharePermission } from '../types'
+
+interface RecipeSharePanelProps {
+  recipeId: string
+}
+
+/**
+ * Who a recipe is shared with, for its owners to share it with someone else or stop sharing it.
+ * Sharing the whole collection happens on the sharing page.
+ */
+export default function RecipeSharePanel({ recipeId }: RecipeSharePanelProps) {
+  const { data: shares, error: loadError } = useQuery(sharesQuery, {
+    errorMessage: 'Failed to load who this recipe is shared with.',
+  })
+  const [userId, setUserId] = useState('')
+  const [permission, setPermission] = useState<SharePermission>('read')
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<ErrorState | null>(null)
+  const recipeShares = shares?.given.filter(share => share.recipeId === recipeId) ?? []
+  const shownError = error ?? loadError
+
+  const run = async (action: () => Promise<unknown>, fallback: string) => {
+    setBusy(true)
+    setError(null)
+    try {
+      await action()
+      invalidateQueries(queryKeys.shares)
+      return true
+    } catch (err) {
+      setError(describeError(err, fallback))
+      return false
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleShare = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const granteeId = userId.trim().toLowerCase()
+    if (!granteeId || busy) return
+
+    const shared = await run(
+      () => shareRecipes({ recipeId, userId: granteeId, permission }),
+      'Failed to share the recipe. Please try again.'
+    )
+    if (shared) setUserId('')
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mb-6 print:hidden">
+      <h2 className="text-xl font-semibold mb-2 text-gray-900">Share</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Let someone who has signed in view or edit this recipe. To share every recipe at once, go to{' '}
+        <Link to="/sharing" className="text-blue-600 hover:text-blue-800 font-medium">
+          Household & sharing
+        </Link>
+        .
+      </p>
+
+      <form onSubmit={handleShare} className="flex flex-col sm:flex-row gap-2 mb-4">
+        <input
+          type="text"
+          value={userId}
+          onChange={(e) => setUserId(e.target.value)}
+          aria-label="User name to share with"
+          placeholder="User name, e.g., anna"
+          disabled={busy}
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+        />
+        <select
+          value={permission}
+          onChange={(e) => setPermission(e.target.value as SharePermission)}
+          aria-label="Permission"
+          disabled={busy}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm bg-white"
+        >
+          <option value="read">Can view</option>
+          <option value="edit">Can edit</option>
+        </select>
+        <button
+          type="submit"
+          disabled={busy || !userId.trim()}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium transition-colors"
+        >
+          Share
+        </button>
+      </form>
+
+      {shownError && <p className="mb-3 text-sm text-red-700">{shownError.message}</p>}
+
+      {recipeShares.length === 0 ? (
+        <p className="text-sm text-gray-500">Not shared with anyone on its own.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {recipeShares.map(share => (
+            <li key={share.id} className="py-2 flex items-center justify-between gap-4 text-sm">
+              <span className="text-gray-900">
+                {share.grantee.name}
+                <span className="ml-2 text-gray-500">{share.permission === 'edit' ? 'Can edit' : 'Can view'}</span>
+              </span>
+              <button
+                onClick={() => run(() => deleteShare(share.id), 'Failed to stop sharing. Please try again.')}
+                disabled={busy}
+                className="text-red-600 hover:text-red-800 disabled:text-gray-400"
+              >
+                Stop sharing
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,29 @@
+import { useState } from 'react'
+import { getImageUrl } from '../services/api'
+
+interface RecipeThumbnailProps {
+  imageRef: string
+  title: string
+}
+
+export default function RecipeThumbnail({ imageRef, title }: RecipeThumbnailProps) {
+  const [hasError, setHasError] = useState(false)
+
+  if (!imageRef || hasError) {
+    return (
+      <div className="h-40 bg-gray-100 flex items-center justify-center text-gray-400 text-sm">
+        No photo
+      </div>
+    )
+  }
+
+  return (
+    <img
+      src={getImageUrl(imageRef)}
+      alt={title}
+      loading="lazy"
+      onError={() => setHasError(true)}
+      className="h-40 w-full object-cover bg-gray-100"
+    />
+  )
+}
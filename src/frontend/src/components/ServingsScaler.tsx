@@ -0,0 +1,48 @@
+const MIN_SERVINGS = 1
+const MAX_SERVINGS = 100
+
+interface ServingsScalerProps {
+  /** Servings the recipe is written for */
+  baseServings: number
+  servings: number
+  onChange: (servings: number) => void
+}
+
+export default function ServingsScaler({ baseServings, servings, onChange }: ServingsScalerProps) {
+  const setServings = (value: number) => {
+    onChange(Math.min(MAX_SERVINGS, Math.max(MIN_SERVINGS, value)))
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-sm text-gray-600">Servings</span>
+      <button
+        onClick={() => setServings(servings - 1)}
+        disabled={servings <= MIN_SERVINGS}
+        className="w-8 h-8 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50 font-medium"
+        aria-label="Fewer servings"
+      >
+        −
+      </button>
+      <span className="w-8 text-center font-semibold text-gray-900 tabular-nums" aria-live="polite">
+        {servings}
+      </span>
+      <button
+        onClick={() => setServings(servings + 1)}
+        disabled={servings >= MAX_SERVINGS}
+        className="w-8 h-8 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50 font-medium"
+        aria-label="More servings"
+      >
+        +
+      </button>
+      {servings !== baseServings && (
+        <button
+          onClick={() => onChange(baseServings)}
+          className="text-sm text-blue-600 hover:text-blue-800"
+        >
+          Reset to {baseServings}
+        </button>
+      )}
+    </div>
+  )
+}
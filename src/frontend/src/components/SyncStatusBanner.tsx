@@ -0,0 +1,96 @@
+import { useState } from 'react'
+import { discardQueuedChange, retryQueuedChange, syncQueuedChanges } from '../services/api'
+import type { QueuedChange } from '../services/offlineStore'
+import { useSyncStatus } from '../hooks/useSyncStatus'
+
+const describeChange = ({ change }: QueuedChange) => {
+  if (change.kind === 'createRecipe') return `New recipe "${change.request.title}"`
+  if (change.kind === 'deleteDraft') return `Draft "${change.draftTitle}" deleted`
+  return change.kind === 'addTag'
+    ? `Tag "${change.tag}" added to "${change.recipeTitle}"`
+    : `Tag "${change.tag}" removed from "${change.recipeTitle}"`
+}
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`
+
+/**
+ * Shows whether the app is offline, how many changes are waiting to sync, and any changes the API rejected.
+ * Renders nothing while online with an empty queue.
+ */
+export default function SyncStatusBanner() {
+  const { isOnline, isSyncing, pending, conflicts } = useSyncStatus()
+  const [busyId, setBusyId] = useState<number | null>(null)
+
+  if (isOnline && pending.length === 0 && conflicts.length === 0) return null
+
+  const resolve = async (queued: QueuedChange, action: (queued: QueuedChange) => Promise<void>) => {
+    setBusyId(queued.id)
+    try {
+      await action(queued)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <div className="sticky top-0 z-40 text-sm print:hidden" role="status">
+      {!isOnline ? (
+        <div className="bg-amber-100 border-b border-amber-300 text-amber-900 px-4 py-2 text-center">
+          You're offline. Showing recipes saved on this device.
+          {pending.length > 0
+            ? ` ${plural(pending.length, 'change')} will sync when you reconnect.`
+            : ' New recipes and tag changes will sync when you reconnect.'}
+        </div>
+      ) : pending.length > 0 && (
+        <div className="flex items-center justify-center gap-3 bg-blue-50 border-b border-blue-200 text-blue-900 px-4 py-2">
+          <span>
+            {isSyncing ? `Syncing ${plural(pending.length, 'change')}…` : `${plural(pending.length, 'change')} waiting to sync`}
+          </span>
+          {!isSyncing && (
+            <button onClick={() => syncQueuedChanges()} className="font-medium text-blue-700 hover:text-blue-900">
+              Sync now
+            </button>
+          )}
+        </div>
+      )}
+
+      {conflicts.length > 0 && (
+        <div className="bg-red-50 border-b border-red-200 px-4 py-3">
+          <div className="container mx-auto max-w-6xl">
+            <p className="font-medium text-red-800 mb-2">
+              {plural(conflicts.length, 'change')} made offline could not be synced
+            </p>
+            <ul className="space-y-2">
+              {conflicts.map(queued => (
+                <li key={queued.id} className="flex flex-col sm:flex-row sm:items-center gap-2">
+                  <div className="flex-1">
+                    <p className="text-red-700">{queued.conflict}</p>
+                    <p className="text-xs text-red-600">
+                      {describeChange(queued)} on {new Date(queued.queuedAt).toLocaleString()}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => resolve(queued, retryQueuedChange)}
+                      disabled={busyId === queued.id || !isOnline}
+                      className="px-3 py-1 bg-white border border-red-300 text-red-700 rounded hover:bg-red-100 disabled:opacity-50"
+                    >
+                      Retry
+                    </button>
+                    <button
+                      onClick={() => resolve(queued, discardQueuedChange)}
+                      disabled={busyId === queued.id}
+                      className="px-3 py-1 bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50"
+                    >
+                      Discard
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,131 @@
+import { useState, useId } from 'react'
+import { normalizeTag, parseTagList } from '../utils/tags'
+
+const MAX_SUGGESTIONS = 8
+
+interface TagAutocompleteProps {
+  id?: string
+  value: string
+  onChange: (value: string) => void
+  suggestions: string[]
+  /** Treat the value as a comma-separated list and complete its last entry */
+  multiple?: boolean
+  /** Tags that should not be suggested, e.g. the ones already on the recipe */
+  exclude?: string[]
+  placeholder?: string
+  disabled?: boolean
+  className?: string
+}
+
+export default function TagAutocomplete({
+  id,
+  value,
+  onChange,
+  suggestions,
+  multiple = false,
+  exclude = [],
+  placeholder,
+  disabled,
+  className,
+}: TagAutocompleteProps) {
+  const listboxId = useId()
+  const [isOpen, setIsOpen] = useState(false)
+  const [highlightedIndex, setHighlightedIndex] = useState(-1)
+
+  const segments = multiple ? value.split(',') : [value]
+  const currentToken = normalizeTag(segments[segments.length - 1])
+  const alreadyChosen = new Set([...exclude, ...(multiple ? parseTagList(segments.slice(0, -1).join(',')) : [])])
+
+  // Prefix matches first, then other substring matches, keeping the most-used order within each
+  const matches = currentToken
+    ? suggestions
+        .filter(tag => tag.includes(currentToken) && !alreadyChosen.has(tag) && tag !== currentToken)
+        .sort((a, b) => Number(b.startsWith(currentToken)) - Number(a.startsWith(currentToken)))
+        .slice(0, MAX_SUGGESTIONS)
+    : []
+  const showSuggestions = isOpen && matches.length > 0
+
+  const selectTag = (tag: string) => {
+    if (multiple) {
+      const completed = [...segments.slice(0, -1).map(segment => segment.trim()), tag]
+      onChange(`${completed.filter(segment => segment.length > 0).join(', ')}, `)
+    } else {
+      onChange(tag)
+    }
+    setIsOpen(false)
+    setHighlightedIndex(-1)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!showSuggestions) return
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault()
+      setHighlightedIndex(index => (index + 1) % matches.length)
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault()
+      setHighlightedIndex(index => (index <= 0 ? matches.length - 1 : index - 1))
+    } else if (e.key === 'Enter' && highlightedIndex >= 0) {
+      // Only swallow Enter when picking a suggestion, so it still submits the surrounding form otherwise
+      e.preventDefault()
+      selectTag(matches[highlightedIndex])
+    } else if (e.key === 'Escape') {
+      setIsOpen(false)
+      setHighlightedIndex(-1)
+    }
+  }
+
+  return (
+    <div className="relative flex-1">
+      <input
+        id={id}
+        type="text"
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value)
+          setIsOpen(true)
+          setHighlightedIndex(-1)
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={handleKeyDown}
+        placeholder={placeholder}
+        disabled={disabled}
+        autoComplete="off"
+        role="combobox"
+        aria-autocomplete="list"
+        aria-expanded={showSuggestions}
+        aria-controls={listboxId}
+        aria-activedescendant={highlightedIndex >= 0 ? `${listboxId}-${highlightedIndex}` : undefined}
+        className={className}
+      />
+      {showSuggestions && (
+        <ul
+          id={listboxId}
+          role="listbox"
+          className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-lg shadow-lg py-1 text-sm text-left max-h-64 overflow-auto"
+        >
+          {matches.map((tag, index) => (
+            <li
+              key={tag}
+              id={`${listboxId}-${index}`}
+              role="option"
+              aria-selected={index === highlightedIndex}
+              // mousedown fires before the input's blur, which would otherwise close the list first
+              onMouseDown={(e) => {
+                e.preventDefault()
+                selectTag(tag)
+              }}
+              onMouseEnter={() => setHighlightedIndex(index)}
+              className={`px-3 py-2 cursor-pointer ${
+                index === highlightedIndex ? 'bg-blue-50 text-blue-800' : 'text-gray-700'
+              }`}
+            >
+              {tag}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
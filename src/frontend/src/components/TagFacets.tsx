@@ -0,0 +1,134 @@
+import { useState } from 'react'
+import { Link } from 'react-router-dom'
+import type { TagCount, TagMatchMode } from '../types'
+
+interface TagFacetsProps {
+  tags: TagCount[]
+  selectedTags: string[]
+  matchMode: TagMatchMode
+  isLoading: boolean
+  error: string | null
+  onToggleTag: (tag: string) => void
+  onMatchModeChange: (mode: TagMatchMode) => void
+  onClearTags: () => void
+}
+
+export default function TagFacets({
+  tags,
+  selectedTags,
+  matchMode,
+  isLoading,
+  error,
+  onToggleTag,
+  onMatchModeChange,
+  onClearTags,
+}: TagFacetsProps) {
+  const [filter, setFilter] = useState('')
+
+  // A selected tag can be missing from the list (e.g. a shared link to a since-removed tag);
+  // keep it visible so it can still be deselected
+  const knownTags = new Set(tags.map(t => t.tag))
+  const allTags = [
+    ...selectedTags.filter(tag => !knownTags.has(tag)).map(tag => ({ tag, recipeCount: 0 })),
+    ...tags,
+  ]
+
+  const normalizedFilter = filter.trim().toLowerCase()
+  const visibleTags = normalizedFilter
+    ? allTags.filter(t => t.tag.includes(normalizedFilter) || selectedTags.includes(t.tag))
+    : allTags
+
+  return (
+    <aside className="bg-white rounded-lg shadow-md p-6 lg:sticky lg:top-6">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-lg font-semibold text-gray-900">Tags</h2>
+        {selectedTags.length > 0 && (
+          <button
+            onClick={onClearTags}
+            className="text-sm text-blue-600 hover:text-blue-800"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      {selectedTags.length > 1 && (
+        <div className="mb-4">
+          <p className="text-xs text-gray-500 mb-1">Show recipes with</p>
+          <div className="inline-flex rounded-lg bg-gray-100 p-1 text-sm" role="group" aria-label="Tag match mode">
+            <button
+              onClick={() => onMatchModeChange('all')}
+              aria-pressed={matchMode === 'all'}
+              className={`px-3 py-1 rounded-md font-medium transition-colors ${
+                matchMode === 'all' ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              All tags
+            </button>
+            <button
+              onClick={() => onMatchModeChange('any')}
+              aria-pressed={matchMode === 'any'}
+              className={`px-3 py-1 rounded-md font-medium transition-colors ${
+                matchMode === 'any' ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              Any tag
+            </button>
+          </div>
+        </div>
+      )}
+
+      {tags.length > 8 && (
+        <input
+          type="text"
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          placeholder="Filter tags..."
+          aria-label="Filter tags"
+          className="w-full mb-3 px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+        />
+      )}
+
+      {isLoading && tags.length === 0 && (
+        <p className="text-sm text-gray-500">Loading tags...</p>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-600">{error}</p>
+      )}
+
+      {!isLoading && !error && tags.length === 0 && (
+        <p className="text-sm text-gray-500">No tags yet</p>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {visibleTags.map((t) => {
+          const isSelected = selectedTags.includes(t.tag)
+          return (
+            <button
+              key={t.tag}
+              onClick={() => onToggleTag(t.tag)}
+              aria-pressed={isSelected}
+              className={`inline-flex items-center gap-1.5 px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+                isSelected
+                  ? 'bg-blue-600 text-white hover:bg-blue-700'
+                  : 'bg-blue-100 text-blue-800 hover:bg-blue-200'
+              }`}
+            >
+              {t.tag}
+              <span className={`text-xs ${isSelected ? 'text-blue-100' : 'text-blue-600'}`}>
+                {t.recipeCount}
+              </span>
+            </button>
+          )
+        })}
+      </div>
+
+      {tags.length > 0 && (
+        <Link to="/tags" className="block mt-4 text-sm text-blue-600 hover:text-blue-800">
+          Manage tags
+        </Link>
+      )}
+    </aside>
+  )
+}
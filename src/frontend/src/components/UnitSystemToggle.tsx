@@ -0,0 +1,31 @@
+import type { UnitSystem } from '../utils/units'
+
+const OPTIONS: { value: UnitSystem; label: string }[] = [
+  { value: 'original', label: 'As written' },
+  { value: 'metric', label: 'Metric' },
+  { value: 'imperial', label: 'US' },
+]
+
+interface UnitSystemToggleProps {
+  value: UnitSystem
+  onChange: (system: UnitSystem) => void
+}
+
+export default function UnitSystemToggle({ value, onChange }: UnitSystemToggleProps) {
+  return (
+    <div className="inline-flex rounded-lg bg-gray-100 p-1 text-sm" role="group" aria-label="Units">
+      {OPTIONS.map(option => (
+        <button
+          key={option.value}
+          onClick={() => onChange(option.value)}
+          aria-pressed={value === option.value}
+          className={`px-3 py-1 rounded-md font-medium transition-colors ${
+            value === option.value ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  )
+}
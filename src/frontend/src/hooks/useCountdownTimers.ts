@@ -0,0 +1,105 @@
+import { useEffect, useRef, useState } from 'react'
+
+export interface CountdownTimer {
+  id: number
+  label: string
+  durationSeconds: number
+  /** Epoch milliseconds when the timer runs out; null while paused */
+  endsAt: number | null
+  /** Seconds left when paused */
+  pausedRemaining: number
+}
+
+let nextTimerId = 1
+
+const remainingSeconds = (timer: CountdownTimer, now: number) =>
+  timer.endsAt === null ? timer.pausedRemaining : Math.max(0, (timer.endsAt - now) / 1000)
+
+// Three short beeps; the context is created on the first timer start, since browsers only allow audio after a tap
+const playAlert = (context: AudioContext | null) => {
+  navigator.vibrate?.([300, 150, 300, 150, 300])
+  if (!context) return
+
+  for (let i = 0; i < 3; i++) {
+    const oscillator = context.createOscillator()
+    const gain = context.createGain()
+    const start = context.currentTime + i * 0.4
+    oscillator.frequency.value = 880
+    gain.gain.setValueAtTime(0.3, start)
+    gain.gain.exponentialRampToValueAtTime(0.001, start + 0.3)
+    oscillator.connect(gain).connect(context.destination)
+    oscillator.start(start)
+    oscillator.stop(start + 0.3)
+  }
+}
+
+/**
+ * Any number of independent countdown timers that beep when they run out.
+ */
+export function useCountdownTimers() {
+  const [timers, setTimers] = useState<CountdownTimer[]>([])
+  const [now, setNow] = useState(() => Date.now())
+  const audioContextRef = useRef<AudioContext | null>(null)
+  const alertedRef = useRef(new Set<number>())
+
+  const hasRunningTimer = timers.some(timer => timer.endsAt !== null && timer.endsAt > now)
+
+  useEffect(() => {
+    if (!hasRunningTimer) return
+
+    const interval = window.setInterval(() => setNow(Date.now()), 250)
+    return () => window.clearInterval(interval)
+  }, [hasRunningTimer])
+
+  useEffect(() => {
+    for (const timer of timers) {
+      if (timer.endsAt !== null && timer.endsAt <= now && !alertedRef.current.has(timer.id)) {
+        alertedRef.current.add(timer.id)
+        playAlert(audioContextRef.current)
+      }
+    }
+  }, [timers, now])
+
+  useEffect(() => {
+    return () => {
+      audioContextRef.current?.close().catch(() => {})
+    }
+  }, [])
+
+  const startTimer = (label: string, durationSeconds: number) => {
+    if (!audioContextRef.current && typeof AudioContext !== 'undefined') {
+      audioContextRef.current = new AudioContext()
+    }
+    const startedAt = Date.now()
+    setNow(startedAt)
+    setTimers(current => [
+      ...current,
+      { id: nextTimerId++, label, durationSeconds, endsAt: startedAt + durationSeconds * 1000, pausedRemaining: 0 },
+    ])
+  }
+
+  const togglePause = (id: number) => {
+    const at = Date.now()
+    setNow(at)
+    setTimers(current =>
+      current.map(timer => {
+        if (timer.id !== id) return timer
+        return timer.endsAt === null
+          ? { ...timer, endsAt: at + timer.pausedRemaining * 1000 }
+          : { ...timer, endsAt: null, pausedRemaining: remainingSeconds(timer, at) }
+      })
+    )
+  }
+
+  const removeTimer = (id: number) => {
+    alertedRef.current.delete(id)
+    setTimers(current => current.filter(timer => timer.id !== id))
+  }
+
+  return {
+    timers: timers.map(timer => ({ ...timer, remaining: remainingSeconds(timer, now) })),
+    startTimer,
+    togglePause,
+    removeTimer,
+  }
+}
@@ -0,0 +1,15 @@
+import { useState, useEffect } from 'react'
+
+/**
+ * Returns `value` once it has stopped changing for `delayMs`.
+ */
+export function useDebouncedValue<T>(value: T, delayMs: number): T {
+  const [debouncedValue, setDebouncedValue] = useState(value)
+
+  useEffect(() => {
+    const timeoutId = window.setTimeout(() => setDebouncedValue(value), delayMs)
+    return () => window.clearTimeout(timeoutId)
+  }, [value, delayMs])
+
+  return debouncedValue
+}
@@ -0,0 +1,101 @@
+import { useState, useEffect, useRef } from 'react'
+import { deleteDraft, saveDraft } from '../services/api'
+import type { LocalDraft } from '../services/offlineStore'
+
+const AUTOSAVE_DELAY_MS = 1000
+
+export type AutosaveStatus = 'idle' | 'pending' | 'saving' | 'saved' | 'error'
+
+// Nothing the user would miss: no photos, no title and no tags
+const isEmptyDraft = (draft: LocalDraft) =>
+  draft.pages.length === 0 && !draft.title.trim() && !draft.tagsInput.trim()
+
+/**
+ * Saves the draft shortly after each change, warns before the tab is closed with changes that aren't saved,
+ * and saves any pending change when the page is left. Pass undefined while a draft is still being loaded.
+ * A draft that becomes empty again is deleted. Call discard once the draft has become a recipe; it waits for a save
+ * in flight and stops any later ones.
+ */
+export function useDraftAutosave(draft: LocalDraft | undefined): { status: AutosaveStatus; discard: () => Promise<void> } {
+  const [status, setStatus] = useState<AutosaveStatus>('idle')
+  const unsavedRef = useRef<LocalDraft | null>(null)
+  const savedIdRef = useRef<string | null>(null)
+  const savingRef = useRef<Promise<unknown> | null>(null)
+  // Once discarded nothing may save the draft again, or it would come back after becoming a recipe
+  const discardedRef = useRef(false)
+
+  useEffect(() => {
+    if (!draft || discardedRef.current) return
+
+    if (isEmptyDraft(draft)) {
+      unsavedRef.current = null
+      setStatus('idle')
+      if (savedIdRef.current === draft.id) {
+        savedIdRef.current = null
+        deleteDraft(draft).catch(() => {})
+      }
+      return
+    }
+
+    unsavedRef.current = draft
+    setStatus('pending')
+    const timer = window.setTimeout(async () => {
+      if (discardedRef.current) return
+      setStatus('saving')
+      const saving = saveDraft(draft)
+      savingRef.current = saving
+      try {
+        await saving
+        if (discardedRef.current) return
+        savedIdRef.current = draft.id
+        // A newer change may have come in while saving; it has its own save coming
+        if (unsavedRef.current === draft) {
+          unsavedRef.current = null
+          setStatus('saved')
+        }
+      } catch {
+        if (!discardedRef.current) setStatus('error')
+      } finally {
+        if (savingRef.current === saving) savingRef.current = null
+      }
+    }, AUTOSAVE_DELAY_MS)
+
+    return () => window.clearTimeout(timer)
+  }, [draft])
+
+  useEffect(() => {
+    if (status !== 'pending' && status !== 'saving' && status !== 'error') return
+
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault()
+      // Older browsers only show the prompt when returnValue is set
+      e.returnValue = ''
+    }
+    window.addEventListener('beforeunload', handleBeforeUnload)
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload)
+  }, [status])
+
+  // Leaving the page within the autosave delay must not lose the last change
+  useEffect(() => {
+    return () => {
+      if (unsavedRef.current && !discardedRef.current) {
+        saveDraft(unsavedRef.current).catch(() => {})
+      }
+    }
+  }, [])
+
+  const discard = async () => {
+    const current = unsavedRef.current ?? draft
+    discardedRef.current = true
+    unsavedRef.current = null
+    savedIdRef.current = null
+    setStatus('idle')
+    // A save still in flight would otherwise write the draft back after it is deleted
+    await savingRef.current?.catch(() => {})
+    if (current) {
+      await deleteDraft(current)
+    }
+  }
+
+  return { status, discard }
+}
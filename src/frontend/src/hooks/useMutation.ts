@@ -0,0 +1,60 @@
+import { useEffect, useRef, useState } from 'react'
+import { describeError, type ErrorState } from '../services/api'
+import type { Mutation } from '../services/queryCache'
+
+/** When the change failed, `error` of the hook says why */
+export type MutationOutcome<TResult> = { ok: true; result: TResult } | { ok: false }
+
+export interface MutationResult<TVariables, TResult> {
+  mutate: (variables: TVariables) => Promise<MutationOutcome<TResult>>
+  isPending: boolean
+  /** What the running change was called with, e.g. the tag being removed */
+  variables: TVariables | null
+  error: ErrorState | null
+  reset: () => void
+}
+
+/**
+ * Runs a change and applies it to the cache: optimistically before it is sent when the mutation
+ * says how, undone again if it fails. Changes are not retried, as sending one twice may apply it twice.
+ */
+export function useMutation<TVariables, TResult>(
+  mutation: Mutation<TVariables, TResult>,
+  errorMessage: string
+): MutationResult<TVariables, TResult> {
+  const [pending, setPending] = useState<{ variables: TVariables } | null>(null)
+  const [error, setError] = useState<ErrorState | null>(null)
+  const mutationRef = useRef(mutation)
+
+  useEffect(() => {
+    mutationRef.current = mutation
+  })
+
+  const mutate = async (variables: TVariables): Promise<MutationOutcome<TResult>> => {
+    const { mutate: send, onMutate, onSuccess, onSettled } = mutationRef.current
+    setPending({ variables })
+    setError(null)
+    const undo = onMutate?.(variables)
+
+    try {
+      const result = await send(variables)
+      onSuccess?.(result, variables)
+      return { ok: true, result }
+    } catch (err) {
+      undo?.()
+      setError(describeError(err, errorMessage))
+      return { ok: false }
+    } finally {
+      onSettled?.()
+      setPending(null)
+    }
+  }
+
+  return {
+    mutate,
+    isPending: pending !== null,
+    variables: pending?.variables ?? null,
+    error,
+    reset: () => setError(null),
+  }
+}
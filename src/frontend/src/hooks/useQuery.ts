@@ -0,0 +1,82 @@
+import { useCallback, useEffect, useMemo, useRef, useSyncExternalStore } from 'react'
+import { describeError, type ErrorState } from '../services/api'
+import {
+  DEFAULT_STALE_TIME_MS,
+  getQueryState,
+  hashQueryKey,
+  refreshQuery,
+  subscribeToQuery,
+  type Query,
+  type QueryKey,
+} from '../services/queryCache'
+
+interface UseQueryOptions {
+  /** False while the query can't run yet, e.g. without an id */
+  enabled?: boolean
+  staleTimeMs?: number
+  /** Keeps showing the data of the previous key while a new key loads, e.g. the last page of results */
+  keepPreviousData?: boolean
+  /** Shown when the error doesn't come with a message from the API */
+  errorMessage?: string
+}
+
+export interface QueryResult<T> {
+  data: T | undefined
+  error: ErrorState | null
+  /** Nothing to show yet */
+  isLoading: boolean
+  /** Loading, possibly in the background while cached data is shown */
+  isFetching: boolean
+  /** The data shown is for the previous key, see `keepPreviousData` */
+  isPreviousData: boolean
+  /** Loads again now, even when the data is fresh */
+  refetch: () => void
+}
+
+/**
+ * Shows the cached data for the query straight away and loads it again when it is stale. Components
+ * showing the same key share one request and are all updated when it answers; leaving the page cancels
+ * a request nothing else is waiting for.
+ */
+export function useQuery<T>(query: Query<T>, options: UseQueryOptions = {}): QueryResult<T> {
+  const {
+    enabled = true,
+    staleTimeMs = DEFAULT_STALE_TIME_MS,
+    keepPreviousData = false,
+    errorMessage = 'Failed to load. Please try again.',
+  } = options
+  // The query object is new on every render; its key says whether it is a different query
+  const hash = hashQueryKey(query.key)
+  const key = useMemo(() => JSON.parse(hash) as QueryKey, [hash])
+  const queryRef = useRef(query)
+  const previousData = useRef<T | undefined>(undefined)
+
+  useEffect(() => {
+    queryRef.current = query
+  })
+
+  const subscribe = useCallback((listener: () => void) => subscribeToQuery(key, listener), [key])
+  const state = useSyncExternalStore(subscribe, () => getQueryState<T>(key))
+
+  useEffect(() => {
+    if (enabled) refreshQuery({ ...queryRef.current, key }, staleTimeMs)
+  }, [key, enabled, staleTimeMs])
+
+  useEffect(() => {
+    if (state.data !== undefined) previousData.current = state.data
+  }, [state.data])
+
+  const data = state.data ?? (keepPreviousData ? previousData.current : undefined)
+
+  // The error is hidden while the next attempt runs
+  const error = state.error && !state.isFetching ? describeError(state.error, errorMessage) : null
+
+  return {
+    data,
+    error,
+    isLoading: enabled && data === undefined && !error,
+    isFetching: state.isFetching,
+    isPreviousData: state.data === undefined && data !== undefined,
+    refetch: () => refreshQuery({ ...queryRef.current, key }, 0),
+  }
+}
@@ -0,0 +1,10 @@
+import { useSyncExternalStore } from 'react'
+import { getSession, subscribeToSession, type Session } from '../services/auth'
+
+/**
+ * The signed-in user and their token, or null when no one is signed in. Updated when someone signs in
+ * or out, and when the API turns the token down.
+ */
+export function useSession(): Session | null {
+  return useSyncExternalStore(subscribeToSession, getSession)
+}
@@ -0,0 +1,81 @@
+import { useEffect, useState } from 'react'
+import type { ShoppingListRecipe } from '../utils/shoppingList'
+
+const STORAGE_KEY = 'recipe-collection.shoppingList'
+
+interface ShoppingListState {
+  recipes: ShoppingListRecipe[]
+  /** Keys of the items checked off in the store */
+  checked: string[]
+}
+
+const EMPTY_LIST: ShoppingListState = { recipes: [], checked: [] }
+
+const readStoredList = (): ShoppingListState => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null') as Partial<ShoppingListState> | null
+    return {
+      recipes: Array.isArray(stored?.recipes) ? stored.recipes : [],
+      checked: Array.isArray(stored?.checked) ? stored.checked : [],
+    }
+  } catch {
+    // Storage can be unavailable (e.g. blocked cookies), or hold a list from a broken write
+    return EMPTY_LIST
+  }
+}
+
+/**
+ * The shopping list, remembered in localStorage so it survives reloads and is there in the store even offline.
+ * Changes made in another tab show up here too.
+ */
+export function useShoppingList() {
+  const [list, setList] = useState<ShoppingListState>(readStoredList)
+
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === STORAGE_KEY) setList(readStoredList())
+    }
+    window.addEventListener('storage', handleStorage)
+    return () => window.removeEventListener('storage', handleStorage)
+  }, [])
+
+  const update = (change: (current: ShoppingListState) => ShoppingListState) => {
+    const next = change(readStoredList())
+    setList(next)
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(next))
+    } catch {
+      // The list still works for this visit
+    }
+  }
+
+  return {
+    recipes: list.recipes,
+    checked: list.checked,
+    /** Adds the recipe, or updates its servings when it is already on the list */
+    addRecipe: (recipe: ShoppingListRecipe) =>
+      update(current => {
+        const exists = current.recipes.some(r => r.id === recipe.id)
+        return {
+          ...current,
+          recipes: exists ? current.recipes.map(r => (r.id === recipe.id ? recipe : r)) : [...current.recipes, recipe],
+        }
+      }),
+    removeRecipe: (id: string) =>
+      update(current => ({ ...current, recipes: current.recipes.filter(recipe => recipe.id !== id) })),
+    setServings: (id: string, servings: number) =>
+      update(current => ({
+        ...current,
+        recipes: current.recipes.map(recipe => (recipe.id === id ? { ...recipe, servings } : recipe)),
+      })),
+    toggleItem: (key: string) =>
+      update(current => ({
+        ...current,
+        checked: current.checked.includes(key)
+          ? current.checked.filter(checkedKey => checkedKey !== key)
+          : [...current.checked, key],
+      })),
+    clearChecked: () => update(current => ({ ...current, checked: [] })),
+    clearList: () => update(() => EMPTY_LIST),
+  }
+}
@@ -0,0 +1,59 @@
+import { useState, useEffect } from 'react'
+import { getQueuedChanges, isSyncing, subscribeToOutbox } from '../services/offlineStore'
+import type { QueuedChange } from '../services/offlineStore'
+
+export interface SyncStatus {
+  isOnline: boolean
+  isSyncing: boolean
+  /** Changes waiting to be sent */
+  pending: QueuedChange[]
+  /** Changes the API rejected, waiting for the user to retry or discard them */
+  conflicts: QueuedChange[]
+}
+
+/**
+ * Connection state and the queue of changes made offline, kept up to date as the queue changes.
+ */
+export function useSyncStatus(): SyncStatus {
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine)
+  const [syncing, setSyncing] = useState(isSyncing)
+  const [queued, setQueued] = useState<QueuedChange[]>([])
+
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true)
+    const handleOffline = () => setIsOnline(false)
+    window.addEventListener('online', handleOnline)
+    window.addEventListener('offline', handleOffline)
+
+    return () => {
+      window.removeEventListener('online', handleOnline)
+      window.removeEventListener('offline', handleOffline)
+    }
+  }, [])
+
+  useEffect(() => {
+    let isCurrent = true
+    const load = async () => {
+      const changes = await getQueuedChanges()
+      if (isCurrent) {
+        setQueued(changes)
+        setSyncing(isSyncing())
+      }
+    }
+
+    load()
+    const unsubscribe = subscribeToOutbox(load)
+
+    return () => {
+      isCurrent = false
+      unsubscribe()
+    }
+  }, [])
+
+  return {
+    isOnline,
+    isSyncing: syncing,
+    pending: queued.filter(change => !change.conflict),
+    conflicts: queued.filter(change => change.conflict),
+  }
+}
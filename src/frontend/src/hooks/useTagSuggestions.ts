@@ -0,0 +1,11 @@
+import { tagsQuery } from '../services/queries'
+import { useQuery } from './useQuery'
+
+/**
+ * Loads the tags already used in the collection, most used first, for autocomplete.
+ * Failures are swallowed: suggestions are a convenience, not something to block input on.
+ */
+export function useTagSuggestions(): string[] {
+  const { data } = useQuery(tagsQuery)
+  return data?.map(t => t.tag) ?? []
+}
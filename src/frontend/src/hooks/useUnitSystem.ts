@@ -0,0 +1,33 @@
+import { useState } from 'react'
+import type { UnitSystem } from '../utils/units'
+
+const STORAGE_KEY = 'recipe-collection.unitSystem'
+const UNIT_SYSTEMS: UnitSystem[] = ['original', 'metric', 'imperial']
+
+const readStoredSystem = (): UnitSystem => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    return UNIT_SYSTEMS.find(system => system === stored) ?? 'original'
+  } catch {
+    // Storage can be unavailable (e.g. blocked cookies); fall back to showing recipes as written
+    return 'original'
+  }
+}
+
+/**
+ * The reader's preferred unit system, remembered in localStorage across visits.
+ */
+export function useUnitSystem(): [UnitSystem, (system: UnitSystem) => void] {
+  const [unitSystem, setUnitSystem] = useState<UnitSystem>(readStoredSystem)
+
+  const updateUnitSystem = (system: UnitSystem) => {
+    setUnitSystem(system)
+    try {
+      localStorage.setItem(STORAGE_KEY, system)
+    } catch {
+      // The choice still applies for this visit
+    }
+  }
+
+  return [unitSystem, updateUnitSystem]
+}
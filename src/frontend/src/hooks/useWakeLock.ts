@@ -0,0 +1,50 @@
+import { useEffect, useState } from 'react'
+
+/**
+ * Keeps the screen on while enabled, using the Screen Wake Lock API where the browser supports it.
+ * Returns whether the lock is currently held.
+ */
+export function useWakeLock(enabled: boolean): boolean {
+  const [isLocked, setIsLocked] = useState(false)
+
+  useEffect(() => {
+    if (!enabled || !('wakeLock' in navigator)) return
+
+    let sentinel: WakeLockSentinel | null = null
+    let released = false
+
+    const request = async () => {
+      try {
+        sentinel = await navigator.wakeLock.request('screen')
+        if (released) {
+          await sentinel.release()
+          return
+        }
+        setIsLocked(true)
+        sentinel.addEventListener('release', () => setIsLocked(false))
+      } catch {
+        // Refused, e.g. on low battery; the page still works, the screen may just dim
+        setIsLocked(false)
+      }
+    }
+
+    // The browser drops the lock whenever the tab is hidden, so take it again on return
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        request()
+      }
+    }
+
+    request()
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+
+    return () => {
+      released = true
+      document.removeEventListener('visibilitychange', handleVisibilityChange)
+      sentinel?.release().catch(() => {})
+      setIsLocked(false)
+    }
+  }, [enabled])
+
+  return isLocked
+}
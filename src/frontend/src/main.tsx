@@ -2,8 +2,15 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import { BrowserRouter } from 'react-router-dom'
 import App from './App.tsx'
+import { startOfflineSync } from './services/api'
+import { startQueryRevalidation } from './services/queries'
+import { registerServiceWorker } from './services/serviceWorker'
 import './index.css'
 
+registerServiceWorker()
+startOfflineSync()
+startQueryRevalidation()
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <BrowserRouter>
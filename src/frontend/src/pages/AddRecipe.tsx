@@ -1,93 +1,324 @@
-import { useState } from 'react'
-import { useNavigate } from 'react-router-dom'
-import { uploadImageForOcr, createRecipe, ApiError } from '../services/api'
+import { useState, useEffect, useMemo, useRef } from 'react'
+import { Link, useNavigate, useSearchParams } from 'react-router-dom'
+import { uploadImageForOcr, getDraft, getImageFile, describeError, type ErrorState } from '../services/api'
+import type { LocalDraft } from '../services/offlineStore'
+import { fetchQuery } from '../services/queryCache'
+import { createRecipeMutation, draftsQuery } from '../services/queries'
+import { useMutation } from '../hooks/useMutation'
+import { useTagSuggestions } from '../hooks/useTagSuggestions'
+import { useDraftAutosave, type AutosaveStatus } from '../hooks/useDraftAutosave'
+import { parseTagList } from '../utils/tags'
+import { DEFAULT_ADJUSTMENTS, prepareImageForUpload, type ImageAdjustments } from '../utils/imageProcessing'
+import { isOcrLanguage, OCR_LANGUAGE_OPTIONS } from '../utils/ocrLanguages'
+import type { OcrLanguage, OcrWord } from '../types'
+import TagAutocomplete from '../components/TagAutocomplete'
+import ImageEditor from '../components/ImageEditor'
+import OcrReviewEditor from '../components/OcrReviewEditor'
+import RecipeSectionsEditor from '../components/RecipeSectionsEditor'
+import { draftToRequestFields, splitRecipeText, type RecipeSectionsDraft } from '../utils/recipeSections'
+
+// Matches the backend limit on images per recipe
+const MAX_PAGES = 10
+
+interface CapturedPage {
+  id: number
+  /** The photo as selected, kept so edits can always start over from it */
+  originalFile: File
+  /** What gets uploaded: the edited photo, or the original if it hasn't been edited */
+  file: File
+  adjustments?: ImageAdjustments
+  previewUrl: string
+  status: 'pending' | 'processing' | 'done' | 'error'
+  text: string
+  /** Word positions and confidence, for highlighting likely OCR mistakes */
+  words: OcrWord[]
+  imageRef: string
+}
+
+let nextPageId = 1
+
+const newDraftId = () => `draft-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+
+const AUTOSAVE_LABELS: Record<AutosaveStatus, string> = {
+  idle: '',
+  pending: 'Unsaved changes',
+  saving: 'Saving draft…',
+  saved: 'Draft saved',
+  error: "Couldn't save the draft. Keep this tab open.",
+}
+
+// Pages that were never uploaded come back with their photos; uploaded ones may only have their imageRef
+const toCapturedPage = async (page: LocalDraft['pages'][number]): Promise<CapturedPage> => {
+  const originalFile = page.originalFile ?? (await getImageFile(page.imageRef))
+  const file = page.file ?? originalFile
+  return {
+    id: nextPageId++,
+    originalFile,
+    file,
+    adjustments: page.adjustments,
+    previewUrl: URL.createObjectURL(file),
+    status: page.imageRef ? 'done' : 'pending',
+    text: page.text,
+    words: page.words,
+    imageRef: page.imageRef,
+  }
+}
+
+const combinePageText = (pages: CapturedPage[]) =>
+  pages
+    .map(page => page.text.trim())
+    .filter(text => text.length > 0)
+    .join('\n\n')
 
 export default function AddRecipe() {
   const navigate = useNavigate()
-  const [imageFile, setImageFile] = useState<File | null>(null)
-  const [imagePreview, setImagePreview] = useState<string | null>(null)
-  const [ocrText, setOcrText] = useState('')
+  const [searchParams] = useSearchParams()
+  const resumeDraftId = searchParams.get('draft')
+  const [draftId, setDraftId] = useState(() => resumeDraftId ?? newDraftId())
+  const [draftCreatedAt, setDraftCreatedAt] = useState(() => new Date().toISOString())
+  // Nothing is autosaved while a draft is loading, so the empty form can't overwrite it
+  const [isRestoring, setIsRestoring] = useState(resumeDraftId !== null)
+  const [resumableDraft, setResumableDraft] = useState<LocalDraft | null>(null)
+  const [pages, setPages] = useState<CapturedPage[]>([])
+  // null until the reader edits the text; until then it follows the pages as they are extracted and reordered
+  const [editedText, setEditedText] = useState<string | null>(null)
   const [title, setTitle] = useState('')
   const [tagsInput, setTagsInput] = useState('')
-  const [imageRef, setImageRef] = useState('')
+  // Like editedText: null until the reader edits a section, until then re-split from the text as it changes
+  const [editedSections, setEditedSections] = useState<RecipeSectionsDraft | null>(null)
+  const [ocrLanguage, setOcrLanguage] = useState<OcrLanguage>('swe+eng')
   const [isProcessing, setIsProcessing] = useState(false)
-  const [isSaving, setIsSaving] = useState(false)
-  const [error, setError] = useState<{ message: string; correlationId?: string } | null>(null)
-  const [ocrComplete, setOcrComplete] = useState(false)
+  const [editingPageId, setEditingPageId] = useState<number | null>(null)
+  const [isApplyingEdit, setIsApplyingEdit] = useState(false)
+  const saveRecipe = useMutation(createRecipeMutation, 'Failed to save recipe. Please try again.')
+  const [error, setError] = useState<ErrorState | null>(null)
+  const tagSuggestions = useTagSuggestions()
+  const pagesRef = useRef<CapturedPage[]>([])
+
+  const isSaving = saveRecipe.isPending
+  const shownError = error ?? saveRecipe.error
+  const combinedText = combinePageText(pages)
+  const recipeText = editedText ?? combinedText
+  const sections = editedSections ?? splitRecipeText(recipeText, title)
+  const ocrComplete = pages.length > 0 && pages.every(page => page.status === 'done')
+  const pagesToExtract = pages.filter(page => page.status !== 'done').length
+  const editingPage = pages.find(page => page.id === editingPageId)
+
+  const draft = useMemo<LocalDraft | undefined>(
+    () =>
+      isRestoring
+        ? undefined
+        : {
+            id: draftId,
+            title,
+            rawText: editedText,
+            tagsInput,
+            ocrLanguage,
+            pages: pages.map(page => ({
+              imageRef: page.status === 'done' ? page.imageRef : '',
+              text: page.status === 'done' ? page.text : '',
+              words: page.status === 'done' ? page.words : [],
+              originalFile: page.originalFile,
+              file: page.file,
+              adjustments: page.adjustments,
+            })),
+            sections: editedSections,
+            createdAt: draftCreatedAt,
+            updatedAt: draftCreatedAt,
+          },
+    [isRestoring, draftId, title, editedText, tagsInput, ocrLanguage, pages, editedSections, draftCreatedAt]
+  )
+  const { status: autosaveStatus, discard: discardDraft } = useDraftAutosave(draft)
+
+  useEffect(() => {
+    pagesRef.current = pages
+  }, [pages])
+
+  const restoreDraft = async (saved: LocalDraft) => {
+    setIsRestoring(true)
+    setResumableDraft(null)
+    setError(null)
+
+    try {
+      const restoredPages = await Promise.all(saved.pages.map(toCapturedPage))
+      pagesRef.current.forEach(page => URL.revokeObjectURL(page.previewUrl))
+      setPages(restoredPages)
+      setDraftId(saved.id)
+      setDraftCreatedAt(saved.createdAt)
+      setTitle(saved.title)
+      setEditedText(saved.rawText ?? null)
+      setTagsInput(saved.tagsInput)
+      setOcrLanguage(isOcrLanguage(saved.ocrLanguage) ? saved.ocrLanguage : 'swe+eng')
+      setEditedSections(saved.sections ?? null)
+    } catch (err) {
+      setError(describeError(err, 'Failed to load the draft. Please try again.'))
+    } finally {
+      setIsRestoring(false)
+    }
+  }
+
+  // Opened from the drafts list: load that draft. Otherwise offer the most recent unfinished one.
+  useEffect(() => {
+    if (resumeDraftId) {
+      getDraft(resumeDraftId)
+        .then(restoreDraft)
+        .catch(() => {
+          setError({ message: 'That draft no longer exists. You can start a new recipe here.' })
+          setIsRestoring(false)
+        })
+    } else {
+      fetchQuery(draftsQuery, 0)
+        .then(drafts => setResumableDraft(drafts[0] ?? null))
+        .catch(() => {})
+    }
+  }, [resumeDraftId])
+
+  // Release the preview object URLs when leaving the page
+  useEffect(() => {
+    return () => pagesRef.current.forEach(page => URL.revokeObjectURL(page.previewUrl))
+  }, [])
+
+  const updatePage = (id: number, changes: Partial<CapturedPage>) => {
+    setPages(current => current.map(page => (page.id === id ? { ...page, ...changes } : page)))
+  }
 
   const handleImageSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0]
-    if (file) {
-      setImageFile(file)
-      setImagePreview(URL.createObjectURL(file))
-      setOcrComplete(false)
-      setOcrText('')
-      setImageRef('')
+    const files = Array.from(e.target.files ?? [])
+    // Reset so picking the same file again still fires onChange
+    e.target.value = ''
+    if (files.length === 0) return
+
+    const available = MAX_PAGES - pages.length
+    if (files.length > available) {
+      setError({ message: `A recipe can have at most ${MAX_PAGES} pages.` })
+    } else {
       setError(null)
     }
+
+    const newPages = files.slice(0, Math.max(0, available)).map(file => ({
+      id: nextPageId++,
+      originalFile: file,
+      file,
+      previewUrl: URL.createObjectURL(file),
+      status: 'pending' as const,
+      text: '',
+      words: [],
+      imageRef: '',
+    }))
+    setPages(current => [...current, ...newPages])
+  }
+
+  const handleMovePage = (index: number, offset: -1 | 1) => {
+    setPages(current => {
+      const next = [...current]
+      const [moved] = next.splice(index, 1)
+      next.splice(index + offset, 0, moved)
+      return next
+    })
+  }
+
+  const handleRemovePage = (id: number) => {
+    const page = pages.find(p => p.id === id)
+    if (page) {
+      URL.revokeObjectURL(page.previewUrl)
+    }
+    setPages(current => current.filter(p => p.id !== id))
+  }
+
+  // Every page of a recipe is read with the same language, so switching re-extracts the pages already done
+  const handleLanguageChange = (language: OcrLanguage) => {
+    setOcrLanguage(language)
+    setPages(current =>
+      current.map(page => (page.status === 'done' ? { ...page, status: 'pending', text: '', words: [], imageRef: '' } : page))
+    )
+  }
+
+  // The edited image replaces the page, so it has to be extracted again
+  const handleApplyEdit = async (adjustments: ImageAdjustments) => {
+    if (!editingPage) return
+
+    setIsApplyingEdit(true)
+    setError(null)
+
+    try {
+      const file = await prepareImageForUpload(editingPage.originalFile, adjustments)
+      URL.revokeObjectURL(editingPage.previewUrl)
+      updatePage(editingPage.id, {
+        file,
+        previewUrl: URL.createObjectURL(file),
+        adjustments,
+        status: 'pending',
+        text: '',
+        words: [],
+        imageRef: '',
+      })
+      setEditingPageId(null)
+    } catch {
+      setError({ message: 'Failed to edit image. Please try again.' })
+    } finally {
+      setIsApplyingEdit(false)
+    }
   }
 
+  // Pages are sent one at a time, in order, so the title can come from the first page
   const handleExtractText = async () => {
-    if (!imageFile) return
+    const pending = pages.filter(page => page.status !== 'done')
+    if (pending.length === 0) return
 
     setIsProcessing(true)
     setError(null)
 
-    try {
-      const result = await uploadImageForOcr(imageFile)
-      setOcrText(result.extractedText)
-      setImageRef(result.imageRef)
-      setOcrComplete(true)
-
-      // Auto-extract title from first line if available
-      const firstLine = result.extractedText.split('\n')[0]?.trim()
-      if (firstLine && firstLine.length < 100) {
-        setTitle(firstLine)
-      }
-    } catch (err) {
-      if (err instanceof ApiError) {
-        setError({ message: err.message, correlationId: err.correlationId })
-      } else {
-        setError({ message: 'Failed to process image. Please try again.' })
+    for (const page of pending) {
+      updatePage(page.id, { status: 'processing' })
+
+      try {
+        // Unedited photos are still downscaled here if they are too large to upload
+        const result = await uploadImageForOcr(await prepareImageForUpload(page.file), ocrLanguage)
+        updatePage(page.id, {
+          status: 'done',
+          text: result.extractedText,
+          words: result.words,
+          imageRef: result.imageRef,
+        })
+
+        // Auto-extract title from first line if available
+        const firstLine = result.extractedText.split('\n')[0]?.trim()
+        if (firstLine && firstLine.length < 100) {
+          setTitle(current => current || firstLine)
+        }
+      } catch (err) {
+        updatePage(page.id, { status: 'error' })
+        setError(describeError(err, 'Failed to process image. Please try again.'))
       }
-    } finally {
-      setIsProcessing(false)
     }
+
+    setIsProcessing(false)
   }
 
   const handleSaveRecipe = async () => {
-    if (!title.trim() || !ocrText.trim() || !imageRef) {
+    if (!title.trim() || !recipeText.trim() || !ocrComplete) {
       setError({ message: 'Please provide a title and extract text from an image first.' })
       return
     }
 
-    setIsSaving(true)
     setError(null)
+    const tags = parseTagList(tagsInput)
 
-    try {
-      const tags = tagsInput
-        .split(',')
-        .map(t => t.trim())
-        .filter(t => t.length > 0)
-
-      const recipe = await createRecipe({
-        title: title.trim(),
-        rawText: ocrText,
-        imageRef,
-        tags: tags.length > 0 ? tags : undefined,
-      })
+    const saved = await saveRecipe.mutate({
+      title: title.trim(),
+      rawText: recipeText,
+      imageRefs: pages.map(page => page.imageRef),
+      ...draftToRequestFields(sections),
+      ocrLanguage,
+      tags: tags.length > 0 ? tags : undefined,
+    })
+    if (!saved.ok) return
 
-      // Navigate to the new recipe
-      navigate(`/recipes/${recipe.id}`)
-    } catch (err) {
-      if (err instanceof ApiError) {
-        setError({ message: err.message, correlationId: err.correlationId })
-      } else {
-        setError({ message: 'Failed to save recipe. Please try again.' })
-      }
-    } finally {
-      setIsSaving(false)
-    }
+    // The draft has become a recipe; failing to delete it only leaves it in the drafts list
+    await discardDraft().catch(() => {})
+
+    // Navigate to the new recipe
+    navigate(`/recipes/${saved.result.id}`)
   }
 
   return (
@@ -102,78 +333,217 @@ export default function AddRecipe() {
           </button>
         </div>
 
-        <h1 className="text-3xl md:text-4xl font-bold mb-8 text-gray-900">Add Recipe from Photo</h1>
+        <div className="flex flex-wrap items-baseline justify-between gap-2 mb-8">
+          <h1 className="text-3xl md:text-4xl font-bold text-gray-900">Add Recipe from Photo</h1>
+          <p
+            className={`text-sm ${autosaveStatus === 'error' ? 'text-red-700' : 'text-gray-500'}`}
+            aria-live="polite"
+          >
+            {isRestoring ? 'Loading draft…' : AUTOSAVE_LABELS[autosaveStatus]}
+          </p>
+        </div>
+
+        {resumableDraft && pages.length === 0 && !title && (
+          <div className="mb-6 p-4 bg-blue-50 border border-blue-200 rounded-lg flex flex-col sm:flex-row sm:items-center gap-3">
+            <p className="flex-1 text-blue-900">
+              You have an unfinished recipe, <span className="font-medium">{resumableDraft.title || 'Untitled'}</span>,
+              last saved {new Date(resumableDraft.updatedAt).toLocaleString()}.
+            </p>
+            <div className="flex gap-3 items-center">
+              <button
+                onClick={() => restoreDraft(resumableDraft)}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-medium"
+              >
+                Continue it
+              </button>
+              <Link to="/drafts" className="text-sm text-blue-700 hover:text-blue-900">
+                All drafts
+              </Link>
+            </div>
+          </div>
+        )}
 
-        {error && (
+        {shownError && (
           <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
-            <p className="text-red-800 font-medium">{error.message}</p>
-            {error.correlationId && (
-              <p className="text-red-600 text-sm mt-1">Correlation ID: {error.correlationId}</p>
+            <p className="text-red-800 font-medium">{shownError.message}</p>
+            {shownError.correlationId && (
+              <p className="text-red-600 text-sm mt-1">Correlation ID: {shownError.correlationId}</p>
             )}
           </div>
         )}
 
-        {/* Step 1: Upload Image */}
+        {/* Step 1: Upload Images */}
         <div className="bg-white rounded-lg shadow-md p-6 mb-6">
-          <h2 className="text-xl font-semibold mb-4 text-gray-900">Step 1: Upload Recipe Photo</h2>
-          
-          <div className="space-y-4">
-            <div>
-              <label
-                htmlFor="image-upload"
-                className="block w-full px-4 py-8 border-2 border-dashed border-gray-300 rounded-lg text-center cursor-pointer hover:border-blue-500 hover:bg-blue-50 transition-colors"
-              >
-                {imagePreview ? (
-                  <div>
-                    <img
-                      src={imagePreview}
-                      alt="Preview"
-                      className="max-h-64 mx-auto mb-2 rounded"
-                    />
-                    <p className="text-sm text-gray-600">Click to change image</p>
-                  </div>
-                ) : (
-                  <div>
-                    <svg
-                      className="mx-auto h-12 w-12 text-gray-400"
-                      stroke="currentColor"
-                      fill="none"
-                      viewBox="0 0 48 48"
-                      aria-hidden="true"
-                    >
-                      <path
-                        d="M28 8H12a4 4 0 00-4 4v20m32-12v8m0 0v8a4 4 0 01-4 4H12a4 4 0 01-4-4v-4m32-4l-3.172-3.172a4 4 0 00-5.656 0L28 28M8 32l9.172-9.172a4 4 0 015.656 0L28 28m0 0l4 4m4-24h8m-4-4v8m-12 4h.02"
-                        strokeWidth={2}
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                      />
-                    </svg>
-                    <p className="mt-2 text-sm text-gray-600">
-                      Click to upload or drag and drop
-                    </p>
-                    <p className="text-xs text-gray-500">PNG, JPG up to 10MB</p>
-                  </div>
-                )}
-              </label>
-              <input
-                id="image-upload"
-                type="file"
-                accept="image/jpeg,image/png"
-                onChange={handleImageSelect}
-                className="hidden"
-              />
-            </div>
+          <h2 className="text-xl font-semibold mb-1 text-gray-900">Step 1: Upload Recipe Photos</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            Add one photo per page, e.g. the ingredients card and the method card, in reading order
+          </p>
 
-            {imageFile && !ocrComplete && (
-              <button
-                onClick={handleExtractText}
-                disabled={isProcessing}
-                className="w-full bg-blue-600 text-white py-3 px-4 rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed font-medium transition-colors"
-              >
-                {isProcessing ? 'Extracting Text...' : 'Extract Text from Image'}
-              </button>
-            )}
-          </div>
+          {editingPage ? (
+            <ImageEditor
+              key={editingPage.id}
+              file={editingPage.originalFile}
+              initialAdjustments={editingPage.adjustments ?? DEFAULT_ADJUSTMENTS}
+              isApplying={isApplyingEdit}
+              onApply={handleApplyEdit}
+              onCancel={() => setEditingPageId(null)}
+            />
+          ) : (
+            <div className="space-y-4">
+              {pages.length > 0 && (
+                <ol className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+                  {pages.map((page, index) => (
+                    <li key={page.id} className="border border-gray-200 rounded-lg overflow-hidden">
+                      <div className="relative">
+                        <img
+                          src={page.previewUrl}
+                          alt={`Page ${index + 1}`}
+                          className="h-32 w-full object-cover bg-gray-100"
+                        />
+                        <span className="absolute top-1 left-1 px-2 py-0.5 bg-black/60 text-white text-xs rounded">
+                          Page {index + 1}
+                        </span>
+                      </div>
+                      <div className="flex items-center justify-between gap-1 p-2">
+                        <span
+                          className={`text-xs font-medium ${
+                            page.status === 'done'
+                              ? 'text-green-700'
+                              : page.status === 'error'
+                                ? 'text-red-700'
+                                : 'text-gray-500'
+                          }`}
+                        >
+                          {page.status === 'done' && 'Text extracted'}
+                          {page.status === 'processing' && 'Extracting...'}
+                          {page.status === 'pending' && 'Not extracted'}
+                          {page.status === 'error' && 'Failed'}
+                        </span>
+                        <div className="flex gap-1">
+                          <button
+                            onClick={() => setEditingPageId(page.id)}
+                            disabled={isProcessing}
+                            className="w-7 h-7 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 disabled:opacity-40 text-sm"
+                            aria-label={`Crop, rotate or enhance page ${index + 1}`}
+                            title="Crop, rotate or enhance"
+                          >
+                            ✎
+                          </button>
+                          <button
+                            onClick={() => handleMovePage(index, -1)}
+                            disabled={index === 0 || isProcessing}
+                            className="w-7 h-7 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 disabled:opacity-40 text-sm"
+                            aria-label={`Move page ${index + 1} earlier`}
+                          >
+                            ←
+                          </button>
+                          <button
+                            onClick={() => handleMovePage(index, 1)}
+                            disabled={index === pages.length - 1 || isProcessing}
+                            className="w-7 h-7 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 disabled:opacity-40 text-sm"
+                            aria-label={`Move page ${index + 1} later`}
+                          >
+                            →
+                          </button>
+                          <button
+                            onClick={() => handleRemovePage(page.id)}
+                            disabled={isProcessing}
+                            className="w-7 h-7 bg-red-50 text-red-700 rounded hover:bg-red-100 disabled:opacity-40 text-sm"
+                            aria-label={`Remove page ${index + 1}`}
+                          >
+                            ×
+                          </button>
+                        </div>
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+              )}
+
+              {pages.length < MAX_PAGES && (
+                <div>
+                  <label
+                    htmlFor="image-upload"
+                    className={`block w-full px-4 border-2 border-dashed border-gray-300 rounded-lg text-center cursor-pointer hover:border-blue-500 hover:bg-blue-50 transition-colors ${
+                      pages.length > 0 ? 'py-4' : 'py-8'
+                    }`}
+                  >
+                    {pages.length > 0 ? (
+                      <p className="text-sm text-gray-600">+ Add another page</p>
+                    ) : (
+                      <div>
+                        <svg
+                          className="mx-auto h-12 w-12 text-gray-400"
+                          stroke="currentColor"
+                          fill="none"
+                          viewBox="0 0 48 48"
+                          aria-hidden="true"
+                        >
+                          <path
+                            d="M28 8H12a4 4 0 00-4 4v20m32-12v8m0 0v8a4 4 0 01-4 4H12a4 4 0 01-4-4v-4m32-4l-3.172-3.172a4 4 0 00-5.656 0L28 28M8 32l9.172-9.172a4 4 0 015.656 0L28 28m0 0l4 4m4-24h8m-4-4v8m-12 4h.02"
+                            strokeWidth={2}
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                          />
+                        </svg>
+                        <p className="mt-2 text-sm text-gray-600">
+                          Click to upload one or more pages
+                        </p>
+                        <p className="text-xs text-gray-500">PNG or JPG. Large photos are downscaled before upload</p>
+                      </div>
+                    )}
+                  </label>
+                  <input
+                    id="image-upload"
+                    type="file"
+                    accept="image/jpeg,image/png"
+                    multiple
+                    onChange={handleImageSelect}
+                    disabled={isProcessing}
+                    className="hidden"
+                  />
+                </div>
+              )}
+
+              {pages.length > 0 && (
+                <div>
+                  <label htmlFor="ocr-language" className="block text-sm font-medium text-gray-700 mb-2">
+                    Recipe language
+                  </label>
+                  <select
+                    id="ocr-language"
+                    value={ocrLanguage}
+                    onChange={(e) => handleLanguageChange(e.target.value as OcrLanguage)}
+                    disabled={isProcessing}
+                    className="w-full sm:w-64 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    {OCR_LANGUAGE_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="mt-1 text-xs text-gray-500">
+                    Picking the language the recipe is written in improves recognition of letters like å, ä and ö
+                  </p>
+                </div>
+              )}
+
+              {pagesToExtract > 0 && (
+                <button
+                  onClick={handleExtractText}
+                  disabled={isProcessing}
+                  className="w-full bg-blue-600 text-white py-3 px-4 rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed font-medium transition-colors"
+                >
+                  {isProcessing
+                    ? 'Extracting Text...'
+                    : pagesToExtract === 1
+                      ? 'Extract Text from Image'
+                      : `Extract Text from ${pagesToExtract} Images`}
+                </button>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Step 2: Review & Edit Text */}
@@ -200,16 +570,40 @@ export default function AddRecipe() {
                 <label htmlFor="text" className="block text-sm font-medium text-gray-700 mb-2">
                   Recipe Text *
                 </label>
-                <textarea
+                <OcrReviewEditor
                   id="text"
-                  value={ocrText}
-                  onChange={(e) => setOcrText(e.target.value)}
-                  rows={12}
+                  value={recipeText}
+                  onChange={setEditedText}
+                  pages={pages}
                   placeholder="Edit the extracted text..."
-                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono text-sm"
                 />
                 <p className="text-xs text-gray-500 mt-1">
-                  Edit the text above to fix any OCR errors
+                  {pages.length > 1
+                    ? 'Text from all pages is combined in page order. Edit it to fix any OCR errors'
+                    : 'Edit the text above to fix any OCR errors'}
+                </p>
+                {editedText !== null && editedText !== combinedText && (
+                  <button
+                    type="button"
+                    onClick={() => setEditedText(null)}
+                    className="mt-2 text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    Discard edits and recombine text from pages
+                  </button>
+                )}
+              </div>
+
+              <div>
+                <RecipeSectionsEditor
+                  idPrefix="new"
+                  value={sections}
+                  onChange={setEditedSections}
+                  onSplitFromText={editedSections ? () => setEditedSections(null) : undefined}
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  {editedSections
+                    ? 'Sections no longer follow the recipe text above'
+                    : 'Sections are split from the recipe text above until you change them'}
                 </p>
               </div>
 
@@ -217,11 +611,12 @@ export default function AddRecipe() {
                 <label htmlFor="tags" className="block text-sm font-medium text-gray-700 mb-2">
                   Tags (optional)
                 </label>
-                <input
+                <TagAutocomplete
                   id="tags"
-                  type="text"
+                  multiple
                   value={tagsInput}
-                  onChange={(e) => setTagsInput(e.target.value)}
+                  onChange={setTagsInput}
+                  suggestions={tagSuggestions}
                   placeholder="dessert, cookies, baking (comma-separated)"
                   className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 />
@@ -0,0 +1,237 @@
+import { useState } from 'react'
+import { Link, useNavigate } from 'react-router-dom'
+import { downloadBackup, restoreBackup, describeError, type ErrorState } from '../services/api'
+import { invalidateQueries } from '../services/queryCache'
+import { saveFile } from '../utils/download'
+import type { RestoredRecipe, RestoreMode, RestoreReport } from '../types'
+
+const MODES: { value: RestoreMode; label: string; description: string }[] = [
+  { value: 'skip', label: 'Skip', description: 'Keep the recipe already in the collection.' },
+  { value: 'overwrite', label: 'Overwrite', description: 'Replace it with the copy from the backup.' },
+  { value: 'duplicate', label: 'Duplicate', description: 'Keep both; the backup copy is added as a new recipe.' },
+]
+
+// Keyed by the action the API reports; an action this version doesn't know is shown as it is
+const ACTION_LABELS: Partial<Record<RestoredRecipe['action'], { planned: string; done: string }>> = {
+  created: { planned: 'Will be added', done: 'Added' },
+  overwritten: { planned: 'Will replace the existing recipe', done: 'Replaced the existing recipe' },
+  skipped: { planned: 'Already exists, will be skipped', done: 'Already existed, skipped' },
+  duplicated: { planned: 'Already exists, will be added as a copy', done: 'Added as a copy' },
+}
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`
+
+export default function Backup() {
+  const navigate = useNavigate()
+  const [isExporting, setIsExporting] = useState(false)
+  const [archive, setArchive] = useState<File | null>(null)
+  const [mode, setMode] = useState<RestoreMode>('skip')
+  const [report, setReport] = useState<RestoreReport | null>(null)
+  const [isRestoring, setIsRestoring] = useState(false)
+  const [error, setError] = useState<ErrorState | null>(null)
+
+  const showError = (err: unknown, fallback: string) => setError(describeError(err, fallback))
+
+  const handleExport = async () => {
+    setIsExporting(true)
+    setError(null)
+
+    try {
+      const file = await downloadBackup()
+      saveFile(file, file.name)
+    } catch (err) {
+      showError(err, 'Failed to create the backup. Please try again.')
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  // The dry run always comes first, so nothing is restored before the user has seen what will happen
+  const handleRestore = async (dryRun: boolean) => {
+    if (!archive) return
+    setIsRestoring(true)
+    setError(null)
+
+    try {
+      setReport(await restoreBackup(archive, mode, dryRun))
+      // Any recipe may have been created or overwritten
+      if (!dryRun) invalidateQueries()
+    } catch (err) {
+      showError(err, 'Failed to restore the backup. Please try again.')
+    } finally {
+      setIsRestoring(false)
+    }
+  }
+
+  const selectArchive = (file: File | null) => {
+    setArchive(file)
+    setReport(null)
+    setError(null)
+  }
+
+  const selectMode = (value: RestoreMode) => {
+    setMode(value)
+    setReport(null)
+  }
+
+  const changes = report ? report.created + report.overwritten + report.duplicated : 0
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="container mx-auto px-4 py-8 max-w-3xl">
+        <div className="mb-6">
+          <button
+            onClick={() => navigate('/')}
+            className="text-blue-600 hover:text-blue-800 flex items-center gap-2"
+          >
+            ← Back to Home
+          </button>
+        </div>
+
+        <h1 className="text-3xl md:text-4xl font-bold mb-2 text-gray-900">Backup & Restore</h1>
+        <p className="text-gray-600 mb-8">
+          Download the whole collection as one ZIP file, with every recipe and its original photos, or restore such a
+          file here or on another installation.
+        </p>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-red-800 font-medium">{error.message}</p>
+            {error.correlationId && (
+              <p className="text-red-600 text-sm mt-1">Correlation ID: {error.correlationId}</p>
+            )}
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+          <h2 className="text-xl font-semibold mb-2 text-gray-900">Back Up</h2>
+          <p className="text-sm text-gray-600 mb-4">Drafts are not included; finish or discard them first.</p>
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed font-medium transition-colors"
+          >
+            {isExporting ? 'Preparing backup...' : 'Download Backup'}
+          </button>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+          <h2 className="text-xl font-semibold mb-4 text-gray-900">Restore</h2>
+
+          <div className="space-y-4">
+            <div>
+              <label htmlFor="backup-file" className="block text-sm font-medium text-gray-700 mb-2">
+                Backup file
+              </label>
+              <input
+                id="backup-file"
+                type="file"
+                accept=".zip,application/zip"
+                onChange={(e) => selectArchive(e.target.files?.[0] ?? null)}
+                disabled={isRestoring}
+                className="block w-full text-sm text-gray-700 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+              />
+            </div>
+
+            <fieldset>
+              <legend className="block text-sm font-medium text-gray-700 mb-2">
+                When a recipe from the backup is already in the collection
+              </legend>
+              <div className="space-y-2">
+                {MODES.map(option => (
+                  <label key={option.value} className="flex items-start gap-2 text-sm">
+                    <input
+                      type="radio"
+                      name="restore-mode"
+                      value={option.value}
+                      checked={mode === option.value}
+                      onChange={() => selectMode(option.value)}
+                      disabled={isRestoring}
+                      className="mt-0.5 text-blue-600 focus:ring-blue-500"
+                    />
+                    <span>
+                      <span className="font-medium text-gray-900">{option.label}</span>{' '}
+                      <span className="text-gray-600">{option.description}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+
+            {!report || !report.dryRun ? (
+              <button
+                onClick={() => handleRestore(true)}
+                disabled={!archive || isRestoring}
+                className="bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed font-medium transition-colors"
+              >
+                {isRestoring ? 'Checking...' : 'Check Backup'}
+              </button>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                <button
+                  onClick={() => handleRestore(false)}
+                  disabled={isRestoring || changes === 0}
+                  className="bg-green-600 text-white py-2 px-4 rounded-lg hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed font-medium transition-colors"
+                >
+                  {isRestoring ? 'Restoring...' : `Restore ${plural(changes, 'Recipe')}`}
+                </button>
+                <button
+                  onClick={() => setReport(null)}
+                  disabled={isRestoring}
+                  className="bg-gray-100 text-gray-700 py-2 px-4 rounded-lg hover:bg-gray-200 font-medium transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+            )}
+          </div>
+
+          {report && (
+            <div className="mt-6 border-t border-gray-100 pt-6">
+              <h3 className="font-semibold text-gray-900 mb-1">
+                {report.dryRun ? 'What the restore will do' : 'Restore complete'}
+              </h3>
+              <p className="text-sm text-gray-600 mb-4">
+                {[
+                  report.created > 0 && plural(report.created, 'new recipe'),
+                  report.overwritten > 0 && `${report.overwritten} replaced`,
+                  report.duplicated > 0 && `${report.duplicated} added as copies`,
+                  report.skipped > 0 && `${report.skipped} skipped`,
+                ]
+                  .filter(Boolean)
+                  .join(', ') || 'No recipes found'}
+                {' · '}
+                {plural(report.imageCount, 'photo')}
+              </p>
+
+              {report.warnings.length > 0 && (
+                <ul className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-900 space-y-1">
+                  {report.warnings.map(warning => (
+                    <li key={warning}>{warning}</li>
+                  ))}
+                </ul>
+              )}
+
+              <ul className="divide-y divide-gray-100 text-sm max-h-96 overflow-y-auto">
+                {report.recipes.map(recipe => (
+                  <li key={recipe.id} className="py-2 flex items-center justify-between gap-4">
+                    {!report.dryRun && recipe.newId ? (
+                      <Link to={`/recipes/${recipe.newId}`} className="text-blue-600 hover:text-blue-800 truncate">
+                        {recipe.title}
+                      </Link>
+                    ) : (
+                      <span className="text-gray-900 truncate">{recipe.title}</span>
+                    )}
+                    <span className={recipe.action === 'skipped' ? 'text-gray-500' : 'text-gray-700'}>
+                      {ACTION_LABELS[recipe.action]?.[report.dryRun ? 'planned' : 'done'] ?? recipe.action}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,141 @@
+import { useState, useEffect } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { getDrafts, deleteDraft, ApiError } from '../services/api'
+import type { LocalDraft } from '../services/offlineStore'
+import RecipeThumbnail from '../components/RecipeThumbnail'
+
+export default function Drafts() {
+  const navigate = useNavigate()
+  const [drafts, setDrafts] = useState<LocalDraft[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<{ message: string; correlationId?: string } | null>(null)
+  const [confirmDiscardId, setConfirmDiscardId] = useState<string | null>(null)
+  const [isDiscarding, setIsDiscarding] = useState(false)
+
+  useEffect(() => {
+    const loadDrafts = async () => {
+      try {
+        setDrafts(await getDrafts())
+      } catch (err) {
+        if (err instanceof ApiError) {
+          setError({ message: err.message, correlationId: err.correlationId })
+        } else {
+          setError({ message: 'Failed to load drafts. Please try again.' })
+        }
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadDrafts()
+  }, [])
+
+  const handleDiscard = async (draft: LocalDraft) => {
+    setIsDiscarding(true)
+    setError(null)
+
+    try {
+      await deleteDraft(draft)
+      setDrafts(current => current.filter(d => d.id !== draft.id))
+      setConfirmDiscardId(null)
+    } catch (err) {
+      if (err instanceof ApiError) {
+        setError({ message: err.message, correlationId: err.correlationId })
+      } else {
+        setError({ message: 'Failed to discard draft. Please try again.' })
+      }
+    } finally {
+      setIsDiscarding(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="container mx-auto px-4 py-8 max-w-3xl">
+        <div className="mb-6">
+          <button
+            onClick={() => navigate('/')}
+            className="text-blue-600 hover:text-blue-800 flex items-center gap-2"
+          >
+            ← Back to Home
+          </button>
+        </div>
+
+        <h1 className="text-3xl md:text-4xl font-bold mb-2 text-gray-900">Drafts</h1>
+        <p className="text-gray-600 mb-8">
+          Recipes you started adding but haven't saved yet. They are kept as you work, so you can pick up where you left off.
+        </p>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-red-800 font-medium">{error.message}</p>
+            {error.correlationId && (
+              <p className="text-red-600 text-sm mt-1">Correlation ID: {error.correlationId}</p>
+            )}
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow-md divide-y divide-gray-100">
+          {isLoading && <p className="p-6 text-gray-500">Loading drafts...</p>}
+
+          {!isLoading && drafts.length === 0 && !error && (
+            <p className="p-6 text-gray-500">No unfinished recipes.</p>
+          )}
+
+          {drafts.map(draft => {
+            const title = draft.title.trim() || 'Untitled recipe'
+            const coverRef = draft.pages.find(page => page.imageRef)?.imageRef ?? ''
+            return (
+              <div key={draft.id} className="p-4 flex flex-col sm:flex-row sm:items-center gap-4">
+                <div className="w-full sm:w-28 shrink-0 rounded overflow-hidden">
+                  <RecipeThumbnail imageRef={coverRef} title={title} />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-gray-900 truncate">{title}</p>
+                  <p className="text-sm text-gray-500">
+                    {draft.pages.length} {draft.pages.length === 1 ? 'page' : 'pages'} · Last saved{' '}
+                    {new Date(draft.updatedAt).toLocaleString()}
+                  </p>
+                </div>
+                {confirmDiscardId === draft.id ? (
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm text-red-700">Throw away this draft?</span>
+                    <button
+                      onClick={() => handleDiscard(draft)}
+                      disabled={isDiscarding}
+                      className="px-3 py-1.5 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 text-sm font-medium"
+                    >
+                      {isDiscarding ? 'Discarding...' : 'Discard'}
+                    </button>
+                    <button
+                      onClick={() => setConfirmDiscardId(null)}
+                      disabled={isDiscarding}
+                      className="px-3 py-1.5 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 text-sm font-medium"
+                    >
+                      Keep
+                    </button>
+                  </div>
+                ) : (
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => navigate(`/add-recipe?draft=${encodeURIComponent(draft.id)}`)}
+                      className="px-3 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-medium transition-colors"
+                    >
+                      Continue
+                    </button>
+                    <button
+                      onClick={() => setConfirmDiscardId(draft.id)}
+                      className="px-3 py-1.5 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 text-sm font-medium transition-colors"
+                    >
+                      Discard
+                    </button>
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      </div>
+    </div>
+  )
+}
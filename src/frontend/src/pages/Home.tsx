@@ -1,47 +1,133 @@
-import { useState, useEffect } from 'react'
-import { useNavigate } from 'react-router-dom'
-import { searchRecipes, ApiError } from '../services/api'
-import type { RecipeSummary } from '../types'
+import { useState, useMemo } from 'react'
+import { Link, useNavigate, useSearchParams } from 'react-router-dom'
+import { describeError } from '../services/api'
+import { fetchQuery } from '../services/queryCache'
+import { draftsQuery, recipeQuery, recipeSearchQuery, tagsQuery } from '../services/queries'
+import { useDebouncedValue } from '../hooks/useDebouncedValue'
+import { useQuery } from '../hooks/useQuery'
+import { useShoppingList } from '../hooks/useShoppingList'
+import { toShoppingListRecipe } from '../utils/shoppingList'
+import type { RecipeSortOrder, TagMatchMode } from '../types'
+import RecipeThumbnail from '../components/RecipeThumbnail'
+import TagFacets from '../components/TagFacets'
+
+const PAGE_SIZE = 24
+const SEARCH_DEBOUNCE_MS = 300
+
+const SORT_OPTIONS: { value: RecipeSortOrder; label: string }[] = [
+  { value: 'newest', label: 'Newest first' },
+  { value: 'oldest', label: 'Oldest first' },
+  { value: 'title', label: 'Title A–Z' },
+]
+
+const parseSort = (value: string | null): RecipeSortOrder =>
+  SORT_OPTIONS.find(option => option.value === value)?.value ?? 'newest'
+
+const parsePage = (value: string | null): number => Math.max(1, Number.parseInt(value ?? '', 10) || 1)
 
 export default function Home() {
   const navigate = useNavigate()
-  const [query, setQuery] = useState('')
-  const [tag, setTag] = useState('')
-  const [recipes, setRecipes] = useState<RecipeSummary[]>([])
-  const [isLoading, setIsLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
+  const [searchParams, setSearchParams] = useSearchParams()
+  const shoppingList = useShoppingList()
+  const [addingToListId, setAddingToListId] = useState<string | null>(null)
+  const [shoppingListError, setShoppingListError] = useState<string | null>(null)
+
+  // The URL is the source of truth for the search, so it survives reloads and can be shared
+  const query = searchParams.get('query') ?? ''
+  // Keyed on the joined string so typing in the query box doesn't produce a "new" tag list
+  const tagsKey = searchParams.getAll('tag').join(',')
+  const selectedTags = useMemo(() => (tagsKey ? tagsKey.split(',') : []), [tagsKey])
+  const tagMatch: TagMatchMode = searchParams.get('match') === 'any' ? 'any' : 'all'
+  const page = parsePage(searchParams.get('page'))
+  const sort = parseSort(searchParams.get('sort'))
+  const homeUrl = searchParams.toString() ? `/?${searchParams.toString()}` : '/'
+  const debouncedQuery = useDebouncedValue(query.trim(), SEARCH_DEBOUNCE_MS)
+
+  // The previous results stay on screen, dimmed, while the next search loads
+  const search = useQuery(
+    recipeSearchQuery(debouncedQuery, selectedTags, { tagMatch, page, pageSize: PAGE_SIZE, sort }),
+    { keepPreviousData: true, errorMessage: 'Failed to load recipes. Please try again.' }
+  )
+  const tags = useQuery(tagsQuery, { errorMessage: 'Failed to load tags.' })
+  // Unfinished imports are offered for resuming; failing to list them just hides the link.
+  // Drafts are saved without going through the cache, so they are always checked again.
+  const drafts = useQuery(draftsQuery, { staleTimeMs: 0 })
+  const results = search.data
+  const recipes = results?.recipes ?? []
+  const totalCount = results?.totalCount ?? 0
+  const totalPages = results?.totalPages ?? 0
+  const draftCount = drafts.data?.length ?? 0
+
+  // Empty values and defaults (page 1, newest first) are left out of the URL to keep links short
+  const updateSearchParams = (updates: Record<string, string | string[] | null>, replace = false) => {
+    setSearchParams(current => {
+      const next = new URLSearchParams(current)
+      for (const [key, value] of Object.entries(updates)) {
+        next.delete(key)
+        if (Array.isArray(value)) {
+          value.forEach(item => next.append(key, item))
+        } else if (value !== null) {
+          next.set(key, value)
+        }
+      }
+      return next
+    }, { replace })
+  }
+
+  // Typing replaces the current history entry instead of pushing one per keystroke
+  const handleQueryInput = (value: string) => {
+    updateSearchParams({ query: value || null, page: null }, true)
+  }
 
-  useEffect(() => {
-    loadRecipes()
-  }, [])
+  const handleClearSearch = () => {
+    updateSearchParams({ query: null, page: null })
+  }
+
+  const onShoppingList = new Set(shoppingList.recipes.map(recipe => recipe.id))
 
-  const loadRecipes = async (searchQuery?: string, searchTag?: string) => {
-    setIsLoading(true)
-    setError(null)
+  // The search results don't carry ingredients, so the recipe is loaded when it is added
+  const handleToggleShoppingList = async (recipeId: string) => {
+    if (onShoppingList.has(recipeId)) {
+      shoppingList.removeRecipe(recipeId)
+      return
+    }
+
+    setAddingToListId(recipeId)
+    setShoppingListError(null)
 
     try {
-      const results = await searchRecipes(searchQuery, searchTag)
-      setRecipes(results)
+      shoppingList.addRecipe(toShoppingListRecipe(await fetchQuery(recipeQuery(recipeId))))
     } catch (err) {
-      if (err instanceof ApiError) {
-        setError(err.message)
-      } else {
-        setError('Failed to load recipes. Please try again.')
-      }
+      setShoppingListError(
+        describeError(err, 'Failed to add the recipe to the shopping list. Please try again.').message
+      )
     } finally {
-      setIsLoading(false)
+      setAddingToListId(null)
     }
   }
 
-  const handleSearch = (e: React.FormEvent) => {
-    e.preventDefault()
-    loadRecipes(query, tag)
+  const handleToggleTag = (tag: string) => {
+    const nextTags = selectedTags.includes(tag)
+      ? selectedTags.filter(t => t !== tag)
+      : [...selectedTags, tag]
+    updateSearchParams({ tag: nextTags, page: null })
   }
 
-  const handleClearSearch = () => {
-    setQuery('')
-    setTag('')
-    loadRecipes()
+  const handleMatchModeChange = (mode: TagMatchMode) => {
+    updateSearchParams({ match: mode === 'all' ? null : mode, page: null })
+  }
+
+  const handleClearTags = () => {
+    updateSearchParams({ tag: null, match: null, page: null })
+  }
+
+  const handleSortChange = (value: RecipeSortOrder) => {
+    updateSearchParams({ sort: value === 'newest' ? null : value, page: null })
+  }
+
+  const goToPage = (nextPage: number) => {
+    updateSearchParams({ page: nextPage === 1 ? null : String(nextPage) })
+    window.scrollTo({ top: 0, behavior: 'smooth' })
   }
 
   const formatDate = (dateString: string) => {
@@ -72,47 +158,53 @@ export default function Home() {
             <span className="text-xl">+</span>
             Add Recipe
           </button>
+          <p className="mt-3 text-sm text-gray-600">
+            Have recipes from the web or in text files?{' '}
+            <Link to="/import" className="text-blue-600 hover:text-blue-800 font-medium">
+              Import them
+            </Link>
+          </p>
+          {shoppingList.recipes.length > 0 && (
+            <p className="mt-3 text-sm text-gray-600">
+              {shoppingList.recipes.length} {shoppingList.recipes.length === 1 ? 'recipe' : 'recipes'} on your shopping
+              list.{' '}
+              <Link to="/shopping-list" className="text-blue-600 hover:text-blue-800 font-medium">
+                View shopping list
+              </Link>
+            </p>
+          )}
+          {shoppingListError && <p className="mt-3 text-sm text-red-700">{shoppingListError}</p>}
+          {draftCount > 0 && (
+            <p className="mt-3 text-sm text-gray-600">
+              You have {draftCount} unfinished {draftCount === 1 ? 'recipe' : 'recipes'}.{' '}
+              <Link to="/drafts" className="text-blue-600 hover:text-blue-800 font-medium">
+                Continue where you left off
+              </Link>
+            </p>
+          )}
         </div>
 
         {/* Search Form */}
         <div className="bg-white rounded-lg shadow-md p-6 mb-8">
-          <form onSubmit={handleSearch} className="space-y-4">
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div>
-                <label htmlFor="query" className="block text-sm font-medium text-gray-700 mb-2">
-                  Search by keyword
-                </label>
-                <input
-                  id="query"
-                  type="text"
-                  value={query}
-                  onChange={(e) => setQuery(e.target.value)}
-                  placeholder="e.g., chocolate, pasta, chicken..."
-                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                />
-              </div>
-              <div>
-                <label htmlFor="tag" className="block text-sm font-medium text-gray-700 mb-2">
-                  Filter by tag
-                </label>
-                <input
-                  id="tag"
-                  type="text"
-                  value={tag}
-                  onChange={(e) => setTag(e.target.value)}
-                  placeholder="e.g., dessert, dinner, vegetarian..."
-                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                />
-              </div>
+          <form onSubmit={(e) => e.preventDefault()} className="space-y-4">
+            <div>
+              <label htmlFor="query" className="block text-sm font-medium text-gray-700 mb-2">
+                Search by keyword
+              </label>
+              <input
+                id="query"
+                type="text"
+                value={query}
+                onChange={(e) => handleQueryInput(e.target.value)}
+                placeholder="e.g., chocolate, pasta, chicken..."
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
             </div>
-            <div className="flex flex-col sm:flex-row gap-3">
-              <button
-                type="submit"
-                className="flex-1 sm:flex-none bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 font-medium transition-colors"
-              >
-                Search
-              </button>
-              {(query || tag) && (
+            <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+              <p className="flex-1 text-sm text-gray-500">
+                {search.isPreviousData ? 'Searching...' : 'Results update as you type'}
+              </p>
+              {query && (
                 <button
                   type="button"
                   onClick={handleClearSearch}
@@ -125,77 +217,184 @@ export default function Home() {
           </form>
         </div>
 
-        {/* Error State */}
-        {error && (
-          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-8">
-            <p className="text-red-700">{error}</p>
-            <button
-              onClick={() => loadRecipes()}
-              className="mt-2 text-red-600 hover:text-red-800 underline"
-            >
-              Retry
-            </button>
-          </div>
-        )}
-
-        {/* Loading State */}
-        {isLoading && (
-          <div className="text-center py-12">
-            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
-            <p className="text-gray-600">Loading recipes...</p>
-          </div>
-        )}
+        <div className="grid grid-cols-1 lg:grid-cols-[16rem_minmax(0,1fr)] gap-8 items-start">
+          {/* Tag Facets */}
+          <TagFacets
+            tags={tags.data ?? []}
+            selectedTags={selectedTags}
+            matchMode={tagMatch}
+            isLoading={tags.isLoading}
+            error={tags.error?.message ?? null}
+            onToggleTag={handleToggleTag}
+            onMatchModeChange={handleMatchModeChange}
+            onClearTags={handleClearTags}
+          />
 
-        {/* Results */}
-        {!isLoading && !error && (
           <div>
-            <div className="mb-4 text-gray-600">
-              {recipes.length === 0 ? (
-                <p>No recipes found. {query || tag ? 'Try a different search.' : 'Add your first recipe to get started!'}</p>
-              ) : (
-                <p>{recipes.length} recipe{recipes.length !== 1 ? 's' : ''} found</p>
-              )}
-            </div>
+            {/* Error State */}
+            {search.error && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-8">
+                <p className="text-red-700">{search.error.message}</p>
+                <button
+                  onClick={search.refetch}
+                  className="mt-2 text-red-600 hover:text-red-800 underline"
+                >
+                  Retry
+                </button>
+              </div>
+            )}
+
+            {/* Loading State */}
+            {search.isLoading && (
+              <div className="text-center py-12">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+                <p className="text-gray-600">Loading recipes...</p>
+              </div>
+            )}
+
+            {/* Results */}
+            {results && !search.error && (
+              <div className={search.isPreviousData ? 'opacity-60 transition-opacity' : 'transition-opacity'}>
+                <div className="mb-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 text-gray-600">
+                  {totalCount === 0 ? (
+                    <p>No recipes found. {query || selectedTags.length > 0 ? 'Try a different search.' : 'Add your first recipe to get started!'}</p>
+                  ) : (
+                    <p>{totalCount} recipe{totalCount !== 1 ? 's' : ''} found</p>
+                  )}
+                  {totalCount > 0 && (
+                    <label className="flex items-center gap-2 text-sm">
+                      Sort by
+                      <select
+                        value={sort}
+                        onChange={(e) => handleSortChange(e.target.value as RecipeSortOrder)}
+                        className="px-3 py-1.5 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      >
+                        {SORT_OPTIONS.map((option) => (
+                          <option key={option.value} value={option.value}>
+                            {option.label}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  )}
+                </div>
 
-            {recipes.length > 0 && (
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                {recipes.map((recipe) => (
-                  <div
-                    key={recipe.id}
-                    onClick={() => navigate(`/recipes/${recipe.id}`)}
-                    className="bg-white rounded-lg shadow-md hover:shadow-lg transition-shadow cursor-pointer overflow-hidden"
-                  >
-                    <div className="p-6">
-                      <h3 className="text-xl font-semibold mb-2 text-gray-900 line-clamp-2">
-                        {recipe.title}
-                      </h3>
-                      <p className="text-sm text-gray-500 mb-3">
-                        {formatDate(recipe.createdAt)}
-                      </p>
-                      {recipe.tags.length > 0 && (
-                        <div className="flex flex-wrap gap-2">
-                          {recipe.tags.slice(0, 3).map((t) => (
-                            <span
-                              key={t}
-                              className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800"
-                            >
-                              {t}
-                            </span>
-                          ))}
-                          {recipe.tags.length > 3 && (
-                            <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600">
-                              +{recipe.tags.length - 3} more
-                            </span>
+                {totalCount > 0 && recipes.length === 0 && (
+                  <div className="text-center py-8 text-gray-600">
+                    <p className="mb-2">This page is empty.</p>
+                    <button
+                      onClick={() => goToPage(1)}
+                      className="text-blue-600 hover:text-blue-800 underline"
+                    >
+                      Go to the first page
+                    </button>
+                  </div>
+                )}
+
+                {recipes.length > 0 && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+                    {recipes.map((recipe) => (
+                      <div
+                        key={recipe.id}
+                        onClick={() => navigate(`/recipes/${recipe.id}`, { state: { from: homeUrl } })}
+                        className="relative bg-white rounded-lg shadow-md hover:shadow-lg transition-shadow cursor-pointer overflow-hidden"
+                      >
+                        <RecipeThumbnail imageRef={recipe.imageRef} title={recipe.title} />
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            handleToggleShoppingList(recipe.id)
+                          }}
+                          disabled={addingToListId === recipe.id}
+                          aria-pressed={onShoppingList.has(recipe.id)}
+                          title={onShoppingList.has(recipe.id) ? 'Remove from the shopping list' : 'Add to the shopping list'}
+                          className={`absolute top-3 right-3 px-2.5 py-1 rounded-full text-xs font-medium shadow transition-colors disabled:opacity-60 ${
+                            onShoppingList.has(recipe.id)
+                              ? 'bg-green-600 text-white hover:bg-green-700'
+                              : 'bg-white/90 text-gray-700 hover:bg-white'
+                          }`}
+                        >
+                          {addingToListId === recipe.id ? 'Adding...' : onShoppingList.has(recipe.id) ? '✓ On list' : '+ List'}
+                        </button>
+                        <div className="p-6">
+                          <h3 className="text-xl font-semibold mb-2 text-gray-900 line-clamp-2">
+                            {recipe.title}
+                          </h3>
+                          <p className="text-sm text-gray-500 mb-3">
+                            {formatDate(recipe.createdAt)}
+                          </p>
+                          {recipe.tags.length > 0 && (
+                            <div className="flex flex-wrap gap-2">
+                              {recipe.tags.slice(0, 3).map((t) => (
+                                <button
+                                  key={t}
+                                  onClick={(e) => {
+                                    e.stopPropagation()
+                                    handleToggleTag(t)
+                                  }}
+                                  title={selectedTags.includes(t) ? `Remove filter "${t}"` : `Filter by "${t}"`}
+                                  className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium transition-colors ${
+                                    selectedTags.includes(t)
+                                      ? 'bg-blue-600 text-white hover:bg-blue-700'
+                                      : 'bg-blue-100 text-blue-800 hover:bg-blue-200'
+                                  }`}
+                                >
+                                  {t}
+                                </button>
+                              ))}
+                              {recipe.tags.length > 3 && (
+                                <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600">
+                                  +{recipe.tags.length - 3} more
+                                </span>
+                              )}
+                            </div>
                           )}
                         </div>
-                      )}
-                    </div>
+                      </div>
+                    ))}
                   </div>
-                ))}
+                )}
+
+                {/* Pagination */}
+                {totalPages > 1 && (
+                  <nav className="mt-8 flex items-center justify-center gap-4" aria-label="Pagination">
+                    <button
+                      onClick={() => goToPage(page - 1)}
+                      disabled={page <= 1}
+                      className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed font-medium transition-colors"
+                    >
+                      ← Previous
+                    </button>
+                    <span className="text-sm text-gray-600">
+                      Page {page} of {totalPages}
+                    </span>
+                    <button
+                      onClick={() => goToPage(page + 1)}
+                      disabled={page >= totalPages}
+                      className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed font-medium transition-colors"
+                    >
+                      Next →
+                    </button>
+                  </nav>
+                )}
               </div>
             )}
           </div>
-        )}
+        </div>
+
+        <footer className="mt-12 text-center text-sm">
+          <Link to="/planner" className="text-gray-500 hover:text-gray-700">
+            Plan your week
+          </Link>
+          <span className="text-gray-300"> · </span>
+          <Link to="/backup" className="text-gray-500 hover:text-gray-700">
+            Back up or restore your collection
+          </Link>
+          <span className="text-gray-300"> · </span>
+          <Link to="/sharing" className="text-gray-500 hover:text-gray-700">
+            Share with your household or friends
+          </Link>
+        </footer>
       </div>
     </div>
   )
@@ -0,0 +1,356 @@
+import { useState } from 'react'
+import { Link, useNavigate } from 'react-router-dom'
+import { createRecipe, describeError } from '../services/api'
+import { invalidateRecipeLists } from '../services/queries'
+import { useTagSuggestions } from '../hooks/useTagSuggestions'
+import { parseTagList } from '../utils/tags'
+import { draftToRequestFields, type RecipeSectionsDraft } from '../utils/recipeSections'
+import {
+  importFromHtml,
+  importFromJsonLd,
+  importFromText,
+  RecipeImportError,
+  type ImportSource,
+} from '../utils/recipeImport'
+import type { CreateRecipeRequest } from '../types'
+import TagAutocomplete from '../components/TagAutocomplete'
+import RecipeSectionsEditor from '../components/RecipeSectionsEditor'
+
+const SOURCES: { value: ImportSource; label: string; hint: string }[] = [
+  {
+    value: 'html',
+    label: 'Web page',
+    hint: "Paste the page's HTML source (View Source, or a saved .html file opened in a text editor).",
+  },
+  {
+    value: 'jsonld',
+    label: 'JSON-LD',
+    hint: 'Paste a schema.org Recipe block, usually found in a <script type="application/ld+json"> tag.',
+  },
+  {
+    value: 'text',
+    label: 'Text or Markdown files',
+    hint: 'Choose .txt or .md files, one recipe per file. Headings such as "Ingredients" and "Method" are recognised.',
+  },
+]
+
+interface ImportCandidate {
+  key: string
+  /** Where the recipe came from, shown so several imports can be told apart */
+  origin: string
+  selected: boolean
+  title: string
+  tagsInput: string
+  sections: RecipeSectionsDraft
+  request: CreateRecipeRequest
+}
+
+let nextCandidateId = 1
+
+const toCandidate = (request: CreateRecipeRequest, origin: string): ImportCandidate => ({
+  key: `import-${nextCandidateId++}`,
+  origin,
+  selected: true,
+  title: request.title,
+  tagsInput: (request.tags ?? []).join(', '),
+  sections: {
+    ingredients: (request.ingredientLines ?? []).join('\n'),
+    steps: (request.steps ?? []).join('\n'),
+    servings: request.servings ? String(request.servings) : '',
+    prepTime: request.prepTimeMinutes ? String(request.prepTimeMinutes) : '',
+    cookTime: request.cookTimeMinutes ? String(request.cookTimeMinutes) : '',
+    yield: request.yield ?? '',
+    sourceBook: request.sourceBook ?? '',
+    sourcePage: request.sourcePage ?? '',
+  },
+  request,
+})
+
+const fileTitle = (file: File) => file.name.replace(/\.[^.]+$/, '').replace(/[-_]+/g, ' ').trim()
+
+export default function ImportRecipe() {
+  const navigate = useNavigate()
+  const [source, setSource] = useState<ImportSource>('html')
+  const [pasted, setPasted] = useState('')
+  const [candidates, setCandidates] = useState<ImportCandidate[]>([])
+  const [readErrors, setReadErrors] = useState<string[]>([])
+  const [isSaving, setIsSaving] = useState(false)
+  const [saved, setSaved] = useState<{ id: string; title: string }[]>([])
+  const [error, setError] = useState<{ message: string; correlationId?: string } | null>(null)
+  const tagSuggestions = useTagSuggestions()
+
+  const selectSource = (value: ImportSource) => {
+    setSource(value)
+    setPasted('')
+    setCandidates([])
+    setReadErrors([])
+    setError(null)
+  }
+
+  const handleReadPasted = () => {
+    setError(null)
+    setReadErrors([])
+    try {
+      const recipes = source === 'html' ? importFromHtml(pasted) : importFromJsonLd(pasted)
+      setCandidates(recipes.map(recipe => toCandidate(recipe, source === 'html' ? 'Web page' : 'JSON-LD')))
+    } catch (err) {
+      setCandidates([])
+      setError({ message: err instanceof RecipeImportError ? err.message : 'Failed to read the recipe.' })
+    }
+  }
+
+  const handleFilesSelected = async (files: FileList | null) => {
+    if (!files || files.length === 0) return
+    setError(null)
+
+    const read: ImportCandidate[] = []
+    const failures: string[] = []
+    for (const file of Array.from(files)) {
+      try {
+        read.push(toCandidate(importFromText(await file.text(), fileTitle(file)), file.name))
+      } catch (err) {
+        failures.push(`${file.name}: ${err instanceof RecipeImportError ? err.message : 'Could not read the file.'}`)
+      }
+    }
+    setCandidates(read)
+    setReadErrors(failures)
+  }
+
+  const updateCandidate = (key: string, changes: Partial<ImportCandidate>) =>
+    setCandidates(current => current.map(candidate => (candidate.key === key ? { ...candidate, ...changes } : candidate)))
+
+  const selected = candidates.filter(candidate => candidate.selected)
+
+  const handleImport = async () => {
+    if (selected.some(candidate => candidate.title.trim().length < 3)) {
+      setError({ message: 'Every recipe needs a title of at least 3 characters.' })
+      return
+    }
+
+    setIsSaving(true)
+    setError(null)
+
+    // One at a time, so a rejected recipe leaves the ones after it in the list to fix and retry
+    const imported: { id: string; title: string }[] = []
+    try {
+      for (const candidate of selected) {
+        const tags = parseTagList(candidate.tagsInput)
+        const recipe = await createRecipe({
+          ...candidate.request,
+          ...draftToRequestFields(candidate.sections),
+          title: candidate.title.trim(),
+          tags: tags.length > 0 ? tags : undefined,
+        })
+        imported.push({ id: recipe.id, title: recipe.title })
+        setCandidates(current => current.filter(c => c.key !== candidate.key))
+      }
+
+      if (imported.length === 1 && saved.length === 0) {
+        navigate(`/recipes/${imported[0].id}`)
+      }
+    } catch (err) {
+      setError(describeError(err, 'Failed to import recipe. Please try again.'))
+    } finally {
+      if (imported.length > 0) invalidateRecipeLists()
+      setSaved(current => [...current, ...imported])
+      setIsSaving(false)
+    }
+  }
+
+  const sourceHint = SOURCES.find(option => option.value === source)?.hint
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <div className="mb-6">
+          <button
+            onClick={() => navigate('/')}
+            className="text-blue-600 hover:text-blue-800 flex items-center gap-2"
+          >
+            ← Back to Home
+          </button>
+        </div>
+
+        <h1 className="text-3xl md:text-4xl font-bold mb-2 text-gray-900">Import Recipes</h1>
+        <p className="text-gray-600 mb-8">
+          Bring in recipes from web pages and text files. Everything is read on this device; nothing is fetched from
+          the web. To add a recipe from a cookbook, <Link to="/add-recipe" className="text-blue-600 hover:text-blue-800">photograph it</Link> instead.
+        </p>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-red-800 font-medium">{error.message}</p>
+            {error.correlationId && (
+              <p className="text-red-600 text-sm mt-1">Correlation ID: {error.correlationId}</p>
+            )}
+          </div>
+        )}
+
+        {saved.length > 0 && (
+          <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg">
+            <p className="text-green-800 font-medium mb-2">
+              Imported {saved.length} {saved.length === 1 ? 'recipe' : 'recipes'}
+            </p>
+            <ul className="space-y-1 text-sm">
+              {saved.map(recipe => (
+                <li key={recipe.id}>
+                  <Link to={`/recipes/${recipe.id}`} className="text-green-700 hover:text-green-900 underline">
+                    {recipe.title}
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Step 1: Source */}
+        <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+          <h2 className="text-xl font-semibold mb-4 text-gray-900">Step 1: Choose What to Import</h2>
+
+          <div className="flex flex-wrap gap-2 mb-4" role="group" aria-label="Import source">
+            {SOURCES.map(option => (
+              <button
+                key={option.value}
+                onClick={() => selectSource(option.value)}
+                aria-pressed={source === option.value}
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                  source === option.value ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <p className="text-sm text-gray-500 mb-4">{sourceHint}</p>
+
+          {source === 'text' ? (
+            <input
+              type="file"
+              accept=".txt,.md,.markdown,text/plain,text/markdown"
+              multiple
+              onChange={(e) => handleFilesSelected(e.target.files)}
+              className="block w-full text-sm text-gray-700 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+            />
+          ) : (
+            <>
+              <label htmlFor="import-source" className="sr-only">
+                {source === 'html' ? 'Web page HTML' : 'JSON-LD'}
+              </label>
+              <textarea
+                id="import-source"
+                value={pasted}
+                onChange={(e) => setPasted(e.target.value)}
+                rows={10}
+                placeholder={source === 'html' ? '<!DOCTYPE html>…' : '{ "@context": "https://schema.org", "@type": "Recipe", … }'}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono text-sm"
+              />
+              <button
+                onClick={handleReadPasted}
+                disabled={!pasted.trim()}
+                className="mt-3 bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed font-medium transition-colors"
+              >
+                Read Recipe
+              </button>
+            </>
+          )}
+
+          {readErrors.length > 0 && (
+            <ul className="mt-4 text-sm text-red-700 space-y-1">
+              {readErrors.map(message => (
+                <li key={message}>{message}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Step 2: Review */}
+        {candidates.length > 0 && (
+          <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+            <h2 className="text-xl font-semibold mb-4 text-gray-900">Step 2: Review & Import</h2>
+
+            <div className="space-y-6">
+              {candidates.map(candidate => {
+                const ingredientCount = candidate.sections.ingredients.split('\n').filter(line => line.trim()).length
+                const stepCount = candidate.sections.steps.split('\n').filter(line => line.trim()).length
+                return (
+                  <div key={candidate.key} className="border border-gray-200 rounded-lg p-4">
+                    <div className="flex items-center justify-between gap-4 mb-3">
+                      <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={candidate.selected}
+                          onChange={(e) => updateCandidate(candidate.key, { selected: e.target.checked })}
+                          disabled={isSaving}
+                          className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        />
+                        Import this recipe
+                      </label>
+                      <span className="text-xs text-gray-500 truncate">{candidate.origin}</span>
+                    </div>
+
+                    <div className="space-y-4">
+                      <div>
+                        <label htmlFor={`${candidate.key}-title`} className="block text-sm font-medium text-gray-700 mb-2">
+                          Recipe Title *
+                        </label>
+                        <input
+                          id={`${candidate.key}-title`}
+                          type="text"
+                          value={candidate.title}
+                          onChange={(e) => updateCandidate(candidate.key, { title: e.target.value })}
+                          disabled={isSaving}
+                          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                      </div>
+
+                      <div>
+                        <label htmlFor={`${candidate.key}-tags`} className="block text-sm font-medium text-gray-700 mb-2">
+                          Tags (optional)
+                        </label>
+                        <TagAutocomplete
+                          id={`${candidate.key}-tags`}
+                          multiple
+                          value={candidate.tagsInput}
+                          onChange={(value) => updateCandidate(candidate.key, { tagsInput: value })}
+                          suggestions={tagSuggestions}
+                          placeholder="dessert, cookies, baking (comma-separated)"
+                          disabled={isSaving}
+                          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                      </div>
+
+                      <details>
+                        <summary className="cursor-pointer text-sm text-blue-600 hover:text-blue-800">
+                          {ingredientCount} {ingredientCount === 1 ? 'ingredient' : 'ingredients'}, {stepCount}{' '}
+                          {stepCount === 1 ? 'step' : 'steps'}: review or edit
+                        </summary>
+                        <div className="mt-4">
+                          <RecipeSectionsEditor
+                            idPrefix={candidate.key}
+                            value={candidate.sections}
+                            onChange={(sections) => updateCandidate(candidate.key, { sections })}
+                            disabled={isSaving}
+                          />
+                        </div>
+                      </details>
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+
+            <button
+              onClick={handleImport}
+              disabled={isSaving || selected.length === 0}
+              className="mt-6 w-full bg-green-600 text-white py-3 px-4 rounded-lg hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed font-medium transition-colors"
+            >
+              {isSaving
+                ? 'Importing...'
+                : `Import ${selected.length} ${selected.length === 1 ? 'Recipe' : 'Recipes'}`}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,93 @@
+import { useState } from 'react'
+import { signIn, describeError, type ErrorState } from '../services/api'
+import { getLastUserId } from '../services/auth'
+
+/**
+ * Signs in with the API's development token issuer, which stands in for a real identity provider.
+ * Shown instead of every other page until someone is signed in.
+ */
+export default function Login() {
+  // Signing in again after the session expired is the common case, so the last user name is filled in
+  const [userName, setUserName] = useState(() => getLastUserId() ?? '')
+  const [displayName, setDisplayName] = useState('')
+  const [isSigningIn, setIsSigningIn] = useState(false)
+  const [error, setError] = useState<ErrorState | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!userName.trim()) return
+    setIsSigningIn(true)
+    setError(null)
+
+    try {
+      await signIn({ userName: userName.trim(), displayName: displayName.trim() || null })
+    } catch (err) {
+      setError(describeError(err, 'Failed to sign in. Please try again.'))
+      setIsSigningIn(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="container mx-auto px-4 py-16 max-w-md">
+        <h1 className="text-4xl font-bold mb-2 text-gray-900 text-center">Recipe Collection</h1>
+        <p className="text-gray-600 mb-8 text-center">Sign in to see your recipes and the ones shared with you.</p>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-red-800 font-medium">{error.message}</p>
+            {error.correlationId && (
+              <p className="text-red-600 text-sm mt-1">Correlation ID: {error.correlationId}</p>
+            )}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-md p-6 space-y-4">
+          <div>
+            <label htmlFor="user-name" className="block text-sm font-medium text-gray-700 mb-2">
+              User name
+            </label>
+            <input
+              id="user-name"
+              type="text"
+              value={userName}
+              onChange={(e) => setUserName(e.target.value)}
+              autoComplete="username"
+              autoFocus
+              maxLength={50}
+              placeholder="e.g., anna"
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              Letters, digits, dots, dashes and underscores. Others invite you to their household or share with you by it.
+            </p>
+          </div>
+
+          <div>
+            <label htmlFor="display-name" className="block text-sm font-medium text-gray-700 mb-2">
+              Name <span className="font-normal text-gray-500">(optional)</span>
+            </label>
+            <input
+              id="display-name"
+              type="text"
+              value={displayName}
+              onChange={(e) => setDisplayName(e.target.value)}
+              autoComplete="name"
+              maxLength={100}
+              placeholder="Shown to the people you share with"
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+
+          <button
+            type="submit"
+            disabled={!userName.trim() || isSigningIn}
+            className="w-full bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed font-medium transition-colors"
+          >
+            {isSigningIn ? 'Signing in...' : 'Sign In'}
+          </button>
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,387 @@
+import { useEffect, useRef, useState } from 'react'
+import { Link, useNavigate, useSearchParams } from 'react-router-dom'
+import {
+  describeError,
+  downloadMealPlanCalendar,
+  getMealPlan,
+  isNotFoundError,
+  saveMealPlan,
+  type ErrorState,
+} from '../services/api'
+import { fetchQuery } from '../services/queryCache'
+import { recipeQuery, recipeSearchQuery } from '../services/queries'
+import { useDebouncedValue } from '../hooks/useDebouncedValue'
+import { useQuery } from '../hooks/useQuery'
+import { useShoppingList } from '../hooks/useShoppingList'
+import type { Meal, MealPlanEntry, RecipeSummary } from '../types'
+import { saveFile } from '../utils/download'
+import { MEALS, addDays, formatDay, formatWeek, isWeekStart, startOfWeek, weekDates } from '../utils/mealPlan'
+import { toShoppingListRecipe } from '../utils/shoppingList'
+
+const DRAG_TYPE = 'application/x-recipe-collection-recipe'
+const PICKER_PAGE_SIZE = 20
+const SEARCH_DEBOUNCE_MS = 300
+
+/** What is dragged: a recipe from the picker, or an entry already in the plan being moved */
+interface DragPayload {
+  recipeId: string
+  recipeTitle: string
+  fromIndex?: number
+}
+
+export default function Planner() {
+  const navigate = useNavigate()
+  const [searchParams, setSearchParams] = useSearchParams()
+  // The week is in the URL so a reload or a shared link shows the same week
+  const weekParam = searchParams.get('week')
+  const weekStart = isWeekStart(weekParam) ? weekParam : startOfWeek(new Date())
+  const [entries, setEntries] = useState<MealPlanEntry[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<ErrorState | null>(null)
+  const [saveState, setSaveState] = useState<'idle' | 'saving' | 'saved'>('idle')
+  const [query, setQuery] = useState('')
+  const [selected, setSelected] = useState<RecipeSummary | null>(null)
+  const [dropTarget, setDropTarget] = useState<string | null>(null)
+  const [isExporting, setIsExporting] = useState(false)
+  // Titles of planned recipes left out of the shopping list because they were deleted
+  const [skippedRecipes, setSkippedRecipes] = useState<string[]>([])
+  const shoppingList = useShoppingList()
+  const debouncedQuery = useDebouncedValue(query.trim(), SEARCH_DEBOUNCE_MS)
+  // A failed search leaves the previous results; the plan itself still works
+  const search = useQuery(
+    recipeSearchQuery(debouncedQuery, [], { pageSize: PICKER_PAGE_SIZE, sort: 'title' }),
+    { keepPreviousData: true }
+  )
+  const results = search.data?.recipes ?? []
+  const isSearching = search.isLoading || search.isPreviousData
+  // Saves run one after another so an older plan can never overwrite a newer one
+  const saveQueue = useRef<Promise<unknown>>(Promise.resolve())
+  const saveCount = useRef(0)
+
+  useEffect(() => {
+    const controller = new AbortController()
+
+    const loadPlan = async () => {
+      setIsLoading(true)
+      setError(null)
+      setSaveState('idle')
+
+      try {
+        const plan = await getMealPlan(weekStart, controller.signal)
+        setEntries(plan.entries)
+      } catch (err) {
+        if (controller.signal.aborted) return
+        setEntries([])
+        setError(describeError(err, 'Failed to load the meal plan. Please try again.'))
+      } finally {
+        if (!controller.signal.aborted) setIsLoading(false)
+      }
+    }
+
+    loadPlan()
+    return () => controller.abort()
+  }, [weekStart])
+
+  const updatePlan = (next: MealPlanEntry[]) => {
+    setEntries(next)
+    setSaveState('saving')
+    setError(null)
+    const saveNumber = ++saveCount.current
+
+    saveQueue.current = saveQueue.current
+      .then(() => saveMealPlan(weekStart, next))
+      .then(() => {
+        if (saveNumber === saveCount.current) setSaveState('saved')
+      })
+      .catch(err => {
+        setSaveState('idle')
+        setError(describeError(err, 'Failed to save the meal plan. Please try again.'))
+      })
+  }
+
+  const addEntry = (date: string, meal: Meal, recipe: { recipeId: string; recipeTitle: string }) => {
+    updatePlan([...entries, { date, meal, recipeId: recipe.recipeId, recipeTitle: recipe.recipeTitle }])
+  }
+
+  const moveEntry = (index: number, date: string, meal: Meal) => {
+    updatePlan(entries.map((entry, i) => (i === index ? { ...entry, date, meal } : entry)))
+  }
+
+  const removeEntry = (index: number) => {
+    updatePlan(entries.filter((_, i) => i !== index))
+  }
+
+  const handleDrop = (event: React.DragEvent, date: string, meal: Meal) => {
+    event.preventDefault()
+    setDropTarget(null)
+    const data = event.dataTransfer.getData(DRAG_TYPE)
+    if (!data) return
+
+    const payload = JSON.parse(data) as DragPayload
+    if (payload.fromIndex != null) {
+      moveEntry(payload.fromIndex, date, meal)
+    } else {
+      addEntry(date, meal, payload)
+    }
+  }
+
+  const startDrag = (event: React.DragEvent, payload: DragPayload) => {
+    event.dataTransfer.setData(DRAG_TYPE, JSON.stringify(payload))
+    event.dataTransfer.effectAllowed = payload.fromIndex != null ? 'move' : 'copy'
+  }
+
+  const goToWeek = (week: string) => {
+    setSearchParams(week === startOfWeek(new Date()) ? {} : { week })
+  }
+
+  // A recipe planned twice is bought for twice its servings; one without servings can only be listed once
+  const handleAddToShoppingList = async () => {
+    setIsExporting(true)
+    setError(null)
+    setSkippedRecipes([])
+
+    try {
+      const counts = new Map<string, number>()
+      entries.forEach(entry => counts.set(entry.recipeId, (counts.get(entry.recipeId) ?? 0) + 1))
+
+      const skipped: string[] = []
+      for (const [recipeId, count] of counts) {
+        try {
+          const recipe = await fetchQuery(recipeQuery(recipeId))
+          shoppingList.addRecipe(toShoppingListRecipe(recipe, recipe.servings ? recipe.servings * count : undefined))
+        } catch (err) {
+          if (!isNotFoundError(err)) throw err
+          skipped.push(entries.find(entry => entry.recipeId === recipeId)?.recipeTitle ?? recipeId)
+        }
+      }
+
+      if (skipped.length > 0) setSkippedRecipes(skipped)
+      else navigate('/shopping-list')
+    } catch (err) {
+      setError(describeError(err, 'Failed to add the week to the shopping list. Please try again.'))
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  const handleDownloadCalendar = async () => {
+    setIsExporting(true)
+    setError(null)
+
+    try {
+      // Unsaved changes would be missing from the file
+      await saveQueue.current
+      const file = await downloadMealPlanCalendar(weekStart)
+      saveFile(file, file.name)
+    } catch (err) {
+      setError(describeError(err, 'Failed to export the meal plan. Please try again.'))
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="container mx-auto px-4 py-8 max-w-7xl">
+        <div className="mb-6">
+          <button
+            onClick={() => navigate('/')}
+            className="text-blue-600 hover:text-blue-800 flex items-center gap-2"
+          >
+            ← Back to Home
+          </button>
+        </div>
+
+        <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4 mb-6">
+          <div>
+            <h1 className="text-3xl md:text-4xl font-bold mb-2 text-gray-900">Meal Planner</h1>
+            <p className="text-gray-600">
+              Drag recipes onto the week, or pick one and choose a meal to add it to.
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={handleAddToShoppingList}
+              disabled={isExporting || entries.length === 0}
+              className="bg-green-600 text-white py-2 px-4 rounded-lg hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed font-medium transition-colors"
+            >
+              Add Week to Shopping List
+            </button>
+            <button
+              onClick={handleDownloadCalendar}
+              disabled={isExporting || entries.length === 0}
+              className="bg-gray-100 text-gray-700 py-2 px-4 rounded-lg hover:bg-gray-200 disabled:opacity-50 font-medium transition-colors"
+            >
+              Download Calendar (.ics)
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-red-800 font-medium">{error.message}</p>
+            {error.correlationId && (
+              <p className="text-red-600 text-sm mt-1">Correlation ID: {error.correlationId}</p>
+            )}
+          </div>
+        )}
+
+        {skippedRecipes.length > 0 && (
+          <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-lg text-amber-900">
+            <p>
+              Left out of the shopping list because they were deleted: {skippedRecipes.join(', ')}.{' '}
+              <Link to="/shopping-list" className="font-medium underline">
+                Open the shopping list
+              </Link>
+            </p>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 xl:grid-cols-[16rem_minmax(0,1fr)] gap-6 items-start">
+          {/* Recipe Picker */}
+          <aside className="bg-white rounded-lg shadow-md p-4 xl:sticky xl:top-6">
+            <label htmlFor="planner-search" className="block text-sm font-medium text-gray-700 mb-2">
+              Recipes
+            </label>
+            <input
+              id="planner-search"
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search recipes..."
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm mb-3"
+            />
+            <ul className={`space-y-1 max-h-[60vh] overflow-y-auto ${isSearching ? 'opacity-60' : ''}`}>
+              {results.map(recipe => (
+                <li key={recipe.id}>
+                  <button
+                    draggable
+                    onDragStart={(e) => startDrag(e, { recipeId: recipe.id, recipeTitle: recipe.title })}
+                    onClick={() => setSelected(selected?.id === recipe.id ? null : recipe)}
+                    aria-pressed={selected?.id === recipe.id}
+                    className={`w-full text-left px-3 py-2 rounded-lg text-sm cursor-grab transition-colors ${
+                      selected?.id === recipe.id
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-gray-50 text-gray-800 hover:bg-blue-50'
+                    }`}
+                  >
+                    {recipe.title}
+                  </button>
+                </li>
+              ))}
+              {!isSearching && results.length === 0 && (
+                <li className="text-sm text-gray-500 px-1">No recipes found.</li>
+              )}
+            </ul>
+          </aside>
+
+          <div>
+            <div className="flex items-center justify-between gap-4 mb-4">
+              <button
+                onClick={() => goToWeek(addDays(weekStart, -7))}
+                className="px-3 py-1.5 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 text-sm font-medium"
+                aria-label="Previous week"
+              >
+                ←
+              </button>
+              <div className="text-center">
+                <h2 className="text-lg font-semibold text-gray-900">{formatWeek(weekStart)}</h2>
+                <p className="text-xs text-gray-500 h-4" aria-live="polite">
+                  {saveState === 'saving' ? 'Saving...' : saveState === 'saved' ? 'Saved' : ''}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                {weekStart !== startOfWeek(new Date()) && (
+                  <button
+                    onClick={() => goToWeek(startOfWeek(new Date()))}
+                    className="px-3 py-1.5 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 text-sm font-medium"
+                  >
+                    This week
+                  </button>
+                )}
+                <button
+                  onClick={() => goToWeek(addDays(weekStart, 7))}
+                  className="px-3 py-1.5 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 text-sm font-medium"
+                  aria-label="Next week"
+                >
+                  →
+                </button>
+              </div>
+            </div>
+
+            {isLoading ? (
+              <div className="text-center py-12">
+                <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+                <p className="text-gray-600">Loading the week...</p>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 2xl:grid-cols-7 gap-3">
+                {weekDates(weekStart).map(date => (
+                  <section key={date} className="bg-white rounded-lg shadow-md p-3">
+                    <h3 className="font-semibold text-gray-900 mb-2">{formatDay(date)}</h3>
+                    {MEALS.map(({ meal, label }) => {
+                      const slot = `${date}:${meal}`
+                      return (
+                        <div
+                          key={meal}
+                          onDragOver={(e) => {
+                            e.preventDefault()
+                            setDropTarget(slot)
+                          }}
+                          onDragLeave={() => setDropTarget(current => (current === slot ? null : current))}
+                          onDrop={(e) => handleDrop(e, date, meal)}
+                          className={`mb-2 last:mb-0 min-h-16 rounded-lg border border-dashed p-2 transition-colors ${
+                            dropTarget === slot ? 'border-blue-500 bg-blue-50' : 'border-gray-200'
+                          }`}
+                        >
+                          <div className="flex items-center justify-between gap-2 mb-1">
+                            <span className="text-xs font-medium uppercase tracking-wide text-gray-500">{label}</span>
+                            {selected && (
+                              <button
+                                onClick={() => addEntry(date, meal, { recipeId: selected.id, recipeTitle: selected.title })}
+                                className="text-xs text-blue-600 hover:text-blue-800 font-medium"
+                                aria-label={`Add ${selected.title} to ${label.toLowerCase()} on ${formatDay(date)}`}
+                              >
+                                + Add
+                              </button>
+                            )}
+                          </div>
+                          <ul className="space-y-1">
+                            {entries.map((entry, index) =>
+                              entry.date === date && entry.meal === meal ? (
+                                <li
+                                  key={index}
+                                  draggable
+                                  onDragStart={(e) => startDrag(e, { ...entry, fromIndex: index })}
+                                  className="flex items-start gap-1 bg-blue-50 rounded px-2 py-1 text-sm cursor-grab"
+                                >
+                                  <Link
+                                    to={`/recipes/${entry.recipeId}`}
+                                    className="flex-1 text-blue-800 hover:text-blue-900 break-words"
+                                  >
+                                    {entry.recipeTitle}
+                                  </Link>
+                                  <button
+                                    onClick={() => removeEntry(index)}
+                                    className="text-blue-700 hover:text-red-700"
+                                    aria-label={`Remove ${entry.recipeTitle} from ${label.toLowerCase()} on ${formatDay(date)}`}
+                                  >
+                                    ×
+                                  </button>
+                                </li>
+                              ) : null
+                            )}
+                          </ul>
+                        </div>
+                      )
+                    })}
+                  </section>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,87 +1,190 @@
 import { useState, useEffect } from 'react'
-import { useParams, useNavigate } from 'react-router-dom'
-import { getRecipe, addTagToRecipe, removeTagFromRecipe, ApiError } from '../services/api'
+import { Link, useParams, useNavigate, useLocation } from 'react-router-dom'
+import { isLocalRecipeId, type ErrorState } from '../services/api'
+import {
+  addTagMutation,
+  deleteRecipeMutation,
+  recipeQuery,
+  removeTagMutation,
+  updateRecipeMutation,
+} from '../services/queries'
+import { useQuery } from '../hooks/useQuery'
+import { useMutation } from '../hooks/useMutation'
+import PageGallery from '../components/PageGallery'
+import TagAutocomplete from '../components/TagAutocomplete'
+import { useTagSuggestions } from '../hooks/useTagSuggestions'
+import { parseTagList } from '../utils/tags'
+import { formatQuantity, scaleIngredient } from '../utils/ingredients'
+import { convertIngredient, convertTemperatures } from '../utils/units'
+import { describeOcrLanguage } from '../utils/ocrLanguages'
+import {
+  EMPTY_SECTIONS,
+  draftFromRecipe,
+  draftToRequestFields,
+  formatDuration,
+  splitRecipeText,
+  type RecipeSectionsDraft,
+} from '../utils/recipeSections'
+import RecipeSectionsEditor from '../components/RecipeSectionsEditor'
+import CookingMode from '../components/CookingMode'
+import ServingsScaler from '../components/ServingsScaler'
+import UnitSystemToggle from '../components/UnitSystemToggle'
+import { useUnitSystem } from '../hooks/useUnitSystem'
+import RecipePrintCard from '../components/RecipePrintCard'
+import {
+  PRINT_LAYOUTS,
+  buildRecipeCard,
+  loadPdfPhoto,
+  recipeCardToMarkdown,
+  recipeCardToPdf,
+  recipeFileName,
+  type PrintLayout,
+} from '../utils/recipeExport'
+import type { PdfJpeg } from '../utils/pdf'
+import { saveFile } from '../utils/download'
+import { useShoppingList } from '../hooks/useShoppingList'
+import { toShoppingListRecipe } from '../utils/shoppingList'
+import { useSession } from '../hooks/useSession'
+import RecipeSharePanel from '../components/RecipeSharePanel'
 import type { Recipe } from '../types'
 
+// Whose recipe it is, as the signed-in user would say it
+const describeOwner = ({ owner }: Recipe, userId: string | undefined) => {
+  if (owner.id === `user:${userId}`) return 'your recipes'
+  return owner.kind === 'household' ? `the ${owner.name} household` : `${owner.name}'s recipes`
+}
+
+const ACCESS_NOTES: Record<string, string> = {
+  edit: 'Shared with you; you can edit it but not delete it.',
+  read: 'Shared with you to view.',
+}
+
 export default function RecipeDetail() {
   const { id } = useParams<{ id: string }>()
   const navigate = useNavigate()
-  const [recipe, setRecipe] = useState<Recipe | null>(null)
-  const [isLoading, setIsLoading] = useState(true)
-  const [error, setError] = useState<{ message: string; correlationId?: string } | null>(null)
+  const location = useLocation()
+  // Home passes its search URL along so "Back to Home" restores the same results
+  const backTo = (location.state as { from?: string } | null)?.from ?? '/'
+  const {
+    data: recipe,
+    error,
+    isLoading,
+    refetch,
+  } = useQuery(recipeQuery(id ?? ''), { enabled: !!id, errorMessage: 'Failed to load recipe. Please try again.' })
+  const addTag = useMutation(addTagMutation(id ?? ''), 'Failed to add tag. Please try again.')
+  const removeTag = useMutation(removeTagMutation(id ?? ''), 'Failed to remove tag. Please try again.')
+  const saveRecipe = useMutation(updateRecipeMutation(id ?? ''), 'Failed to save changes. Please try again.')
+  const removeRecipe = useMutation(deleteRecipeMutation(id ?? ''), 'Failed to delete recipe. Please try again.')
   const [newTag, setNewTag] = useState('')
-  const [isAddingTag, setIsAddingTag] = useState(false)
-  const [removingTag, setRemovingTag] = useState<string | null>(null)
+  const tagSuggestions = useTagSuggestions()
+  const [isEditing, setIsEditing] = useState(false)
+  const [editTitle, setEditTitle] = useState('')
+  const [editRawText, setEditRawText] = useState('')
+  const [editTagsInput, setEditTagsInput] = useState('')
+  const [editSections, setEditSections] = useState<RecipeSectionsDraft>(EMPTY_SECTIONS)
+  // Null until the reader picks a number, meaning the servings the recipe is written for
+  const [targetServings, setTargetServings] = useState<number | null>(null)
+  const [unitSystem, setUnitSystem] = useUnitSystem()
+  const [isCooking, setIsCooking] = useState(false)
+  const [showExport, setShowExport] = useState(false)
+  const [printLayout, setPrintLayout] = useState<PrintLayout>('a4')
+  const [includePhoto, setIncludePhoto] = useState(true)
+  const [isExportingPdf, setIsExportingPdf] = useState(false)
+  const shoppingList = useShoppingList()
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false)
+  const [showShare, setShowShare] = useState(false)
+  const session = useSession()
+  const [actionError, setActionError] = useState<ErrorState | null>(null)
+  const isSaving = saveRecipe.isPending
+  const isDeleting = removeRecipe.isPending
+  const removingTag = removeTag.variables
+  const shownActionError = actionError ?? saveRecipe.error ?? removeRecipe.error
+  const tagError = addTag.error ?? removeTag.error
+  // The API checks these too; the controls are only hidden so nobody is offered what they can't do
+  const isOwner = recipe?.access === 'owner'
+  const canEdit = isOwner || recipe?.access === 'edit'
 
   useEffect(() => {
-    if (!id) {
-      navigate('/')
-      return
-    }
-
-    loadRecipe(id)
+    if (!id) navigate('/')
   }, [id, navigate])
 
-  const loadRecipe = async (recipeId: string) => {
-    setIsLoading(true)
-    setError(null)
-
-    try {
-      const data = await getRecipe(recipeId)
-      setRecipe(data)
-    } catch (err) {
-      if (err instanceof ApiError) {
-        setError({ message: err.message, correlationId: err.correlationId })
-      } else {
-        setError({ message: 'Failed to load recipe. Please try again.' })
-      }
-    } finally {
-      setIsLoading(false)
+  // A recipe created offline has been synced since the link was made
+  useEffect(() => {
+    if (id && recipe && recipe.id !== id) {
+      navigate(`/recipes/${recipe.id}`, { replace: true })
     }
-  }
+  }, [id, recipe, navigate])
 
+  // Another recipe starts at the servings it is written for
+  useEffect(() => {
+    setTargetServings(null)
+  }, [id])
+
+  // The tag shows up straight away; it is taken off again if it can't be saved
   const handleAddTag = async (e: React.FormEvent) => {
     e.preventDefault()
-    if (!id || !newTag.trim() || isAddingTag) return
+    if (!newTag.trim() || addTag.isPending) return
 
-    setIsAddingTag(true)
-    setError(null)
+    setNewTag('')
+    const added = await addTag.mutate(newTag.trim())
+    if (!added.ok) setNewTag(current => current || newTag)
+  }
 
-    try {
-      const updatedRecipe = await addTagToRecipe(id, newTag.trim())
-      setRecipe(updatedRecipe)
-      setNewTag('')
-    } catch (err) {
-      if (err instanceof ApiError) {
-        setError({ message: err.message, correlationId: err.correlationId })
-      } else {
-        setError({ message: 'Failed to add tag. Please try again.' })
-      }
-    } finally {
-      setIsAddingTag(false)
-    }
+  const handleRemoveTag = (tag: string) => {
+    if (removeTag.isPending) return
+    removeTag.mutate(tag)
   }
 
-  const handleRemoveTag = async (tag: string) => {
-    if (!id || removingTag) return
+  const handleStartEdit = () => {
+    if (!recipe) return
 
-    setRemovingTag(tag)
-    setError(null)
+    setEditTitle(recipe.title)
+    setEditRawText(recipe.rawText)
+    setEditTagsInput(recipe.tags.join(', '))
+    setEditSections(draftFromRecipe(recipe))
+    setShowDeleteConfirm(false)
+    setActionError(null)
+    saveRecipe.reset()
+    setIsEditing(true)
+  }
 
-    try {
-      const updatedRecipe = await removeTagFromRecipe(id, tag)
-      setRecipe(updatedRecipe)
-    } catch (err) {
-      if (err instanceof ApiError) {
-        setError({ message: err.message, correlationId: err.correlationId })
-      } else {
-        setError({ message: 'Failed to remove tag. Please try again.' })
-      }
-    } finally {
-      setRemovingTag(null)
+  const handleCancelEdit = () => {
+    setIsEditing(false)
+    setActionError(null)
+    saveRecipe.reset()
+  }
+
+  const handleSaveEdit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!id || isSaving) return
+
+    if (!editTitle.trim() || !editRawText.trim()) {
+      setActionError({ message: 'Please provide a title and recipe text.' })
+      return
+    }
+
+    setActionError(null)
+
+    const saved = await saveRecipe.mutate({
+      title: editTitle.trim(),
+      rawText: editRawText,
+      ...draftToRequestFields(editSections, { clearIngredients: (recipe?.ingredients.length ?? 0) > 0 }),
+      tags: parseTagList(editTagsInput),
+    })
+    if (saved.ok) {
+      setTargetServings(null)
+      setIsEditing(false)
     }
   }
 
+  const handleDelete = async () => {
+    if (!id || isDeleting) return
+
+    setActionError(null)
+    const deleted = await removeRecipe.mutate()
+    if (deleted.ok) navigate(backTo)
+  }
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -98,7 +201,7 @@ export default function RecipeDetail() {
       <div className="min-h-screen bg-gray-50">
         <div className="container mx-auto px-4 py-8 max-w-4xl">
           <button
-            onClick={() => navigate('/')}
+            onClick={() => navigate(backTo)}
             className="text-blue-600 hover:text-blue-800 mb-6"
           >
             ← Back to Home
@@ -110,7 +213,7 @@ export default function RecipeDetail() {
               <p className="text-red-600 text-sm mt-2">Correlation ID: {error.correlationId}</p>
             )}
             <button
-              onClick={() => loadRecipe(id!)}
+              onClick={refetch}
               className="mt-4 bg-red-600 text-white px-4 py-2 rounded hover:bg-red-700"
             >
               Retry
@@ -125,117 +228,515 @@ export default function RecipeDetail() {
     return null
   }
 
+  const scaleFactor = recipe.servings && targetServings ? targetServings / recipe.servings : 1
+  const displayIngredients = [...recipe.ingredients]
+    .sort((a, b) => a.position - b.position)
+    .map(ingredient => convertIngredient(scaleIngredient(ingredient, scaleFactor), unitSystem))
+  // Recipes that were never split into steps are cooked from steps guessed from their text
+  const cookingSteps = (
+    recipe.steps.length > 0 ? recipe.steps : splitRecipeText(recipe.rawText, recipe.title).steps.split('\n')
+  )
+    .filter(step => step.trim().length > 0)
+    .map(step => convertTemperatures(step, unitSystem))
+  // Printed and exported as currently shown: scaled to the chosen servings, in the chosen units
+  const printCard = buildRecipeCard(
+    recipe,
+    displayIngredients,
+    targetServings ?? recipe.servings ?? undefined,
+    unitSystem,
+    scaleFactor !== 1
+  )
+  const printImageRef = includePhoto ? recipe.imageRefs[0] : undefined
+  const listedRecipe = shoppingList.recipes.find(listed => listed.id === recipe.id)
+  const listedServings = targetServings ?? recipe.servings
+
+  const handleDownloadMarkdown = () => {
+    const markdown = new Blob([recipeCardToMarkdown(printCard)], { type: 'text/markdown' })
+    saveFile(markdown, recipeFileName(recipe.title, 'md'))
+  }
+
+  const handleDownloadPdf = async () => {
+    setIsExportingPdf(true)
+    setActionError(null)
+
+    try {
+      let photo: PdfJpeg | undefined
+      if (printImageRef) {
+        // A photo that can't be loaded, e.g. while offline, is left out rather than failing the export
+        photo = await loadPdfPhoto(printImageRef).catch(() => undefined)
+      }
+      saveFile(recipeCardToPdf(printCard, printLayout, photo), recipeFileName(recipe.title, 'pdf'))
+    } catch {
+      setActionError({ message: 'Failed to create the PDF. Please try again.' })
+    } finally {
+      setIsExportingPdf(false)
+    }
+  }
+
   return (
-    <div className="min-h-screen bg-gray-50">
-      <div className="container mx-auto px-4 py-8 max-w-4xl">
+    <div className="min-h-screen bg-gray-50 print:min-h-0 print:bg-white">
+      <RecipePrintCard card={printCard} layout={printLayout} imageRef={printImageRef} />
+      {isCooking && (
+        <CookingMode
+          title={recipe.title}
+          ingredients={displayIngredients}
+          steps={cookingSteps}
+          onClose={() => setIsCooking(false)}
+        />
+      )}
+      <div className="container mx-auto px-4 py-8 max-w-4xl print:hidden">
         <div className="mb-6">
           <button
-            onClick={() => navigate('/')}
+            onClick={() => navigate(backTo)}
             className="text-blue-600 hover:text-blue-800 flex items-center gap-2"
           >
             ← Back to Home
           </button>
         </div>
 
-        {/* Recipe Header */}
-        <div className="bg-white rounded-lg shadow-md p-6 mb-6">
-          <h1 className="text-3xl md:text-4xl font-bold mb-4 text-gray-900">{recipe.title}</h1>
-          
-          {/* Tags Display */}
-          <div className="mb-4">
-            <h3 className="text-sm font-semibold text-gray-700 mb-2">Tags</h3>
-            <div className="flex flex-wrap gap-2 mb-3">
-              {recipe.tags && recipe.tags.length > 0 ? (
-                recipe.tags.map((tag, index) => (
-                  <span
-                    key={index}
-                    className="inline-flex items-center gap-2 px-3 py-1 bg-blue-100 text-blue-800 rounded-full text-sm font-medium"
-                  >
-                    {tag}
-                    <button
-                      onClick={() => handleRemoveTag(tag)}
-                      disabled={removingTag === tag}
-                      className="hover:text-blue-900 focus:outline-none disabled:opacity-50"
-                      aria-label={`Remove tag ${tag}`}
-                    >
-                      {removingTag === tag ? '...' : '×'}
-                    </button>
-                  </span>
-                ))
-              ) : (
-                <span className="text-gray-500 text-sm">No tags yet</span>
-              )}
+        {shownActionError && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-red-800 font-medium">{shownActionError.message}</p>
+            {shownActionError.correlationId && (
+              <p className="text-red-600 text-sm mt-1">Correlation ID: {shownActionError.correlationId}</p>
+            )}
+          </div>
+        )}
+
+        {/* Delete Confirmation */}
+        {showDeleteConfirm && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-6 mb-6">
+            <h2 className="text-lg font-semibold text-red-800 mb-2">Delete this recipe?</h2>
+            <p className="text-red-700 text-sm mb-4">
+              "{recipe.title}" and its photo will be permanently removed. This cannot be undone.
+            </p>
+            <div className="flex flex-col sm:flex-row gap-3">
+              <button
+                onClick={handleDelete}
+                disabled={isDeleting}
+                className="bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium transition-colors"
+              >
+                {isDeleting ? 'Deleting...' : 'Yes, delete recipe'}
+              </button>
+              <button
+                onClick={() => setShowDeleteConfirm(false)}
+                disabled={isDeleting}
+                className="bg-gray-200 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-300 disabled:opacity-50 font-medium transition-colors"
+              >
+                Cancel
+              </button>
             </div>
+          </div>
+        )}
+
+        {isEditing ? (
+          /* Edit Form */
+          <form onSubmit={handleSaveEdit} className="bg-white rounded-lg shadow-md p-6 mb-6 space-y-4">
+            <h2 className="text-2xl font-semibold text-gray-900">Edit Recipe</h2>
 
-            {/* Add Tag Form */}
-            <form onSubmit={handleAddTag} className="flex flex-col sm:flex-row gap-2">
+            <div>
+              <label htmlFor="edit-title" className="block text-sm font-medium text-gray-700 mb-2">
+                Recipe Title *
+              </label>
               <input
+                id="edit-title"
                 type="text"
-                value={newTag}
-                onChange={(e) => setNewTag(e.target.value)}
-                placeholder="Add a tag (e.g., dessert, dinner...)"
-                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
-                disabled={isAddingTag}
+                value={editTitle}
+                onChange={(e) => setEditTitle(e.target.value)}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                disabled={isSaving}
+              />
+            </div>
+
+            <div>
+              <label htmlFor="edit-text" className="block text-sm font-medium text-gray-700 mb-2">
+                Recipe Text *
+              </label>
+              <textarea
+                id="edit-text"
+                value={editRawText}
+                onChange={(e) => setEditRawText(e.target.value)}
+                rows={12}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono text-sm"
+                disabled={isSaving}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                The full text is kept for search; ingredients and steps are edited below
+              </p>
+            </div>
+
+            <RecipeSectionsEditor
+              idPrefix="edit"
+              value={editSections}
+              onChange={setEditSections}
+              onSplitFromText={() => setEditSections(splitRecipeText(editRawText, editTitle))}
+              disabled={isSaving}
+            />
+
+            <div>
+              <label htmlFor="edit-tags" className="block text-sm font-medium text-gray-700 mb-2">
+                Tags
+              </label>
+              <TagAutocomplete
+                id="edit-tags"
+                multiple
+                value={editTagsInput}
+                onChange={setEditTagsInput}
+                suggestions={tagSuggestions}
+                placeholder="dessert, cookies, baking (comma-separated)"
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                disabled={isSaving}
               />
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-3">
               <button
                 type="submit"
-                disabled={!newTag.trim() || isAddingTag}
-                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium transition-colors"
+                disabled={isSaving || !editTitle.trim() || !editRawText.trim()}
+                className="bg-green-600 text-white px-6 py-2 rounded-lg hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed font-medium transition-colors"
               >
-                {isAddingTag ? 'Adding...' : 'Add Tag'}
+                {isSaving ? 'Saving...' : 'Save Changes'}
               </button>
-            </form>
+              <button
+                type="button"
+                onClick={handleCancelEdit}
+                disabled={isSaving}
+                className="bg-gray-200 text-gray-700 px-6 py-2 rounded-lg hover:bg-gray-300 disabled:opacity-50 font-medium transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        ) : (
+          /* Recipe Header */
+          <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+            <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4 mb-4">
+              <h1 className="text-3xl md:text-4xl font-bold text-gray-900">{recipe.title}</h1>
+              <div className="flex gap-2 shrink-0">
+                <button
+                  onClick={() => setIsCooking(true)}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-medium transition-colors"
+                >
+                  Start cooking
+                </button>
+                <button
+                  onClick={() => setShowExport(!showExport)}
+                  aria-expanded={showExport}
+                  className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 text-sm font-medium transition-colors"
+                >
+                  Print / Export
+                </button>
+                {canEdit && (
+                  <button
+                    onClick={handleStartEdit}
+                    className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 text-sm font-medium transition-colors"
+                  >
+                    Edit
+                  </button>
+                )}
+                {isOwner && !isLocalRecipeId(recipe.id) && (
+                  <button
+                    onClick={() => setShowShare(!showShare)}
+                    aria-expanded={showShare}
+                    className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 text-sm font-medium transition-colors"
+                  >
+                    Share
+                  </button>
+                )}
+                {isOwner && (
+                  <button
+                    onClick={() => setShowDeleteConfirm(true)}
+                    disabled={showDeleteConfirm}
+                    className="px-4 py-2 bg-red-50 text-red-700 rounded-lg hover:bg-red-100 disabled:opacity-50 text-sm font-medium transition-colors"
+                  >
+                    Delete
+                  </button>
+                )}
+              </div>
+            </div>
+          
+            {(recipe.prepTimeMinutes || recipe.cookTimeMinutes || recipe.yield) && (
+              <dl className="flex flex-wrap gap-x-6 gap-y-1 mb-4 text-sm">
+                {recipe.prepTimeMinutes && (
+                  <div className="flex gap-1">
+                    <dt className="text-gray-500">Prep</dt>
+                    <dd className="font-medium text-gray-900">{formatDuration(recipe.prepTimeMinutes)}</dd>
+                  </div>
+                )}
+                {recipe.cookTimeMinutes && (
+                  <div className="flex gap-1">
+                    <dt className="text-gray-500">Cook</dt>
+                    <dd className="font-medium text-gray-900">{formatDuration(recipe.cookTimeMinutes)}</dd>
+                  </div>
+                )}
+                {recipe.yield && (
+                  <div className="flex gap-1">
+                    <dt className="text-gray-500">Makes</dt>
+                    <dd className="font-medium text-gray-900">{recipe.yield}</dd>
+                  </div>
+                )}
+              </dl>
+            )}
+
+            {/* Tags Display */}
+            <div className="mb-4">
+              <h3 className="text-sm font-semibold text-gray-700 mb-2">Tags</h3>
+              <div className="flex flex-wrap gap-2 mb-3">
+                {recipe.tags && recipe.tags.length > 0 ? (
+                  recipe.tags.map((tag, index) => (
+                    <span
+                      key={index}
+                      className="inline-flex items-center gap-2 px-3 py-1 bg-blue-100 text-blue-800 rounded-full text-sm font-medium"
+                    >
+                      {tag}
+                      {canEdit && (
+                        <button
+                          onClick={() => handleRemoveTag(tag)}
+                          disabled={removingTag === tag}
+                          className="hover:text-blue-900 focus:outline-none disabled:opacity-50"
+                          aria-label={`Remove tag ${tag}`}
+                        >
+                          {removingTag === tag ? '...' : '×'}
+                        </button>
+                      )}
+                    </span>
+                  ))
+                ) : (
+                  <span className="text-gray-500 text-sm">No tags yet</span>
+                )}
+              </div>
+
+              {/* Add Tag Form */}
+              {canEdit && (
+                <form onSubmit={handleAddTag} className="flex flex-col sm:flex-row gap-2">
+                  <TagAutocomplete
+                    value={newTag}
+                    onChange={setNewTag}
+                    suggestions={tagSuggestions}
+                    exclude={recipe.tags}
+                    placeholder="Add a tag (e.g., dessert, dinner...)"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+                    disabled={addTag.isPending}
+                  />
+                  <button
+                    type="submit"
+                    disabled={!newTag.trim() || addTag.isPending}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium transition-colors"
+                  >
+                    {addTag.isPending ? 'Adding...' : 'Add Tag'}
+                  </button>
+                </form>
+              )}
+              {tagError && <p className="mt-2 text-sm text-red-700">{tagError.message}</p>}
+            </div>
+
+            <p className="text-sm text-gray-600">
+              Added on {new Date(recipe.createdAt).toLocaleDateString()}
+              {recipe.sourceBook && (
+                <>
+                  {' '}· From {recipe.sourceBook}
+                  {recipe.sourcePage && `, p. ${recipe.sourcePage}`}
+                </>
+              )}
+              {recipe.ocrLanguage && <> · Text read as {describeOcrLanguage(recipe.ocrLanguage)}</>}
+            </p>
+            <p className="mt-1 text-sm text-gray-600">
+              In {describeOwner(recipe, session?.user.id)}
+              {ACCESS_NOTES[recipe.access] && <> · {ACCESS_NOTES[recipe.access]}</>}
+            </p>
+            {isLocalRecipeId(recipe.id) && (
+              <p className="mt-2 text-sm text-amber-700">
+                Saved on this device only. It will be uploaded once you're back online.
+              </p>
+            )}
+            {/* Units apply to temperatures in the text too, so they can be chosen without any ingredients */}
+            <div className="mt-4 flex flex-col sm:flex-row sm:items-center gap-3 sm:gap-6">
+              {recipe.servings ? (
+                <ServingsScaler
+                  baseServings={recipe.servings}
+                  servings={targetServings ?? recipe.servings}
+                  onChange={setTargetServings}
+                />
+              ) : (
+                canEdit && <p className="text-sm text-gray-500">Set the servings under Edit to scale this recipe</p>
+              )}
+              <UnitSystemToggle value={unitSystem} onChange={setUnitSystem} />
+            </div>
           </div>
+        )}
 
-          <p className="text-sm text-gray-600">
-            Added on {new Date(recipe.createdAt).toLocaleDateString()}
-          </p>
-        </div>
+        {showShare && isOwner && !isEditing && <RecipeSharePanel recipeId={recipe.id} />}
+
+        {/* Print and Export */}
+        {showExport && !isEditing && (
+          <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+            <h2 className="text-xl font-semibold mb-4 text-gray-900">Print or Export</h2>
+            <div className="flex flex-col sm:flex-row gap-4 sm:gap-8 mb-4">
+              <fieldset>
+                <legend className="block text-sm font-medium text-gray-700 mb-2">Paper</legend>
+                <div className="space-y-1">
+                  {(Object.keys(PRINT_LAYOUTS) as PrintLayout[]).map(layout => (
+                    <label key={layout} className="flex items-center gap-2 text-sm text-gray-800">
+                      <input
+                        type="radio"
+                        name="print-layout"
+                        value={layout}
+                        checked={printLayout === layout}
+                        onChange={() => setPrintLayout(layout)}
+                        className="text-blue-600 focus:ring-blue-500"
+                      />
+                      {PRINT_LAYOUTS[layout].label}
+                    </label>
+                  ))}
+                </div>
+              </fieldset>
+              <label className="flex items-center gap-2 text-sm text-gray-800 self-start sm:mt-7">
+                <input
+                  type="checkbox"
+                  checked={includePhoto && recipe.imageRefs.length > 0}
+                  onChange={(e) => setIncludePhoto(e.target.checked)}
+                  disabled={recipe.imageRefs.length === 0}
+                  className="rounded text-blue-600 focus:ring-blue-500"
+                />
+                Include photo
+              </label>
+            </div>
+            <p className="text-sm text-gray-500 mb-4">
+              Ingredients are printed for the servings and units chosen above. Markdown files can be imported again.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={() => window.print()}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm font-medium transition-colors"
+              >
+                Print
+              </button>
+              <button
+                onClick={handleDownloadMarkdown}
+                className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 text-sm font-medium transition-colors"
+              >
+                Download Markdown
+              </button>
+              <button
+                onClick={handleDownloadPdf}
+                disabled={isExportingPdf}
+                className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50 text-sm font-medium transition-colors"
+              >
+                {isExportingPdf ? 'Creating PDF...' : 'Download PDF'}
+              </button>
+            </div>
+          </div>
+        )}
 
         {/* Ingredients */}
         {recipe.ingredients && recipe.ingredients.length > 0 && (
           <div className="bg-white rounded-lg shadow-md p-6 mb-6">
-            <h2 className="text-2xl font-semibold mb-4 text-gray-900">Ingredients</h2>
+            <div className="mb-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+              <h2 className="text-2xl font-semibold text-gray-900">Ingredients</h2>
+              <div className="flex items-center gap-3 text-sm">
+                {/* Added at the servings chosen here; adding again updates them */}
+                {!listedRecipe || listedRecipe.servings !== listedServings ? (
+                  <button
+                    onClick={() => shoppingList.addRecipe(toShoppingListRecipe(recipe, listedServings))}
+                    className="px-3 py-1.5 bg-green-50 text-green-800 rounded-lg hover:bg-green-100 font-medium transition-colors"
+                  >
+                    {listedRecipe ? 'Update shopping list' : 'Add to shopping list'}
+                  </button>
+                ) : (
+                  <span className="text-green-700 font-medium">✓ On your shopping list</span>
+                )}
+                {listedRecipe && (
+                  <Link to="/shopping-list" className="text-blue-600 hover:text-blue-800 font-medium">
+                    View list
+                  </Link>
+                )}
+              </div>
+            </div>
             <ul className="space-y-2">
-              {recipe.ingredients
-                .sort((a, b) => a.position - b.position)
-                .map((ingredient, index) => (
-                  <li key={index} className="flex items-start gap-3">
+              {displayIngredients.map((ingredient, index) => {
+                const quantity = formatQuantity(ingredient)
+                const isUnscaled = scaleFactor !== 1 && ingredient.quantity == null
+                return (
+                  <li key={index} className="flex items-start gap-3" title={ingredient.freeText}>
                     <span className="text-blue-600 mt-1">•</span>
-                    <div className="flex-1">
-                      <span className="text-gray-800">{ingredient.freeText}</span>
-                      {ingredient.canonicalName && (
-                        <span className="text-gray-500 text-sm ml-2">
-                          ({ingredient.canonicalName})
+                    {/* Lines that can't be scaled, and recipes saved before ingredients were structured, show the original line */}
+                    {ingredient.name && !isUnscaled ? (
+                      <div className="flex-1 flex items-baseline gap-3">
+                        <span className="w-24 shrink-0 text-right font-medium text-gray-900 tabular-nums">
+                          {quantity}
                         </span>
-                      )}
-                    </div>
+                        <span className="text-gray-800">{ingredient.name}</span>
+                      </div>
+                    ) : (
+                      <div className="flex-1">
+                        <span className="text-gray-800">{ingredient.freeText}</span>
+                        {ingredient.canonicalName && !isUnscaled && (
+                          <span className="text-gray-500 text-sm ml-2">
+                            ({ingredient.canonicalName})
+                          </span>
+                        )}
+                        {isUnscaled && (
+                          <span
+                            className="ml-2 px-2 py-0.5 bg-amber-100 text-amber-800 rounded text-xs font-medium"
+                            title="No amount could be read from this line, so it is shown as written"
+                          >
+                            not scaled
+                          </span>
+                        )}
+                      </div>
+                    )}
                   </li>
-                ))}
+                )
+              })}
             </ul>
           </div>
         )}
 
-        {/* Full Recipe Text */}
-        <div className="bg-white rounded-lg shadow-md p-6 mb-6">
-          <h2 className="text-2xl font-semibold mb-4 text-gray-900">Recipe</h2>
-          <div className="whitespace-pre-wrap text-gray-800 leading-relaxed">
-            {recipe.rawText}
-          </div>
-        </div>
+        <div className={`grid grid-cols-1 gap-6 ${recipe.imageRefs.length > 0 ? 'md:grid-cols-2' : ''}`}>
+          {/* Steps, or the full text for recipes that haven't been split into steps */}
+          {!isEditing && (
+            <div className="bg-white rounded-lg shadow-md p-6">
+              {recipe.steps.length > 0 ? (
+                <>
+                  <h2 className="text-2xl font-semibold mb-4 text-gray-900">Method</h2>
+                  <ol className="space-y-4">
+                    {recipe.steps.map((step, index) => (
+                      <li key={index} className="flex gap-3">
+                        <span className="shrink-0 w-7 h-7 rounded-full bg-blue-100 text-blue-800 text-sm font-semibold flex items-center justify-center">
+                          {index + 1}
+                        </span>
+                        <p className="text-gray-800 leading-relaxed">{convertTemperatures(step, unitSystem)}</p>
+                      </li>
+                    ))}
+                  </ol>
+                  <details className="mt-6">
+                    <summary className="text-sm text-gray-600 cursor-pointer">Show the full recipe text</summary>
+                    <div className="mt-2 whitespace-pre-wrap text-sm text-gray-700 leading-relaxed">
+                      {convertTemperatures(recipe.rawText, unitSystem)}
+                    </div>
+                  </details>
+                </>
+              ) : (
+                <>
+                  <h2 className="text-2xl font-semibold mb-4 text-gray-900">Recipe</h2>
+                  <div className="whitespace-pre-wrap text-gray-800 leading-relaxed">
+                    {convertTemperatures(recipe.rawText, unitSystem)}
+                  </div>
+                </>
+              )}
+            </div>
+          )}
 
-        {/* Image Reference */}
-        {recipe.imageRef && (
-          <div className="bg-white rounded-lg shadow-md p-6">
-            <h2 className="text-2xl font-semibold mb-4 text-gray-900">Original Photo</h2>
-            <p className="text-sm text-gray-600 mb-2">
-              Image stored at: <code className="bg-gray-100 px-2 py-1 rounded">{recipe.imageRef}</code>
-            </p>
-            <p className="text-xs text-gray-500">
-              Note: Image display requires additional configuration in production
-            </p>
-          </div>
-        )}
+          {/* Original Photos */}
+          {recipe.imageRefs.length > 0 && (
+            <div className="bg-white rounded-lg shadow-md p-6 md:self-start md:sticky md:top-6">
+              <h2 className="text-2xl font-semibold mb-4 text-gray-900">
+                {recipe.imageRefs.length > 1 ? 'Original Pages' : 'Original Photo'}
+              </h2>
+              <PageGallery imageRefs={recipe.imageRefs} title={recipe.title} />
+            </div>
+          )}
+        </div>
       </div>
     </div>
   )
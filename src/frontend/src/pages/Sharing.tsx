@@ -0,0 +1,405 @@
+import { useState } from 'react'
+import { Link, useNavigate } from 'react-router-dom'
+import {
+  createHousehold,
+  deleteHouseholdInvitation,
+  deleteShare,
+  describeError,
+  inviteHouseholdMember,
+  joinHousehold,
+  leaveHousehold,
+  shareRecipes,
+  type ErrorState,
+} from '../services/api'
+import { invalidateQueries } from '../services/queryCache'
+import { sharesQuery } from '../services/queries'
+import { useQuery } from '../hooks/useQuery'
+import { useSession } from '../hooks/useSession'
+import type { HouseholdInvitation, Share, SharePermission, User } from '../types'
+
+const PERMISSION_LABELS: Record<SharePermission, string> = {
+  read: 'Can view',
+  edit: 'Can edit',
+}
+
+// A permission this version doesn't know is shown as it is
+const describePermission = (permission: string) =>
+  PERMISSION_LABELS[permission as SharePermission] ?? permission
+
+const describeTarget = (share: Share) => (share.recipeId ? `"${share.recipeTitle ?? share.recipeId}"` : 'all recipes')
+
+export default function Sharing() {
+  const navigate = useNavigate()
+  const session = useSession()
+  const user = session?.user
+  const household = user?.household ?? null
+  const { data: shares, error: loadError, isLoading } = useQuery(sharesQuery, {
+    errorMessage: 'Failed to load sharing. Please try again.',
+  })
+  const [householdName, setHouseholdName] = useState('')
+  const [memberId, setMemberId] = useState('')
+  const [granteeId, setGranteeId] = useState('')
+  const [permission, setPermission] = useState<SharePermission>('read')
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<ErrorState | null>(null)
+  const [statusMessage, setStatusMessage] = useState<string | null>(null)
+
+  // Households and shares decide which recipes the user sees, so everything cached is loaded again
+  const run = async (action: () => Promise<string>, fallback: string) => {
+    setBusy(true)
+    setError(null)
+    setStatusMessage(null)
+    try {
+      setStatusMessage(await action())
+      invalidateQueries()
+      return true
+    } catch (err) {
+      setError(describeError(err, fallback))
+      return false
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleCreateHousehold = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const name = householdName.trim()
+    if (!name || busy) return
+
+    const created = await run(async () => {
+      await createHousehold(name)
+      return `Created "${name}". Recipes you add from now on belong to the household.`
+    }, 'Failed to create the household. Please try again.')
+    if (created) setHouseholdName('')
+  }
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const userId = memberId.trim().toLowerCase()
+    if (!household || !userId || busy) return
+
+    const invited = await run(async () => {
+      await inviteHouseholdMember(household.id, userId)
+      return `Invited ${userId} to ${household.name}. They join once they accept.`
+    }, 'Failed to invite the member. Please try again.')
+    if (invited) setMemberId('')
+  }
+
+  const handleCancelInvitation = async (invitee: User) => {
+    if (!household || !window.confirm(`Take back the invitation for ${invitee.name}?`)) return
+
+    await run(async () => {
+      await deleteHouseholdInvitation(household.id, invitee.id)
+      return `Took back the invitation for ${invitee.name}.`
+    }, 'Failed to take back the invitation. Please try again.')
+  }
+
+  const handleJoin = async (invitation: HouseholdInvitation) => {
+    if (busy) return
+
+    await run(async () => {
+      await joinHousehold(invitation.id)
+      return `You joined ${invitation.name}. Recipes you add from now on belong to the household.`
+    }, 'Failed to join the household. Please try again.')
+  }
+
+  const handleDecline = async (invitation: HouseholdInvitation) => {
+    if (!user || !window.confirm(`Decline the invitation to ${invitation.name}?`)) return
+
+    await run(async () => {
+      await deleteHouseholdInvitation(invitation.id, user.id)
+      return `Declined the invitation to ${invitation.name}.`
+    }, 'Failed to decline the invitation. Please try again.')
+  }
+
+  const handleLeave = async () => {
+    if (!household || !user) return
+    if (!window.confirm(`Leave ${household.name}? You will no longer see its recipes.`)) return
+
+    await run(async () => {
+      await leaveHousehold(household.id, user.id)
+      return `You left ${household.name}.`
+    }, 'Failed to leave the household. Please try again.')
+  }
+
+  const handleShareCollection = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const userId = granteeId.trim().toLowerCase()
+    if (!userId || busy) return
+
+    const shared = await run(async () => {
+      const share = await shareRecipes({ recipeId: null, userId, permission })
+      return `${share.grantee.name} ${permission === 'edit' ? 'can now view and edit' : 'can now view'} your recipes.`
+    }, 'Failed to share. Please try again.')
+    if (shared) setGranteeId('')
+  }
+
+  const handleDeleteShare = async (share: Share, isGiven: boolean) => {
+    const question = isGiven
+      ? `Stop sharing ${describeTarget(share)} with ${share.grantee.name}?`
+      : `Remove ${describeTarget(share)} from ${share.owner.name}? You will need to be invited again.`
+    if (!window.confirm(question)) return
+
+    await run(async () => {
+      await deleteShare(share.id)
+      return isGiven ? `Stopped sharing with ${share.grantee.name}.` : 'Removed.'
+    }, 'Failed to stop sharing. Please try again.')
+  }
+
+  const shownError = error ?? loadError
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="container mx-auto px-4 py-8 max-w-3xl">
+        <div className="mb-6">
+          <button
+            onClick={() => navigate('/')}
+            className="text-blue-600 hover:text-blue-800 flex items-center gap-2"
+          >
+            ← Back to Home
+          </button>
+        </div>
+
+        <h1 className="text-3xl md:text-4xl font-bold mb-2 text-gray-900">Household & Sharing</h1>
+        <p className="text-gray-600 mb-8">
+          Everyone in a household owns its recipes together. To let others see your recipes without joining, share
+          your whole collection or single recipes with them. You are signed in as{' '}
+          <span className="font-medium text-gray-900">{user?.id}</span>; others invite you by that name.
+        </p>
+
+        {shownError && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-red-800 font-medium">{shownError.message}</p>
+            {shownError.correlationId && (
+              <p className="text-red-600 text-sm mt-1">Correlation ID: {shownError.correlationId}</p>
+            )}
+          </div>
+        )}
+
+        {statusMessage && (
+          <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg">
+            <p className="text-green-800">{statusMessage}</p>
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+          <h2 className="text-xl font-semibold mb-2 text-gray-900">Household</h2>
+          {household ? (
+            <>
+              <p className="text-sm text-gray-600 mb-4">
+                Recipes you add belong to <span className="font-medium text-gray-900">{household.name}</span>, and
+                every member can change or delete them.
+              </p>
+              <ul className="divide-y divide-gray-100 mb-4">
+                {household.members.map(member => (
+                  <li key={member.id} className="py-2 flex items-center justify-between gap-4">
+                    <span className="text-gray-900">
+                      {member.name}
+                      {member.name !== member.id && <span className="ml-2 text-sm text-gray-500">{member.id}</span>}
+                      {member.id === user?.id && <span className="ml-2 text-sm text-gray-500">(you)</span>}
+                    </span>
+                    {member.id === user?.id && household.members.length > 1 && (
+                      <button
+                        onClick={handleLeave}
+                        disabled={busy}
+                        className="text-sm text-red-600 hover:text-red-800 disabled:text-gray-400"
+                      >
+                        Leave
+                      </button>
+                    )}
+                  </li>
+                ))}
+                {household.invited.map(invitee => (
+                  <li key={invitee.id} className="py-2 flex items-center justify-between gap-4">
+                    <span className="text-gray-500">
+                      {invitee.name}
+                      {invitee.name !== invitee.id && <span className="ml-2 text-sm">{invitee.id}</span>}
+                      <span className="ml-2 text-sm">(invited)</span>
+                    </span>
+                    <button
+                      onClick={() => handleCancelInvitation(invitee)}
+                      disabled={busy}
+                      className="text-sm text-red-600 hover:text-red-800 disabled:text-gray-400"
+                    >
+                      Take back
+                    </button>
+                  </li>
+                ))}
+              </ul>
+              <form onSubmit={handleInvite} className="flex flex-col sm:flex-row gap-2">
+                <input
+                  type="text"
+                  value={memberId}
+                  onChange={(e) => setMemberId(e.target.value)}
+                  aria-label="User name to invite"
+                  placeholder="User name, e.g., anna"
+                  disabled={busy}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+                />
+                <button
+                  type="submit"
+                  disabled={busy || !memberId.trim()}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium transition-colors"
+                >
+                  Invite
+                </button>
+              </form>
+              <p className="mt-2 text-xs text-gray-500">
+                They need to have signed in once and can't be in another household. They join once they accept.
+              </p>
+            </>
+          ) : (
+            <>
+              <p className="text-sm text-gray-600 mb-4">
+                Your recipes are your own. Start a household to keep the recipes you add from now on together with
+                the people you live with; the ones you already have stay yours.
+              </p>
+              {user && user.invitations.length > 0 && (
+                <ul className="divide-y divide-gray-100 mb-4">
+                  {user.invitations.map(invitation => (
+                    <li key={invitation.id} className="py-2 flex items-center justify-between gap-4">
+                      <span className="text-gray-900">
+                        <span className="font-medium">{invitation.name}</span> has invited you to join
+                      </span>
+                      <span className="flex gap-3">
+                        <button
+                          onClick={() => handleJoin(invitation)}
+                          disabled={busy}
+                          className="text-sm text-blue-600 hover:text-blue-800 font-medium disabled:text-gray-400"
+                        >
+                          Join
+                        </button>
+                        <button
+                          onClick={() => handleDecline(invitation)}
+                          disabled={busy}
+                          className="text-sm text-red-600 hover:text-red-800 disabled:text-gray-400"
+                        >
+                          Decline
+                        </button>
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <form onSubmit={handleCreateHousehold} className="flex flex-col sm:flex-row gap-2">
+                <input
+                  type="text"
+                  value={householdName}
+                  onChange={(e) => setHouseholdName(e.target.value)}
+                  aria-label="Household name"
+                  placeholder="e.g., The Anderssons"
+                  maxLength={100}
+                  disabled={busy}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+                />
+                <button
+                  type="submit"
+                  disabled={busy || !householdName.trim()}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium transition-colors"
+                >
+                  Create Household
+                </button>
+              </form>
+            </>
+          )}
+        </div>
+
+        <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+          <h2 className="text-xl font-semibold mb-2 text-gray-900">Shared by {household ? 'the household' : 'you'}</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            Share every recipe {household ? 'of the household' : 'you add'} with someone. Single recipes are shared
+            from the recipe itself.
+          </p>
+          <form onSubmit={handleShareCollection} className="flex flex-col sm:flex-row gap-2 mb-4">
+            <input
+              type="text"
+              value={granteeId}
+              onChange={(e) => setGranteeId(e.target.value)}
+              aria-label="User name to share with"
+              placeholder="User name, e.g., anna"
+              disabled={busy}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+            />
+            <select
+              value={permission}
+              onChange={(e) => setPermission(e.target.value as SharePermission)}
+              aria-label="Permission"
+              disabled={busy}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm bg-white"
+            >
+              <option value="read">{PERMISSION_LABELS.read}</option>
+              <option value="edit">{PERMISSION_LABELS.edit}</option>
+            </select>
+            <button
+              type="submit"
+              disabled={busy || !granteeId.trim()}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium transition-colors"
+            >
+              Share All Recipes
+            </button>
+          </form>
+
+          {isLoading && <p className="text-sm text-gray-500">Loading...</p>}
+          {shares && shares.given.length === 0 && (
+            <p className="text-sm text-gray-500">Nothing is shared yet.</p>
+          )}
+          <ul className="divide-y divide-gray-100">
+            {shares?.given.map(share => (
+              <li key={share.id} className="py-2 flex items-center justify-between gap-4 text-sm">
+                <span className="text-gray-900">
+                  {share.recipeId ? (
+                    <Link to={`/recipes/${share.recipeId}`} className="text-blue-600 hover:text-blue-800">
+                      {describeTarget(share)}
+                    </Link>
+                  ) : (
+                    'All recipes'
+                  )}{' '}
+                  with <span className="font-medium">{share.grantee.name}</span>
+                  <span className="ml-2 text-gray-500">{describePermission(share.permission)}</span>
+                </span>
+                <button
+                  onClick={() => handleDeleteShare(share, true)}
+                  disabled={busy}
+                  className="text-red-600 hover:text-red-800 disabled:text-gray-400 shrink-0"
+                >
+                  Stop sharing
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+          <h2 className="text-xl font-semibold mb-4 text-gray-900">Shared with You</h2>
+          {shares && shares.received.length === 0 && (
+            <p className="text-sm text-gray-500">No one has shared recipes with you yet.</p>
+          )}
+          <ul className="divide-y divide-gray-100">
+            {shares?.received.map(share => (
+              <li key={share.id} className="py-2 flex items-center justify-between gap-4 text-sm">
+                <span className="text-gray-900">
+                  {share.recipeId ? (
+                    <Link to={`/recipes/${share.recipeId}`} className="text-blue-600 hover:text-blue-800">
+                      {describeTarget(share)}
+                    </Link>
+                  ) : (
+                    'All recipes'
+                  )}{' '}
+                  from <span className="font-medium">{share.owner.name}</span>
+                  <span className="ml-2 text-gray-500">{describePermission(share.permission)}</span>
+                </span>
+                <button
+                  onClick={() => handleDeleteShare(share, false)}
+                  disabled={busy}
+                  className="text-red-600 hover:text-red-800 disabled:text-gray-400 shrink-0"
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  )
+}
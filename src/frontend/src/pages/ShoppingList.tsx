@@ -0,0 +1,182 @@
+import { useState } from 'react'
+import { Link, useNavigate } from 'react-router-dom'
+import ServingsScaler from '../components/ServingsScaler'
+import UnitSystemToggle from '../components/UnitSystemToggle'
+import { useShoppingList } from '../hooks/useShoppingList'
+import { useUnitSystem } from '../hooks/useUnitSystem'
+import { saveFile } from '../utils/download'
+import {
+  STORE_SECTIONS,
+  buildShoppingList,
+  formatShoppingListItem,
+  shoppingListToText,
+} from '../utils/shoppingList'
+
+export default function ShoppingList() {
+  const navigate = useNavigate()
+  const { recipes, checked, removeRecipe, setServings, toggleItem, clearChecked, clearList } = useShoppingList()
+  const [unitSystem, setUnitSystem] = useUnitSystem()
+  const [copyStatus, setCopyStatus] = useState<'copied' | 'failed' | null>(null)
+
+  const items = buildShoppingList(recipes, unitSystem)
+  const checkedKeys = new Set(checked)
+  const remaining = items.filter(item => !checkedKeys.has(item.key)).length
+  const text = shoppingListToText(items, checkedKeys)
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text)
+      setCopyStatus('copied')
+    } catch {
+      // Clipboard access needs a secure context and permission; downloading still works
+      setCopyStatus('failed')
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="container mx-auto px-4 py-8 max-w-3xl">
+        <div className="mb-6">
+          <button
+            onClick={() => navigate('/')}
+            className="text-blue-600 hover:text-blue-800 flex items-center gap-2"
+          >
+            ← Back to Home
+          </button>
+        </div>
+
+        <h1 className="text-3xl md:text-4xl font-bold mb-2 text-gray-900">Shopping List</h1>
+        <p className="text-gray-600 mb-8">
+          Everything you need for the recipes below, with the same ingredients added up and grouped by where they are
+          in the store.
+        </p>
+
+        {recipes.length === 0 ? (
+          <div className="bg-white rounded-lg shadow-md p-6 text-center text-gray-600">
+            <p className="mb-2">Your shopping list is empty.</p>
+            <p className="text-sm">
+              Add recipes from the{' '}
+              <Link to="/" className="text-blue-600 hover:text-blue-800 font-medium">
+                recipe list
+              </Link>{' '}
+              or from a recipe's ingredients.
+            </p>
+          </div>
+        ) : (
+          <>
+            <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+              <div className="flex items-center justify-between gap-4 mb-4">
+                <h2 className="text-xl font-semibold text-gray-900">Recipes</h2>
+                <button onClick={clearList} className="text-sm text-red-600 hover:text-red-800 font-medium">
+                  Clear list
+                </button>
+              </div>
+              <ul className="divide-y divide-gray-100">
+                {recipes.map(recipe => (
+                  <li key={recipe.id} className="py-3 flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4">
+                    <Link
+                      to={`/recipes/${recipe.id}`}
+                      className="flex-1 text-blue-600 hover:text-blue-800 font-medium truncate"
+                    >
+                      {recipe.title}
+                    </Link>
+                    {recipe.baseServings && recipe.servings && (
+                      <ServingsScaler
+                        baseServings={recipe.baseServings}
+                        servings={recipe.servings}
+                        onChange={servings => setServings(recipe.id, servings)}
+                      />
+                    )}
+                    <button
+                      onClick={() => removeRecipe(recipe.id)}
+                      className="self-start sm:self-auto text-sm text-gray-500 hover:text-red-700"
+                      aria-label={`Remove ${recipe.title} from the shopping list`}
+                    >
+                      Remove
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+                <h2 className="text-xl font-semibold text-gray-900">
+                  To Buy{' '}
+                  <span className="text-base font-normal text-gray-500">
+                    ({remaining} of {items.length} left)
+                  </span>
+                </h2>
+                <UnitSystemToggle value={unitSystem} onChange={setUnitSystem} />
+              </div>
+
+              {STORE_SECTIONS.map(({ section, label }) => {
+                const sectionItems = items.filter(item => item.section === section)
+                if (sectionItems.length === 0) return null
+                return (
+                  <section key={section} className="mb-5 last:mb-0">
+                    <h3 className="text-sm font-semibold uppercase tracking-wide text-gray-500 mb-2">{label}</h3>
+                    <ul className="space-y-1">
+                      {sectionItems.map(item => {
+                        const isChecked = checkedKeys.has(item.key)
+                        return (
+                          <li key={item.key}>
+                            <label className="flex items-start gap-3 py-1.5 cursor-pointer">
+                              <input
+                                type="checkbox"
+                                checked={isChecked}
+                                onChange={() => toggleItem(item.key)}
+                                className="mt-1 h-5 w-5 rounded text-blue-600 focus:ring-blue-500"
+                              />
+                              <span className={isChecked ? 'text-gray-400 line-through' : 'text-gray-900'}>
+                                {formatShoppingListItem(item)}
+                                {recipes.length > 1 && (
+                                  <span className="block text-xs text-gray-500 no-underline">
+                                    {item.recipeTitles.join(', ')}
+                                  </span>
+                                )}
+                              </span>
+                            </label>
+                          </li>
+                        )
+                      })}
+                    </ul>
+                  </section>
+                )
+              })}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+              <button
+                onClick={handleCopy}
+                disabled={!text}
+                className="bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed font-medium transition-colors"
+              >
+                Copy as Text
+              </button>
+              <button
+                onClick={() => saveFile(new Blob([text], { type: 'text/plain' }), 'shopping-list.txt')}
+                disabled={!text}
+                className="bg-gray-100 text-gray-700 py-2 px-4 rounded-lg hover:bg-gray-200 disabled:opacity-50 font-medium transition-colors"
+              >
+                Download .txt
+              </button>
+              {checked.length > 0 && (
+                <button
+                  onClick={clearChecked}
+                  className="bg-gray-100 text-gray-700 py-2 px-4 rounded-lg hover:bg-gray-200 font-medium transition-colors"
+                >
+                  Uncheck All
+                </button>
+              )}
+              <span className="text-sm text-gray-500" aria-live="polite">
+                {copyStatus === 'copied' && 'Copied the items not yet checked off.'}
+                {copyStatus === 'failed' && "Couldn't copy; download the list instead."}
+              </span>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
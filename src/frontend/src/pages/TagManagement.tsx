@@ -0,0 +1,190 @@
+import { useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { renameTagMutation, tagsQuery } from '../services/queries'
+import { useMutation } from '../hooks/useMutation'
+import { useQuery } from '../hooks/useQuery'
+import { normalizeTag } from '../utils/tags'
+
+type TagAction = { tag: string; mode: 'rename' | 'merge' }
+
+export default function TagManagement() {
+  const navigate = useNavigate()
+  const { data: tags = [], error: loadError, isLoading } = useQuery(tagsQuery, {
+    errorMessage: 'Failed to load tags. Please try again.',
+  })
+  const rename = useMutation(renameTagMutation, 'Failed to update tag. Please try again.')
+  const [action, setAction] = useState<TagAction | null>(null)
+  const [renameValue, setRenameValue] = useState('')
+  const [mergeTarget, setMergeTarget] = useState('')
+  const [statusMessage, setStatusMessage] = useState<string | null>(null)
+  const isSubmitting = rename.isPending
+  const error = rename.error ?? loadError
+
+  const startAction = (tag: string, mode: TagAction['mode']) => {
+    setAction({ tag, mode })
+    setRenameValue(tag)
+    setMergeTarget('')
+    rename.reset()
+    setStatusMessage(null)
+  }
+
+  const cancelAction = () => {
+    setAction(null)
+    rename.reset()
+  }
+
+  const targetTag = action?.mode === 'rename' ? normalizeTag(renameValue) : mergeTarget
+  // Renaming onto a tag that already exists is a merge, so warn before it happens
+  const targetExists = tags.some(t => t.tag === targetTag && t.tag !== action?.tag)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!action || !targetTag || targetTag === action.tag || isSubmitting) return
+
+    const renamed = await rename.mutate({ tag: action.tag, newTag: targetTag })
+    if (!renamed.ok) return
+
+    const { result } = renamed
+    const recipeLabel = result.updatedRecipeCount === 1 ? 'recipe' : 'recipes'
+    setStatusMessage(
+      result.merged
+        ? `Merged "${action.tag}" into "${result.tag}" on ${result.updatedRecipeCount} ${recipeLabel}.`
+        : `Renamed "${action.tag}" to "${result.tag}" on ${result.updatedRecipeCount} ${recipeLabel}.`
+    )
+    setAction(null)
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="container mx-auto px-4 py-8 max-w-3xl">
+        <div className="mb-6">
+          <button
+            onClick={() => navigate('/')}
+            className="text-blue-600 hover:text-blue-800 flex items-center gap-2"
+          >
+            ← Back to Home
+          </button>
+        </div>
+
+        <h1 className="text-3xl md:text-4xl font-bold mb-2 text-gray-900">Manage Tags</h1>
+        <p className="text-gray-600 mb-8">
+          Rename a tag on every recipe at once, or merge near-duplicates like "dessert" and "desserts".
+        </p>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-red-800 font-medium">{error.message}</p>
+            {error.correlationId && (
+              <p className="text-red-600 text-sm mt-1">Correlation ID: {error.correlationId}</p>
+            )}
+          </div>
+        )}
+
+        {statusMessage && (
+          <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg">
+            <p className="text-green-800">{statusMessage}</p>
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow-md divide-y divide-gray-100">
+          {isLoading && tags.length === 0 && (
+            <p className="p-6 text-gray-500">Loading tags...</p>
+          )}
+
+          {!isLoading && tags.length === 0 && !error && (
+            <p className="p-6 text-gray-500">No tags yet. Tags you add to recipes will show up here.</p>
+          )}
+
+          {tags.map((t) => (
+            <div key={t.tag} className="p-4">
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <span className="inline-flex px-3 py-1 bg-blue-100 text-blue-800 rounded-full text-sm font-medium">
+                    {t.tag}
+                  </span>
+                  <span className="ml-3 text-sm text-gray-500">
+                    {t.recipeCount} {t.recipeCount === 1 ? 'recipe' : 'recipes'}
+                  </span>
+                </div>
+                {action?.tag !== t.tag && (
+                  <div className="flex gap-2 shrink-0">
+                    <button
+                      onClick={() => startAction(t.tag, 'rename')}
+                      className="px-3 py-1.5 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 text-sm font-medium transition-colors"
+                    >
+                      Rename
+                    </button>
+                    {tags.length > 1 && (
+                      <button
+                        onClick={() => startAction(t.tag, 'merge')}
+                        className="px-3 py-1.5 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 text-sm font-medium transition-colors"
+                      >
+                        Merge into...
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              {action?.tag === t.tag && (
+                <form onSubmit={handleSubmit} className="mt-3 space-y-2">
+                  <div className="flex flex-col sm:flex-row gap-2">
+                    {action.mode === 'rename' ? (
+                      <input
+                        type="text"
+                        value={renameValue}
+                        onChange={(e) => setRenameValue(e.target.value)}
+                        aria-label={`New name for ${t.tag}`}
+                        autoFocus
+                        disabled={isSubmitting}
+                        className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+                      />
+                    ) : (
+                      <select
+                        value={mergeTarget}
+                        onChange={(e) => setMergeTarget(e.target.value)}
+                        aria-label={`Merge ${t.tag} into`}
+                        disabled={isSubmitting}
+                        className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm bg-white"
+                      >
+                        <option value="">Choose a tag...</option>
+                        {tags
+                          .filter(other => other.tag !== t.tag)
+                          .map(other => (
+                            <option key={other.tag} value={other.tag}>
+                              {other.tag} ({other.recipeCount})
+                            </option>
+                          ))}
+                      </select>
+                    )}
+                    <button
+                      type="submit"
+                      disabled={isSubmitting || !targetTag || targetTag === t.tag}
+                      className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium transition-colors"
+                    >
+                      {isSubmitting ? 'Saving...' : targetExists ? 'Merge' : 'Rename'}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={cancelAction}
+                      disabled={isSubmitting}
+                      className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 disabled:opacity-50 text-sm font-medium transition-colors"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                  {targetExists && (
+                    <p className="text-sm text-amber-700">
+                      "{t.tag}" will be replaced by "{targetTag}" on {t.recipeCount}{' '}
+                      {t.recipeCount === 1 ? 'recipe' : 'recipes'}. This cannot be undone.
+                    </p>
+                  )}
+                </form>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,4 +1,54 @@
-import type { OcrResponse, Recipe, RecipeSummary, CreateRecipeRequest, ErrorResponse } from '../types'
+import type {
+  OcrLanguage,
+  OcrResponse,
+  Recipe,
+  CreateRecipeRequest,
+  UpdateRecipeRequest,
+  RecipeDraft,
+  SaveDraftRequest,
+  SearchRecipesOptions,
+  SearchRecipesResponse,
+  TagCount,
+  RenameTagResponse,
+  RestoreMode,
+  RestoreReport,
+  MealPlan,
+  MealPlanEntry,
+  ErrorResponse,
+  CurrentUser,
+  DevTokenRequest,
+  Household,
+  Owner,
+  Share,
+  Shares,
+  CreateShareRequest,
+} from '../types'
+import { operations, type OperationId, type Operations, type Schema } from '../types/api.generated'
+import { clearSession, getLastUserId, getSession, homeOwnerOf, saveSession, updateSessionUser } from './auth'
+import { findContractMismatch } from './contract'
+import {
+  cacheRecipe,
+  clearOfflineData,
+  getLocalDraft,
+  getLocalDrafts,
+  removeLocalDraft,
+  saveLocalDraft,
+  cacheSummaries,
+  getCachedRecipe,
+  getCachedRecipes,
+  getCachedSummaries,
+  getQueuedChanges,
+  getSyncedId,
+  queueChange,
+  recordSyncedId,
+  removeCachedRecipe,
+  removeQueuedChange,
+  setSyncing,
+  updateQueuedChange,
+} from './offlineStore'
+import type { LocalDraft, PendingChange, QueuedChange } from './offlineStore'
+import { countCachedTags, searchCachedRecipes } from '../utils/offlineSearch'
+import { normalizeTag } from '../utils/tags'
 
 const API_BASE_URL = (import.meta.env.VITE_API_BASE_URL || '/api').replace(/\/+$/, '')
 
@@ -13,7 +63,21 @@ class ApiError extends Error {
   }
 }
 
-async function handleResponse<T>(response: Response): Promise<T> {
+/** An error as pages show it */
+export interface ErrorState {
+  message: string
+  correlationId?: string
+}
+
+/** The API's own message when there is one, otherwise the fallback */
+export const describeError = (err: unknown, fallback: string): ErrorState =>
+  err instanceof ApiError ? { message: err.message, correlationId: err.correlationId } : { message: fallback }
+
+/** True when the API answered that the thing asked for doesn't exist, e.g. a recipe deleted in the meantime */
+export const isNotFoundError = (err: unknown): boolean => err instanceof ApiError && err.code === 'NOT_FOUND'
+
+/** Success bodies are checked against the schema the API's OpenAPI document gives for them */
+async function handleResponse<T>(response: Response, schema: Schema | null = null): Promise<T> {
   const correlationId = response.headers.get('X-Correlation-Id') || undefined
 
   if (!response.ok) {
@@ -27,68 +91,731 @@ async function handleResponse<T>(response: Response): Promise<T> {
     throw new ApiError(
       errorData?.message || response.statusText || 'Request failed',
       errorData?.code || `HTTP_${response.status}`,
-      correlationId || errorData?.correlationId
+      correlationId || errorData?.correlationId || undefined
     )
   }
 
-  return response.json()
+  // No Content responses (e.g. DELETE) have no body to parse
+  if (response.status === 204) {
+    return undefined as T
+  }
+
+  const data: unknown = await response.json()
+  const mismatch = schema && findContractMismatch(data, schema)
+  if (mismatch) {
+    throw new ApiError(
+      `The server sent something this version of the app doesn't understand (${mismatch}). Reloading the page may help.`,
+      'CONTRACT_MISMATCH',
+      correlationId
+    )
+  }
+  return data as T
 }
 
-export async function uploadImageForOcr(imageFile: File): Promise<OcrResponse> {
-  const formData = new FormData()
-  formData.append('image', imageFile)
+/** Sends the signed-in user's token. The API turning it down means it expired, so the session ends. */
+async function authorizedFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const session = getSession()
+  const headers = new Headers(init.headers)
+  if (session) headers.set('Authorization', `Bearer ${session.accessToken}`)
+
+  const response = await fetch(url, { ...init, headers })
+  // Someone else may have signed in while the request was under way
+  if (response.status === 401 && session && getSession() === session) clearSession()
+  return response
+}
 
-  const response = await fetch(`${API_BASE_URL}/ocr`, {
-    method: 'POST',
-    body: formData,
+type ApiRequest<K extends OperationId> = Omit<Operations[K], 'response'> & { signal?: AbortSignal }
+
+/**
+ * Sends one of the operations in the API's OpenAPI document: path parameters are filled in, query
+ * parameters left out when empty, and the response is checked against the document.
+ */
+async function callApi<K extends OperationId>(operationId: K, request: ApiRequest<K>): Promise<Operations[K]['response']> {
+  const { method, path, query, body: bodyKind, response: schema } = operations[operationId]
+  const params: Record<string, unknown> = request.params
+  const body = 'body' in request ? request.body : undefined
+
+  const search = new URLSearchParams()
+  for (const name of query) {
+    const values = Array.isArray(params[name]) ? params[name] : [params[name]]
+    values.filter(value => value != null && value !== '').forEach(value => search.append(name, String(value)))
+  }
+  const url = `${API_BASE_URL}${path.replace(/\{(\w+)\}/g, (_, name: string) => encodeURIComponent(String(params[name])))}`
+
+  const response = await authorizedFetch(search.toString() ? `${url}?${search}` : url, {
+    method,
+    headers: bodyKind === 'json' ? { 'Content-Type': 'application/json' } : undefined,
+    body: bodyKind === 'json' ? JSON.stringify(body) : (body as FormData | undefined),
+    signal: request.signal,
   })
+  return handleResponse(response, schema)
+}
+
+/** Recipes created offline get a local id until the API has saved them */
+const LOCAL_ID_PREFIX = 'local-'
+
+export const isLocalRecipeId = (id: string) => id.startsWith(LOCAL_ID_PREFIX)
+
+// fetch rejects with a TypeError when the request never reached the server; aborts are DOMExceptions
+const isNetworkError = (err: unknown) => err instanceof TypeError
+
+/** Requests that can't be queued fail with a clear message instead of the browser's "Failed to fetch" */
+async function requireConnection<T>(request: () => Promise<T>, action: string): Promise<T> {
+  try {
+    return await request()
+  } catch (err) {
+    if (isNetworkError(err)) {
+      throw new ApiError(`You're offline. ${action} needs a connection.`, 'OFFLINE')
+    }
+    throw err
+  }
+}
+
+/** Sends a write straight away when possible; returns undefined when it has to be queued instead */
+async function sendOrQueue<T>(request: () => Promise<T>): Promise<T | undefined> {
+  if (!navigator.onLine) return undefined
+
+  try {
+    return await request()
+  } catch (err) {
+    if (isNetworkError(err)) return undefined
+    throw err
+  }
+}
+
+// Links to a recipe created offline keep working after it has been synced
+const resolveRecipeId = async (id: string) => (isLocalRecipeId(id) ? ((await getSyncedId(id)) ?? id) : id)
+
+const applyTagChange = (tags: string[], change: PendingChange): string[] => {
+  if (change.kind === 'addTag') return tags.includes(change.tag) ? tags : [...tags, change.tag]
+  if (change.kind === 'removeTag') return tags.filter(tag => tag !== change.tag)
+  return tags
+}
+
+// Fresh data from the API doesn't know about tag changes still waiting in the queue
+async function withQueuedTagChanges<T extends { id: string; tags: string[] }>(item: T): Promise<T> {
+  const tags = (await getQueuedChanges())
+    .filter(queued => !queued.conflict && 'recipeId' in queued.change && queued.change.recipeId === item.id)
+    .reduce((current, queued) => applyTagChange(current, queued.change), item.tags)
+  return { ...item, tags }
+}
+
+// Recipes created offline go where the API will put them: the household's collection, or the user's own
+const currentHomeOwner = (): Owner => {
+  const session = getSession()
+  if (!session) throw new ApiError('Please sign in to continue.', 'UNAUTHORIZED')
+  return homeOwnerOf(session.user)
+}
+
+/** What a recipe created offline looks like until the API has saved it and detected its ingredients */
+const toLocalRecipe = (id: string, request: CreateRecipeRequest, createdAt: string): Recipe => ({
+  id,
+  title: request.title,
+  rawText: request.rawText,
+  imageRef: request.imageRefs[0] ?? '',
+  imageRefs: request.imageRefs,
+  ocrLanguage: request.ocrLanguage,
+  tags: [...new Set((request.tags ?? []).map(normalizeTag))],
+  ingredients: (request.ingredientLines ?? []).map((freeText, position) => ({ freeText, position })),
+  steps: request.steps ?? [],
+  prepTimeMinutes: request.prepTimeMinutes,
+  cookTimeMinutes: request.cookTimeMinutes,
+  servings: request.servings,
+  yield: request.yield,
+  sourceBook: request.sourceBook,
+  sourcePage: request.sourcePage,
+  createdAt,
+  owner: currentHomeOwner(),
+  access: 'owner',
+})
+
+const findQueuedCreate = async (localId: string) =>
+  (await getQueuedChanges()).find(
+    queued => queued.change.kind === 'createRecipe' && queued.change.localId === localId
+  )
+
+// Edits to a recipe that hasn't been synced yet change the queued create instead of queueing more writes
+async function updateQueuedRecipe(
+  localId: string,
+  update: (request: CreateRecipeRequest) => CreateRecipeRequest
+): Promise<Recipe> {
+  const queued = await findQueuedCreate(localId)
+  if (!queued || queued.change.kind !== 'createRecipe') {
+    throw new ApiError('Recipe not found', 'NOT_FOUND')
+  }
+
+  const request = update(queued.change.request)
+  await updateQueuedChange({ ...queued, change: { ...queued.change, request } })
+  const recipe = toLocalRecipe(localId, request, (await getCachedRecipe(localId))?.createdAt ?? queued.queuedAt)
+  await cacheRecipe(recipe)
+  return recipe
+}
+
+async function queueTagChange(kind: 'addTag' | 'removeTag', recipeId: string, tag: string): Promise<Recipe> {
+  const cached = await getCachedRecipe(recipeId)
+  if (!cached) {
+    throw new ApiError("You're offline, and this recipe isn't saved on this device.", 'OFFLINE')
+  }
+
+  const change: PendingChange = { kind, recipeId, recipeTitle: cached.title, tag }
+  await queueChange(change)
+  const recipe = { ...cached, tags: applyTagChange(cached.tags, change) }
+  await cacheRecipe(recipe)
+  return recipe
+}
+
+/**
+ * Signs in with the API's development token issuer. Signing in as someone other than whoever last
+ * signed in on this device forgets the recipes, drafts and unsent changes kept for them.
+ */
+export async function signIn(request: DevTokenRequest): Promise<CurrentUser> {
+  let token
+  try {
+    token = await requireConnection(() => callApi('CreateDevToken', { params: {}, body: request }), 'Signing in')
+  } catch (err) {
+    if (err instanceof ApiError && err.code === 'HTTP_404') {
+      throw new ApiError('Signing in with a user name is turned off on this server.', 'NOT_FOUND')
+    }
+    throw err
+  }
 
-  return handleResponse<OcrResponse>(response)
+  if (getLastUserId() !== token.user.id) {
+    await clearOfflineData()
+  }
+  saveSession({ accessToken: token.accessToken, expiresAt: token.expiresAt, user: token.user })
+  void syncQueuedChanges()
+  return token.user
+}
+
+/** Signs out and forgets everything kept on this device, including changes that were never sent */
+export async function signOut(): Promise<void> {
+  clearSession({ forget: true })
+  await clearOfflineData()
+}
+
+/** Loads the signed-in user again, e.g. to pick up an invitation or a household they joined on another device */
+export async function refreshCurrentUser(signal?: AbortSignal): Promise<CurrentUser> {
+  const user = await callApi('GetCurrentUser', { params: {}, signal })
+  updateSessionUser(user)
+  return user
+}
+
+/** The creator is the first member; the recipes they add from now on belong to the household */
+export async function createHousehold(name: string): Promise<Household> {
+  const household = await requireConnection(
+    () => callApi('CreateHousehold', { params: {}, body: { name } }),
+    'Creating a household'
+  )
+  await refreshCurrentUser()
+  return household
+}
+
+/** Invites someone who has signed in at least once and isn't in another household; they join when they accept */
+export async function inviteHouseholdMember(householdId: string, userId: string): Promise<Household> {
+  const household = await requireConnection(
+    () => callApi('InviteHouseholdMember', { params: { id: householdId }, body: { userId } }),
+    'Inviting a member'
+  )
+  await refreshCurrentUser()
+  return household
+}
+
+/** Accepts an invitation; the recipes the user adds from now on belong to the household */
+export async function joinHousehold(householdId: string): Promise<Household> {
+  const household = await requireConnection(
+    () => callApi('JoinHousehold', { params: { id: householdId } }),
+    'Joining a household'
+  )
+  await refreshCurrentUser()
+  return household
+}
+
+/** Members can take back an invitation; the invited user declines it by removing their own */
+export async function deleteHouseholdInvitation(householdId: string, userId: string): Promise<void> {
+  await requireConnection(
+    () => callApi('DeleteHouseholdInvitation', { params: { id: householdId, userId } }),
+    'Removing an invitation'
+  )
+  await refreshCurrentUser()
 }
 
+/** Members can only remove themselves; the household's recipes stay with the other members */
+export async function leaveHousehold(householdId: string, userId: string): Promise<void> {
+  await requireConnection(
+    () => callApi('RemoveHouseholdMember', { params: { id: householdId, userId } }),
+    'Leaving the household'
+  )
+  await refreshCurrentUser()
+}
+
+export async function getShares(signal?: AbortSignal): Promise<Shares> {
+  return requireConnection(() => callApi('GetShares', { params: {}, signal }), 'Sharing')
+}
+
+/** Only the owners of a recipe can share it; without a recipe id their whole collection is shared */
+export async function shareRecipes(request: CreateShareRequest): Promise<Share> {
+  return requireConnection(() => callApi('CreateShare', { params: {}, body: request }), 'Sharing')
+}
+
+/** The owners stop sharing, or whoever it was shared with gives it up */
+export async function deleteShare(id: string): Promise<void> {
+  await requireConnection(() => callApi('DeleteShare', { params: { id } }), 'Stopping sharing')
+}
+
+/**
+ * Resolves an imageRef (blob path) to a URL the browser can load directly.
+ * Each path segment is encoded separately so the slashes stay intact.
+ */
+export function getImageUrl(imageRef: string): string {
+  const path = imageRef
+    .split('/')
+    .map(segment => encodeURIComponent(segment))
+    .join('/')
+  return `${API_BASE_URL}/images/${path}`
+}
+
+export async function uploadImageForOcr(imageFile: File, language?: OcrLanguage): Promise<OcrResponse> {
+  const formData = new FormData()
+  formData.append('image', imageFile)
+  if (language) {
+    formData.append('language', language)
+  }
+
+  return requireConnection(() => callApi('RunOcr', { params: {}, body: formData }), 'Reading a photo')
+}
+
+/**
+ * Creates a recipe. Offline, the recipe is queued and returned with a local id until it has been synced.
+ */
 export async function createRecipe(request: CreateRecipeRequest): Promise<Recipe> {
-  const response = await fetch(`${API_BASE_URL}/recipes`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(request),
-  })
+  const created = await sendOrQueue(() => callApi('CreateRecipe', { params: {}, body: request }))
+
+  if (created) {
+    await cacheRecipe(created)
+    return created
+  }
+
+  const localId = `${LOCAL_ID_PREFIX}${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+  await queueChange({ kind: 'createRecipe', localId, request })
+  const recipe = toLocalRecipe(localId, request, new Date().toISOString())
+  await cacheRecipe(recipe)
+  return recipe
+}
+
+/**
+ * Loads a recipe and keeps a copy for offline reading. Offline, the copy is returned instead.
+ */
+export async function getRecipe(id: string, signal?: AbortSignal): Promise<Recipe> {
+  const recipeId = await resolveRecipeId(id)
+  if (isLocalRecipeId(recipeId)) {
+    const local = await getCachedRecipe(recipeId)
+    if (!local) throw new ApiError('Recipe not found', 'NOT_FOUND')
+    return local
+  }
+
+  try {
+    const recipe = await withQueuedTagChanges(await callApi('GetRecipe', { params: { id: recipeId }, signal }))
+    await cacheRecipe(recipe)
+    return recipe
+  } catch (err) {
+    if (err instanceof ApiError && err.code === 'NOT_FOUND') {
+      await removeCachedRecipe(recipeId)
+    }
+    if (!isNetworkError(err)) throw err
 
-  return handleResponse<Recipe>(response)
+    const cached = await getCachedRecipe(recipeId)
+    if (cached) return cached
+    throw new ApiError("You're offline, and this recipe hasn't been opened on this device yet.", 'OFFLINE')
+  }
 }
 
-export async function getRecipe(id: string): Promise<Recipe> {
-  const response = await fetch(`${API_BASE_URL}/recipes/${id}`)
-  return handleResponse<Recipe>(response)
+export async function updateRecipe(id: string, request: UpdateRecipeRequest): Promise<Recipe> {
+  const recipeId = await resolveRecipeId(id)
+  if (isLocalRecipeId(recipeId)) {
+    return updateQueuedRecipe(recipeId, current => ({
+      ...current,
+      ...request,
+      steps: request.steps ?? current.steps,
+      tags: request.tags ?? current.tags,
+    }))
+  }
+
+  const recipe = await requireConnection(
+    () => callApi('UpdateRecipe', { params: { id: recipeId }, body: request }),
+    'Saving changes'
+  )
+
+  await cacheRecipe(recipe)
+  return recipe
 }
 
-export async function searchRecipes(query?: string, tag?: string): Promise<RecipeSummary[]> {
-  const params = new URLSearchParams()
-  if (query) params.append('query', query)
-  if (tag) params.append('tag', tag)
-  
-  const url = params.toString() ? `${API_BASE_URL}/recipes?${params.toString()}` : `${API_BASE_URL}/recipes`
-  const response = await fetch(url)
-  return handleResponse<RecipeSummary[]>(response)
+export async function deleteRecipe(id: string): Promise<void> {
+  const recipeId = await resolveRecipeId(id)
+  if (isLocalRecipeId(recipeId)) {
+    // Never sent, so there is nothing to delete on the server
+    const queued = await findQueuedCreate(recipeId)
+    if (queued) await removeQueuedChange(queued.id)
+    await removeCachedRecipe(recipeId)
+    return
+  }
+
+  await requireConnection(() => callApi('DeleteRecipe', { params: { id: recipeId } }), 'Deleting a recipe')
+
+  await removeCachedRecipe(recipeId)
 }
 
+export async function searchRecipes(
+  query?: string,
+  tags: string[] = [],
+  options: SearchRecipesOptions = {}
+): Promise<SearchRecipesResponse> {
+  const params = {
+    query,
+    tag: tags,
+    tagMatch: tags.length > 1 ? options.tagMatch : undefined,
+    page: options.page || undefined,
+    pageSize: options.pageSize || undefined,
+    sort: options.sort,
+  }
+
+  try {
+    const data = await callApi('SearchRecipes', { params, signal: options.signal })
+    const recipes = await Promise.all(data.recipes.map(withQueuedTagChanges))
+    // Every result joins the offline search index
+    await cacheSummaries(recipes)
+    return { ...data, recipes }
+  } catch (err) {
+    if (!isNetworkError(err)) throw err
+    return searchCachedRecipes(await getCachedSummaries(), await getCachedRecipes(), query, tags, options)
+  }
+}
+
+/** Offline, the counts cover the recipes saved on this device */
+export async function getTags(signal?: AbortSignal): Promise<TagCount[]> {
+  try {
+    return await callApi('GetTags', { params: {}, signal })
+  } catch (err) {
+    if (!isNetworkError(err)) throw err
+    return countCachedTags(await getCachedSummaries())
+  }
+}
+
+/**
+ * Renames a tag on every recipe. Renaming onto an existing tag merges the two.
+ */
+export async function renameTag(tag: string, newTag: string): Promise<RenameTagResponse> {
+  return requireConnection(() => callApi('RenameTag', { params: { tag }, body: { newTag } }), 'Renaming a tag')
+}
+
+const sendAddTag = (recipeId: string, tag: string) => callApi('AddRecipeTag', { params: { id: recipeId }, body: { tag } })
+
+const sendRemoveTag = (recipeId: string, tag: string) =>
+  callApi('RemoveRecipeTag', { params: { id: recipeId, tag } })
+
+/** Offline, the tag is added to the saved copy and the change is queued */
 export async function addTagToRecipe(recipeId: string, tag: string): Promise<Recipe> {
-  const response = await fetch(`${API_BASE_URL}/recipes/${recipeId}/tags`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({ tag }),
-  })
-  return handleResponse<Recipe>(response)
+  const id = await resolveRecipeId(recipeId)
+  const normalizedTag = normalizeTag(tag)
+  if (isLocalRecipeId(id)) {
+    return updateQueuedRecipe(id, request => ({ ...request, tags: [...(request.tags ?? []), normalizedTag] }))
+  }
+
+  const recipe = await sendOrQueue(() => sendAddTag(id, normalizedTag))
+  if (!recipe) {
+    return queueTagChange('addTag', id, normalizedTag)
+  }
+  await cacheRecipe(recipe)
+  return recipe
 }
 
+/** Offline, the tag is removed from the saved copy and the change is queued */
 export async function removeTagFromRecipe(recipeId: string, tag: string): Promise<Recipe> {
-  const response = await fetch(`${API_BASE_URL}/recipes/${recipeId}/tags/${encodeURIComponent(tag)}`, {
-    method: 'DELETE',
+  const id = await resolveRecipeId(recipeId)
+  const normalizedTag = normalizeTag(tag)
+  if (isLocalRecipeId(id)) {
+    return updateQueuedRecipe(id, request => ({
+      ...request,
+      tags: (request.tags ?? []).filter(t => normalizeTag(t) !== normalizedTag),
+    }))
+  }
+
+  const recipe = await sendOrQueue(() => sendRemoveTag(id, normalizedTag))
+  if (!recipe) {
+    return queueTagChange('removeTag', id, normalizedTag)
+  }
+  await cacheRecipe(recipe)
+  return recipe
+}
+
+/**
+ * Downloads the whole collection as a ZIP archive: every recipe as JSON plus its photos.
+ */
+export async function downloadBackup(): Promise<File> {
+  const response = await requireConnection(() => authorizedFetch(`${API_BASE_URL}/backup`), 'Backing up')
+  if (!response.ok) {
+    await handleResponse(response)
+  }
+
+  const fileName = response.headers.get('Content-Disposition')?.match(/filename="?([^";]+)"?/)?.[1] ?? 'recipe-collection.zip'
+  return new File([await response.blob()], fileName, { type: 'application/zip' })
+}
+
+/**
+ * Restores a backup archive. A dry run reports what would be created, overwritten, skipped or duplicated
+ * without changing anything.
+ */
+export async function restoreBackup(archive: File, mode: RestoreMode, dryRun: boolean): Promise<RestoreReport> {
+  const formData = new FormData()
+  formData.append('file', archive)
+  formData.append('mode', mode)
+  formData.append('dryRun', String(dryRun))
+
+  return requireConnection(() => callApi('RestoreBackup', { params: {}, body: formData }), 'Restoring a backup')
+}
+
+/** Weeks start on Monday; a week that has never been planned comes back empty */
+export async function getMealPlan(weekStart: string, signal?: AbortSignal): Promise<MealPlan> {
+  return requireConnection(() => callApi('GetMealPlan', { params: { weekStart }, signal }), 'The meal planner')
+}
+
+/** Replaces every entry of the week */
+export async function saveMealPlan(weekStart: string, entries: MealPlanEntry[]): Promise<MealPlan> {
+  return requireConnection(
+    () => callApi('SaveMealPlan', { params: { weekStart }, body: { entries } }),
+    'Saving the meal plan'
+  )
+}
+
+/** The week as an iCalendar file, one event per planned recipe */
+export async function downloadMealPlanCalendar(weekStart: string): Promise<File> {
+  const response = await requireConnection(
+    () => authorizedFetch(`${API_BASE_URL}/meal-plans/${weekStart}/calendar`),
+    'Exporting the meal plan'
+  )
+  if (!response.ok) {
+    await handleResponse(response)
+  }
+
+  return new File([await response.blob()], `meal-plan-${weekStart}.ics`, { type: 'text/calendar' })
+}
+
+/** Drafts kept on the server have no photos of their own; resuming one downloads them again */
+export async function getImageFile(imageRef: string): Promise<File> {
+  const response = await requireConnection(() => fetch(getImageUrl(imageRef)), 'Loading the photos of a draft')
+  if (!response.ok) {
+    throw new ApiError('Failed to load a photo of the draft', `HTTP_${response.status}`)
+  }
+
+  const blob = await response.blob()
+  return new File([blob], imageRef.split('/').pop() || 'page.jpg', { type: blob.type })
+}
+
+// Only another device saving after this one last synced makes the server copy the newer one
+const isNewerOnServer = (local: LocalDraft, server: RecipeDraft) => {
+  const serverTime = Date.parse(server.updatedAt)
+  return serverTime > Date.parse(local.serverUpdatedAt ?? '') && serverTime > Date.parse(local.updatedAt)
+}
+
+const fromServerDraft = (draft: RecipeDraft): LocalDraft => ({
+  ...draft,
+  pages: draft.pages.map(page => ({ ...page, words: [] })),
+  serverUpdatedAt: draft.updatedAt,
+})
+
+/**
+ * Unfinished recipes saved on this device or on the server, most recently saved first.
+ * Offline, only the drafts on this device are listed.
+ */
+export async function getDrafts(signal?: AbortSignal): Promise<LocalDraft[]> {
+  const drafts = new Map((await getLocalDrafts()).map(draft => [draft.id, draft]))
+
+  try {
+    for (const serverDraft of await callApi('GetDrafts', { params: {}, signal })) {
+      const local = drafts.get(serverDraft.id)
+      if (!local || isNewerOnServer(local, serverDraft)) {
+        drafts.set(serverDraft.id, fromServerDraft(serverDraft))
+      }
+    }
+  } catch (err) {
+    if (!isNetworkError(err)) throw err
+  }
+
+  // Drafts deleted offline stay on the server until the deletion has synced
+  const deleted = new Set(
+    (await getQueuedChanges()).flatMap(queued => (queued.change.kind === 'deleteDraft' ? [queued.change.draftId] : []))
+  )
+  return Array.from(drafts.values())
+    .filter(draft => !deleted.has(draft.id))
+    .sort((a, b) => Date.parse(b.updatedAt) - Date.parse(a.updatedAt))
+}
+
+export async function getDraft(id: string): Promise<LocalDraft> {
+  const local = await getLocalDraft(id)
+
+  try {
+    const serverDraft = await callApi('GetDraft', { params: { id } })
+    if (!local || isNewerOnServer(local, serverDraft)) {
+      return fromServerDraft(serverDraft)
+    }
+  } catch (err) {
+    // The copy on this device still counts when the server can't be reached or doesn't have the draft
+    const isMissingOnServer = err instanceof ApiError && err.code === 'NOT_FOUND'
+    if (!local && !isNetworkError(err) && !isMissingOnServer) throw err
+  }
+
+  if (!local) throw new ApiError('Draft not found', 'NOT_FOUND')
+  return local
+}
+
+/**
+ * Saves a draft on this device, then on the server so it can be finished elsewhere.
+ * Only pages whose text has been extracted reach the server; failing to reach it is not an error.
+ */
+export async function saveDraft(draft: LocalDraft): Promise<LocalDraft> {
+  let saved: LocalDraft = { ...draft, updatedAt: new Date().toISOString() }
+  await saveLocalDraft(saved)
+
+  const request: SaveDraftRequest = {
+    title: saved.title,
+    rawText: saved.rawText ?? null,
+    tagsInput: saved.tagsInput,
+    ocrLanguage: saved.ocrLanguage,
+    pages: saved.pages.filter(page => page.imageRef).map(({ imageRef, text }) => ({ imageRef, text })),
+    sections: saved.sections ?? null,
+  }
+
+  try {
+    const serverDraft = await callApi('SaveDraft', { params: { id: saved.id }, body: request })
+    saved = { ...saved, serverUpdatedAt: serverDraft.updatedAt }
+    await saveLocalDraft(saved)
+  } catch {
+    // The copy on this device is enough to resume from; the next save tries the server again
+  }
+
+  return saved
+}
+
+const sendDeleteDraft = async (id: string) => {
+  try {
+    await callApi('DeleteDraft', { params: { id } })
+  } catch (err) {
+    // Never reached the server, or already deleted from another device
+    if (!(err instanceof ApiError && err.code === 'NOT_FOUND')) throw err
+  }
+}
+
+/** Deletes a draft everywhere. Offline, the server copy is deleted once the connection is back */
+export async function deleteDraft(draft: Pick<LocalDraft, 'id' | 'title'>): Promise<void> {
+  await removeLocalDraft(draft.id)
+
+  const deleted = await sendOrQueue(async () => {
+    await sendDeleteDraft(draft.id)
+    return true
+  })
+  if (!deleted) {
+    await queueChange({ kind: 'deleteDraft', draftId: draft.id, draftTitle: draft.title })
+  }
+}
+
+async function sendQueuedChange(change: PendingChange): Promise<void> {
+  if (change.kind === 'deleteDraft') {
+    await sendDeleteDraft(change.draftId)
+    return
+  }
+
+  if (change.kind === 'createRecipe') {
+    const recipe = await callApi('CreateRecipe', { params: {}, body: change.request })
+    await recordSyncedId(change.localId, recipe.id)
+    await removeCachedRecipe(change.localId)
+    await cacheRecipe(recipe)
+    return
+  }
+
+  const recipe = change.kind === 'addTag'
+    ? await sendAddTag(change.recipeId, change.tag)
+    : await sendRemoveTag(change.recipeId, change.tag)
+  await cacheRecipe(await withQueuedTagChanges(recipe))
+}
+
+const describeConflict = (change: PendingChange, err: ApiError): string => {
+  if (change.kind === 'deleteDraft') {
+    return `The draft "${change.draftTitle}" could not be deleted: ${err.message}`
+  }
+  if (change.kind === 'createRecipe') {
+    return `"${change.request.title}" could not be saved: ${err.message}`
+  }
+
+  const action = change.kind === 'addTag' ? `add the tag "${change.tag}" to` : `remove the tag "${change.tag}" from`
+  return err.code === 'NOT_FOUND'
+    ? `Could not ${action} "${change.recipeTitle}" because the recipe was deleted on another device.`
+    : `Could not ${action} "${change.recipeTitle}": ${err.message}`
+}
+
+let syncRun: Promise<void> | null = null
+
+/**
+ * Sends queued changes in the order they were made. Tag changes are sent as single adds and removes, so
+ * they merge with edits made elsewhere in the meantime; a change the API rejects is kept as a conflict
+ * for the user to retry or discard, and the rest of the queue carries on.
+ */
+export function syncQueuedChanges(): Promise<void> {
+  syncRun ??= (async () => {
+    setSyncing(true)
+    try {
+      for (const queued of await getQueuedChanges()) {
+        if (queued.conflict) continue
+
+        try {
+          await sendQueuedChange(queued.change)
+          await removeQueuedChange(queued.id)
+        } catch (err) {
+          // Still offline, the server is struggling or the session expired: keep everything queued for the next attempt
+          if (!(err instanceof ApiError) || err.code.startsWith('HTTP_5') || err.code === 'UNAUTHORIZED') return
+          await updateQueuedChange({ ...queued, conflict: describeConflict(queued.change, err) })
+        }
+      }
+    } finally {
+      setSyncing(false)
+      syncRun = null
+    }
+  })()
+  return syncRun
+}
+
+export async function retryQueuedChange(queued: QueuedChange): Promise<void> {
+  await updateQueuedChange({ ...queued, conflict: undefined })
+  await syncQueuedChanges()
+}
+
+/** Drops a conflicting change and undoes it on the copy saved on this device */
+export async function discardQueuedChange(queued: QueuedChange): Promise<void> {
+  await removeQueuedChange(queued.id)
+
+  const { change } = queued
+  if (change.kind === 'deleteDraft') return
+  if (change.kind === 'createRecipe') {
+    await removeCachedRecipe(change.localId)
+    return
+  }
+
+  const cached = await getCachedRecipe(change.recipeId)
+  if (cached) {
+    const undo: PendingChange = { ...change, kind: change.kind === 'addTag' ? 'removeTag' : 'addTag' }
+    await cacheRecipe({ ...cached, tags: applyTagChange(cached.tags, undo) })
+  }
+
+  // Replaces the copy with the server's, or drops it when the recipe was deleted
+  await getRecipe(change.recipeId).catch(() => undefined)
+}
+
+/** Syncs queued changes now and whenever the connection comes back */
+export function startOfflineSync(): void {
+  window.addEventListener('online', () => {
+    void syncQueuedChanges()
   })
-  return handleResponse<Recipe>(response)
+  if (navigator.onLine) {
+    void syncQueuedChanges()
+  }
 }
 
 export { ApiError }
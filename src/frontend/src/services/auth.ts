@@ -0,0 +1,90 @@
+import type { CurrentUser, Owner } from '../types'
+
+const SESSION_KEY = 'recipe-collection.session'
+const LAST_USER_KEY = 'recipe-collection.lastUser'
+
+/** A signed-in user and the token sent with every request */
+export interface Session {
+  accessToken: string
+  expiresAt: string
+  user: CurrentUser
+}
+
+const listeners = new Set<() => void>()
+
+const readStoredSession = (): Session | null => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SESSION_KEY) ?? 'null') as Session | null
+    if (!stored || Date.parse(stored.expiresAt) <= Date.now()) return null
+    // Sessions saved before invitations existed lack them until the user is loaded again
+    const { household, invitations = [] } = stored.user
+    return {
+      ...stored,
+      user: { ...stored.user, household: household && { ...household, invited: household.invited ?? [] }, invitations },
+    }
+  } catch {
+    // Storage can be unavailable (e.g. blocked cookies); the user signs in again on every visit
+    return null
+  }
+}
+
+let session = readStoredSession()
+
+const store = (key: string, value: string | null) => {
+  try {
+    if (value === null) localStorage.removeItem(key)
+    else localStorage.setItem(key, value)
+  } catch {
+    // The session still lasts for this visit
+  }
+}
+
+const notify = () => listeners.forEach(listener => listener())
+
+/** The same object until someone signs in or out, so components can compare it by reference */
+export const getSession = (): Session | null => session
+
+/** Calls the listener whenever someone signs in or out, or the session expires */
+export function subscribeToSession(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export function saveSession(next: Session): void {
+  session = next
+  store(SESSION_KEY, JSON.stringify(next))
+  store(LAST_USER_KEY, next.user.id)
+  notify()
+}
+
+/** Updates the signed-in user, e.g. after they joined a household */
+export function updateSessionUser(user: CurrentUser): void {
+  if (session) saveSession({ ...session, user })
+}
+
+/**
+ * Ends the session. The last user is remembered unless `forget` is set, so signing in again as
+ * someone else can tell that the data kept on this device isn't theirs.
+ */
+export function clearSession({ forget = false }: { forget?: boolean } = {}): void {
+  session = null
+  store(SESSION_KEY, null)
+  if (forget) store(LAST_USER_KEY, null)
+  notify()
+}
+
+export function getLastUserId(): string | null {
+  try {
+    return localStorage.getItem(LAST_USER_KEY)
+  } catch {
+    return null
+  }
+}
+
+/** Where the user's new recipes go: their household's collection, or their own when they aren't in one */
+export const homeOwnerOf = (user: CurrentUser): Owner =>
+  user.household
+    ? { id: `household:${user.household.id}`, kind: 'household', name: user.household.name }
+    : { id: `user:${user.id}`, kind: 'user', name: user.name }
@@ -0,0 +1,51 @@
+import { schemas, type Schema } from '../types/api.generated'
+
+const describeValue = (value: unknown) =>
+  value === null ? 'null' : Array.isArray(value) ? 'an array' : typeof value === 'object' ? 'an object' : typeof value
+
+const matchesType = (value: unknown, type: 'string' | 'number' | 'integer' | 'boolean') =>
+  type === 'integer' ? Number.isInteger(value) : type === 'number' ? Number.isFinite(value) : typeof value === type
+
+/**
+ * Where a value from the API first differs from the schema its OpenAPI document gives for it, e.g.
+ * "recipes[3].createdAt is missing", or null when it matches. Properties the document doesn't know are
+ * allowed, so the API can add fields without breaking a frontend that is still open in a tab.
+ */
+export function findContractMismatch(value: unknown, schema: Schema, path = 'response'): string | null {
+  if (value === null) return schema.nullable ? null : `${path} is null`
+  if ('$ref' in schema) return findContractMismatch(value, schemas[schema.$ref], path)
+
+  switch (schema.type) {
+    case 'unknown':
+      return null
+    case 'array':
+      if (!Array.isArray(value)) return `${path} should be an array, not ${describeValue(value)}`
+      for (const [index, item] of value.entries()) {
+        const mismatch = findContractMismatch(item, schema.items, `${path}[${index}]`)
+        if (mismatch) return mismatch
+      }
+      return null
+    case 'object': {
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        return `${path} should be an object, not ${describeValue(value)}`
+      }
+      const record = value as Record<string, unknown>
+      for (const [name, property] of Object.entries(schema.properties)) {
+        const isRequired = schema.required.includes(name)
+        if (record[name] === undefined) {
+          if (isRequired) return `${path}.${name} is missing`
+          continue
+        }
+        // Optional properties come back as null when the API has nothing for them
+        if (record[name] === null && !isRequired) continue
+        const mismatch = findContractMismatch(record[name], property, `${path}.${name}`)
+        if (mismatch) return mismatch
+      }
+      return null
+    }
+    default:
+      if (!matchesType(value, schema.type)) return `${path} should be ${schema.type}, not ${describeValue(value)}`
+      if (schema.enum && !schema.enum.includes(value)) return `${path} is ${JSON.stringify(value)}, which isn't allowed`
+      return null
+  }
+}
@@ -0,0 +1,225 @@
+import type { CreateRecipeRequest, OcrWord, Recipe, RecipeDraft, RecipeSummary } from '../types'
+import type { ImageAdjustments } from '../utils/imageProcessing'
+
+const DB_NAME = 'recipe-collection'
+const DB_VERSION = 2
+const RECIPES = 'recipes'
+const SUMMARIES = 'summaries'
+const OUTBOX = 'outbox'
+const SYNCED_IDS = 'syncedIds'
+const DRAFTS = 'drafts'
+
+/** A write made while offline, waiting to be sent to the API */
+export type PendingChange =
+  | { kind: 'createRecipe'; localId: string; request: CreateRecipeRequest }
+  | { kind: 'addTag'; recipeId: string; recipeTitle: string; tag: string }
+  | { kind: 'removeTag'; recipeId: string; recipeTitle: string; tag: string }
+  | { kind: 'deleteDraft'; draftId: string; draftTitle: string }
+
+export interface QueuedChange {
+  id: number
+  change: PendingChange
+  queuedAt: string
+  /** Set when the API rejected the change; it stays queued until the user retries or discards it */
+  conflict?: string
+}
+
+/** A draft page as kept on this device, with its photos so pages that were never uploaded survive too */
+export interface LocalDraftPage {
+  /** Empty until the page's text has been extracted */
+  imageRef: string
+  text: string
+  words: OcrWord[]
+  /** Absent for drafts loaded from the server, whose photos are downloaded again when resumed */
+  originalFile?: File
+  file?: File
+  adjustments?: ImageAdjustments
+}
+
+export interface LocalDraft extends Omit<RecipeDraft, 'pages'> {
+  pages: LocalDraftPage[]
+  /** The server's updatedAt for the last copy this device saved there; absent until it has been */
+  serverUpdatedAt?: string
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+const listeners = new Set<() => void>()
+let syncing = false
+
+const openDb = (): Promise<IDBDatabase> => {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = event => {
+      const db = request.result
+      if (event.oldVersion < 1) {
+        db.createObjectStore(RECIPES, { keyPath: 'id' })
+        db.createObjectStore(SUMMARIES, { keyPath: 'id' })
+        db.createObjectStore(OUTBOX, { keyPath: 'id', autoIncrement: true })
+        db.createObjectStore(SYNCED_IDS)
+      }
+      if (event.oldVersion < 2) {
+        db.createObjectStore(DRAFTS, { keyPath: 'id' })
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => {
+      dbPromise = null
+      reject(request.error)
+    }
+  })
+  return dbPromise
+}
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+const withStore = async <T>(
+  name: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb()
+  return promisify(action(db.transaction(name, mode).objectStore(name)))
+}
+
+// The cache is a best effort: private browsing or a full disk must not break the online app
+const quietly = async <T>(action: () => Promise<T>, fallback: T): Promise<T> => {
+  try {
+    return await action()
+  } catch {
+    return fallback
+  }
+}
+
+const notify = () => listeners.forEach(listener => listener())
+
+/** Whether queued changes are being sent right now */
+export const isSyncing = () => syncing
+
+export function setSyncing(value: boolean): void {
+  syncing = value
+  notify()
+}
+
+/** Calls the listener whenever the outbox or the syncing state changes */
+export function subscribeToOutbox(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export const toSummary = (recipe: Recipe): RecipeSummary => ({
+  id: recipe.id,
+  title: recipe.title,
+  tags: recipe.tags,
+  createdAt: recipe.createdAt,
+  imageRef: recipe.imageRef,
+})
+
+/** Stores a recipe for offline reading; its summary also joins the offline search index */
+export async function cacheRecipe(recipe: Recipe): Promise<void> {
+  await quietly(async () => {
+    await withStore(RECIPES, 'readwrite', store => store.put(recipe))
+    await withStore(SUMMARIES, 'readwrite', store => store.put(toSummary(recipe)))
+  }, undefined)
+}
+
+export async function getCachedRecipe(id: string): Promise<Recipe | undefined> {
+  return quietly(() => withStore<Recipe | undefined>(RECIPES, 'readonly', store => store.get(id)), undefined)
+}
+
+export async function getCachedRecipes(): Promise<Recipe[]> {
+  return quietly(() => withStore<Recipe[]>(RECIPES, 'readonly', store => store.getAll()), [])
+}
+
+export async function removeCachedRecipe(id: string): Promise<void> {
+  await quietly(async () => {
+    await withStore(RECIPES, 'readwrite', store => store.delete(id))
+    await withStore(SUMMARIES, 'readwrite', store => store.delete(id))
+  }, undefined)
+}
+
+/** Adds search results to the offline search index, keeping any full recipe already cached */
+export async function cacheSummaries(summaries: RecipeSummary[]): Promise<void> {
+  await quietly(async () => {
+    const db = await openDb()
+    const transaction = db.transaction(SUMMARIES, 'readwrite')
+    summaries.forEach(summary => transaction.objectStore(SUMMARIES).put(summary))
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(transaction.error)
+    })
+  }, undefined)
+}
+
+export async function getCachedSummaries(): Promise<RecipeSummary[]> {
+  return quietly(() => withStore<RecipeSummary[]>(SUMMARIES, 'readonly', store => store.getAll()), [])
+}
+
+/** Remembers the id the API gave a recipe that was created offline, so old links keep working */
+export async function recordSyncedId(localId: string, id: string): Promise<void> {
+  await quietly(() => withStore(SYNCED_IDS, 'readwrite', store => store.put(id, localId)), undefined)
+}
+
+export async function getSyncedId(localId: string): Promise<string | undefined> {
+  return quietly(() => withStore<string | undefined>(SYNCED_IDS, 'readonly', store => store.get(localId)), undefined)
+}
+
+/** Unlike the cache, a failed draft save is reported: the user is told their work may not be kept */
+export async function saveLocalDraft(draft: LocalDraft): Promise<void> {
+  await withStore(DRAFTS, 'readwrite', store => store.put(draft))
+}
+
+export async function getLocalDraft(id: string): Promise<LocalDraft | undefined> {
+  return quietly(() => withStore<LocalDraft | undefined>(DRAFTS, 'readonly', store => store.get(id)), undefined)
+}
+
+export async function getLocalDrafts(): Promise<LocalDraft[]> {
+  return quietly(() => withStore<LocalDraft[]>(DRAFTS, 'readonly', store => store.getAll()), [])
+}
+
+export async function removeLocalDraft(id: string): Promise<void> {
+  await quietly(() => withStore(DRAFTS, 'readwrite', store => store.delete(id)), undefined)
+}
+
+/** Queued changes, oldest first */
+export async function getQueuedChanges(): Promise<QueuedChange[]> {
+  return quietly(() => withStore<QueuedChange[]>(OUTBOX, 'readonly', store => store.getAll()), [])
+}
+
+/** Unlike the cache, queueing must not fail silently: the caller has to know the change was not kept */
+export async function queueChange(change: PendingChange): Promise<void> {
+  await withStore(OUTBOX, 'readwrite', store =>
+    store.add({ change, queuedAt: new Date().toISOString() } as Omit<QueuedChange, 'id'>)
+  )
+  notify()
+}
+
+export async function updateQueuedChange(queued: QueuedChange): Promise<void> {
+  await withStore(OUTBOX, 'readwrite', store => store.put(queued))
+  notify()
+}
+
+export async function removeQueuedChange(id: number): Promise<void> {
+  await withStore(OUTBOX, 'readwrite', store => store.delete(id))
+  notify()
+}
+
+/** Forgets everything kept on this device, e.g. when someone else signs in on it */
+export async function clearOfflineData(): Promise<void> {
+  await quietly(async () => {
+    const db = await openDb()
+    const names = [RECIPES, SUMMARIES, OUTBOX, SYNCED_IDS, DRAFTS]
+    const transaction = db.transaction(names, 'readwrite')
+    names.forEach(name => transaction.objectStore(name).clear())
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(transaction.error)
+    })
+  }, undefined)
+  notify()
+}
@@ -0,0 +1,194 @@
+import type {
+  CreateRecipeRequest,
+  Recipe,
+  RecipeSummary,
+  RenameTagResponse,
+  SearchRecipesOptions,
+  Shares,
+  SearchRecipesResponse,
+  TagCount,
+  UpdateRecipeRequest,
+} from '../types'
+import {
+  addTagToRecipe,
+  createRecipe,
+  deleteRecipe,
+  getDrafts,
+  getRecipe,
+  getShares,
+  getTags,
+  removeTagFromRecipe,
+  renameTag,
+  searchRecipes,
+  updateRecipe,
+} from './api'
+import { getSession, subscribeToSession } from './auth'
+import type { LocalDraft } from './offlineStore'
+import { isSyncing, subscribeToOutbox } from './offlineStore'
+import {
+  clearQueries,
+  invalidateQueries,
+  refreshStaleQueries,
+  setQueryData,
+  updateQueryData,
+  type Mutation,
+  type Query,
+} from './queryCache'
+import { normalizeTag } from '../utils/tags'
+
+export const queryKeys = {
+  recipe: (id: string) => ['recipes', id] as const,
+  recipes: ['recipes'] as const,
+  /** Every page of search results */
+  searches: ['searches'] as const,
+  tags: ['tags'] as const,
+  drafts: ['drafts'] as const,
+  shares: ['shares'] as const,
+}
+
+export const recipeQuery = (id: string): Query<Recipe> => ({
+  key: queryKeys.recipe(id),
+  fetch: signal => getRecipe(id, signal),
+})
+
+export const recipeSearchQuery = (
+  query: string,
+  tags: string[],
+  { tagMatch, page, pageSize, sort }: Omit<SearchRecipesOptions, 'signal'> = {}
+): Query<SearchRecipesResponse> => ({
+  // Built field by field so equal searches always get the same key
+  key: [...queryKeys.searches, { query, tags, tagMatch, page, pageSize, sort }],
+  fetch: signal => searchRecipes(query, tags, { tagMatch, page, pageSize, sort, signal }),
+})
+
+export const tagsQuery: Query<TagCount[]> = {
+  key: queryKeys.tags,
+  fetch: signal => getTags(signal),
+}
+
+export const draftsQuery: Query<LocalDraft[]> = {
+  key: queryKeys.drafts,
+  fetch: signal => getDrafts(signal),
+}
+
+export const sharesQuery: Query<Shares> = {
+  key: queryKeys.shares,
+  fetch: signal => getShares(signal),
+}
+
+/** Changes every cached copy of a recipe: the recipe itself and its summary in any search results */
+function updateCachedRecipe(recipeId: string, change: <T extends RecipeSummary>(recipe: T) => T): () => void {
+  const undoRecipe = updateQueryData<Recipe>(queryKeys.recipe(recipeId), change)
+  const undoSearches = updateQueryData<SearchRecipesResponse>(queryKeys.searches, results => ({
+    ...results,
+    recipes: results.recipes.map(summary => (summary.id === recipeId ? change(summary) : summary)),
+  }))
+
+  return () => {
+    undoRecipe()
+    undoSearches()
+  }
+}
+
+// A recipe opened by its offline id is cached under that id too
+const cacheSavedRecipe = (recipe: Recipe, requestedId = recipe.id) => {
+  setQueryData(queryKeys.recipe(recipe.id), recipe)
+  if (requestedId !== recipe.id) setQueryData(queryKeys.recipe(requestedId), recipe)
+  updateCachedRecipe(recipe.id, summary => ({ ...summary, title: recipe.title, tags: recipe.tags }))
+}
+
+/** Recipes were added, changed or removed, so any search result and tag count may be different */
+export function invalidateRecipeLists(): void {
+  invalidateQueries(queryKeys.searches)
+  invalidateQueries(queryKeys.tags)
+}
+
+/** Shows the tag on the recipe straight away, and takes it off again if adding it fails */
+export const addTagMutation = (recipeId: string): Mutation<string, Recipe> => ({
+  mutate: tag => addTagToRecipe(recipeId, tag),
+  onMutate: tag =>
+    updateCachedRecipe(recipeId, recipe => {
+      const normalizedTag = normalizeTag(tag)
+      return recipe.tags.includes(normalizedTag) ? recipe : { ...recipe, tags: [...recipe.tags, normalizedTag] }
+    }),
+  onSuccess: recipe => cacheSavedRecipe(recipe, recipeId),
+  onSettled: () => invalidateQueries(queryKeys.tags),
+})
+
+/** Takes the tag off the recipe straight away, and puts it back if removing it fails */
+export const removeTagMutation = (recipeId: string): Mutation<string, Recipe> => ({
+  mutate: tag => removeTagFromRecipe(recipeId, tag),
+  onMutate: tag =>
+    updateCachedRecipe(recipeId, recipe => ({
+      ...recipe,
+      tags: recipe.tags.filter(t => t !== normalizeTag(tag)),
+    })),
+  onSuccess: recipe => cacheSavedRecipe(recipe, recipeId),
+  onSettled: () => invalidateQueries(queryKeys.tags),
+})
+
+export const createRecipeMutation: Mutation<CreateRecipeRequest, Recipe> = {
+  mutate: createRecipe,
+  onSuccess: recipe => {
+    setQueryData(queryKeys.recipe(recipe.id), recipe)
+    invalidateRecipeLists()
+  },
+}
+
+// A new title can move the recipe in title-sorted results, so searches are loaded again
+export const updateRecipeMutation = (recipeId: string): Mutation<UpdateRecipeRequest, Recipe> => ({
+  mutate: request => updateRecipe(recipeId, request),
+  onSuccess: recipe => {
+    cacheSavedRecipe(recipe, recipeId)
+    invalidateRecipeLists()
+  },
+})
+
+export const deleteRecipeMutation = (recipeId: string): Mutation<void, void> => ({
+  mutate: () => deleteRecipe(recipeId),
+  onSuccess: invalidateRecipeLists,
+})
+
+export const renameTagMutation: Mutation<{ tag: string; newTag: string }, RenameTagResponse> = {
+  mutate: ({ tag, newTag }) => renameTag(tag, newTag),
+  onSuccess: () => {
+    invalidateQueries(queryKeys.recipes)
+    invalidateRecipeLists()
+  },
+}
+
+/**
+ * Keeps cached data in step with what happens outside this tab's requests: changes made offline
+ * reaching the server, the connection coming back, the user returning to the tab, and someone else
+ * signing in.
+ */
+export function startQueryRevalidation(): void {
+  // What one user may see is none of the next one's business
+  let userId = getSession()?.user.id
+  subscribeToSession(() => {
+    const nextUserId = getSession()?.user.id
+    if (nextUserId !== userId) clearQueries()
+    userId = nextUserId
+  })
+
+  let wasSyncing = isSyncing()
+  let sentChanges = false
+
+  subscribeToOutbox(() => {
+    const syncing = isSyncing()
+    if (syncing && wasSyncing) sentChanges = true
+    // Recipes created offline now have their real ids, and tag changes are on the server
+    if (!syncing && wasSyncing && sentChanges) {
+      sentChanges = false
+      invalidateQueries()
+    }
+    wasSyncing = syncing
+  })
+
+  // Anything loaded while offline came from this device
+  window.addEventListener('online', () => invalidateQueries())
+
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'visible') refreshStaleQueries()
+  })
+}
@@ -0,0 +1,93 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import {
+  clearQueries,
+  fetchQuery,
+  getQueryState,
+  invalidateQueries,
+  setQueryData,
+  subscribeToQuery,
+  updateQueryData,
+  type Query,
+} from './queryCache'
+
+// A query whose loads are resolved by the test, one at a time
+function controlledQuery(key: string) {
+  const pending: Array<(value: string) => void> = []
+  const query: Query<string> = {
+    key: [key],
+    retries: 0,
+    fetch: () => new Promise<string>(resolve => pending.push(resolve)),
+  }
+  return { query, pending }
+}
+
+const settle = () => new Promise(resolve => setTimeout(resolve, 0))
+
+afterEach(() => clearQueries())
+
+describe('invalidateQueries', () => {
+  it('loads again after an awaited load that started before the invalidation', async () => {
+    const { query, pending } = controlledQuery('awaited')
+    const unsubscribe = subscribeToQuery(query.key, () => {})
+    const loading = fetchQuery(query)
+
+    invalidateQueries(query.key)
+    pending[0]('before the change')
+    await loading
+    await settle()
+
+    expect(getQueryState(query.key).isInvalidated).toBe(true)
+    expect(pending).toHaveLength(2)
+
+    pending[1]('after the change')
+    await settle()
+
+    expect(getQueryState(query.key)).toMatchObject({ data: 'after the change', isInvalidated: false })
+    unsubscribe()
+  })
+
+  it('keeps a key nothing shows out of date when its awaited load predates the invalidation', async () => {
+    const { query, pending } = controlledQuery('unshown')
+    const loading = fetchQuery(query)
+
+    invalidateQueries(query.key)
+    pending[0]('before the change')
+    await loading
+
+    expect(getQueryState(query.key)).toMatchObject({ data: 'before the change', isInvalidated: true })
+    expect(pending).toHaveLength(1)
+  })
+})
+
+describe('updateQueryData', () => {
+  it('puts the previous data back on undo', () => {
+    setQueryData(['list'], [1, 2])
+
+    const undo = updateQueryData<number[]>(['list'], data => [...data, 3])
+    undo()
+
+    expect(getQueryState(['list']).data).toEqual([1, 2])
+  })
+
+  it('leaves data set after the optimistic update alone on undo', () => {
+    setQueryData(['list'], [1, 2])
+    const undo = updateQueryData<number[]>(['list'], data => [...data, 3])
+
+    setQueryData(['list'], [1, 2, 3, 4])
+    undo()
+
+    expect(getQueryState(['list']).data).toEqual([1, 2, 3, 4])
+  })
+
+  it('keeps a later optimistic update when undoing an earlier one', () => {
+    setQueryData(['tags'], ['soup'])
+    const undoFirst = updateQueryData<string[]>(['tags'], tags => [...tags, 'quick'])
+    const undoSecond = updateQueryData<string[]>(['tags'], tags => [...tags, 'vegan'])
+
+    undoFirst()
+    expect(getQueryState(['tags'])).toMatchObject({ data: ['soup', 'quick', 'vegan'], isInvalidated: true })
+
+    undoSecond()
+    expect(getQueryState(['tags']).data).toEqual(['soup', 'quick'])
+  })
+})
@@ -0,0 +1,300 @@
+import { ApiError } from './api'
+
+/**
+ * Identifies cached data. Keys are compared by value, and a key whose first elements equal a shorter key
+ * belongs to it, so ['searches'] covers every ['searches', { query, tags, ... }] search.
+ */
+export type QueryKey = readonly unknown[]
+
+/** How to load the data for a key */
+export interface Query<T> {
+  key: QueryKey
+  fetch: (signal: AbortSignal) => Promise<T>
+  /** Reads are safe to repeat, so failures that may be temporary are retried unless this is 0 */
+  retries?: number
+  timeoutMs?: number
+}
+
+/** A change to the server's data, and what it means for the cache */
+export interface Mutation<TVariables, TResult> {
+  mutate: (variables: TVariables) => Promise<TResult>
+  /** Updates cached data before the request is sent; returns how to undo that if the change fails */
+  onMutate?: (variables: TVariables) => () => void
+  onSuccess?: (result: TResult, variables: TVariables) => void
+  /** Runs after success and failure alike */
+  onSettled?: () => void
+}
+
+export interface QueryState<T> {
+  data?: T
+  /** The last load failed; data, if any, is from an earlier load */
+  error?: unknown
+  /** When the data was loaded or set, 0 when it never was */
+  updatedAt: number
+  isFetching: boolean
+  /** The data is out of date because something changed it on the server */
+  isInvalidated: boolean
+}
+
+/** Cached data this old is still shown, but loaded again in the background */
+export const DEFAULT_STALE_TIME_MS = 30_000
+/** Data nothing has shown for this long is dropped */
+const UNUSED_TIME_MS = 5 * 60_000
+const DEFAULT_TIMEOUT_MS = 15_000
+const DEFAULT_RETRIES = 2
+const RETRY_BASE_DELAY_MS = 500
+const RETRY_MAX_DELAY_MS = 4_000
+
+interface Request {
+  promise: Promise<unknown>
+  controller: AbortController
+  /** Someone awaits the result, so it is not cancelled when the last component showing the data unmounts */
+  isAwaited: boolean
+  /** The entry's invalidation count when the request started; a later invalidation makes its data out of date */
+  invalidations: number
+}
+
+interface CacheEntry {
+  key: QueryKey
+  state: QueryState<unknown>
+  /** The query last used to load the key, to load it again after invalidation */
+  query?: Query<unknown>
+  request?: Request
+  /** How often the entry has been invalidated, to tell whether a request started before the latest change */
+  invalidations: number
+  /** Counts every change to the data, to tell whether it changed again after an optimistic update */
+  version: number
+  subscribers: Set<() => void>
+  cleanupTimer?: ReturnType<typeof setTimeout>
+}
+
+const EMPTY_STATE: QueryState<never> = { updatedAt: 0, isFetching: false, isInvalidated: false }
+
+const entries = new Map<string, CacheEntry>()
+
+export const hashQueryKey = (key: QueryKey) => JSON.stringify(key)
+
+const matchesKey = (key: QueryKey, prefix: QueryKey) =>
+  prefix.length <= key.length && prefix.every((part, index) => hashQueryKey([part]) === hashQueryKey([key[index]]))
+
+const matchingEntries = (prefix: QueryKey) => [...entries.values()].filter(entry => matchesKey(entry.key, prefix))
+
+const scheduleCleanup = (entry: CacheEntry) => {
+  clearTimeout(entry.cleanupTimer)
+  entry.cleanupTimer = setTimeout(() => {
+    if (entry.subscribers.size === 0 && !entry.request) entries.delete(hashQueryKey(entry.key))
+  }, UNUSED_TIME_MS)
+}
+
+function getEntry(key: QueryKey): CacheEntry {
+  const hash = hashQueryKey(key)
+  let entry = entries.get(hash)
+  if (!entry) {
+    entry = { key, state: EMPTY_STATE, invalidations: 0, version: 0, subscribers: new Set() }
+    entries.set(hash, entry)
+    scheduleCleanup(entry)
+  }
+  return entry
+}
+
+// States are replaced, never changed in place, so components can compare them by reference
+const setState = (entry: CacheEntry, changes: Partial<QueryState<unknown>>) => {
+  if ('data' in changes) entry.version++
+  entry.state = { ...entry.state, ...changes }
+  entry.subscribers.forEach(listener => listener())
+}
+
+const isStale = (state: QueryState<unknown>, staleTimeMs: number) =>
+  state.isInvalidated || state.updatedAt === 0 || Date.now() - state.updatedAt >= staleTimeMs
+
+// Worth another try: the server failing or being slow, or the request not getting through at all
+const isRetryable = (err: unknown) =>
+  err instanceof ApiError ? err.code === 'TIMEOUT' || err.code.startsWith('HTTP_5') : err instanceof TypeError
+
+const abortError = () => new DOMException('The request was cancelled', 'AbortError')
+
+const wait = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms)
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer)
+      reject(abortError())
+    }, { once: true })
+  })
+
+// Exponential, with jitter so clients that failed together don't all retry at the same moment
+const retryDelay = (attempt: number) =>
+  Math.min(RETRY_BASE_DELAY_MS * 2 ** attempt, RETRY_MAX_DELAY_MS) * (0.5 + Math.random() / 2)
+
+/** One attempt, given up on when the signal aborts or the time runs out, even if the fetcher ignores its signal */
+async function attempt<T>(query: Query<T>, signal: AbortSignal): Promise<T> {
+  const controller = new AbortController()
+  let timedOut = false
+  let rejectAborted: (err: unknown) => void = () => {}
+  const aborted = new Promise<never>((_, reject) => {
+    rejectAborted = reject
+  })
+  const abort = () => {
+    controller.abort()
+    rejectAborted(timedOut ? new ApiError('The server took too long to answer. Please try again.', 'TIMEOUT') : abortError())
+  }
+  const timer = setTimeout(() => {
+    timedOut = true
+    abort()
+  }, query.timeoutMs ?? DEFAULT_TIMEOUT_MS)
+  signal.addEventListener('abort', abort)
+
+  try {
+    return await Promise.race([query.fetch(controller.signal), aborted])
+  } finally {
+    clearTimeout(timer)
+    signal.removeEventListener('abort', abort)
+  }
+}
+
+async function fetchWithRetries<T>(query: Query<T>, signal: AbortSignal): Promise<T> {
+  const retries = query.retries ?? DEFAULT_RETRIES
+  for (let attemptNumber = 0; ; attemptNumber++) {
+    try {
+      return await attempt(query, signal)
+    } catch (err) {
+      if (signal.aborted || attemptNumber >= retries || !isRetryable(err)) throw err
+      await wait(retryDelay(attemptNumber), signal)
+    }
+  }
+}
+
+// A key already being loaded shares that request instead of sending another
+function startRequest<T>(entry: CacheEntry, query: Query<T>): Request {
+  if (entry.request && !entry.request.controller.signal.aborted) return entry.request
+
+  entry.query = query as Query<unknown>
+  const controller = new AbortController()
+  const request: Request = { controller, isAwaited: false, invalidations: entry.invalidations, promise: Promise.resolve() }
+  request.promise = fetchWithRetries(query, controller.signal).then(
+    data => {
+      if (entry.request === request) {
+        entry.request = undefined
+        // Data from before the latest change is kept, but stays out of date and is loaded again if shown
+        const isInvalidated = request.invalidations !== entry.invalidations
+        setState(entry, { data, error: undefined, updatedAt: Date.now(), isFetching: false, isInvalidated })
+        if (isInvalidated && entry.subscribers.size > 0) startRequest(entry, query).promise.catch(() => {})
+      }
+      return data
+    },
+    err => {
+      if (entry.request === request) {
+        entry.request = undefined
+        // Cancelled because nothing needs the data any more, which is not a failure to show
+        setState(entry, controller.signal.aborted ? { isFetching: false } : { error: err, isFetching: false })
+      }
+      throw err
+    }
+  )
+  entry.request = request
+  setState(entry, { isFetching: true })
+  return request
+}
+
+export function getQueryState<T>(key: QueryKey): QueryState<T> {
+  return (entries.get(hashQueryKey(key))?.state ?? EMPTY_STATE) as QueryState<T>
+}
+
+export const getQueryData = <T>(key: QueryKey): T | undefined => getQueryState<T>(key).data
+
+/**
+ * Calls the listener whenever the state of the key changes. When the last listener goes, a load
+ * nobody awaits is cancelled.
+ */
+export function subscribeToQuery(key: QueryKey, listener: () => void): () => void {
+  const entry = getEntry(key)
+  clearTimeout(entry.cleanupTimer)
+  entry.subscribers.add(listener)
+
+  return () => {
+    entry.subscribers.delete(listener)
+    if (entry.subscribers.size > 0) return
+    if (entry.request && !entry.request.isAwaited) entry.request.controller.abort()
+    scheduleCleanup(entry)
+  }
+}
+
+/** Loads the key in the background when its data is stale; the outcome ends up in its state */
+export function refreshQuery<T>(query: Query<T>, staleTimeMs = DEFAULT_STALE_TIME_MS): void {
+  const entry = getEntry(query.key)
+  if (isStale(entry.state, staleTimeMs)) {
+    startRequest(entry, query).promise.catch(() => {})
+  }
+}
+
+/** The data for the key: cached when still fresh, otherwise loaded */
+export async function fetchQuery<T>(query: Query<T>, staleTimeMs = DEFAULT_STALE_TIME_MS): Promise<T> {
+  const entry = getEntry(query.key)
+  if (!isStale(entry.state, staleTimeMs)) return entry.state.data as T
+
+  const request = startRequest(entry, query)
+  request.isAwaited = true
+  return request.promise as Promise<T>
+}
+
+/** Replaces the data for the key, e.g. with what the API returned after a change */
+export function setQueryData<T>(key: QueryKey, data: T): void {
+  setState(getEntry(key), { data, error: undefined, updatedAt: Date.now(), isInvalidated: false })
+}
+
+/**
+ * Changes the cached data of every key under the prefix, without loading anything. Returns a function
+ * that puts the previous data back, for undoing an optimistic update when the change fails. Keys whose
+ * data changed since then, by a load, a set or another update, keep it, as putting the previous data back
+ * would throw those changes away; they are marked out of date instead, so the server's data replaces
+ * what may still show the failed change.
+ */
+export function updateQueryData<T>(prefix: QueryKey, update: (data: T) => T): () => void {
+  const previous = matchingEntries(prefix)
+    .filter(entry => entry.state.data !== undefined)
+    .map(entry => {
+      const { data } = entry.state
+      setState(entry, { data: update(data as T) })
+      return { entry, data, version: entry.version }
+    })
+
+  return () =>
+    previous.forEach(({ entry, data, version }) => {
+      if (entry.version === version) setState(entry, { data })
+      else invalidateQueries(entry.key)
+    })
+}
+
+/**
+ * Marks the data of every key under the prefix as out of date. Keys something is showing are loaded
+ * again right away; the others when next shown. An empty prefix covers everything. A load already under
+ * way may have started before the change: one nobody awaits is restarted, and an awaited one still
+ * leaves the key out of date when it finishes.
+ */
+export function invalidateQueries(prefix: QueryKey = []): void {
+  for (const entry of matchingEntries(prefix)) {
+    entry.invalidations++
+    setState(entry, { isInvalidated: true })
+    if (entry.subscribers.size === 0 || !entry.query) continue
+
+    if (entry.request?.isAwaited) continue
+    entry.request?.controller.abort()
+    startRequest(entry, entry.query).promise.catch(() => {})
+  }
+}
+
+/** Loads again whatever is being shown and has gone stale, e.g. when the user comes back to the tab */
+export function refreshStaleQueries(): void {
+  for (const entry of entries.values()) {
+    if (entry.subscribers.size > 0 && entry.query) refreshQuery(entry.query)
+  }
+}
+
+/** Forgets all cached data and cancels every load, e.g. when someone else signs in */
+export function clearQueries(): void {
+  for (const entry of entries.values()) {
+    entry.request?.controller.abort()
+    entry.request = undefined
+    setState(entry, EMPTY_STATE)
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * Registers the service worker that keeps the app shell and recipe photos available offline.
+ * Only production builds register it, so the dev server never serves stale modules.
+ */
+export function registerServiceWorker(): void {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(() => {
+      // The app works without it; it just won't open offline
+    })
+  })
+}
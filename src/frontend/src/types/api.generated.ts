@@ -0,0 +1,1048 @@
+// Generated by scripts/generate-api.mjs from Recipe Collection API v1
+// Do not edit by hand: run `npm run generate:api` after changing the API.
+
+/** What a response value is checked against at runtime; `$ref` names one of `schemas` */
+export type Schema = { nullable?: boolean } & (
+  | { type: 'string' | 'number' | 'integer' | 'boolean'; enum?: readonly unknown[] }
+  | { type: 'array'; items: Schema }
+  | { type: 'object'; properties: Readonly<Record<string, Schema>>; required: readonly string[] }
+  | { $ref: SchemaName }
+  | { type: 'unknown' }
+)
+
+export interface AddTagRequest {
+  tag: string
+}
+
+export interface CreateHouseholdRequest {
+  name: string
+}
+
+export interface CreateRecipeRequest {
+  title: string
+  rawText: string
+  imageRef?: string | null
+  imageRefs?: string[] | null
+  servings?: number | null
+  ocrLanguage?: string | null
+  ingredientLines?: string[] | null
+  steps?: string[] | null
+  prepTimeMinutes?: number | null
+  cookTimeMinutes?: number | null
+  yield?: string | null
+  sourceBook?: string | null
+  sourcePage?: string | null
+  tags?: string[] | null
+}
+
+export interface CreateShareRequest {
+  recipeId?: string | null
+  userId: string
+  permission: string
+}
+
+export interface CurrentUserResponse {
+  id: string
+  name: string
+  household?: HouseholdResponse | null
+  invitations: HouseholdInvitationResponse[]
+}
+
+export interface DevTokenRequest {
+  userName: string
+  displayName?: string | null
+}
+
+export interface DevTokenResponse {
+  accessToken: string
+  expiresAt: string
+  user: CurrentUserResponse
+}
+
+export interface DraftPageDto {
+  imageRef: string
+  text: string
+}
+
+export interface DraftResponse {
+  id: string
+  title: string
+  rawText?: string | null
+  tagsInput: string
+  ocrLanguage?: string | null
+  pages: DraftPageDto[]
+  sections?: DraftSectionsDto | null
+  createdAt: string
+  updatedAt: string
+}
+
+export interface DraftSectionsDto {
+  ingredients: string
+  steps: string
+  servings: string
+  prepTime: string
+  cookTime: string
+  yield: string
+  sourceBook: string
+  sourcePage: string
+}
+
+export interface ErrorResponse {
+  code: string
+  message: string
+  correlationId?: string | null
+}
+
+export interface HouseholdInvitationResponse {
+  id: string
+  name: string
+}
+
+export interface HouseholdResponse {
+  id: string
+  name: string
+  members: UserDto[]
+  invited: UserDto[]
+}
+
+export interface IngredientDto {
+  freeText: string
+  canonicalName?: string | null
+  quantity?: number | null
+  quantityMax?: number | null
+  unit?: string | null
+  name?: string | null
+  position: number
+}
+
+export interface InviteHouseholdMemberRequest {
+  userId: string
+}
+
+export interface MealPlanEntryDto {
+  date: string
+  meal: string
+  recipeId: string
+  recipeTitle: string
+}
+
+export interface MealPlanResponse {
+  weekStart: string
+  entries: MealPlanEntryDto[]
+  updatedAt?: string | null
+}
+
+export interface OcrResponse {
+  imageRef: string
+  extractedText: string
+  language: string
+  words: OcrWordDto[]
+}
+
+export interface OcrWordDto {
+  text: string
+  confidence: number
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface OwnerDto {
+  id: string
+  kind: string
+  name: string
+}
+
+export interface RecipeDetailResponse {
+  id: string
+  title: string
+  rawText: string
+  imageRef: string
+  imageRefs: string[]
+  servings?: number | null
+  ocrLanguage?: string | null
+  steps: string[]
+  prepTimeMinutes?: number | null
+  cookTimeMinutes?: number | null
+  yield?: string | null
+  sourceBook?: string | null
+  sourcePage?: string | null
+  tags: string[]
+  ingredients: IngredientDto[]
+  createdAt: string
+  owner: OwnerDto
+  access: string
+}
+
+export interface RecipeSummaryResponse {
+  id: string
+  title: string
+  tags: string[]
+  createdAt: string
+  imageRef: string
+}
+
+export interface RenameTagRequest {
+  newTag: string
+}
+
+export interface RenameTagResponse {
+  tag: string
+  recipeCount: number
+  updatedRecipeCount: number
+  merged: boolean
+}
+
+export interface RestoreReportResponse {
+  dryRun: boolean
+  mode: string
+  created: number
+  overwritten: number
+  skipped: number
+  duplicated: number
+  imageCount: number
+  recipes: RestoredRecipeResponse[]
+  warnings: string[]
+}
+
+export interface RestoredRecipeResponse {
+  id: string
+  title: string
+  action: string
+  newId?: string | null
+}
+
+export interface SaveDraftRequest {
+  title?: string | null
+  rawText?: string | null
+  tagsInput?: string | null
+  ocrLanguage?: string | null
+  pages?: DraftPageDto[] | null
+  sections?: DraftSectionsDto | null
+}
+
+export interface SaveMealPlanRequest {
+  entries?: MealPlanEntryDto[] | null
+}
+
+export interface SearchRecipesResponse {
+  recipes: RecipeSummaryResponse[]
+  page: number
+  pageSize: number
+  totalCount: number
+  totalPages: number
+}
+
+export interface ShareResponse {
+  id: string
+  owner: OwnerDto
+  recipeId?: string | null
+  recipeTitle?: string | null
+  grantee: UserDto
+  permission: string
+  createdAt: string
+}
+
+export interface SharesResponse {
+  given: ShareResponse[]
+  received: ShareResponse[]
+}
+
+export interface TagCountResponse {
+  tag: string
+  recipeCount: number
+}
+
+export interface UpdateRecipeRequest {
+  title: string
+  rawText: string
+  servings?: number | null
+  ingredientLines?: string[] | null
+  steps?: string[] | null
+  prepTimeMinutes?: number | null
+  cookTimeMinutes?: number | null
+  yield?: string | null
+  sourceBook?: string | null
+  sourcePage?: string | null
+  tags?: string[] | null
+}
+
+export interface UserDto {
+  id: string
+  name: string
+}
+
+export type SchemaName =
+  | 'AddTagRequest'
+  | 'CreateHouseholdRequest'
+  | 'CreateRecipeRequest'
+  | 'CreateShareRequest'
+  | 'CurrentUserResponse'
+  | 'DevTokenRequest'
+  | 'DevTokenResponse'
+  | 'DraftPageDto'
+  | 'DraftResponse'
+  | 'DraftSectionsDto'
+  | 'ErrorResponse'
+  | 'HouseholdInvitationResponse'
+  | 'HouseholdResponse'
+  | 'IngredientDto'
+  | 'InviteHouseholdMemberRequest'
+  | 'MealPlanEntryDto'
+  | 'MealPlanResponse'
+  | 'OcrResponse'
+  | 'OcrWordDto'
+  | 'OwnerDto'
+  | 'RecipeDetailResponse'
+  | 'RecipeSummaryResponse'
+  | 'RenameTagRequest'
+  | 'RenameTagResponse'
+  | 'RestoreReportResponse'
+  | 'RestoredRecipeResponse'
+  | 'SaveDraftRequest'
+  | 'SaveMealPlanRequest'
+  | 'SearchRecipesResponse'
+  | 'ShareResponse'
+  | 'SharesResponse'
+  | 'TagCountResponse'
+  | 'UpdateRecipeRequest'
+  | 'UserDto'
+
+export const schemas: Readonly<Record<SchemaName, Schema>> = {
+  AddTagRequest: {
+    type: 'object',
+    required: ['tag'],
+    properties: {
+      tag: { type: 'string' },
+    },
+  },
+  CreateHouseholdRequest: {
+    type: 'object',
+    required: ['name'],
+    properties: {
+      name: { type: 'string' },
+    },
+  },
+  CreateRecipeRequest: {
+    type: 'object',
+    required: ['rawText', 'title'],
+    properties: {
+      title: { type: 'string' },
+      rawText: { type: 'string' },
+      imageRef: { type: 'string', nullable: true },
+      imageRefs: { type: 'array', items: { type: 'string' }, nullable: true },
+      servings: { type: 'integer', nullable: true },
+      ocrLanguage: { type: 'string', nullable: true },
+      ingredientLines: { type: 'array', items: { type: 'string' }, nullable: true },
+      steps: { type: 'array', items: { type: 'string' }, nullable: true },
+      prepTimeMinutes: { type: 'integer', nullable: true },
+      cookTimeMinutes: { type: 'integer', nullable: true },
+      yield: { type: 'string', nullable: true },
+      sourceBook: { type: 'string', nullable: true },
+      sourcePage: { type: 'string', nullable: true },
+      tags: { type: 'array', items: { type: 'string' }, nullable: true },
+    },
+  },
+  CreateShareRequest: {
+    type: 'object',
+    required: ['permission', 'userId'],
+    properties: {
+      recipeId: { type: 'string', nullable: true },
+      userId: { type: 'string' },
+      permission: { type: 'string' },
+    },
+  },
+  CurrentUserResponse: {
+    type: 'object',
+    required: ['id', 'invitations', 'name'],
+    properties: {
+      id: { type: 'string' },
+      name: { type: 'string' },
+      household: { $ref: 'HouseholdResponse', nullable: true },
+      invitations: { type: 'array', items: { $ref: 'HouseholdInvitationResponse' } },
+    },
+  },
+  DevTokenRequest: {
+    type: 'object',
+    required: ['userName'],
+    properties: {
+      userName: { type: 'string' },
+      displayName: { type: 'string', nullable: true },
+    },
+  },
+  DevTokenResponse: {
+    type: 'object',
+    required: ['accessToken', 'expiresAt', 'user'],
+    properties: {
+      accessToken: { type: 'string' },
+      expiresAt: { type: 'string' },
+      user: { $ref: 'CurrentUserResponse' },
+    },
+  },
+  DraftPageDto: {
+    type: 'object',
+    required: ['imageRef', 'text'],
+    properties: {
+      imageRef: { type: 'string' },
+      text: { type: 'string' },
+    },
+  },
+  DraftResponse: {
+    type: 'object',
+    required: ['createdAt', 'id', 'pages', 'tagsInput', 'title', 'updatedAt'],
+    properties: {
+      id: { type: 'string' },
+      title: { type: 'string' },
+      rawText: { type: 'string', nullable: true },
+      tagsInput: { type: 'string' },
+      ocrLanguage: { type: 'string', nullable: true },
+      pages: { type: 'array', items: { $ref: 'DraftPageDto' } },
+      sections: { $ref: 'DraftSectionsDto', nullable: true },
+      createdAt: { type: 'string' },
+      updatedAt: { type: 'string' },
+    },
+  },
+  DraftSectionsDto: {
+    type: 'object',
+    required: ['cookTime', 'ingredients', 'prepTime', 'servings', 'sourceBook', 'sourcePage', 'steps', 'yield'],
+    properties: {
+      ingredients: { type: 'string' },
+      steps: { type: 'string' },
+      servings: { type: 'string' },
+      prepTime: { type: 'string' },
+      cookTime: { type: 'string' },
+      yield: { type: 'string' },
+      sourceBook: { type: 'string' },
+      sourcePage: { type: 'string' },
+    },
+  },
+  ErrorResponse: {
+    type: 'object',
+    required: ['code', 'message'],
+    properties: {
+      code: { type: 'string' },
+      message: { type: 'string' },
+      correlationId: { type: 'string', nullable: true },
+    },
+  },
+  HouseholdInvitationResponse: {
+    type: 'object',
+    required: ['id', 'name'],
+    properties: {
+      id: { type: 'string' },
+      name: { type: 'string' },
+    },
+  },
+  HouseholdResponse: {
+    type: 'object',
+    required: ['id', 'invited', 'members', 'name'],
+    properties: {
+      id: { type: 'string' },
+      name: { type: 'string' },
+      members: { type: 'array', items: { $ref: 'UserDto' } },
+      invited: { type: 'array', items: { $ref: 'UserDto' } },
+    },
+  },
+  IngredientDto: {
+    type: 'object',
+    required: ['freeText', 'position'],
+    properties: {
+      freeText: { type: 'string' },
+      canonicalName: { type: 'string', nullable: true },
+      quantity: { type: 'number', nullable: true },
+      quantityMax: { type: 'number', nullable: true },
+      unit: { type: 'string', nullable: true },
+      name: { type: 'string', nullable: true },
+      position: { type: 'integer' },
+    },
+  },
+  InviteHouseholdMemberRequest: {
+    type: 'object',
+    required: ['userId'],
+    properties: {
+      userId: { type: 'string' },
+    },
+  },
+  MealPlanEntryDto: {
+    type: 'object',
+    required: ['date', 'meal', 'recipeId', 'recipeTitle'],
+    properties: {
+      date: { type: 'string' },
+      meal: { type: 'string' },
+      recipeId: { type: 'string' },
+      recipeTitle: { type: 'string' },
+    },
+  },
+  MealPlanResponse: {
+    type: 'object',
+    required: ['entries', 'weekStart'],
+    properties: {
+      weekStart: { type: 'string' },
+      entries: { type: 'array', items: { $ref: 'MealPlanEntryDto' } },
+      updatedAt: { type: 'string', nullable: true },
+    },
+  },
+  OcrResponse: {
+    type: 'object',
+    required: ['extractedText', 'imageRef', 'language', 'words'],
+    properties: {
+      imageRef: { type: 'string' },
+      extractedText: { type: 'string' },
+      language: { type: 'string' },
+      words: { type: 'array', items: { $ref: 'OcrWordDto' } },
+    },
+  },
+  OcrWordDto: {
+    type: 'object',
+    required: ['confidence', 'height', 'text', 'width', 'x', 'y'],
+    properties: {
+      text: { type: 'string' },
+      confidence: { type: 'number' },
+      x: { type: 'number' },
+      y: { type: 'number' },
+      width: { type: 'number' },
+      height: { type: 'number' },
+    },
+  },
+  OwnerDto: {
+    type: 'object',
+    required: ['id', 'kind', 'name'],
+    properties: {
+      id: { type: 'string' },
+      kind: { type: 'string' },
+      name: { type: 'string' },
+    },
+  },
+  RecipeDetailResponse: {
+    type: 'object',
+    required: ['access', 'createdAt', 'id', 'imageRef', 'imageRefs', 'ingredients', 'owner', 'rawText', 'steps', 'tags', 'title'],
+    properties: {
+      id: { type: 'string' },
+      title: { type: 'string' },
+      rawText: { type: 'string' },
+      imageRef: { type: 'string' },
+      imageRefs: { type: 'array', items: { type: 'string' } },
+      servings: { type: 'integer', nullable: true },
+      ocrLanguage: { type: 'string', nullable: true },
+      steps: { type: 'array', items: { type: 'string' } },
+      prepTimeMinutes: { type: 'integer', nullable: true },
+      cookTimeMinutes: { type: 'integer', nullable: true },
+      yield: { type: 'string', nullable: true },
+      sourceBook: { type: 'string', nullable: true },
+      sourcePage: { type: 'string', nullable: true },
+      tags: { type: 'array', items: { type: 'string' } },
+      ingredients: { type: 'array', items: { $ref: 'IngredientDto' } },
+      createdAt: { type: 'string' },
+      owner: { $ref: 'OwnerDto' },
+      access: { type: 'string' },
+    },
+  },
+  RecipeSummaryResponse: {
+    type: 'object',
+    required: ['createdAt', 'id', 'imageRef', 'tags', 'title'],
+    properties: {
+      id: { type: 'string' },
+      title: { type: 'string' },
+      tags: { type: 'array', items: { type: 'string' } },
+      createdAt: { type: 'string' },
+      imageRef: { type: 'string' },
+    },
+  },
+  RenameTagRequest: {
+    type: 'object',
+    required: ['newTag'],
+    properties: {
+      newTag: { type: 'string' },
+    },
+  },
+  RenameTagResponse: {
+    type: 'object',
+    required: ['merged', 'recipeCount', 'tag', 'updatedRecipeCount'],
+    properties: {
+      tag: { type: 'string' },
+      recipeCount: { type: 'integer' },
+      updatedRecipeCount: { type: 'integer' },
+      merged: { type: 'boolean' },
+    },
+  },
+  RestoreReportResponse: {
+    type: 'object',
+    required: ['created', 'dryRun', 'duplicated', 'imageCount', 'mode', 'overwritten', 'recipes', 'skipped', 'warnings'],
+    properties: {
+      dryRun: { type: 'boolean' },
+      mode: { type: 'string' },
+      created: { type: 'integer' },
+      overwritten: { type: 'integer' },
+      skipped: { type: 'integer' },
+      duplicated: { type: 'integer' },
+      imageCount: { type: 'integer' },
+      recipes: { type: 'array', items: { $ref: 'RestoredRecipeResponse' } },
+      warnings: { type: 'array', items: { type: 'string' } },
+    },
+  },
+  RestoredRecipeResponse: {
+    type: 'object',
+    required: ['action', 'id', 'title'],
+    properties: {
+      id: { type: 'string' },
+      title: { type: 'string' },
+      action: { type: 'string' },
+      newId: { type: 'string', nullable: true },
+    },
+  },
+  SaveDraftRequest: {
+    type: 'object',
+    required: [],
+    properties: {
+      title: { type: 'string' },
+      rawText: { type: 'string', nullable: true },
+      tagsInput: { type: 'string' },
+      ocrLanguage: { type: 'string', nullable: true },
+      pages: { type: 'array', items: { $ref: 'DraftPageDto' } },
+      sections: { $ref: 'DraftSectionsDto', nullable: true },
+    },
+  },
+  SaveMealPlanRequest: {
+    type: 'object',
+    required: [],
+    properties: {
+      entries: { type: 'array', items: { $ref: 'MealPlanEntryDto' } },
+    },
+  },
+  SearchRecipesResponse: {
+    type: 'object',
+    required: ['page', 'pageSize', 'recipes', 'totalCount', 'totalPages'],
+    properties: {
+      recipes: { type: 'array', items: { $ref: 'RecipeSummaryResponse' } },
+      page: { type: 'integer' },
+      pageSize: { type: 'integer' },
+      totalCount: { type: 'integer' },
+      totalPages: { type: 'integer' },
+    },
+  },
+  ShareResponse: {
+    type: 'object',
+    required: ['createdAt', 'grantee', 'id', 'owner', 'permission'],
+    properties: {
+      id: { type: 'string' },
+      owner: { $ref: 'OwnerDto' },
+      recipeId: { type: 'string', nullable: true },
+      recipeTitle: { type: 'string', nullable: true },
+      grantee: { $ref: 'UserDto' },
+      permission: { type: 'string' },
+      createdAt: { type: 'string' },
+    },
+  },
+  SharesResponse: {
+    type: 'object',
+    required: ['given', 'received'],
+    properties: {
+      given: { type: 'array', items: { $ref: 'ShareResponse' } },
+      received: { type: 'array', items: { $ref: 'ShareResponse' } },
+    },
+  },
+  TagCountResponse: {
+    type: 'object',
+    required: ['recipeCount', 'tag'],
+    properties: {
+      tag: { type: 'string' },
+      recipeCount: { type: 'integer' },
+    },
+  },
+  UpdateRecipeRequest: {
+    type: 'object',
+    required: ['rawText', 'title'],
+    properties: {
+      title: { type: 'string' },
+      rawText: { type: 'string' },
+      servings: { type: 'integer', nullable: true },
+      ingredientLines: { type: 'array', items: { type: 'string' }, nullable: true },
+      steps: { type: 'array', items: { type: 'string' }, nullable: true },
+      prepTimeMinutes: { type: 'integer', nullable: true },
+      cookTimeMinutes: { type: 'integer', nullable: true },
+      yield: { type: 'string', nullable: true },
+      sourceBook: { type: 'string', nullable: true },
+      sourcePage: { type: 'string', nullable: true },
+      tags: { type: 'array', items: { type: 'string' }, nullable: true },
+    },
+  },
+  UserDto: {
+    type: 'object',
+    required: ['id', 'name'],
+    properties: {
+      id: { type: 'string' },
+      name: { type: 'string' },
+    },
+  },
+}
+
+/** Path and query parameters, request body and response of each operation, by operationId */
+export interface Operations {
+  AddRecipeTag: {
+    params: {
+      id: string
+    }
+    body: AddTagRequest
+    response: RecipeDetailResponse
+  }
+  CreateDevToken: {
+    params: Record<string, never>
+    body: DevTokenRequest
+    response: DevTokenResponse
+  }
+  CreateHousehold: {
+    params: Record<string, never>
+    body: CreateHouseholdRequest
+    response: HouseholdResponse
+  }
+  CreateRecipe: {
+    params: Record<string, never>
+    body: CreateRecipeRequest
+    response: RecipeDetailResponse
+  }
+  CreateShare: {
+    params: Record<string, never>
+    body: CreateShareRequest
+    response: ShareResponse
+  }
+  DeleteDraft: {
+    params: {
+      id: string
+    }
+    response: void
+  }
+  DeleteHouseholdInvitation: {
+    params: {
+      id: string
+      userId: string
+    }
+    response: void
+  }
+  DeleteRecipe: {
+    params: {
+      id: string
+    }
+    response: void
+  }
+  DeleteShare: {
+    params: {
+      id: string
+    }
+    response: void
+  }
+  GetCurrentUser: {
+    params: Record<string, never>
+    response: CurrentUserResponse
+  }
+  GetDraft: {
+    params: {
+      id: string
+    }
+    response: DraftResponse
+  }
+  GetDrafts: {
+    params: Record<string, never>
+    response: DraftResponse[]
+  }
+  GetMealPlan: {
+    params: {
+      weekStart: string
+    }
+    response: MealPlanResponse
+  }
+  GetRecipe: {
+    params: {
+      id: string
+    }
+    response: RecipeDetailResponse
+  }
+  GetShares: {
+    params: Record<string, never>
+    response: SharesResponse
+  }
+  GetTags: {
+    params: Record<string, never>
+    response: TagCountResponse[]
+  }
+  InviteHouseholdMember: {
+    params: {
+      id: string
+    }
+    body: InviteHouseholdMemberRequest
+    response: HouseholdResponse
+  }
+  JoinHousehold: {
+    params: {
+      id: string
+    }
+    response: HouseholdResponse
+  }
+  RemoveHouseholdMember: {
+    params: {
+      id: string
+      userId: string
+    }
+    response: void
+  }
+  RemoveRecipeTag: {
+    params: {
+      id: string
+      tag: string
+    }
+    response: RecipeDetailResponse
+  }
+  RenameTag: {
+    params: {
+      tag: string
+    }
+    body: RenameTagRequest
+    response: RenameTagResponse
+  }
+  RestoreBackup: {
+    params: Record<string, never>
+    body: FormData
+    response: RestoreReportResponse
+  }
+  RunOcr: {
+    params: Record<string, never>
+    body: FormData
+    response: OcrResponse
+  }
+  SaveDraft: {
+    params: {
+      id: string
+    }
+    body: SaveDraftRequest
+    response: DraftResponse
+  }
+  SaveMealPlan: {
+    params: {
+      weekStart: string
+    }
+    body: SaveMealPlanRequest
+    response: MealPlanResponse
+  }
+  SearchRecipes: {
+    params: {
+      query?: string
+      tag?: string[]
+      tagMatch?: string
+      page?: number
+      pageSize?: number
+      sort?: string
+    }
+    response: SearchRecipesResponse
+  }
+  UpdateRecipe: {
+    params: {
+      id: string
+    }
+    body: UpdateRecipeRequest
+    response: RecipeDetailResponse
+  }
+}
+
+export type OperationId = keyof Operations
+
+export interface OperationDescriptor {
+  method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
+  /** With {name} placeholders for the path parameters */
+  path: string
+  query: readonly string[]
+  body: 'json' | 'multipart' | null
+  /** null when the operation answers without a body */
+  response: Schema | null
+}
+
+export const operations: Readonly<Record<OperationId, OperationDescriptor>> = {
+  AddRecipeTag: {
+    method: 'POST',
+    path: '/recipes/{id}/tags',
+    query: [],
+    body: 'json',
+    response: { $ref: 'RecipeDetailResponse' },
+  },
+  CreateDevToken: {
+    method: 'POST',
+    path: '/auth/dev-token',
+    query: [],
+    body: 'json',
+    response: { $ref: 'DevTokenResponse' },
+  },
+  CreateHousehold: {
+    method: 'POST',
+    path: '/households',
+    query: [],
+    body: 'json',
+    response: { $ref: 'HouseholdResponse' },
+  },
+  CreateRecipe: {
+    method: 'POST',
+    path: '/recipes',
+    query: [],
+    body: 'json',
+    response: { $ref: 'RecipeDetailResponse' },
+  },
+  CreateShare: {
+    method: 'POST',
+    path: '/shares',
+    query: [],
+    body: 'json',
+    response: { $ref: 'ShareResponse' },
+  },
+  DeleteDraft: {
+    method: 'DELETE',
+    path: '/drafts/{id}',
+    query: [],
+    body: null,
+    response: null,
+  },
+  DeleteHouseholdInvitation: {
+    method: 'DELETE',
+    path: '/households/{id}/invitations/{userId}',
+    query: [],
+    body: null,
+    response: null,
+  },
+  DeleteRecipe: {
+    method: 'DELETE',
+    path: '/recipes/{id}',
+    query: [],
+    body: null,
+    response: null,
+  },
+  DeleteShare: {
+    method: 'DELETE',
+    path: '/shares/{id}',
+    query: [],
+    body: null,
+    response: null,
+  },
+  GetCurrentUser: {
+    method: 'GET',
+    path: '/auth/me',
+    query: [],
+    body: null,
+    response: { $ref: 'CurrentUserResponse' },
+  },
+  GetDraft: {
+    method: 'GET',
+    path: '/drafts/{id}',
+    query: [],
+    body: null,
+    response: { $ref: 'DraftResponse' },
+  },
+  GetDrafts: {
+    method: 'GET',
+    path: '/drafts',
+    query: [],
+    body: null,
+    response: { type: 'array', items: { $ref: 'DraftResponse' } },
+  },
+  GetMealPlan: {
+    method: 'GET',
+    path: '/meal-plans/{weekStart}',
+    query: [],
+    body: null,
+    response: { $ref: 'MealPlanResponse' },
+  },
+  GetRecipe: {
+    method: 'GET',
+    path: '/recipes/{id}',
+    query: [],
+    body: null,
+    response: { $ref: 'RecipeDetailResponse' },
+  },
+  GetShares: {
+    method: 'GET',
+    path: '/shares',
+    query: [],
+    body: null,
+    response: { $ref: 'SharesResponse' },
+  },
+  GetTags: {
+    method: 'GET',
+    path: '/tags',
+    query: [],
+    body: null,
+    response: { type: 'array', items: { $ref: 'TagCountResponse' } },
+  },
+  InviteHouseholdMember: {
+    method: 'POST',
+    path: '/households/{id}/invitations',
+    query: [],
+    body: 'json',
+    response: { $ref: 'HouseholdResponse' },
+  },
+  JoinHousehold: {
+    method: 'POST',
+    path: '/households/{id}/join',
+    query: [],
+    body: null,
+    response: { $ref: 'HouseholdResponse' },
+  },
+  RemoveHouseholdMember: {
+    method: 'DELETE',
+    path: '/households/{id}/members/{userId}',
+    query: [],
+    body: null,
+    response: null,
+  },
+  RemoveRecipeTag: {
+    method: 'DELETE',
+    path: '/recipes/{id}/tags/{tag}',
+    query: [],
+    body: null,
+    response: { $ref: 'RecipeDetailResponse' },
+  },
+  RenameTag: {
+    method: 'POST',
+    path: '/tags/{tag}/rename',
+    query: [],
+    body: 'json',
+    response: { $ref: 'RenameTagResponse' },
+  },
+  RestoreBackup: {
+    method: 'POST',
+    path: '/backup/restore',
+    query: [],
+    body: 'multipart',
+    response: { $ref: 'RestoreReportResponse' },
+  },
+  RunOcr: {
+    method: 'POST',
+    path: '/ocr',
+    query: [],
+    body: 'multipart',
+    response: { $ref: 'OcrResponse' },
+  },
+  SaveDraft: {
+    method: 'PUT',
+    path: '/drafts/{id}',
+    query: [],
+    body: 'json',
+    response: { $ref: 'DraftResponse' },
+  },
+  SaveMealPlan: {
+    method: 'PUT',
+    path: '/meal-plans/{weekStart}',
+    query: [],
+    body: 'json',
+    response: { $ref: 'MealPlanResponse' },
+  },
+  SearchRecipes: {
+    method: 'GET',
+    path: '/recipes',
+    query: ['query', 'tag', 'tagMatch', 'page', 'pageSize', 'sort'],
+    body: null,
+    response: { $ref: 'SearchRecipesResponse' },
+  },
+  UpdateRecipe: {
+    method: 'PUT',
+    path: '/recipes/{id}',
+    query: [],
+    body: 'json',
+    response: { $ref: 'RecipeDetailResponse' },
+  },
+}
@@ -1,41 +1,152 @@
-export interface Recipe {
-  id: string
-  title: string
-  rawText: string
-  imageRef: string
-  tags: string[]
-  ingredients: Ingredient[]
-  createdAt: string
-}
+import type * as Api from './api.generated'
+
+// What the API sends is typed by its OpenAPI document, see api.generated.ts: a property the API may
+// leave empty is null, and values the document only knows as strings stay strings. Requests the
+// frontend builds narrow the generated types where it only ever sends certain values.
+
+/** Tesseract language codes accepted by /ocr; "swe+eng" reads pages mixing both */
+export type OcrLanguage = 'eng' | 'swe' | 'swe+eng'
+
+/**
+ * A recipe with its structured parts split out of the raw OCR text. `ocrLanguage` is null for
+ * recipes added before it was recorded; `imageRef` is the first of `imageRefs`, used as the cover.
+ * `access` is what the signed-in user may do with it, see RecipeAccess.
+ */
+export type Recipe = Api.RecipeDetailResponse
+
+/** "owner" may do everything, "edit" change the recipe and its tags, and "read" only look */
+export type RecipeAccess = 'owner' | 'edit' | 'read'
+
+/** Who a recipe belongs to. `id` is "user:{userId}" or "household:{householdId}", and `kind` "user" or "household" */
+export type Owner = Api.OwnerDto
+
+export type User = Api.UserDto
+
+/** Members are in the order they joined; `invited` are those who haven't accepted yet */
+export type Household = Api.HouseholdResponse
+
+/** A household that has invited the user */
+export type HouseholdInvitation = Api.HouseholdInvitationResponse
 
-export interface Ingredient {
-  freeText: string
-  canonicalName?: string
-  position: number
+/**
+ * `household` is null when the user isn't in one; their new recipes then go to their own collection.
+ * `invitations` are the households waiting for them to join.
+ */
+export type CurrentUser = Api.CurrentUserResponse
+
+export interface DevTokenRequest extends Api.DevTokenRequest {
+  /** Letters, digits, dots, dashes and underscores; becomes the user id in lower case */
+  userName: string
 }
 
-export interface OcrResponse {
-  imageRef: string
-  extractedText: string
+export type DevTokenResponse = Api.DevTokenResponse
+
+export type SharePermission = 'read' | 'edit'
+
+/** `recipeId` and `recipeTitle` are null when the owner's whole collection is shared */
+export type Share = Api.ShareResponse
+
+/** `given` are shares of the user's own and household's recipes, `received` what others shared with them */
+export type Shares = Api.SharesResponse
+
+/** Sharing again with the same user replaces the permission; without a recipe id the whole collection is shared */
+export interface CreateShareRequest extends Api.CreateShareRequest {
+  permission: SharePermission
 }
 
-export interface ErrorResponse {
-  code: string
-  message: string
-  correlationId?: string
+/** The structured parts of a recipe: steps, servings and times, yield, and the cookbook it came from */
+export type RecipeStructure = Pick<
+  Recipe,
+  'steps' | 'prepTimeMinutes' | 'cookTimeMinutes' | 'servings' | 'yield' | 'sourceBook' | 'sourcePage'
+>
+
+/** `quantityMax` is the upper bound of a range like "2–3"; `unit` is a canonical abbreviation, e.g. "dl" */
+export type Ingredient = Api.IngredientDto
+
+/** Confidence is 0–1, and the bounding box is in fractions of the uploaded image's width and height */
+export type OcrWord = Api.OcrWordDto
+
+/** `words` are in reading order, and empty when the OCR engine does not report word positions */
+export type OcrResponse = Api.OcrResponse
+
+export type ErrorResponse = Api.ErrorResponse
+
+export interface CreateRecipeRequest extends Api.CreateRecipeRequest {
+  /** Photographed pages in reading order; empty for recipes imported from the web or text files */
+  imageRefs: string[]
+  ocrLanguage?: OcrLanguage
+  /** One ingredient per line; when omitted, ingredients are detected in rawText */
+  ingredientLines?: string[]
+  tags?: string[]
 }
 
-export interface CreateRecipeRequest {
-  title: string
-  rawText: string
-  imageRef: string
+/** Omitting steps or tags keeps them; omitting servings, times, yield or source clears it */
+export interface UpdateRecipeRequest extends Api.UpdateRecipeRequest {
+  /** Replaces the ingredients; when omitted they are re-detected if rawText changed */
+  ingredientLines?: string[]
   tags?: string[]
 }
 
-export interface RecipeSummary {
-  id: string
+/** The structured sections as edited in a form: one ingredient or step per line, numbers as typed */
+export type RecipeSectionsDraft = Api.DraftSectionsDto
+
+export type DraftPage = Api.DraftPageDto
+
+/**
+ * A recipe still being imported, saved as it is edited so it can be finished later. `rawText` is null
+ * while the text still follows the extracted pages, and `sections` while they are still split from it;
+ * `tagsInput` is comma-separated, as typed.
+ */
+export type RecipeDraft = Api.DraftResponse
+
+export interface SaveDraftRequest extends Api.SaveDraftRequest {
   title: string
-  tags: string[]
-  createdAt: string
-  imageRef: string
+  rawText: string | null
+  tagsInput: string
+  pages: DraftPage[]
+  sections: RecipeSectionsDraft | null
 }
+
+export type RecipeSummary = Api.RecipeSummaryResponse
+
+export type RecipeSortOrder = 'newest' | 'oldest' | 'title'
+
+export type TagMatchMode = 'all' | 'any'
+
+export type TagCount = Api.TagCountResponse
+
+export type RenameTagResponse = Api.RenameTagResponse
+
+export interface SearchRecipesOptions {
+  tagMatch?: TagMatchMode
+  page?: number
+  pageSize?: number
+  sort?: RecipeSortOrder
+  signal?: AbortSignal
+}
+
+export type SearchRecipesResponse = Api.SearchRecipesResponse
+
+/** What a restore does with a recipe whose id is already in the collection */
+export type RestoreMode = 'skip' | 'overwrite' | 'duplicate'
+
+/**
+ * `action` is "created", "overwritten", "skipped" or "duplicated". `id` is the id in the backup, and
+ * `newId` the id the recipe was saved under, which differs from it when duplicated, or when the id is
+ * used in a collection the user doesn't own.
+ */
+export type RestoredRecipe = Api.RestoredRecipeResponse
+
+/**
+ * `imageCount` counts the photos uploaded, or that would be on a dry run. `warnings` are problems that
+ * did not stop the restore, such as a damaged recipe file or a missing photo.
+ */
+export type RestoreReport = Api.RestoreReportResponse
+
+export type Meal = 'breakfast' | 'lunch' | 'dinner'
+
+/** `date` is yyyy-MM-dd within the plan's week; the API fills in `recipeTitle` and keeps it when the recipe is deleted */
+export type MealPlanEntry = Api.MealPlanEntryDto
+
+/** `weekStart` is the Monday the week starts on, yyyy-MM-dd; `updatedAt` is null for a week never planned */
+export type MealPlan = Api.MealPlanResponse
@@ -0,0 +1,296 @@
+export interface Point {
+  x: number
+  y: number
+}
+
+/** Page corners as fractions of the (rotated) image: top-left, top-right, bottom-right, bottom-left */
+export type Quad = [Point, Point, Point, Point]
+
+export interface ImageAdjustments {
+  /** Clockwise quarter turns, 0–3 */
+  quarterTurns: number
+  /** Fine rotation in degrees to straighten a skewed photo */
+  straighten: number
+  corners: Quad
+  grayscale: boolean
+  /** Multipliers where 1 leaves the image unchanged, as in CSS filters */
+  brightness: number
+  contrast: number
+}
+
+export const FULL_FRAME: Quad = [
+  { x: 0, y: 0 },
+  { x: 1, y: 0 },
+  { x: 1, y: 1 },
+  { x: 0, y: 1 },
+]
+
+export const DEFAULT_ADJUSTMENTS: ImageAdjustments = {
+  quarterTurns: 0,
+  straighten: 0,
+  corners: FULL_FRAME,
+  grayscale: false,
+  brightness: 1,
+  contrast: 1,
+}
+
+/** Long edge of uploaded images; plenty for OCR of a cookbook page and keeps uploads well under 10MB */
+export const MAX_UPLOAD_DIMENSION = 2400
+
+/** Long edge of the largest canvas drawn; iOS Safari gives up on canvases over about 16.7 megapixels */
+const MAX_CANVAS_DIMENSION = 4096
+
+const JPEG_QUALITY = 0.9
+const MAX_UPLOAD_BYTES = 10 * 1024 * 1024
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.max(1, Math.round(width))
+  canvas.height = Math.max(1, Math.round(height))
+  return canvas
+}
+
+const get2dContext = (canvas: HTMLCanvasElement) => {
+  const context = canvas.getContext('2d', { willReadFrequently: true })
+  if (!context) {
+    throw new Error('Canvas is not supported in this browser')
+  }
+  return context
+}
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y)
+
+const isFullFrame = (corners: Quad) =>
+  corners.every((corner, index) => corner.x === FULL_FRAME[index].x && corner.y === FULL_FRAME[index].y)
+
+const isAxisAligned = ([topLeft, topRight, bottomRight, bottomLeft]: Quad) =>
+  topLeft.y === topRight.y && bottomLeft.y === bottomRight.y && topLeft.x === bottomLeft.x && topRight.x === bottomRight.x
+
+/**
+ * CSS filter equivalent of the colour adjustments, for a cheap live preview.
+ */
+export function adjustmentsToCssFilter({ grayscale, brightness, contrast }: ImageAdjustments): string {
+  return `grayscale(${grayscale ? 1 : 0}) brightness(${brightness}) contrast(${contrast})`
+}
+
+// The bounding box of a width × height image turned by the angle
+const rotatedSize = (width: number, height: number, radians: number) => {
+  const sin = Math.abs(Math.sin(radians))
+  const cos = Math.abs(Math.cos(radians))
+  return { width: width * cos + height * sin, height: width * sin + height * cos }
+}
+
+const toRadians = (quarterTurns: number, straighten: number) => ((quarterTurns * 90 + straighten) * Math.PI) / 180
+
+/**
+ * Draws the image rotated by whole quarter turns plus a fine straightening angle, scaled so its long edge
+ * is at most maxDimension. Corners uncovered by a fine rotation are filled white, like paper.
+ */
+export function renderRotated(
+  source: ImageBitmap,
+  quarterTurns: number,
+  straighten: number,
+  maxDimension: number
+): HTMLCanvasElement {
+  const scale = Math.min(1, maxDimension / Math.max(source.width, source.height))
+  const width = source.width * scale
+  const height = source.height * scale
+  const radians = toRadians(quarterTurns, straighten)
+  const size = rotatedSize(width, height, radians)
+
+  const canvas = createCanvas(size.width, size.height)
+  const context = get2dContext(canvas)
+  context.fillStyle = '#ffffff'
+  context.fillRect(0, 0, canvas.width, canvas.height)
+  context.translate(canvas.width / 2, canvas.height / 2)
+  context.rotate(radians)
+  context.drawImage(source, -width / 2, -height / 2, width, height)
+  return canvas
+}
+
+/**
+ * Maps the unit square onto the quad (Heckbert's projective mapping), so (u, v) in the output page
+ * can be looked up in the photo.
+ */
+const createProjection = ([p0, p1, p2, p3]: Quad) => {
+  const dx1 = p1.x - p2.x
+  const dx2 = p3.x - p2.x
+  const dx3 = p0.x - p1.x + p2.x - p3.x
+  const dy1 = p1.y - p2.y
+  const dy2 = p3.y - p2.y
+  const dy3 = p0.y - p1.y + p2.y - p3.y
+
+  let g = 0
+  let h = 0
+  if (dx3 !== 0 || dy3 !== 0) {
+    const determinant = dx1 * dy2 - dx2 * dy1
+    g = (dx3 * dy2 - dx2 * dy3) / determinant
+    h = (dx1 * dy3 - dx3 * dy1) / determinant
+  }
+
+  const a = p1.x - p0.x + g * p1.x
+  const b = p3.x - p0.x + h * p3.x
+  const d = p1.y - p0.y + g * p1.y
+  const e = p3.y - p0.y + h * p3.y
+
+  return (u: number, v: number): Point => {
+    const w = g * u + h * v + 1
+    return { x: (a * u + b * v + p0.x) / w, y: (d * u + e * v + p0.y) / w }
+  }
+}
+
+const warpPerspective = (source: HTMLCanvasElement, quad: Quad, width: number, height: number) => {
+  const sourceData = get2dContext(source).getImageData(0, 0, source.width, source.height)
+  const output = createCanvas(width, height)
+  const outputContext = get2dContext(output)
+  const outputData = outputContext.createImageData(output.width, output.height)
+  const project = createProjection(quad)
+  const src = sourceData.data
+  const dst = outputData.data
+  const maxX = source.width - 1
+  const maxY = source.height - 1
+
+  for (let y = 0; y < output.height; y++) {
+    for (let x = 0; x < output.width; x++) {
+      const point = project((x + 0.5) / output.width, (y + 0.5) / output.height)
+      const sx = Math.min(maxX, Math.max(0, point.x))
+      const sy = Math.min(maxY, Math.max(0, point.y))
+      const x0 = Math.floor(sx)
+      const y0 = Math.floor(sy)
+      const x1 = Math.min(maxX, x0 + 1)
+      const y1 = Math.min(maxY, y0 + 1)
+      const fx = sx - x0
+      const fy = sy - y0
+      const outIndex = (y * output.width + x) * 4
+
+      // Bilinear interpolation between the four neighbouring source pixels
+      for (let channel = 0; channel < 4; channel++) {
+        const topValue = src[(y0 * source.width + x0) * 4 + channel] * (1 - fx) + src[(y0 * source.width + x1) * 4 + channel] * fx
+        const bottomValue = src[(y1 * source.width + x0) * 4 + channel] * (1 - fx) + src[(y1 * source.width + x1) * 4 + channel] * fx
+        dst[outIndex + channel] = topValue * (1 - fy) + bottomValue * fy
+      }
+    }
+  }
+
+  outputContext.putImageData(outputData, 0, 0)
+  return output
+}
+
+// Same maths as the CSS filters used for the preview, applied in the same order
+const applyColorAdjustments = (canvas: HTMLCanvasElement, { grayscale, brightness, contrast }: ImageAdjustments) => {
+  if (!grayscale && brightness === 1 && contrast === 1) return
+
+  const context = get2dContext(canvas)
+  const imageData = context.getImageData(0, 0, canvas.width, canvas.height)
+  const data = imageData.data
+
+  for (let i = 0; i < data.length; i += 4) {
+    let r = data[i]
+    let g = data[i + 1]
+    let b = data[i + 2]
+    if (grayscale) {
+      const luminance = 0.2126 * r + 0.7152 * g + 0.0722 * b
+      r = g = b = luminance
+    }
+    data[i] = (r * brightness - 128) * contrast + 128
+    data[i + 1] = (g * brightness - 128) * contrast + 128
+    data[i + 2] = (b * brightness - 128) * contrast + 128
+  }
+
+  context.putImageData(imageData, 0, 0)
+}
+
+/**
+ * Applies rotation, crop/perspective correction, colour adjustments and downscaling.
+ */
+export function processImage(
+  source: ImageBitmap,
+  adjustments: ImageAdjustments,
+  maxDimension = MAX_UPLOAD_DIMENSION
+): HTMLCanvasElement {
+  // The page is measured on the rotated photo at full resolution without drawing it: a 48 MP photo,
+  // enlarged further by the rotation, is more than a phone's browser can hold in a canvas
+  const full = rotatedSize(source.width, source.height, toRadians(adjustments.quarterTurns, adjustments.straighten))
+  const [fullTopLeft, fullTopRight, fullBottomRight, fullBottomLeft] = adjustments.corners.map(corner => ({
+    x: corner.x * full.width,
+    y: corner.y * full.height,
+  }))
+
+  // The page's size is taken from its longest edges, then scaled down to the upload limit
+  const pageWidth = Math.max(distance(fullTopLeft, fullTopRight), distance(fullBottomLeft, fullBottomRight))
+  const pageHeight = Math.max(distance(fullTopLeft, fullBottomLeft), distance(fullTopRight, fullBottomRight))
+  const scale = Math.min(
+    1,
+    maxDimension / Math.max(pageWidth, pageHeight),
+    MAX_CANVAS_DIMENSION / Math.max(full.width, full.height)
+  )
+  const width = pageWidth * scale
+  const height = pageHeight * scale
+
+  // Rotated straight into the scaled space, so no canvas is ever larger than needed
+  const rotated = renderRotated(
+    source,
+    adjustments.quarterTurns,
+    adjustments.straighten,
+    Math.max(source.width, source.height) * scale
+  )
+  const corners = adjustments.corners.map(corner => ({
+    x: corner.x * rotated.width,
+    y: corner.y * rotated.height,
+  })) as Quad
+  const [topLeft] = corners
+
+  let output: HTMLCanvasElement
+  if (isFullFrame(adjustments.corners) || isAxisAligned(adjustments.corners)) {
+    output = createCanvas(width, height)
+    get2dContext(output).drawImage(rotated, topLeft.x, topLeft.y, width, height, 0, 0, output.width, output.height)
+  } else {
+    // The rotated photo is already at about the output's resolution, so the per-pixel warp stays cheap
+    output = warpPerspective(rotated, corners, width, height)
+  }
+
+  applyColorAdjustments(output, adjustments)
+  return output
+}
+
+const canvasToFile = (canvas: HTMLCanvasElement, originalName: string) =>
+  new Promise<File>((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (!blob) {
+        reject(new Error('Failed to encode image'))
+        return
+      }
+      const name = originalName.replace(/\.[^.]+$/, '') + '.jpg'
+      resolve(new File([blob], name, { type: 'image/jpeg' }))
+    }, 'image/jpeg', JPEG_QUALITY)
+  })
+
+/**
+ * Produces the file to upload for OCR. Without adjustments, images already small enough are sent untouched.
+ */
+export async function prepareImageForUpload(file: File, adjustments?: ImageAdjustments): Promise<File> {
+  const bitmap = await createImageBitmap(file)
+  try {
+    const fitsLimits = Math.max(bitmap.width, bitmap.height) <= MAX_UPLOAD_DIMENSION && file.size <= MAX_UPLOAD_BYTES
+    if (!adjustments && fitsLimits) {
+      return file
+    }
+
+    return await canvasToFile(processImage(bitmap, adjustments ?? DEFAULT_ADJUSTMENTS), file.name)
+  } finally {
+    bitmap.close()
+  }
+}
+
+/**
+ * Re-encodes a photo as a JPEG no larger than maxDimension, e.g. to embed it in an exported PDF.
+ */
+export async function downscaleToJpeg(file: Blob, maxDimension: number): Promise<{ file: File; width: number; height: number }> {
+  const bitmap = await createImageBitmap(file)
+  try {
+    const canvas = processImage(bitmap, DEFAULT_ADJUSTMENTS, maxDimension)
+    return { file: await canvasToFile(canvas, 'photo.jpg'), width: canvas.width, height: canvas.height }
+  } finally {
+    bitmap.close()
+  }
+}
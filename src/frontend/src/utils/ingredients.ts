@@ -0,0 +1,68 @@
+import type { Ingredient } from '../types'
+
+// Fractions a cook can actually measure; amounts are snapped to the nearest one
+const FRACTIONS: [number, string][] = [
+  [0, ''],
+  [1 / 8, '⅛'],
+  [1 / 4, '¼'],
+  [1 / 3, '⅓'],
+  [1 / 2, '½'],
+  [2 / 3, '⅔'],
+  [3 / 4, '¾'],
+  [1, ''],
+]
+
+/**
+ * Formats an amount the way recipes write it: 1.5 becomes "1 ½", 0.333 becomes "⅓".
+ * Amounts of 10 or more are rounded to whole numbers, since "266 ⅔ g" helps nobody.
+ */
+export function formatAmount(value: number): string {
+  if (value >= 10) {
+    return String(Math.round(value))
+  }
+
+  let whole = Math.floor(value)
+  const remainder = value - whole
+  const [fractionValue, fractionSymbol] = FRACTIONS.reduce((closest, candidate) =>
+    Math.abs(candidate[0] - remainder) < Math.abs(closest[0] - remainder) ? candidate : closest
+  )
+  if (fractionValue === 1) {
+    whole += 1
+  }
+
+  if (!fractionSymbol) {
+    // Never round a small but real amount down to nothing
+    return whole > 0 ? String(whole) : String(Number(value.toPrecision(1)))
+  }
+  return whole > 0 ? `${whole} ${fractionSymbol}` : fractionSymbol
+}
+
+/**
+ * Formats the quantity and unit of an ingredient, e.g. "2–3 dl". Returns null when it has no quantity.
+ */
+export function formatQuantity(ingredient: Ingredient): string | null {
+  if (ingredient.quantity == null) {
+    return ingredient.unit ?? null
+  }
+
+  const amount = ingredient.quantityMax != null
+    ? `${formatAmount(ingredient.quantity)}–${formatAmount(ingredient.quantityMax)}`
+    : formatAmount(ingredient.quantity)
+
+  return ingredient.unit ? `${amount} ${ingredient.unit}` : amount
+}
+
+/**
+ * Multiplies an ingredient's quantity by the given factor. Ingredients without a parsed quantity are returned as-is.
+ */
+export function scaleIngredient(ingredient: Ingredient, factor: number): Ingredient {
+  if (ingredient.quantity == null || factor === 1) {
+    return ingredient
+  }
+
+  return {
+    ...ingredient,
+    quantity: ingredient.quantity * factor,
+    quantityMax: ingredient.quantityMax != null ? ingredient.quantityMax * factor : undefined,
+  }
+}
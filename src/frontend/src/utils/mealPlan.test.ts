@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest'
+import { addDays, isWeekStart, startOfWeek, weekDates } from './mealPlan'
+
+// vite.config.ts runs the tests in Europe/Stockholm, where the clocks change on 29 March and 25 October 2026
+it('runs in a time zone with daylight saving time', () => {
+  expect(new Date(2026, 0, 1).getTimezoneOffset()).not.toBe(new Date(2026, 6, 1).getTimezoneOffset())
+})
+
+describe('startOfWeek', () => {
+  it.each([
+    ['a Monday', new Date(2026, 9, 19, 0, 0), '2026-10-19'],
+    ['a Sunday just before midnight', new Date(2026, 9, 25, 23, 59), '2026-10-19'],
+    ['the night the clocks go forward', new Date(2026, 2, 29, 3, 30), '2026-03-23'],
+    ['the night the clocks go back', new Date(2026, 9, 25, 2, 30), '2026-10-19'],
+    ['New Year\'s Day', new Date(2026, 0, 1, 0, 30), '2025-12-29'],
+  ])('gives the Monday before %s', (_, date, monday) => {
+    expect(startOfWeek(date)).toBe(monday)
+  })
+})
+
+describe('addDays', () => {
+  it('steps over the clocks going forward and back by whole days', () => {
+    expect(addDays('2026-03-28', 1)).toBe('2026-03-29')
+    expect(addDays('2026-03-29', 1)).toBe('2026-03-30')
+    expect(addDays('2026-10-25', 1)).toBe('2026-10-26')
+    expect(addDays('2026-10-26', -7)).toBe('2026-10-19')
+  })
+
+  it('crosses into the next and previous year', () => {
+    expect(addDays('2025-12-29', 6)).toBe('2026-01-04')
+    expect(addDays('2026-01-05', -7)).toBe('2025-12-29')
+  })
+
+  it('gives the seven days of a week with a clock change', () => {
+    expect(weekDates('2026-03-23')).toEqual([
+      '2026-03-23', '2026-03-24', '2026-03-25', '2026-03-26', '2026-03-27', '2026-03-28', '2026-03-29',
+    ])
+  })
+})
+
+describe('isWeekStart', () => {
+  it.each([
+    ['2026-10-19', true],
+    ['2025-12-29', true],
+    ['2026-03-30', true],
+    ['2026-10-25', false],
+    ['2026-02-30', false],
+    ['2026-10-19T00:00', false],
+    ['next-week', false],
+    [null, false],
+  ])('%s is %s', (value, expected) => {
+    expect(isWeekStart(value)).toBe(expected)
+  })
+})
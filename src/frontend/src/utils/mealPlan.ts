@@ -0,0 +1,48 @@
+import type { Meal } from '../types'
+
+export const MEALS: { meal: Meal; label: string }[] = [
+  { meal: 'breakfast', label: 'Breakfast' },
+  { meal: 'lunch', label: 'Lunch' },
+  { meal: 'dinner', label: 'Dinner' },
+]
+
+// Dates are handled as local calendar days, never through UTC, so a week doesn't shift near midnight
+const toIsoDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+
+const fromIsoDate = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number)
+  return new Date(year, month - 1, day)
+}
+
+export const isWeekStart = (value: string | null): value is string =>
+  !!value && /^\d{4}-\d{2}-\d{2}$/.test(value) && fromIsoDate(value).getDay() === 1 && toIsoDate(fromIsoDate(value)) === value
+
+/** The Monday of the week the date falls in, yyyy-MM-dd */
+export function startOfWeek(date: Date): string {
+  const monday = new Date(date.getFullYear(), date.getMonth(), date.getDate())
+  monday.setDate(monday.getDate() - ((monday.getDay() + 6) % 7))
+  return toIsoDate(monday)
+}
+
+export function addDays(isoDate: string, days: number): string {
+  const date = fromIsoDate(isoDate)
+  date.setDate(date.getDate() + days)
+  return toIsoDate(date)
+}
+
+export function weekDates(weekStart: string): string[] {
+  return Array.from({ length: 7 }, (_, index) => addDays(weekStart, index))
+}
+
+/** "Mon 19 Oct" in the reader's locale */
+export function formatDay(isoDate: string): string {
+  return fromIsoDate(isoDate).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short' })
+}
+
+export function formatWeek(weekStart: string): string {
+  const options: Intl.DateTimeFormatOptions = { day: 'numeric', month: 'short' }
+  const first = fromIsoDate(weekStart).toLocaleDateString(undefined, options)
+  const last = fromIsoDate(addDays(weekStart, 6)).toLocaleDateString(undefined, { ...options, year: 'numeric' })
+  return `${first} – ${last}`
+}
@@ -0,0 +1,56 @@
+import type { OcrWord } from '../types'
+
+/** Words read with less confidence than this are highlighted for review */
+export const LOW_CONFIDENCE_THRESHOLD = 0.6
+
+// A word found further ahead than this has most likely been edited out, so the search skips it
+const MAX_WORD_GAP = 200
+
+const WORD_CHARACTER = /[\p{L}\p{N}]/u
+
+export interface FlaggedWord {
+  /** Character range of the word in the text */
+  start: number
+  end: number
+  word: OcrWord
+  /** Index of the page the word was read from */
+  pageIndex: number
+}
+
+// indexOf that ignores matches inside a longer word, so "a" does not match the middle of "pasta"
+const indexOfWord = (text: string, word: string, from: number) => {
+  let index = text.indexOf(word, from)
+  while (index !== -1) {
+    const before = text[index - 1] ?? ''
+    const after = text[index + word.length] ?? ''
+    if (!WORD_CHARACTER.test(before) && !WORD_CHARACTER.test(after)) {
+      return index
+    }
+    index = text.indexOf(word, index + 1)
+  }
+  return -1
+}
+
+/**
+ * Locates the low-confidence OCR words of each page in the (possibly edited) recipe text.
+ * Words are matched in reading order, so a word that has been corrected simply stops being found.
+ */
+export function findLowConfidenceWords(text: string, pageWords: OcrWord[][]): FlaggedWord[] {
+  const flagged: FlaggedWord[] = []
+  let cursor = 0
+
+  pageWords.forEach((words, pageIndex) => {
+    for (const word of words) {
+      const start = indexOfWord(text, word.text, cursor)
+      if (start === -1 || start - cursor > MAX_WORD_GAP) continue
+
+      const end = start + word.text.length
+      if (word.confidence < LOW_CONFIDENCE_THRESHOLD) {
+        flagged.push({ start, end, word, pageIndex })
+      }
+      cursor = end
+    }
+  })
+
+  return flagged
+}
@@ -0,0 +1,15 @@
+import type { OcrLanguage } from '../types'
+
+export const OCR_LANGUAGE_OPTIONS: { value: OcrLanguage; label: string }[] = [
+  { value: 'swe+eng', label: 'Swedish + English' },
+  { value: 'swe', label: 'Swedish' },
+  { value: 'eng', label: 'English' },
+]
+
+export const isOcrLanguage = (language: string | null | undefined): language is OcrLanguage =>
+  OCR_LANGUAGE_OPTIONS.some(option => option.value === language)
+
+/** Languages this version doesn't know are shown as their code */
+export function describeOcrLanguage(language: string): string {
+  return OCR_LANGUAGE_OPTIONS.find(option => option.value === language)?.label ?? language
+}
@@ -0,0 +1,60 @@
+import type { Recipe, RecipeSummary, SearchRecipesOptions, SearchRecipesResponse, TagCount } from '../types'
+import { normalizeTag } from './tags'
+
+const DEFAULT_PAGE_SIZE = 24
+
+/**
+ * Runs a search against the recipes cached on this device, the same way the API filters, sorts and pages.
+ * The keyword matches the title, and the recipe text for recipes that were opened while online.
+ */
+export function searchCachedRecipes(
+  summaries: RecipeSummary[],
+  recipes: Recipe[],
+  query = '',
+  tags: string[] = [],
+  options: SearchRecipesOptions = {}
+): SearchRecipesResponse {
+  const fullRecipes = new Map(recipes.map(recipe => [recipe.id, recipe]))
+  const normalizedTags = tags.map(normalizeTag).filter(tag => tag.length > 0)
+  const q = query.trim().toLowerCase()
+  const page = options.page ?? 1
+  const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE
+
+  const matches = summaries.filter(summary => {
+    if (normalizedTags.length > 0) {
+      const hasTag = (tag: string) => summary.tags.includes(tag)
+      const tagsMatch = options.tagMatch === 'any' ? normalizedTags.some(hasTag) : normalizedTags.every(hasTag)
+      if (!tagsMatch) return false
+    }
+    if (!q) return true
+
+    const searchText = `${summary.title} ${fullRecipes.get(summary.id)?.rawText ?? ''}`.toLowerCase()
+    return searchText.includes(q)
+  })
+
+  // Id is the tie-breaker, as on the server
+  const byId = (a: RecipeSummary, b: RecipeSummary) => a.id.localeCompare(b.id)
+  const sorted = [...matches].sort((a, b) => {
+    if (options.sort === 'title') return a.title.localeCompare(b.title, undefined, { sensitivity: 'base' }) || byId(a, b)
+    if (options.sort === 'oldest') return a.createdAt.localeCompare(b.createdAt) || byId(a, b)
+    return b.createdAt.localeCompare(a.createdAt) || byId(a, b)
+  })
+
+  return {
+    recipes: sorted.slice((page - 1) * pageSize, page * pageSize),
+    page,
+    pageSize,
+    totalCount: sorted.length,
+    totalPages: Math.ceil(sorted.length / pageSize),
+  }
+}
+
+/** Tag counts across the cached recipes, most used first */
+export function countCachedTags(summaries: RecipeSummary[]): TagCount[] {
+  const counts = new Map<string, number>()
+  summaries.forEach(summary => summary.tags.forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1)))
+  // Ordinal tie-break, as on the server
+  return Array.from(counts, ([tag, recipeCount]) => ({ tag, recipeCount })).sort(
+    (a, b) => b.recipeCount - a.recipeCount || (a.tag < b.tag ? -1 : a.tag > b.tag ? 1 : 0)
+  )
+}
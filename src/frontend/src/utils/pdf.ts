@@ -0,0 +1,218 @@
+/**
+ * A small PDF writer for recipe cards: text in the built-in Helvetica fonts and JPEG photos, nothing more.
+ * Coordinates are in points from the top-left corner of the page; text is placed by its baseline.
+ */
+
+export type PdfFont = 'regular' | 'bold'
+
+export interface PdfJpeg {
+  data: Uint8Array
+  width: number
+  height: number
+}
+
+// Helvetica and Helvetica-Bold advance widths for " " to "~", in thousandths of the font size
+const WIDTHS: Record<PdfFont, number[]> = {
+  regular: [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556,
+    556, 556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667,
+    556, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556,
+    556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722,
+    500, 500, 500, 334, 260, 334, 584,
+  ],
+  bold: [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556,
+    556, 556, 556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722,
+    611, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556,
+    611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778,
+    556, 556, 500, 389, 280, 389, 584,
+  ],
+}
+
+// Characters outside Latin-1 that WinAnsiEncoding still has, by their byte in the encoding
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96,
+  '—': 0x97, '™': 0x99,
+}
+const SPECIAL_WIDTHS: Record<number, number> = {
+  0x85: 1000, 0x91: 222, 0x92: 222, 0x93: 333, 0x94: 333, 0x95: 350, 0x96: 556, 0x97: 1000, 0xb0: 400, 0xbc: 834,
+  0xbd: 834, 0xbe: 834, 0xd7: 584,
+}
+// Fractions common in recipes that the encoding lacks
+const REPLACEMENTS: Record<string, string> = { '⅓': '1/3', '⅔': '2/3', '⅛': '1/8', '⅜': '3/8', '⅝': '5/8', '⅞': '7/8' }
+
+/** Maps text to WinAnsiEncoding, one character per byte; anything it can't show becomes "?" */
+function toWinAnsi(text: string): string {
+  return Array.from(text, char => {
+    if (REPLACEMENTS[char]) return REPLACEMENTS[char]
+    const code = char.codePointAt(0) ?? 0
+    if (code === 0x2212) return '-'
+    if (code >= 0x20 && code <= 0x7e) return char
+    if (code >= 0xa0 && code <= 0xff) return char
+    if (WIN_ANSI_EXTRAS[char]) return String.fromCharCode(WIN_ANSI_EXTRAS[char])
+    return code === 0x09 ? ' ' : '?'
+  }).join('')
+}
+
+const charWidth = (code: number, font: PdfFont): number => {
+  if (code >= 0x20 && code <= 0x7e) return WIDTHS[font][code - 0x20]
+  if (SPECIAL_WIDTHS[code]) return SPECIAL_WIDTHS[code]
+  // Accented letters are as wide as the letter they are built on
+  const base = String.fromCharCode(code).normalize('NFD').charCodeAt(0)
+  return base >= 0x20 && base <= 0x7e ? WIDTHS[font][base - 0x20] : 556
+}
+
+const escapeString = (text: string) =>
+  Array.from(text, char => {
+    const code = char.charCodeAt(0)
+    if (char === '(' || char === ')' || char === '\\') return `\\${char}`
+    return code < 0x20 || code > 0x7e ? `\\${code.toString(8).padStart(3, '0')}` : char
+  }).join('')
+
+const num = (value: number) => (Math.round(value * 100) / 100).toString()
+
+export class PdfWriter {
+  private pages: string[][] = []
+  private images: PdfJpeg[] = []
+  private current = -1
+
+  constructor(
+    readonly width: number,
+    readonly height: number
+  ) {
+    this.addPage()
+  }
+
+  get pageCount(): number {
+    return this.pages.length
+  }
+
+  addPage(): void {
+    this.pages.push([])
+    this.current = this.pages.length - 1
+  }
+
+  /** Draws on an earlier page, e.g. to continue a second column that started there */
+  setPage(index: number): void {
+    while (index >= this.pages.length) this.pages.push([])
+    this.current = index
+  }
+
+  get page(): number {
+    return this.current
+  }
+
+  textWidth(text: string, size: number, font: PdfFont = 'regular'): number {
+    const encoded = toWinAnsi(text)
+    let total = 0
+    for (let i = 0; i < encoded.length; i++) total += charWidth(encoded.charCodeAt(i), font)
+    return (total * size) / 1000
+  }
+
+  /** Breaks text into lines no wider than maxWidth, at spaces where possible */
+  wrap(text: string, maxWidth: number, size: number, font: PdfFont = 'regular'): string[] {
+    const lines: string[] = []
+    for (const paragraph of text.split('\n')) {
+      let line = ''
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word
+        if (this.textWidth(candidate, size, font) <= maxWidth) {
+          line = candidate
+          continue
+        }
+        if (line) lines.push(line)
+        // A word longer than the line is split wherever it runs out of room
+        let rest = word
+        while (this.textWidth(rest, size, font) > maxWidth && rest.length > 1) {
+          let cut = rest.length - 1
+          while (cut > 1 && this.textWidth(rest.slice(0, cut), size, font) > maxWidth) cut--
+          lines.push(rest.slice(0, cut))
+          rest = rest.slice(cut)
+        }
+        line = rest
+      }
+      lines.push(line)
+    }
+    return lines
+  }
+
+  /** gray is 0 (black) to 1 (white) */
+  text(text: string, x: number, y: number, size: number, font: PdfFont = 'regular', gray = 0): void {
+    this.pages[this.current].push(
+      `BT ${num(gray)} g /${font === 'bold' ? 'F2' : 'F1'} ${num(size)} Tf 1 0 0 1 ${num(x)} ${num(this.height - y)} Tm (${escapeString(toWinAnsi(text))}) Tj ET`
+    )
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, gray = 0.8, lineWidth = 0.5): void {
+    this.pages[this.current].push(
+      `${num(gray)} G ${num(lineWidth)} w ${num(x1)} ${num(this.height - y1)} m ${num(x2)} ${num(this.height - y2)} l S`
+    )
+  }
+
+  /** Draws a JPEG with its top-left corner at (x, y) */
+  image(jpeg: PdfJpeg, x: number, y: number, width: number, height: number): void {
+    let index = this.images.indexOf(jpeg)
+    if (index < 0) index = this.images.push(jpeg) - 1
+    this.pages[this.current].push(
+      `q ${num(width)} 0 0 ${num(height)} ${num(x)} ${num(this.height - y - height)} cm /Im${index + 1} Do Q`
+    )
+  }
+
+  toBlob(): Blob {
+    const chunks: Uint8Array[] = []
+    const offsets: number[] = []
+    let length = 0
+    // Everything but image data is ASCII, or WinAnsi bytes already escaped, so one character is one byte
+    const write = (data: string | Uint8Array) => {
+      const bytes = typeof data === 'string' ? Uint8Array.from(data, char => char.charCodeAt(0)) : data
+      chunks.push(bytes)
+      length += bytes.length
+    }
+    const object = (id: number, body: string) => {
+      offsets[id] = length
+      write(`${id} 0 obj\n${body}\nendobj\n`)
+    }
+
+    const fontCount = 2
+    const firstImage = 3 + fontCount
+    const firstPage = firstImage + this.images.length
+    const pageIds = this.pages.map((_, i) => firstPage + i * 2)
+
+    write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n')
+    object(1, '<< /Type /Catalog /Pages 2 0 R >>')
+    object(2, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`)
+    object(3, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>')
+    object(4, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>')
+
+    this.images.forEach((jpeg, i) => {
+      const id = firstImage + i
+      offsets[id] = length
+      write(
+        `${id} 0 obj\n<< /Type /XObject /Subtype /Image /Width ${jpeg.width} /Height ${jpeg.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.data.length} >>\nstream\n`
+      )
+      write(jpeg.data)
+      write('\nendstream\nendobj\n')
+    })
+
+    const imageResources = this.images.map((_, i) => `/Im${i + 1} ${firstImage + i} 0 R`).join(' ')
+    const resources = `<< /Font << /F1 3 0 R /F2 4 0 R >> /XObject << ${imageResources} >> >>`
+    this.pages.forEach((operations, i) => {
+      const content = operations.join('\n')
+      object(
+        pageIds[i],
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(this.width)} ${num(this.height)}] /Resources ${resources} /Contents ${pageIds[i] + 1} 0 R >>`
+      )
+      object(pageIds[i] + 1, `<< /Length ${content.length} >>\nstream\n${content}\nendstream`)
+    })
+
+    const objectCount = firstPage + this.pages.length * 2
+    const xrefOffset = length
+    write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`)
+    for (let id = 1; id < objectCount; id++) {
+      write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`)
+    }
+    write(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`)
+
+    return new Blob(chunks as BlobPart[], { type: 'application/pdf' })
+  }
+}
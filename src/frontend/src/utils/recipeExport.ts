@@ -0,0 +1,244 @@
+import type { Ingredient, Recipe } from '../types'
+import { getImageFile } from '../services/api'
+import { formatQuantity } from './ingredients'
+import { downscaleToJpeg } from './imageProcessing'
+import { PdfWriter, type PdfFont, type PdfJpeg } from './pdf'
+import { formatDuration } from './recipeSections'
+import { convertTemperatures, type UnitSystem } from './units'
+
+export type PrintLayout = 'a4' | 'card'
+
+/** Paper sizes in millimetres, shared by the print stylesheet and the PDF */
+export const PRINT_LAYOUTS: Record<PrintLayout, { label: string; width: number; height: number; margin: number }> = {
+  a4: { label: 'A4 page', width: 210, height: 297, margin: 15 },
+  card: { label: 'Index card (6 × 4 in)', width: 152.4, height: 101.6, margin: 6 },
+}
+
+/** A recipe as printed: ingredients scaled and converted the way they are shown on screen */
+export interface RecipeCard {
+  title: string
+  servings?: number
+  prepTimeMinutes?: number
+  cookTimeMinutes?: number
+  yield?: string
+  ingredients: string[]
+  /** Empty for recipes that haven't been split into steps; their text is printed instead */
+  steps: string[]
+  text: string
+  sourceBook?: string
+  sourcePage?: string
+  tags: string[]
+}
+
+/**
+ * Builds the printable card from the ingredients as displayed. Lines that couldn't be scaled keep their
+ * original text, as on screen.
+ */
+export function buildRecipeCard(
+  recipe: Recipe,
+  ingredients: Ingredient[],
+  servings: number | undefined,
+  unitSystem: UnitSystem,
+  isScaled: boolean
+): RecipeCard {
+  return {
+    title: recipe.title,
+    servings,
+    prepTimeMinutes: recipe.prepTimeMinutes ?? undefined,
+    cookTimeMinutes: recipe.cookTimeMinutes ?? undefined,
+    yield: recipe.yield ?? undefined,
+    ingredients: ingredients.map(ingredient =>
+      ingredient.name && !(isScaled && ingredient.quantity == null)
+        ? [formatQuantity(ingredient), ingredient.name].filter(Boolean).join(' ')
+        : ingredient.freeText
+    ),
+    steps: recipe.steps.filter(step => step.trim()).map(step => convertTemperatures(step, unitSystem)),
+    text: convertTemperatures(recipe.rawText, unitSystem).trim(),
+    sourceBook: recipe.sourceBook ?? undefined,
+    sourcePage: recipe.sourcePage ?? undefined,
+    tags: recipe.tags,
+  }
+}
+
+/** "Serves 4", "Prep 15 min", ... for the line under the title */
+export function describeRecipeCard(card: RecipeCard): string[] {
+  return [
+    card.servings ? `Serves ${card.servings}` : '',
+    card.prepTimeMinutes ? `Prep ${formatDuration(card.prepTimeMinutes)}` : '',
+    card.cookTimeMinutes ? `Cook ${formatDuration(card.cookTimeMinutes)}` : '',
+    card.yield ? `Makes ${card.yield}` : '',
+  ].filter(Boolean)
+}
+
+export function describeSource(card: RecipeCard): string {
+  if (!card.sourceBook) return ''
+  return card.sourcePage ? `${card.sourceBook}, p. ${card.sourcePage}` : card.sourceBook
+}
+
+/** A file name from the title that works on every OS, e.g. "kanelbullar.md" */
+export function recipeFileName(title: string, extension: string): string {
+  const base = title
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 80)
+  return `${base || 'recipe'}.${extension}`
+}
+
+/**
+ * Writes the card as Markdown. Metadata lines use the wording the text import recognises, so an exported
+ * recipe can be imported again.
+ */
+export function recipeCardToMarkdown(card: RecipeCard): string {
+  const lines = [`# ${card.title}`, '']
+  const meta = [
+    card.servings ? `Serves ${card.servings}` : '',
+    card.prepTimeMinutes ? `Prep time: ${formatDuration(card.prepTimeMinutes)}` : '',
+    card.cookTimeMinutes ? `Cook time: ${formatDuration(card.cookTimeMinutes)}` : '',
+    card.yield ? `Makes: ${card.yield}` : '',
+  ].filter(Boolean)
+  if (meta.length > 0) lines.push(...meta.map(line => `${line}  `), '')
+
+  if (card.ingredients.length > 0) {
+    lines.push('## Ingredients', '', ...card.ingredients.map(line => `- ${line}`), '')
+  }
+  if (card.steps.length > 0) {
+    lines.push('## Method', '', ...card.steps.map((step, index) => `${index + 1}. ${step}`), '')
+  } else if (card.text) {
+    lines.push('## Recipe', '', card.text, '')
+  }
+
+  const source = describeSource(card)
+  if (source) lines.push(`Source: ${source}  `)
+  if (card.tags.length > 0) lines.push(`Tags: ${card.tags.join(', ')}`)
+  return `${lines.join('\n').trimEnd()}\n`
+}
+
+// Photos are printed at most a few inches wide, so there is no need to embed the full upload
+const PDF_PHOTO_DIMENSION = 1200
+
+/** The first photo of a recipe, ready to embed in a PDF */
+export async function loadPdfPhoto(imageRef: string): Promise<PdfJpeg> {
+  const jpeg = await downscaleToJpeg(await getImageFile(imageRef), PDF_PHOTO_DIMENSION)
+  return { data: new Uint8Array(await jpeg.file.arrayBuffer()), width: jpeg.width, height: jpeg.height }
+}
+
+const POINTS_PER_MM = 72 / 25.4
+
+// Font sizes in points on A4; an index card uses the same proportions, smaller
+const FONT_SIZES = { title: 22, meta: 10, heading: 13, body: 10.5, small: 8.5 }
+const CARD_SCALE = 0.72
+const LINE_HEIGHT = 1.35
+
+/** Lays out text in one column, moving on to a new page when it reaches the bottom margin */
+function createColumn(pdf: PdfWriter, x: number, width: number, top: number, margin: number) {
+  let page = pdf.page
+  let y = top
+
+  const fit = (height: number) => {
+    if (y + height > pdf.height - margin) {
+      page += 1
+      y = margin
+    }
+    pdf.setPage(page)
+  }
+
+  return {
+    get position() {
+      return { page, y }
+    },
+    gap(height: number) {
+      y += height
+    },
+    heading(text: string, size: number) {
+      // Keep a heading together with at least two lines of what follows
+      fit(size * LINE_HEIGHT * 3)
+      pdf.text(text, x, y + size, size, 'bold')
+      y += size * LINE_HEIGHT + size * 0.3
+    },
+    paragraph(text: string, size: number, options: { font?: PdfFont; gray?: number; label?: string; indent?: number } = {}) {
+      const { font = 'regular', gray = 0, label, indent = 0 } = options
+      pdf.wrap(text, width - indent, size, font).forEach((line, index) => {
+        fit(size * LINE_HEIGHT)
+        if (label && index === 0) pdf.text(label, x, y + size, size, 'bold', gray)
+        pdf.text(line, x + indent, y + size, size, font, gray)
+        y += size * LINE_HEIGHT
+      })
+    },
+  }
+}
+
+/**
+ * Draws the card as a PDF: title, details and photo at the top, then ingredients beside the method,
+ * continuing on further pages when the recipe is long.
+ */
+export function recipeCardToPdf(card: RecipeCard, layout: PrintLayout, photo?: PdfJpeg): Blob {
+  const paper = PRINT_LAYOUTS[layout]
+  const scale = layout === 'card' ? CARD_SCALE : 1
+  const size = Object.fromEntries(
+    Object.entries(FONT_SIZES).map(([name, points]) => [name, points * scale])
+  ) as typeof FONT_SIZES
+  const pdf = new PdfWriter(paper.width * POINTS_PER_MM, paper.height * POINTS_PER_MM)
+  const margin = paper.margin * POINTS_PER_MM
+  const width = pdf.width - margin * 2
+  const gutter = 18 * scale
+
+  // The photo sits at the top right, beside the title
+  let photoBottom = margin
+  let headerWidth = width
+  if (photo) {
+    const maxHeight = layout === 'card' ? 72 : 200
+    const ratio = Math.min((width * 0.35) / photo.width, maxHeight / photo.height)
+    const photoWidth = photo.width * ratio
+    pdf.image(photo, pdf.width - margin - photoWidth, margin, photoWidth, photo.height * ratio)
+    photoBottom = margin + photo.height * ratio
+    headerWidth = width - photoWidth - gutter
+  }
+
+  const header = createColumn(pdf, margin, headerWidth, margin, margin)
+  header.paragraph(card.title, size.title, { font: 'bold' })
+  const meta = describeRecipeCard(card)
+  if (meta.length > 0) {
+    header.gap(size.meta * 0.3)
+    header.paragraph(meta.join('  ·  '), size.meta, { gray: 0.35 })
+  }
+  const top = Math.max(header.position.y, photoBottom) + size.heading
+
+  const ingredientsWidth = card.ingredients.length > 0 ? (width - gutter) * 0.38 : 0
+  const ingredients = createColumn(pdf, margin, ingredientsWidth, top, margin)
+  if (card.ingredients.length > 0) {
+    ingredients.heading('Ingredients', size.heading)
+    card.ingredients.forEach(line =>
+      ingredients.paragraph(line, size.body, { label: '•', indent: size.body * 0.9 })
+    )
+  }
+
+  pdf.setPage(0)
+  const methodX = ingredientsWidth > 0 ? margin + ingredientsWidth + gutter : margin
+  const method = createColumn(pdf, methodX, width - (methodX - margin), top, margin)
+  if (card.steps.length > 0) {
+    method.heading('Method', size.heading)
+    card.steps.forEach((step, index) => {
+      method.paragraph(step, size.body, { label: `${index + 1}.`, indent: size.body * 1.6 })
+      method.gap(size.body * 0.4)
+    })
+  } else if (card.text) {
+    method.heading('Recipe', size.heading)
+    card.text.split('\n').forEach(line => {
+      if (line.trim()) method.paragraph(line, size.body)
+      else method.gap(size.body * 0.6)
+    })
+  }
+
+  // Source and tags go under whichever column ends last
+  const footerText = [describeSource(card), card.tags.join(', ')].filter(Boolean).join('  ·  ')
+  if (footerText) {
+    const ends = [ingredients.position, method.position]
+    const last = ends.reduce((a, b) => (b.page > a.page || (b.page === a.page && b.y > a.y) ? b : a))
+    pdf.setPage(last.page)
+    const footer = createColumn(pdf, margin, width, last.y + size.small, margin)
+    footer.paragraph(footerText, size.small, { gray: 0.45 })
+  }
+
+  return pdf.toBlob()
+}
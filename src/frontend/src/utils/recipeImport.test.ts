@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest'
+import frontMatterMarkdown from './__fixtures__/recipe-front-matter.md?raw'
+import graphJsonLd from './__fixtures__/recipe-graph.jsonld?raw'
+import microdataPage from './__fixtures__/recipe-microdata.html?raw'
+import plainPage from './__fixtures__/recipe-plain.html?raw'
+import {
+  RecipeImportError,
+  importFromHtml,
+  importFromJsonLd,
+  importFromText,
+  parseIsoDurationMinutes,
+} from './recipeImport'
+
+describe('parseIsoDurationMinutes', () => {
+  it.each([
+    ['PT45M', 45],
+    ['PT1H30M', 90],
+    ['P0DT45M', 45],
+    ['PT1.5H', 90],
+    ['P1D', 1440],
+    ['pt20m', 20],
+    ['PT10M30S', 10],
+  ])('reads %s as %i minutes', (value, minutes) => {
+    expect(parseIsoDurationMinutes(value)).toBe(minutes)
+  })
+
+  it.each([['PT0M'], ['PT30S'], ['P8D'], ['45 min'], [''], [45], [undefined]])('ignores %s', value => {
+    expect(parseIsoDurationMinutes(value)).toBeUndefined()
+  })
+})
+
+describe('importFromJsonLd', () => {
+  it('reads a Recipe inside @graph with HowToSection instructions and decodes entities', () => {
+    const [recipe, ...rest] = importFromJsonLd(graphJsonLd)
+
+    expect(rest).toHaveLength(0)
+    expect(recipe.title).toBe('Kanelbullar & kardemumma')
+    expect(recipe.ingredientLines).toEqual(['5 dl vetemjöl', '1 tsk kardemumma', '75 g smör'])
+    expect(recipe.steps).toEqual([
+      'Melt the butter and add the milk.',
+      'Knead in the flour & leave to rise.',
+      'Bake at 225°C for 8 minutes.',
+    ])
+    expect(recipe.servings).toBe(24)
+    expect(recipe.yield).toBeUndefined()
+    expect(recipe.prepTimeMinutes).toBe(45)
+    expect(recipe.cookTimeMinutes).toBe(10)
+    expect(recipe.sourceBook).toBe('Example Kitchen')
+    expect(recipe.tags).toEqual(['fika', 'baking', 'dessert', 'swedish'])
+    expect(recipe.rawText).toContain('Soft buns with cinnamon butter.')
+    expect(recipe.rawText).toContain('- 75 g smör')
+  })
+
+  it('accepts the surrounding script tag', () => {
+    const json = '<script type="application/ld+json">{"@type": "Recipe", "name": "Toast", "recipeYield": "2 slices"}</script>'
+
+    const [recipe] = importFromJsonLd(json, 'Breakfasts')
+
+    expect(recipe.title).toBe('Toast')
+    expect(recipe.yield).toBe('2 slices')
+    expect(recipe.servings).toBeUndefined()
+    expect(recipe.sourceBook).toBe('Breakfasts')
+  })
+
+  it('rejects invalid JSON and JSON-LD without a Recipe', () => {
+    expect(() => importFromJsonLd('{ "@type": ')).toThrow(RecipeImportError)
+    expect(() => importFromJsonLd('{"@type": "Organization", "name": "Example"}')).toThrow(
+      'No schema.org Recipe was found in this JSON-LD.'
+    )
+  })
+})
+
+describe('importFromHtml', () => {
+  it('reads microdata, leaving out properties of nested items', () => {
+    const [recipe] = importFromHtml(microdataPage)
+
+    expect(recipe.title).toBe('Pannkakor')
+    expect(recipe.ingredientLines).toEqual(['3 dl vetemjöl', '6 dl mjölk', '3 ägg'])
+    expect(recipe.steps).toEqual([
+      'Whisk the flour with half of the milk.',
+      'Whisk in the rest of the milk and the eggs.',
+      'Fry thin pancakes in butter.',
+    ])
+    expect(recipe.servings).toBe(4)
+    expect(recipe.prepTimeMinutes).toBe(10)
+    expect(recipe.cookTimeMinutes).toBe(20)
+    expect(recipe.sourceBook).toBe('Example Kitchen')
+    expect(recipe.rawText).not.toContain('Anna Andersson')
+  })
+
+  it('prefers JSON-LD over the page text', () => {
+    const page = `<html><head><meta property="og:site_name" content="Example Kitchen"></head><body>
+      <script type="application/ld+json">${graphJsonLd}</script>
+      <h1>Something else</h1></body></html>`
+
+    const recipes = importFromHtml(page)
+
+    expect(recipes.map(recipe => recipe.title)).toEqual(['Kanelbullar & kardemumma'])
+  })
+
+  it('reads a page without structured data as text, leaving out navigation and footer', () => {
+    const [recipe] = importFromHtml(plainPage)
+
+    expect(recipe.title).toBe('Tomato soup')
+    expect(recipe.servings).toBe(4)
+    expect(recipe.ingredientLines).toEqual(['2 cans tomatoes', '1 onion', '5 dl stock'])
+    expect(recipe.steps).toEqual(['Fry the onion until soft.', 'Add the tomatoes and stock and simmer for 20 minutes.'])
+    expect(recipe.rawText).not.toMatch(/Home|Example Kitchen/)
+  })
+
+  it('rejects a page without any text', () => {
+    expect(() => importFromHtml('<html><body><nav>Home</nav></body></html>')).toThrow(RecipeImportError)
+  })
+})
+
+describe('importFromText', () => {
+  it('reads front matter, Markdown sections and a tags line', () => {
+    const recipe = importFromText(frontMatterMarkdown, 'overnight-oats')
+
+    expect(recipe.title).toBe('Overnight oats')
+    expect(recipe.servings).toBe(2)
+    expect(recipe.sourceBook).toBe('My notebook')
+    expect(recipe.ingredientLines).toEqual(['2 dl rolled oats', '2 dl milk', '1 tbsp honey'])
+    expect(recipe.steps).toEqual(['Stir everything together in a jar.', 'Leave in the fridge overnight.'])
+    expect(recipe.tags).toEqual(['breakfast', 'quick', 'vegetarian', 'no-cook'])
+    expect(recipe.rawText).not.toContain('---')
+    expect(recipe.rawText).not.toContain('Tags:')
+  })
+
+  it('takes the first heading, then the first line, then the file name as the title', () => {
+    expect(importFromText('Intro\n# Pea soup\n2 dl peas').title).toBe('Pea soup')
+    expect(importFromText('Pea soup\n2 dl peas').title).toBe('Pea soup')
+    expect(importFromText(`${'x'.repeat(250)}\n2 dl peas`, 'pea-soup').title).toBe('pea-soup')
+  })
+
+  it('rejects an empty file', () => {
+    expect(() => importFromText('\ufeff\r\n  \r\n')).toThrow('The file is empty.')
+    expect(() => importFromText('---\ntitle: Nothing\n---\n')).toThrow(RecipeImportError)
+  })
+})
@@ -0,0 +1,330 @@
+import type { CreateRecipeRequest } from '../types'
+import { draftToRequestFields, splitRecipeText } from './recipeSections'
+import { toTag } from './tags'
+
+export type ImportSource = 'html' | 'jsonld' | 'text'
+
+/** Thrown when the input holds nothing that can be read as a recipe; the message is shown to the user */
+export class RecipeImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RecipeImportError'
+  }
+}
+
+// Backend limits, so an imported recipe is never rejected for its size
+const MAX_TITLE_LENGTH = 200
+const MAX_RAW_TEXT_LENGTH = 10000
+const MAX_LINES = 100
+const MAX_INGREDIENT_LENGTH = 500
+const MAX_STEP_LENGTH = 2000
+const MAX_TAGS = 20
+const MAX_YIELD_LENGTH = 100
+const MAX_SOURCE_BOOK_LENGTH = 200
+const MAX_MINUTES = 10080
+
+type JsonObject = Record<string, unknown>
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' }
+
+// JSON-LD strings often carry the page's HTML markup and entities
+const cleanText = (text: string) =>
+  text
+    .replace(/<br\s*\/?>|<\/(?:p|li|div|h[1-6])>/gi, '\n')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+      if (name[0] === '#') {
+        const code = name[1].toLowerCase() === 'x' ? Number.parseInt(name.slice(2), 16) : Number(name.slice(1))
+        return Number.isFinite(code) && code > 0 ? String.fromCodePoint(code) : entity
+      }
+      return ENTITIES[name.toLowerCase()] ?? entity
+    })
+    .replace(/[ \t\u00a0]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .trim()
+
+const asArray = (value: unknown): unknown[] => (value === undefined || value === null ? [] : Array.isArray(value) ? value : [value])
+
+const isObject = (value: unknown): value is JsonObject => typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const asText = (value: unknown): string => {
+  if (typeof value === 'string') return cleanText(value)
+  if (typeof value === 'number') return String(value)
+  if (isObject(value)) return asText(value.name ?? value.text ?? value['@value'])
+  return ''
+}
+
+const clip = (text: string, maxLength: number) => (text.length > maxLength ? text.slice(0, maxLength).trimEnd() : text)
+
+const clipLines = (lines: string[], maxLength: number) =>
+  lines
+    .map(line => clip(line, maxLength))
+    .filter(line => line.length > 0)
+    .slice(0, MAX_LINES)
+
+const isRecipeType = (type: unknown) =>
+  asArray(type).some(t => typeof t === 'string' && /^(?:(?:https?:\/\/)?schema\.org\/|schema:)?Recipe$/i.test(t))
+
+/** Every schema.org Recipe in a JSON-LD document, including ones inside @graph or another node */
+function findRecipeNodes(value: unknown, depth = 0): JsonObject[] {
+  if (depth > 10) return []
+  if (Array.isArray(value)) return value.flatMap(item => findRecipeNodes(item, depth + 1))
+  if (!isObject(value)) return []
+  if (isRecipeType(value['@type'])) return [value]
+  return Object.values(value).flatMap(child => findRecipeNodes(child, depth + 1))
+}
+
+/**
+ * Reads an ISO 8601 duration ("PT1H30M", "P0DT45M") as minutes.
+ */
+export function parseIsoDurationMinutes(value: unknown): number | undefined {
+  if (typeof value !== 'string') return undefined
+  const match = value.trim().match(/^P(?:(\d+)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:\d+(?:\.\d+)?S)?)?$/i)
+  if (!match) return undefined
+  const minutes = Math.round(Number(match[1] ?? 0) * 1440 + Number(match[2] ?? 0) * 60 + Number(match[3] ?? 0))
+  return minutes > 0 && minutes <= MAX_MINUTES ? minutes : undefined
+}
+
+// HowToSection groups steps under a name; the steps are what gets kept
+function readInstructions(value: unknown): string[] {
+  return asArray(value).flatMap(item => {
+    if (typeof item === 'string') {
+      return cleanText(item)
+        .split('\n')
+        .map(line => line.replace(/^\d{1,2}[.)]\s+/, '').trim())
+        .filter(line => line.length > 0)
+    }
+    if (!isObject(item)) return []
+    if (item.itemListElement !== undefined) return readInstructions(item.itemListElement)
+    const text = asText(item.text ?? item.name)
+    return text ? [text] : []
+  })
+}
+
+// "4", "4 servings" and ["4", "4 servings"] are servings; anything else ("1 loaf") is the yield
+function readYield(value: unknown): { servings?: number; yield?: string } {
+  const texts = asArray(value).map(asText).filter(text => text.length > 0)
+  const servingsText = texts.find(text => /^\d+(?:\s*(?:servings?|portions?|portioner|personer|people|persons))?$/i.test(text))
+  const servings = servingsText ? Number.parseInt(servingsText, 10) : undefined
+  if (servings && servings >= 1 && servings <= 100) return { servings }
+  return texts[0] ? { yield: clip(texts[0], MAX_YIELD_LENGTH) } : {}
+}
+
+// Keywords are usually one comma-separated string; categories and cuisines single values or arrays
+function readTags(recipe: JsonObject): string[] {
+  const labels = [recipe.keywords, recipe.recipeCategory, recipe.recipeCuisine]
+    .flatMap(asArray)
+    .flatMap(value => asText(value).split(','))
+  const tags = labels.map(toTag).filter((tag): tag is string => tag !== undefined)
+  return [...new Set(tags)].slice(0, MAX_TAGS)
+}
+
+/** The readable recipe text kept alongside the structured fields, so search finds imported recipes too */
+function composeRawText(title: string, description: string, ingredients: string[], steps: string[]): string {
+  const parts = [title, description]
+  if (ingredients.length > 0) parts.push(['Ingredients', ...ingredients.map(line => `- ${line}`)].join('\n'))
+  if (steps.length > 0) parts.push(['Method', ...steps.map((step, i) => `${i + 1}. ${step}`)].join('\n'))
+  return clip(parts.filter(part => part.length > 0).join('\n\n'), MAX_RAW_TEXT_LENGTH)
+}
+
+function fromRecipeNode(recipe: JsonObject, siteName = ''): CreateRecipeRequest {
+  const title = clip(asText(recipe.name ?? recipe.headline), MAX_TITLE_LENGTH)
+  const description = asText(recipe.description)
+  const ingredients = clipLines(asArray(recipe.recipeIngredient ?? recipe.ingredients).map(asText), MAX_INGREDIENT_LENGTH)
+  const steps = clipLines(readInstructions(recipe.recipeInstructions), MAX_STEP_LENGTH)
+  const source = asText(recipe.publisher) || asText(recipe.isPartOf) || siteName
+
+  return {
+    title,
+    rawText: composeRawText(title, description, ingredients, steps),
+    imageRefs: [],
+    ingredientLines: ingredients.length > 0 ? ingredients : undefined,
+    steps,
+    ...readYield(recipe.recipeYield),
+    prepTimeMinutes: parseIsoDurationMinutes(recipe.prepTime),
+    cookTimeMinutes: parseIsoDurationMinutes(recipe.cookTime),
+    sourceBook: source ? clip(source, MAX_SOURCE_BOOK_LENGTH) : undefined,
+    tags: readTags(recipe),
+  }
+}
+
+/**
+ * Reads the schema.org Recipe objects in a JSON-LD block, as found in a recipe page's
+ * `<script type="application/ld+json">`. The surrounding script tag may be included.
+ */
+export function importFromJsonLd(json: string, siteName = ''): CreateRecipeRequest[] {
+  const body = json
+    .trim()
+    .replace(/^<script[^>]*>/i, '')
+    .replace(/<\/script>$/i, '')
+  let document: unknown
+  try {
+    document = JSON.parse(body)
+  } catch {
+    throw new RecipeImportError("This isn't valid JSON. Paste the whole JSON-LD block, from { to }.")
+  }
+
+  const recipes = findRecipeNodes(document).map(node => fromRecipeNode(node, siteName))
+  if (recipes.length === 0) {
+    throw new RecipeImportError('No schema.org Recipe was found in this JSON-LD.')
+  }
+  return recipes
+}
+
+const TAGS_LINE = /^(?:tags|taggar|keywords)\s*:\s*(.+)$/i
+
+/** Simple `key: value` front matter; lists may be written `[a, b]` or as the comma-separated value */
+function readFrontMatter(lines: string[]): { fields: Record<string, string>; bodyStart: number } {
+  if (lines[0]?.trim() !== '---') return { fields: {}, bodyStart: 0 }
+  const end = lines.findIndex((line, i) => i > 0 && line.trim() === '---')
+  if (end < 0) return { fields: {}, bodyStart: 0 }
+
+  const fields: Record<string, string> = {}
+  lines.slice(1, end).forEach(line => {
+    const match = line.match(/^([A-Za-z_]+)\s*:\s*(.*)$/)
+    if (match) fields[match[1].toLowerCase()] = match[2].replace(/^\[|\]$/g, '').replace(/^["']|["']$/g, '').trim()
+  })
+  return { fields, bodyStart: end + 1 }
+}
+
+// Inline Markdown is dropped so sections split the same way as OCR text
+const stripMarkdown = (line: string) =>
+  line
+    .replace(/^#{1,6}\s+/, '')
+    .replace(/^>\s?/, '')
+    .replace(/^\s*[-*+]\s+\[[ xX]\]\s+/, '- ')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/(^|\s)[*_](\S.*?\S|\S)[*_](?=\s|$|[.,;:!?])/g, '$1$2')
+    .replace(/`([^`]+)`/g, '$1')
+
+/**
+ * Reads a plain-text or Markdown recipe. The title is the front matter title, the first `#` heading or the first
+ * line, in that order; sections are split as for OCR text, so "## Ingredients" and "## Method" headings work.
+ * A "Tags: a, b" line or `tags` front matter becomes tags.
+ */
+export function importFromText(text: string, fallbackTitle = ''): CreateRecipeRequest {
+  const lines = text.replace(/^\ufeff/, '').replace(/\r\n?/g, '\n').split('\n')
+  const { fields, bodyStart } = readFrontMatter(lines)
+  const tagLabels: string[] = fields.tags ? fields.tags.split(',') : []
+  let heading = ''
+
+  const body = lines.slice(bodyStart).flatMap(line => {
+    const tagsLine = line.trim().match(TAGS_LINE)
+    if (tagsLine) {
+      tagLabels.push(...tagsLine[1].split(/[,#]/))
+      return []
+    }
+    if (!heading && /^#\s+\S/.test(line)) heading = stripMarkdown(line).trim()
+    // Horizontal rules only separate parts of the page
+    return /^\s*([-*_])(\s*\1){2,}\s*$/.test(line) ? [''] : [stripMarkdown(line)]
+  })
+  const bodyText = clip(body.join('\n').replace(/\n{3,}/g, '\n\n').trim(), MAX_RAW_TEXT_LENGTH)
+  if (!bodyText) throw new RecipeImportError('The file is empty.')
+
+  const firstLine = bodyText.split('\n')[0].trim()
+  const title = clip(fields.title || heading || (firstLine.length <= MAX_TITLE_LENGTH ? firstLine : '') || fallbackTitle, MAX_TITLE_LENGTH)
+  const sections = splitRecipeText(bodyText, title)
+  sections.servings ||= fields.servings ?? ''
+  sections.yield ||= fields.yield ?? ''
+  sections.sourceBook ||= fields.source ?? ''
+  const fieldsFromSections = draftToRequestFields(sections)
+  const tags = tagLabels.map(toTag).filter((tag): tag is string => tag !== undefined)
+
+  return {
+    ...fieldsFromSections,
+    title,
+    rawText: bodyText,
+    imageRefs: [],
+    ingredientLines: fieldsFromSections.ingredientLines && clipLines(fieldsFromSections.ingredientLines, MAX_INGREDIENT_LENGTH),
+    steps: clipLines(fieldsFromSections.steps ?? [], MAX_STEP_LENGTH),
+    yield: fieldsFromSections.yield && clip(fieldsFromSections.yield, MAX_YIELD_LENGTH),
+    sourceBook: fieldsFromSections.sourceBook && clip(fieldsFromSections.sourceBook, MAX_SOURCE_BOOK_LENGTH),
+    tags: [...new Set(tags)].slice(0, MAX_TAGS),
+  }
+}
+
+// Text of the elements a reader would see as lines, in page order
+const BLOCK_SELECTOR = 'h1, h2, h3, h4, h5, h6, p, li, dt, dd, tr, blockquote, pre'
+const CHROME_SELECTOR = 'script, style, noscript, template, nav, header, footer, aside, form, iframe, svg'
+
+function fromMicrodata(root: Element, siteName: string): CreateRecipeRequest {
+  // Properties of nested items (the author's name) belong to those items, not the recipe
+  const props = (name: string) =>
+    Array.from(root.querySelectorAll(`[itemprop~="${name}"]`)).filter(
+      element => element.parentElement?.closest('[itemscope]') === root
+    )
+  const valueOf = (element: Element) =>
+    element.getAttribute('content') ?? element.getAttribute('datetime') ?? cleanText(element.textContent ?? '')
+
+  const instructions = props('recipeInstructions').flatMap(element => {
+    const items = Array.from(element.querySelectorAll('li'))
+    return items.length > 0 ? items.map(item => cleanText(item.textContent ?? '')) : readInstructions(valueOf(element))
+  })
+
+  return fromRecipeNode(
+    {
+      name: props('name').map(valueOf)[0],
+      description: props('description').map(valueOf)[0],
+      recipeIngredient: [...props('recipeIngredient'), ...props('ingredients')].map(valueOf),
+      recipeInstructions: instructions,
+      recipeYield: props('recipeYield').map(valueOf)[0],
+      prepTime: props('prepTime').map(valueOf)[0],
+      cookTime: props('cookTime').map(valueOf)[0],
+      keywords: props('keywords').map(valueOf),
+      recipeCategory: props('recipeCategory').map(valueOf),
+      recipeCuisine: props('recipeCuisine').map(valueOf),
+    },
+    siteName
+  )
+}
+
+/**
+ * Reads the recipes on a saved or copied web page. Schema.org JSON-LD is preferred, then microdata;
+ * a page with neither is read as text, starting from its main content.
+ */
+export function importFromHtml(html: string): CreateRecipeRequest[] {
+  const page = new DOMParser().parseFromString(html, 'text/html')
+  const siteName =
+    page.querySelector('meta[property="og:site_name"]')?.getAttribute('content')?.trim() ??
+    page.querySelector('meta[name="application-name"]')?.getAttribute('content')?.trim() ??
+    ''
+
+  const fromJsonLd = Array.from(page.querySelectorAll('script[type="application/ld+json"]')).flatMap(script => {
+    try {
+      return importFromJsonLd(script.textContent ?? '', siteName)
+    } catch {
+      // Pages carry other JSON-LD too (breadcrumbs, organisation); those blocks are skipped
+      return []
+    }
+  })
+  if (fromJsonLd.length > 0) return fromJsonLd
+
+  const microdata = Array.from(page.querySelectorAll('[itemtype]')).filter(element =>
+    isRecipeType(element.getAttribute('itemtype')?.split(/\s+/))
+  )
+  const fromMicrodataItems = microdata.map(root => fromMicrodata(root, siteName))
+  if (fromMicrodataItems.some(recipe => recipe.title)) return fromMicrodataItems
+
+  page.querySelectorAll(CHROME_SELECTOR).forEach(element => element.remove())
+  const content = page.querySelector('main, article, [role="main"]') ?? page.body
+  if (!content) throw new RecipeImportError('No recipe was found on this page.')
+  const blocks = Array.from(content.querySelectorAll(BLOCK_SELECTOR))
+    // Nested blocks (a <p> inside an <li>) would otherwise be read twice
+    .filter(element => !element.parentElement?.closest(BLOCK_SELECTOR))
+    .map(element => {
+      if (element.tagName === 'TR') {
+        return Array.from(element.children, cell => cleanText(cell.textContent ?? '')).join(' ').trim()
+      }
+      const text = cleanText(element.textContent ?? '')
+      if (element.tagName === 'H1') return `# ${text}`
+      return element.tagName === 'LI' && element.parentElement?.tagName === 'UL' ? `- ${text}` : text
+    })
+    .filter(text => text.length > 0)
+  const text = blocks.length > 0 ? blocks.join('\n') : cleanText(content.textContent ?? '')
+  if (!text) throw new RecipeImportError('No recipe was found on this page.')
+
+  const recipe = importFromText(text, page.title.trim())
+  return [{ ...recipe, sourceBook: recipe.sourceBook ?? (siteName ? clip(siteName, MAX_SOURCE_BOOK_LENGTH) : undefined) }]
+}
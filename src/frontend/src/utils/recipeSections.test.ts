@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest'
+import { EMPTY_SECTIONS, draftToRequestFields, parseDurationMinutes, splitRecipeText } from './recipeSections'
+
+describe('splitRecipeText', () => {
+  it('splits sections under Swedish headers and reads the metadata lines', () => {
+    const text = [
+      'Köttbullar',
+      '4 portioner',
+      'Tillagningstid: 30 min',
+      'Källa: Vår kokbok, s. 42',
+      'Ingredienser',
+      '500 g köttfärs',
+      '1 ägg',
+      'salt och peppar',
+      'Gör så här',
+      '1. Blanda färsen med ägget och',
+      'kryddorna.',
+      '2. Rulla bullar och stek dem.',
+    ].join('\n')
+
+    const draft = splitRecipeText(text, 'Köttbullar')
+
+    expect(draft.ingredients).toBe('500 g köttfärs\n1 ägg\nsalt och peppar')
+    expect(draft.steps).toBe('Blanda färsen med ägget och kryddorna.\nRulla bullar och stek dem.')
+    expect(draft.servings).toBe('4')
+    expect(draft.cookTime).toBe('30')
+    expect(draft.sourceBook).toBe('Vår kokbok')
+    expect(draft.sourcePage).toBe('42')
+  })
+
+  it('takes quantity-led lines as ingredients and the prose after them as steps when there are no headers', () => {
+    const text = 'A quick lunch.\n- 2 eggs\n½ avocado\nToast the bread. Top with the egg and avocado.'
+
+    const draft = splitRecipeText(text)
+
+    expect(draft.ingredients).toBe('2 eggs\n½ avocado')
+    expect(draft.steps).toBe('Toast the bread. Top with the egg and avocado.')
+  })
+
+  it('leaves an empty draft for text without a recipe', () => {
+    expect(splitRecipeText('')).toEqual(EMPTY_SECTIONS)
+  })
+})
+
+describe('parseDurationMinutes', () => {
+  it.each([
+    ['45 min', 45],
+    ['1 h 30 min', 90],
+    ['1½ timme', 90],
+    ['20', 20],
+  ])('reads %s as %i minutes', (text, minutes) => {
+    expect(parseDurationMinutes(text)).toBe(minutes)
+  })
+
+  it('ignores text without a duration', () => {
+    expect(parseDurationMinutes('a while')).toBeUndefined()
+  })
+})
+
+describe('draftToRequestFields', () => {
+  it('leaves out an empty ingredient list unless clearing it', () => {
+    expect(draftToRequestFields(EMPTY_SECTIONS).ingredientLines).toBeUndefined()
+    expect(draftToRequestFields(EMPTY_SECTIONS, { clearIngredients: true }).ingredientLines).toEqual([])
+  })
+})
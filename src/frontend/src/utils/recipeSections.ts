@@ -0,0 +1,205 @@
+import type { Recipe, RecipeSectionsDraft, RecipeStructure } from '../types'
+
+export type { RecipeSectionsDraft }
+
+export const EMPTY_SECTIONS: RecipeSectionsDraft = {
+  ingredients: '',
+  steps: '',
+  servings: '',
+  prepTime: '',
+  cookTime: '',
+  yield: '',
+  sourceBook: '',
+  sourcePage: '',
+}
+
+// Section headers in English and Swedish cookbooks; a short tail like "(4 portioner)" is allowed
+const INGREDIENTS_HEADER = /^(ingredients?|ingredienser|you will need|du behöver)\b.{0,25}$/i
+const STEPS_HEADER =
+  /^(instructions?|method|directions|preparation|instruktioner?|gör så här|så här gör du|tillagning|tillvägagångssätt)\b.{0,25}$/i
+
+const SERVINGS_LINE = [
+  /^(?:serves|servings|portioner|antal portioner)\s*:?\s*(\d+)/i,
+  /^(?:for|för)\s+(\d+)\s*(?:people|persons|servings|personer|portioner|pers\.?|port\.?)?\s*:?$/i,
+  /^(\d+)\s*(?:servings|portions|portioner|personer|port\.?)\s*$/i,
+]
+const PREP_TIME_LINE = /^(?:prep(?:aration)?(?:\s*time)?|förberedelser?(?:tid)?)\s*:?\s*(.+)$/i
+const COOK_TIME_LINE = /^(?:cook(?:ing)?\s*time|bak(?:e|ing)\s*time|tillagningstid|ugnstid|koktid|baktid)\s*:?\s*(.+)$/i
+const YIELD_LINE = /^(?:makes|yield|yields|ger|blir|räcker till)\s*:?\s*(.+)$/i
+const SOURCE_LINE = /^(?:source|from|källa|ur)\s*:\s*(.+?)(?:,?\s*(?:p\.|page|sid\.?|sidan|s\.)\s*(\d+))?$/i
+
+// "1. Mix", "2) Bake" but not "2.5 dl"
+const NUMBERED_STEP = /^\d{1,2}[.)]\s+/
+const BULLET = /^[-•*–]\s*/
+const INGREDIENT_START = /^([-•*–]|\d|[½⅓⅔¼¾⅛])/
+// Ingredient lines are short; longer lines are prose
+const MAX_INGREDIENT_LENGTH = 60
+
+/**
+ * Reads a duration such as "45 min", "1 h 30 min", "1½ timme" or "20" as minutes.
+ */
+export function parseDurationMinutes(text: string): number | undefined {
+  const normalized = text.replace(/(\d)\s*½/g, '$1.5').replace(/½/g, '0.5').replace(',', '.')
+  const hours = normalized.match(/(\d+(?:\.\d+)?)\s*(?:h|hr|hrs|hours?|tim(?:me|mar)?|t)\b/i)
+  const minutes = normalized.match(/(\d+)\s*(?:m|min|mins|minutes?|minuter)\b/i)
+
+  if (hours || minutes) {
+    const total = Math.round((hours ? Number(hours[1]) * 60 : 0) + (minutes ? Number(minutes[1]) : 0))
+    return total > 0 ? total : undefined
+  }
+
+  const bare = normalized.trim().match(/^(\d+)$/)
+  return bare ? Number(bare[1]) : undefined
+}
+
+/** Formats minutes the way a recipe card would: "45 min", "1 h 30 min" */
+export function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60)
+  const rest = minutes % 60
+  if (hours === 0) return `${rest} min`
+  return rest === 0 ? `${hours} h` : `${hours} h ${rest} min`
+}
+
+const looksLikeIngredient = (line: string) =>
+  INGREDIENT_START.test(line) && !NUMBERED_STEP.test(line) && line.length <= MAX_INGREDIENT_LENGTH
+
+/**
+ * Splits OCR text into ingredients, steps and metadata as a starting point for the user to correct.
+ * Header lines ("Ingredienser", "Method", ...) switch section; without headers, quantity-led lines are taken as
+ * ingredients and the prose after them as steps. The title line and unrecognised intro text are left out.
+ */
+export function splitRecipeText(text: string, title = ''): RecipeSectionsDraft {
+  const draft = { ...EMPTY_SECTIONS }
+  const ingredients: string[] = []
+  const steps: string[] = []
+  let section: 'intro' | 'ingredients' | 'steps' = 'intro'
+  // Steps wrap over several OCR lines; a line continues the current step until it ends a sentence
+  let stepOpen = false
+
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.trim()
+    if (!line) {
+      stepOpen = false
+      continue
+    }
+    if (title && line === title.trim()) continue
+
+    const servings = SERVINGS_LINE.map(pattern => line.match(pattern)).find(Boolean)
+    const prep = line.match(PREP_TIME_LINE)
+    const cook = line.match(COOK_TIME_LINE)
+    const yieldMatch = line.match(YIELD_LINE)
+    const source = line.match(SOURCE_LINE)
+    if (servings && !draft.servings) {
+      draft.servings = servings[1]
+      continue
+    }
+    if (prep && !draft.prepTime && parseDurationMinutes(prep[1])) {
+      draft.prepTime = String(parseDurationMinutes(prep[1]))
+      continue
+    }
+    if (cook && !draft.cookTime && parseDurationMinutes(cook[1])) {
+      draft.cookTime = String(parseDurationMinutes(cook[1]))
+      continue
+    }
+    if (yieldMatch && !draft.yield) {
+      draft.yield = yieldMatch[1]
+      continue
+    }
+    if (source && !draft.sourceBook) {
+      draft.sourceBook = source[1]
+      draft.sourcePage = source[2] ?? ''
+      continue
+    }
+
+    if (INGREDIENTS_HEADER.test(line)) {
+      section = 'ingredients'
+      continue
+    }
+    if (STEPS_HEADER.test(line)) {
+      section = 'steps'
+      stepOpen = false
+      continue
+    }
+
+    if (section === 'intro') {
+      if (looksLikeIngredient(line)) {
+        section = 'ingredients'
+      } else if (NUMBERED_STEP.test(line) && ingredients.length > 0) {
+        section = 'steps'
+      } else {
+        continue
+      }
+    } else if (section === 'ingredients' && !looksLikeIngredient(line) && ingredients.length > 0) {
+      // Short lines without an amount ("salt och peppar") still belong to the ingredient list
+      if (NUMBERED_STEP.test(line) || line.length > MAX_INGREDIENT_LENGTH || /[.!?](\s|$)/.test(line)) {
+        section = 'steps'
+        stepOpen = false
+      }
+    }
+
+    if (section === 'ingredients') {
+      ingredients.push(line.replace(BULLET, ''))
+    } else if (NUMBERED_STEP.test(line) || !stepOpen) {
+      steps.push(line.replace(NUMBERED_STEP, ''))
+      stepOpen = !/[.!?]$/.test(line)
+    } else {
+      steps[steps.length - 1] += ` ${line}`
+      stepOpen = !/[.!?]$/.test(line)
+    }
+  }
+
+  draft.ingredients = ingredients.join('\n')
+  draft.steps = steps.join('\n')
+  return draft
+}
+
+/** The draft for editing a saved recipe */
+export function draftFromRecipe(recipe: Recipe): RecipeSectionsDraft {
+  return {
+    ingredients: [...recipe.ingredients]
+      .sort((a, b) => a.position - b.position)
+      .map(ingredient => ingredient.freeText)
+      .join('\n'),
+    steps: recipe.steps.join('\n'),
+    servings: recipe.servings ? String(recipe.servings) : '',
+    prepTime: recipe.prepTimeMinutes ? String(recipe.prepTimeMinutes) : '',
+    cookTime: recipe.cookTimeMinutes ? String(recipe.cookTimeMinutes) : '',
+    yield: recipe.yield ?? '',
+    sourceBook: recipe.sourceBook ?? '',
+    sourcePage: recipe.sourcePage ?? '',
+  }
+}
+
+const toLines = (text: string) =>
+  text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.length > 0)
+
+const toPositiveInt = (text: string) => {
+  const value = Number.parseInt(text, 10)
+  return value > 0 ? value : undefined
+}
+
+/**
+ * Converts a draft into request fields. An empty ingredient list is sent as undefined, so the backend
+ * falls back to detecting ingredients in the raw text, unless `clearIngredients` is set: editing a recipe
+ * that had ingredients and emptying the list sends `[]` to remove them.
+ */
+export function draftToRequestFields(
+  draft: RecipeSectionsDraft,
+  { clearIngredients = false }: { clearIngredients?: boolean } = {}
+): RecipeStructure & { ingredientLines?: string[] } {
+  const ingredientLines = toLines(draft.ingredients)
+
+  return {
+    ingredientLines: ingredientLines.length > 0 || clearIngredients ? ingredientLines : undefined,
+    steps: toLines(draft.steps),
+    servings: toPositiveInt(draft.servings),
+    prepTimeMinutes: toPositiveInt(draft.prepTime),
+    cookTimeMinutes: toPositiveInt(draft.cookTime),
+    yield: draft.yield.trim() || undefined,
+    sourceBook: draft.sourceBook.trim() || undefined,
+    sourcePage: draft.sourcePage.trim() || undefined,
+  }
+}
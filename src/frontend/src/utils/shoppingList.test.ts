@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest'
+import type { Ingredient } from '../types'
+import { buildShoppingList, storeSectionFor, type ShoppingListRecipe } from './shoppingList'
+
+const ingredient = (fields: Partial<Ingredient> & { freeText: string }): Ingredient => ({ position: 0, ...fields })
+
+const recipe = (title: string, ingredients: Ingredient[], servings?: { base: number; chosen: number }): ShoppingListRecipe => ({
+  id: `recipe_${title}`,
+  title,
+  baseServings: servings?.base,
+  servings: servings?.chosen,
+  ingredients,
+})
+
+describe('buildShoppingList', () => {
+  it('merges lines by canonical name and adds grams to kilograms', () => {
+    const items = buildShoppingList([
+      recipe('Bread', [ingredient({ freeText: '1 kg vetemjöl', quantity: 1, unit: 'kg', name: 'vetemjöl', canonicalName: 'flour' })]),
+      recipe('Pancakes', [ingredient({ freeText: '500 g mjöl', quantity: 500, unit: 'g', name: 'mjöl', canonicalName: 'flour' })]),
+    ], 'original')
+
+    expect(items).toEqual([
+      { key: 'flour', name: 'vetemjöl', section: 'pantry', amounts: ['1 ½ kg'], recipeTitles: ['Bread', 'Pancakes'] },
+    ])
+  })
+
+  it('adds amounts written in different unit systems in the chosen system', () => {
+    const items = buildShoppingList([
+      recipe('Cake', [ingredient({ freeText: '1 cup milk', quantity: 1, unit: 'cup', name: 'milk' })]),
+      recipe('Porridge', [ingredient({ freeText: '2 dl milk', quantity: 2, unit: 'dl', name: 'milk' })]),
+    ], 'metric')
+
+    expect(items[0].amounts).toEqual(['4 ⅓ dl'])
+  })
+
+  it('keeps a range when adding it to a single amount', () => {
+    const items = buildShoppingList([
+      recipe('Soup', [ingredient({ freeText: '2–3 dl grädde', quantity: 2, quantityMax: 3, unit: 'dl', name: 'grädde' })]),
+      recipe('Sauce', [ingredient({ freeText: '1 dl grädde', quantity: 1, unit: 'dl', name: 'grädde' })]),
+    ], 'original')
+
+    expect(items[0].amounts).toEqual(['3–4 dl'])
+  })
+
+  it('lists amounts that cannot be added up side by side', () => {
+    const items = buildShoppingList([
+      recipe('Stew', [ingredient({ freeText: '2 lök', quantity: 2, name: 'lök' })]),
+      recipe('Pie', [ingredient({ freeText: '300 g lök', quantity: 300, unit: 'g', name: 'lök' })]),
+    ], 'original')
+
+    expect(items[0].amounts).toEqual(['2', '300 g'])
+  })
+
+  it('scales amounts to the chosen servings before adding them', () => {
+    const items = buildShoppingList([
+      recipe('Meatballs', [ingredient({ freeText: '1 ägg', quantity: 1, name: 'ägg' })], { base: 4, chosen: 8 }),
+      recipe('Omelette', [ingredient({ freeText: '3 ägg', quantity: 3, name: 'ägg' })]),
+    ], 'original')
+
+    expect(items[0].amounts).toEqual(['5'])
+  })
+
+  it('lists unparsed lines as written, merging the same line from several recipes', () => {
+    const line = () => ingredient({ freeText: 'salt och peppar efter smak' })
+    const items = buildShoppingList([recipe('Stew', [line()]), recipe('Soup', [line(), ingredient({ freeText: '  ' })])], 'metric')
+
+    expect(items).toEqual([
+      {
+        key: 'salt och peppar efter smak',
+        name: 'salt och peppar efter smak',
+        section: 'spices',
+        amounts: [],
+        recipeTitles: ['Stew', 'Soup'],
+      },
+    ])
+  })
+})
+
+describe('storeSectionFor', () => {
+  it.each([
+    // The examples in the doc comment: the longest keyword wins
+    ['kokosmjölk', 'pantry'],
+    ['black pepper', 'spices'],
+    ['bell pepper', 'produce'],
+    ['vaniljsocker', 'spices'],
+    // Keywords match the start or end of a word
+    ['parmesanost', 'dairy'],
+    ['jasminris', 'pantry'],
+    ['hamburgerbröd', 'bakery'],
+    ['frysta ärter', 'frozen'],
+    ['vetemjöl', 'pantry'],
+    // A short keyword that happens to start another word loses to a longer match
+    ['eggplant', 'produce'],
+    ['bunch of dill', 'produce'],
+    // Keywords of several words match anywhere in the name, ignoring case
+    ['Crème fraiche', 'dairy'],
+    ['water', 'other'],
+  ])('puts "%s" in %s', (name, section) => {
+    expect(storeSectionFor(name)).toBe(section)
+  })
+})
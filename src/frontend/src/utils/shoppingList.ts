@@ -0,0 +1,163 @@
+import type { Ingredient, Recipe } from '../types'
+import { formatQuantity, scaleIngredient } from './ingredients'
+import { addIngredientAmounts, convertIngredient, type UnitSystem } from './units'
+
+/** A recipe on the shopping list, with its ingredients as written so the servings can still be changed */
+export interface ShoppingListRecipe {
+  id: string
+  title: string
+  /** Servings the recipe is written for; absent when unknown, and then it can't be scaled */
+  baseServings?: number
+  servings?: number
+  ingredients: Ingredient[]
+}
+
+export type StoreSection = 'produce' | 'bakery' | 'dairy' | 'meat' | 'frozen' | 'pantry' | 'spices' | 'other'
+
+/** Sections in the order a typical store is walked */
+export const STORE_SECTIONS: { section: StoreSection; label: string }[] = [
+  { section: 'produce', label: 'Fruit & Vegetables' },
+  { section: 'bakery', label: 'Bread' },
+  { section: 'dairy', label: 'Dairy & Eggs' },
+  { section: 'meat', label: 'Meat & Fish' },
+  { section: 'frozen', label: 'Frozen' },
+  { section: 'pantry', label: 'Pantry' },
+  { section: 'spices', label: 'Spices' },
+  { section: 'other', label: 'Other' },
+]
+
+// English and Swedish ingredient words; a word in the ingredient name must start or end with one
+const SECTION_KEYWORDS: Record<Exclude<StoreSection, 'other'>, string[]> = {
+  produce: [
+    'onion', 'lök', 'garlic', 'potato', 'potatis', 'carrot', 'morot', 'morötter', 'tomato', 'tomat', 'lemon', 'citron',
+    'lime', 'apple', 'äpple', 'banana', 'banan', 'lettuce', 'sallad', 'spinach', 'spenat', 'parsley', 'persilja',
+    'dill', 'basil', 'basilika', 'coriander', 'cilantro', 'koriander', 'bell pepper', 'paprika', 'cucumber', 'gurka',
+    'mushroom', 'svamp', 'champinjon', 'ginger', 'ingefära', 'celery', 'selleri', 'leek', 'purjo', 'avocado',
+    'berries', 'bär', 'zucchini', 'squash', 'cabbage', 'kål', 'broccoli', 'cauliflower', 'orange', 'apelsin',
+    'eggplant', 'aubergine', 'pumpkin', 'pumpa', 'pear', 'päron', 'rhubarb', 'rabarber', 'chives', 'gräslök',
+  ],
+  bakery: ['bread', 'bröd', 'bun', 'bulle', 'baguette', 'tortilla', 'pita', 'rolls', 'limpa'],
+  dairy: [
+    'milk', 'mjölk', 'cream', 'grädde', 'butter', 'smör', 'cheese', 'ost', 'parmesan', 'mozzarella', 'feta',
+    'yogurt', 'yoghurt', 'egg', 'eggs', 'ägg', 'crème fraiche', 'creme fraiche', 'gräddfil', 'sour cream', 'kvarg',
+    'quark', 'filmjölk', 'cottage cheese', 'keso',
+  ],
+  meat: [
+    'chicken', 'kyckling', 'beef', 'nötkött', 'pork', 'fläsk', 'bacon', 'ham', 'skinka', 'mince', 'färs', 'sausage',
+    'korv', 'fish', 'fisk', 'salmon', 'lax', 'cod', 'torsk', 'shrimp', 'prawns', 'räkor', 'lamb', 'lamm', 'tuna',
+    'tonfisk', 'turkey', 'kalkon',
+  ],
+  frozen: ['frozen', 'fryst', 'frysta', 'ice cream', 'glass'],
+  pantry: [
+    'flour', 'mjöl', 'sugar', 'socker', 'rice', 'ris', 'pasta', 'spaghetti', 'noodles', 'nudlar', 'oil', 'olja',
+    'vinegar', 'vinäger', 'ättika', 'baking powder', 'bakpulver', 'baking soda', 'bikarbonat', 'yeast', 'jäst',
+    'oats', 'havregryn', 'stock', 'buljong', 'fond', 'honey', 'honung', 'syrup', 'sirap', 'nuts', 'nötter',
+    'almonds', 'mandel', 'mandlar', 'chocolate', 'choklad', 'cocoa', 'kakao', 'beans', 'bönor', 'lentils', 'linser',
+    'soy sauce', 'soja', 'mustard', 'senap', 'ketchup', 'coconut milk', 'kokosmjölk', 'canned', 'krossade tomater',
+    'raisins', 'russin', 'breadcrumbs', 'ströbröd',
+  ],
+  spices: [
+    'salt', 'pepper', 'peppar', 'cinnamon', 'kanel', 'cardamom', 'kardemumma', 'cumin', 'spiskummin', 'nutmeg',
+    'muskot', 'oregano', 'thyme', 'timjan', 'chili', 'curry', 'vanilla', 'vanilj', 'vaniljsocker', 'bay leaf',
+    'lagerblad', 'cloves', 'nejlika', 'kryddnejlika', 'saffron', 'saffran', 'rosemary', 'rosmarin',
+  ],
+}
+
+/**
+ * Guesses the store section of an ingredient from its name. The longest matching keyword wins, so
+ * "kokosmjölk" is pantry rather than dairy and "black pepper" spices rather than vegetables.
+ */
+export function storeSectionFor(name: string): StoreSection {
+  const lower = name.toLowerCase()
+  const words = lower.split(/[^\p{L}]+/u).filter(Boolean)
+  let best: { section: StoreSection; length: number } = { section: 'other', length: 0 }
+
+  for (const [section, keywords] of Object.entries(SECTION_KEYWORDS) as [StoreSection, string[]][]) {
+    for (const keyword of keywords) {
+      const matches = keyword.includes(' ')
+        ? lower.includes(keyword)
+        : words.some(word => word.startsWith(keyword) || word.endsWith(keyword))
+      if (matches && keyword.length > best.length) best = { section, length: keyword.length }
+    }
+  }
+  return best.section
+}
+
+export interface ShoppingListItem {
+  /** Stable across reloads while the same recipes are on the list, so checked items stay checked */
+  key: string
+  name: string
+  section: StoreSection
+  /** One entry per amount that couldn't be added to the others, e.g. ["300 g", "2"]; empty when none is given */
+  amounts: string[]
+  recipeTitles: string[]
+}
+
+export function scaledIngredients(recipe: ShoppingListRecipe): Ingredient[] {
+  const factor = recipe.baseServings && recipe.servings ? recipe.servings / recipe.baseServings : 1
+  return recipe.ingredients.map(ingredient => scaleIngredient(ingredient, factor))
+}
+
+/**
+ * Combines the ingredients of every recipe into one list. Lines for the same ingredient are merged by canonical
+ * name, and their amounts added up where the units allow; lines that were never parsed are listed as written.
+ */
+export function buildShoppingList(recipes: ShoppingListRecipe[], unitSystem: UnitSystem): ShoppingListItem[] {
+  const items = new Map<string, ShoppingListItem & { parts: Ingredient[] }>()
+
+  for (const recipe of recipes) {
+    for (const ingredient of scaledIngredients(recipe)) {
+      const name = ingredient.canonicalName ?? ingredient.name ?? ingredient.freeText
+      if (!name.trim()) continue
+      const key = name.trim().toLowerCase()
+      const item = items.get(key) ?? {
+        key,
+        name: (ingredient.name ?? ingredient.freeText).trim(),
+        section: storeSectionFor(name),
+        amounts: [],
+        recipeTitles: [],
+        parts: [],
+      }
+      // An unparsed line is its own amount and name, so there is nothing to add up
+      if (ingredient.name) item.parts.push(convertIngredient(ingredient, unitSystem))
+      if (!item.recipeTitles.includes(recipe.title)) item.recipeTitles.push(recipe.title)
+      items.set(key, item)
+    }
+  }
+
+  return [...items.values()].map(({ parts, ...item }) => {
+    const totals: Ingredient[] = []
+    for (const part of parts) {
+      const index = totals.findIndex(total => addIngredientAmounts(total, part) !== null)
+      if (index >= 0) totals[index] = addIngredientAmounts(totals[index], part)!
+      else totals.push(part)
+    }
+    const amounts = totals.map(formatQuantity).filter((amount): amount is string => amount !== null)
+    return { ...item, amounts: [...new Set(amounts)] }
+  })
+}
+
+export function formatShoppingListItem(item: ShoppingListItem): string {
+  return item.amounts.length > 0 ? `${item.amounts.join(' + ')} ${item.name}` : item.name
+}
+
+/** The items not yet checked off, grouped by section, as text to paste into a message */
+export function shoppingListToText(items: ShoppingListItem[], checked: ReadonlySet<string>): string {
+  const sections = STORE_SECTIONS.map(({ section, label }) => {
+    const lines = items
+      .filter(item => item.section === section && !checked.has(item.key))
+      .map(item => `- ${formatShoppingListItem(item)}`)
+    return lines.length > 0 ? `${label}\n${lines.join('\n')}` : ''
+  }).filter(Boolean)
+  return sections.length > 0 ? `Shopping list\n\n${sections.join('\n\n')}\n` : ''
+}
+
+export function toShoppingListRecipe(recipe: Recipe, servings?: number | null): ShoppingListRecipe {
+  return {
+    id: recipe.id,
+    title: recipe.title,
+    baseServings: recipe.servings ?? undefined,
+    servings: servings ?? recipe.servings ?? undefined,
+    ingredients: [...recipe.ingredients].sort((a, b) => a.position - b.position),
+  }
+}
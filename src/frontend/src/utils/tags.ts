@@ -0,0 +1,34 @@
+/**
+ * Mirrors the backend TagNormalizer: trimmed and lowercased.
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().toLowerCase()
+}
+
+/**
+ * Splits a comma-separated tag input into normalized, de-duplicated tags.
+ */
+export function parseTagList(input: string): string[] {
+  const tags = input
+    .split(',')
+    .map(normalizeTag)
+    .filter(t => t.length > 0)
+  return [...new Set(tags)]
+}
+
+// The backend accepts 2-50 lowercase letters (including äåö), digits and hyphens
+const TAG_PATTERN = /^[a-zäåö0-9-]{2,50}$/
+
+/**
+ * Turns a free-form label such as "Main Course" or "Crème brûlée" into a tag the backend accepts
+ * ("main-course", "creme-brulee"), or undefined if nothing usable is left.
+ */
+export function toTag(label: string): string | undefined {
+  const tag = Array.from(normalizeTag(label))
+    // Keep the Swedish letters, strip other accents
+    .map(char => ('äåö'.includes(char) ? char : char.normalize('NFD').replace(/[\u0300-\u036f]/g, '')))
+    .join('')
+    .replace(/[^a-zäåö0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+  return TAG_PATTERN.test(tag) ? tag : undefined
+}
@@ -0,0 +1,50 @@
+export interface FoundDuration {
+  /** Character range of the duration in the text */
+  start: number
+  end: number
+  /** For a range such as "10–12 min" this is the lower bound, so the cook checks early rather than late */
+  seconds: number
+  text: string
+}
+
+const NUMBER = String.raw`\d+(?:[.,]\d+)?(?:\s?½)?|½`
+const UNIT = String.raw`seconds?|secs?|sekunder|sek|minutes?|minuter|mins?|hours?|hrs?|h|timmar|timme|tim`
+// "25 minutes", "10-12 min", "1 h 30 min", "1 timme och 15 minuter"
+const DURATION_PATTERN = new RegExp(
+  String.raw`(${NUMBER})(?:\s*(?:-|–|—|to|till)\s*(?:${NUMBER}))?\s*(${UNIT})\b` +
+    String.raw`(?:\s*(?:and|och)?\s*(\d+)\s*(?:minutes?|minuter|mins?)\b)?`,
+  'gi'
+)
+
+const unitSeconds = (unit: string) => {
+  const lower = unit.toLowerCase()
+  if (lower.startsWith('s')) return 1
+  if (lower.startsWith('h') || lower.startsWith('t')) return 3600
+  return 60
+}
+
+// "1½" and "1 ½" are one and a half
+const parseNumber = (text: string) => {
+  const whole = text.replace('½', '').trim()
+  return (whole ? Number(whole.replace(',', '.')) : 0) + (text.includes('½') ? 0.5 : 0)
+}
+
+/**
+ * Finds cooking durations in English or Swedish recipe text ("bake 25 minutes", "koka i 10 min").
+ */
+export function findDurations(text: string): FoundDuration[] {
+  return Array.from(text.matchAll(DURATION_PATTERN), match => {
+    const [matched, amount, unit, extraMinutes] = match
+    const seconds = Math.round(parseNumber(amount) * unitSeconds(unit) + (extraMinutes ? Number(extraMinutes) * 60 : 0))
+    return { start: match.index ?? 0, end: (match.index ?? 0) + matched.length, seconds, text: matched }
+  }).filter(duration => duration.seconds > 0)
+}
+
+/** Formats a countdown as "4:05" or "1:02:30" */
+export function formatCountdown(totalSeconds: number): string {
+  const seconds = Math.max(0, Math.ceil(totalSeconds))
+  const hours = Math.floor(seconds / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+  const rest = String(seconds % 60).padStart(2, '0')
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${rest}` : `${minutes}:${rest}`
+}
@@ -0,0 +1,133 @@
+import type { Ingredient } from '../types'
+
+/** "original" shows amounts exactly as the recipe was written */
+export type UnitSystem = 'original' | 'metric' | 'imperial'
+
+type Dimension = 'volume' | 'weight'
+
+interface UnitDefinition {
+  dimension: Dimension
+  system: Exclude<UnitSystem, 'original'>
+  /** Size of one unit in millilitres (volume) or grams (weight) */
+  size: number
+}
+
+// Keys are the canonical abbreviations produced by the backend ingredient parser
+const UNITS: Record<string, UnitDefinition> = {
+  krm: { dimension: 'volume', system: 'metric', size: 1 },
+  ml: { dimension: 'volume', system: 'metric', size: 1 },
+  tsk: { dimension: 'volume', system: 'metric', size: 5 },
+  cl: { dimension: 'volume', system: 'metric', size: 10 },
+  msk: { dimension: 'volume', system: 'metric', size: 15 },
+  dl: { dimension: 'volume', system: 'metric', size: 100 },
+  l: { dimension: 'volume', system: 'metric', size: 1000 },
+  g: { dimension: 'weight', system: 'metric', size: 1 },
+  hg: { dimension: 'weight', system: 'metric', size: 100 },
+  kg: { dimension: 'weight', system: 'metric', size: 1000 },
+  tsp: { dimension: 'volume', system: 'imperial', size: 4.93 },
+  tbsp: { dimension: 'volume', system: 'imperial', size: 14.79 },
+  'fl oz': { dimension: 'volume', system: 'imperial', size: 29.57 },
+  cup: { dimension: 'volume', system: 'imperial', size: 236.59 },
+  oz: { dimension: 'weight', system: 'imperial', size: 28.35 },
+  lb: { dimension: 'weight', system: 'imperial', size: 453.59 },
+}
+
+// Target units from largest to smallest, each used from the given base amount upwards.
+// Swedish kitchens measure volume in dl/msk/tsk/krm rather than ml.
+const TARGET_UNITS: Record<Exclude<UnitSystem, 'original'>, Record<Dimension, [string, number][]>> = {
+  metric: {
+    volume: [['l', 1000], ['dl', 50], ['msk', 15], ['tsk', 5], ['krm', 0]],
+    weight: [['kg', 1000], ['g', 0]],
+  },
+  imperial: {
+    volume: [['cup', 59], ['tbsp', 14.79], ['tsp', 0]],
+    weight: [['lb', 453.59], ['oz', 0]],
+  },
+}
+
+/**
+ * Converts an ingredient's amount to the given unit system, picking the unit a cook would use for that amount.
+ * Ingredients without a quantity, with a count-like unit (st, pinch) or already in that system are returned as-is.
+ */
+export function convertIngredient(ingredient: Ingredient, system: UnitSystem): Ingredient {
+  const unit = ingredient.unit ? UNITS[ingredient.unit] : undefined
+  if (system === 'original' || ingredient.quantity == null || !unit || unit.system === system) {
+    return ingredient
+  }
+
+  const baseAmount = ingredient.quantity * unit.size
+  const [targetUnit] = TARGET_UNITS[system][unit.dimension].find(([, minimum]) => baseAmount >= minimum)!
+  const targetSize = UNITS[targetUnit].size
+
+  return {
+    ...ingredient,
+    quantity: baseAmount / targetSize,
+    quantityMax: ingredient.quantityMax != null ? (ingredient.quantityMax * unit.size) / targetSize : undefined,
+    unit: targetUnit,
+  }
+}
+
+/**
+ * Adds two amounts of the same ingredient, e.g. for a shopping list. Amounts in the same unit are added as they are;
+ * volumes or weights in different units are added up in the first amount's unit system, in the unit a cook would use
+ * for the total. Returns null when the amounts can't be added, e.g. "2" and "300 g", or when either has no quantity.
+ */
+export function addIngredientAmounts(a: Ingredient, b: Ingredient): Ingredient | null {
+  if (a.quantity == null || b.quantity == null) {
+    return null
+  }
+  // A range stays a range: "2–3 dl" plus "1 dl" is "3–4 dl"
+  const hasRange = a.quantityMax != null || b.quantityMax != null
+  const upper = (ingredient: Ingredient) => ingredient.quantityMax ?? ingredient.quantity!
+
+  if (a.unit === b.unit) {
+    return {
+      ...a,
+      quantity: a.quantity + b.quantity,
+      quantityMax: hasRange ? upper(a) + upper(b) : undefined,
+    }
+  }
+
+  const unitA = a.unit ? UNITS[a.unit] : undefined
+  const unitB = b.unit ? UNITS[b.unit] : undefined
+  if (!unitA || !unitB || unitA.dimension !== unitB.dimension) {
+    return null
+  }
+
+  const baseAmount = a.quantity * unitA.size + b.quantity * unitB.size
+  const [targetUnit] = TARGET_UNITS[unitA.system][unitA.dimension].find(([, minimum]) => baseAmount >= minimum)!
+  const targetSize = UNITS[targetUnit].size
+
+  return {
+    ...a,
+    quantity: baseAmount / targetSize,
+    quantityMax: hasRange ? (upper(a) * unitA.size + upper(b) * unitB.size) / targetSize : undefined,
+    unit: targetUnit,
+  }
+}
+
+// "350°F", "180 °C", "200 grader" (Swedish recipes give oven temperatures in Celsius without a symbol)
+const TEMPERATURE_PATTERN = /(\d{2,3})\s*(?:°\s*([CF])\b|(grader)\b)/gi
+
+/**
+ * Rewrites oven temperatures in recipe text to the given unit system.
+ * Fahrenheit is rounded to the nearest 25 and Celsius to the nearest 5, matching common oven dials.
+ */
+export function convertTemperatures(text: string, system: UnitSystem): string {
+  if (system === 'original') {
+    return text
+  }
+
+  return text.replace(TEMPERATURE_PATTERN, (match, degrees: string, scale: string | undefined) => {
+    const isFahrenheit = scale?.toUpperCase() === 'F'
+    const value = Number(degrees)
+
+    if (system === 'metric' && isFahrenheit) {
+      return `${Math.round(((value - 32) * 5) / 9 / 5) * 5}°C`
+    }
+    if (system === 'imperial' && !isFahrenheit) {
+      return `${Math.round(((value * 9) / 5 + 32) / 25) * 25}°F`
+    }
+    return match
+  })
+}
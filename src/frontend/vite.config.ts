@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig, loadEnv } from 'vite'
 import react from '@vitejs/plugin-react'
 
@@ -6,7 +7,8 @@ export default defineConfig(({ mode, command }) => {
   const env = loadEnv(mode, '.', 'VITE_')
   const apiProxyTarget = env.VITE_API_PROXY_TARGET
 
-  if (command === 'serve' && !apiProxyTarget) {
+  // Vitest serves the modules too, but never calls the API
+  if (command === 'serve' && mode !== 'test' && !apiProxyTarget) {
     throw new Error('Missing VITE_API_PROXY_TARGET. Set it in your environment or .env file.')
   }
 
@@ -28,5 +30,11 @@ export default defineConfig(({ mode, command }) => {
       outDir: 'dist',
       sourcemap: true,
     },
+    test: {
+      // The HTML importer reads pages with DOMParser
+      environment: 'jsdom',
+      // A zone with daylight saving time, so date tests cross a clock change
+      env: { TZ: 'Europe/Stockholm' },
+    },
   }
 })